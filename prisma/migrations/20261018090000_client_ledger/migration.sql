@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateTable
+CREATE TABLE "ClientLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "sequence" SERIAL NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "entryType" "LedgerEntryType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "runningBalance" DOUBLE PRECISION NOT NULL,
+    "description" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClientLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClientLedgerEntry_clientId_sequence_idx" ON "ClientLedgerEntry"("clientId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "ClientLedgerEntry_transactionId_idx" ON "ClientLedgerEntry"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "ClientLedgerEntry" ADD CONSTRAINT "ClientLedgerEntry_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientLedgerEntry" ADD CONSTRAINT "ClientLedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientLedgerEntry" ADD CONSTRAINT "ClientLedgerEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: open every existing client's ledger at its current balance so the
+-- statement reproduces Client.balance from day one.
+INSERT INTO "ClientLedgerEntry" ("id", "clientId", "entryType", "amount", "runningBalance", "description", "date")
+SELECT
+    'opening_' || "id",
+    "id",
+    CASE WHEN "balance" < 0 THEN 'DEBIT'::"LedgerEntryType" ELSE 'CREDIT'::"LedgerEntryType" END,
+    ABS("balance"),
+    "balance",
+    'Opening balance',
+    CURRENT_TIMESTAMP
+FROM "Client"
+WHERE "balance" <> 0;
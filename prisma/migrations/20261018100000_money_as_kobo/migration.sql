@@ -0,0 +1,68 @@
+-- Money is stored as integer kobo from here on. Every existing naira value is
+-- multiplied by 100 and rounded, so displayed amounts (kobo / 100) are unchanged.
+
+-- AlterTable
+ALTER TABLE "Product" ALTER COLUMN "unitPrice" SET DATA TYPE BIGINT USING ROUND("unitPrice" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "Client" ALTER COLUMN "balance" DROP DEFAULT,
+ALTER COLUMN "balance" SET DATA TYPE BIGINT USING ROUND("balance" * 100)::BIGINT,
+ALTER COLUMN "balance" SET DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Transaction" ALTER COLUMN "subtotal" DROP DEFAULT,
+ALTER COLUMN "subtotal" SET DATA TYPE BIGINT USING ROUND("subtotal" * 100)::BIGINT,
+ALTER COLUMN "subtotal" SET DEFAULT 0,
+ALTER COLUMN "discount" DROP DEFAULT,
+ALTER COLUMN "discount" SET DATA TYPE BIGINT USING ROUND("discount" * 100)::BIGINT,
+ALTER COLUMN "discount" SET DEFAULT 0,
+ALTER COLUMN "transportFare" DROP DEFAULT,
+ALTER COLUMN "transportFare" SET DATA TYPE BIGINT USING ROUND("transportFare" * 100)::BIGINT,
+ALTER COLUMN "transportFare" SET DEFAULT 0,
+ALTER COLUMN "loadingAndOffloading" DROP DEFAULT,
+ALTER COLUMN "loadingAndOffloading" SET DATA TYPE BIGINT USING ROUND("loadingAndOffloading" * 100)::BIGINT,
+ALTER COLUMN "loadingAndOffloading" SET DEFAULT 0,
+ALTER COLUMN "loading" DROP DEFAULT,
+ALTER COLUMN "loading" SET DATA TYPE BIGINT USING ROUND("loading" * 100)::BIGINT,
+ALTER COLUMN "loading" SET DEFAULT 0,
+ALTER COLUMN "total" DROP DEFAULT,
+ALTER COLUMN "total" SET DATA TYPE BIGINT USING ROUND("total" * 100)::BIGINT,
+ALTER COLUMN "total" SET DEFAULT 0,
+ALTER COLUMN "amountPaid" DROP DEFAULT,
+ALTER COLUMN "amountPaid" SET DATA TYPE BIGINT USING ROUND("amountPaid" * 100)::BIGINT,
+ALTER COLUMN "amountPaid" SET DEFAULT 0,
+ALTER COLUMN "totalRefundedAmount" SET DATA TYPE BIGINT USING ROUND("totalRefundedAmount" * 100)::BIGINT,
+ALTER COLUMN "actualAmountReturned" SET DATA TYPE BIGINT USING ROUND("actualAmountReturned" * 100)::BIGINT,
+ALTER COLUMN "clientBalanceAfterTransaction" SET DATA TYPE BIGINT USING ROUND("clientBalanceAfterTransaction" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "TransactionItem" ALTER COLUMN "unitPrice" SET DATA TYPE BIGINT USING ROUND("unitPrice" * 100)::BIGINT,
+ALTER COLUMN "discount" DROP DEFAULT,
+ALTER COLUMN "discount" SET DATA TYPE BIGINT USING ROUND("discount" * 100)::BIGINT,
+ALTER COLUMN "discount" SET DEFAULT 0,
+ALTER COLUMN "subtotal" SET DATA TYPE BIGINT USING ROUND("subtotal" * 100)::BIGINT,
+ALTER COLUMN "wholesalePrice" SET DATA TYPE BIGINT USING ROUND("wholesalePrice" * 100)::BIGINT,
+ALTER COLUMN "originalUnitPrice" SET DATA TYPE BIGINT USING ROUND("originalUnitPrice" * 100)::BIGINT,
+ALTER COLUMN "currentUnitPrice" SET DATA TYPE BIGINT USING ROUND("currentUnitPrice" * 100)::BIGINT,
+ALTER COLUMN "refundUnitPrice" SET DATA TYPE BIGINT USING ROUND("refundUnitPrice" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "ExtraCharge" ALTER COLUMN "amount" SET DATA TYPE BIGINT USING ROUND("amount" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "ClientLedgerEntry" ALTER COLUMN "amount" SET DATA TYPE BIGINT USING ROUND("amount" * 100)::BIGINT,
+ALTER COLUMN "runningBalance" SET DATA TYPE BIGINT USING ROUND("runningBalance" * 100)::BIGINT;
+
+-- Price history snapshots are JSON; convert their prices the same way.
+UPDATE "Product"
+SET "priceHistory" = (
+    SELECT COALESCE(jsonb_agg(
+        CASE
+            WHEN jsonb_typeof(entry -> 'price') = 'number'
+                THEN jsonb_set(entry, '{price}', to_jsonb(ROUND((entry ->> 'price')::NUMERIC * 100)::BIGINT))
+            ELSE entry
+        END
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements("priceHistory") AS entry
+)
+WHERE jsonb_typeof("priceHistory") = 'array';
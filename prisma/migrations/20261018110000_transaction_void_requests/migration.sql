@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "VoidRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "TransactionVoidRequest" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "VoidRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedById" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransactionVoidRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransactionVoidRequest_transactionId_key" ON "TransactionVoidRequest"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "TransactionVoidRequest" ADD CONSTRAINT "TransactionVoidRequest_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionVoidRequest" ADD CONSTRAINT "TransactionVoidRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionVoidRequest" ADD CONSTRAINT "TransactionVoidRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "StockTransferStatus" AS ENUM ('IN_TRANSIT', 'RECEIVED', 'RECEIVED_WITH_DISCREPANCY', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN     "transferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "StockTransfer" (
+    "id" TEXT NOT NULL,
+    "transferNumber" TEXT NOT NULL,
+    "sourceBranchId" TEXT NOT NULL,
+    "destinationBranchId" TEXT NOT NULL,
+    "status" "StockTransferStatus" NOT NULL DEFAULT 'IN_TRANSIT',
+    "notes" TEXT,
+    "dispatchedById" TEXT NOT NULL,
+    "dispatchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receivedById" TEXT,
+    "receivedAt" TIMESTAMP(3),
+    "receiptNote" TEXT,
+    "cancelReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockTransferItem" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "sourceProductId" TEXT NOT NULL,
+    "destinationProductId" TEXT,
+    "productName" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantitySent" DOUBLE PRECISION NOT NULL,
+    "quantityReceived" DOUBLE PRECISION,
+    "discrepancyNote" TEXT,
+
+    CONSTRAINT "StockTransferItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_transferId_idx" ON "StockMovement"("transferId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockTransfer_transferNumber_key" ON "StockTransfer"("transferNumber");
+
+-- CreateIndex
+CREATE INDEX "StockTransfer_sourceBranchId_status_idx" ON "StockTransfer"("sourceBranchId", "status");
+
+-- CreateIndex
+CREATE INDEX "StockTransfer_destinationBranchId_status_idx" ON "StockTransfer"("destinationBranchId", "status");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "StockTransfer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_sourceBranchId_fkey" FOREIGN KEY ("sourceBranchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_destinationBranchId_fkey" FOREIGN KEY ("destinationBranchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_dispatchedById_fkey" FOREIGN KEY ("dispatchedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_receivedById_fkey" FOREIGN KEY ("receivedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferItem" ADD CONSTRAINT "StockTransferItem_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "StockTransfer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferItem" ADD CONSTRAINT "StockTransferItem_sourceProductId_fkey" FOREIGN KEY ("sourceProductId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferItem" ADD CONSTRAINT "StockTransferItem_destinationProductId_fkey" FOREIGN KEY ("destinationProductId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "costPrice" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "TransactionItem" ADD COLUMN     "unitCost" BIGINT;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "TransactionItem" ADD COLUMN     "conversionFactor" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "UnitConversion" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "productId" TEXT,
+    "fromUnit" TEXT NOT NULL,
+    "toUnit" TEXT NOT NULL,
+    "factor" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UnitConversion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UnitConversion_categoryId_fromUnit_toUnit_key" ON "UnitConversion"("categoryId", "fromUnit", "toUnit");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UnitConversion_productId_fromUnit_toUnit_key" ON "UnitConversion"("productId", "fromUnit", "toUnit");
+
+-- AddForeignKey
+ALTER TABLE "UnitConversion" ADD CONSTRAINT "UnitConversion_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnitConversion" ADD CONSTRAINT "UnitConversion_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
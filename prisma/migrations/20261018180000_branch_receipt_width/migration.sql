@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "receiptWidth" INTEGER NOT NULL DEFAULT 80;
@@ -0,0 +1,85 @@
+-- CreateEnum
+CREATE TYPE "PaymentPlanFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "PaymentPlanStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "PaymentPlan" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "principal" BIGINT NOT NULL,
+    "interestRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "interest" BIGINT NOT NULL DEFAULT 0,
+    "totalPayable" BIGINT NOT NULL,
+    "amountPaid" BIGINT NOT NULL DEFAULT 0,
+    "frequency" "PaymentPlanFrequency" NOT NULL,
+    "status" "PaymentPlanStatus" NOT NULL DEFAULT 'ACTIVE',
+    "notes" TEXT,
+    "cancelReason" TEXT,
+    "createdById" TEXT NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentPlanInstallment" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "amountPaid" BIGINT NOT NULL DEFAULT 0,
+    "paidAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentPlanInstallment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentPlanAllocation" (
+    "id" TEXT NOT NULL,
+    "installmentId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentPlanAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentPlan_clientId_status_idx" ON "PaymentPlan"("clientId", "status");
+
+-- CreateIndex
+CREATE INDEX "PaymentPlan_transactionId_idx" ON "PaymentPlan"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "PaymentPlanInstallment_dueDate_idx" ON "PaymentPlanInstallment"("dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentPlanInstallment_planId_sequence_key" ON "PaymentPlanInstallment"("planId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "PaymentPlanAllocation_transactionId_idx" ON "PaymentPlanAllocation"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentPlan" ADD CONSTRAINT "PaymentPlan_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentPlan" ADD CONSTRAINT "PaymentPlan_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentPlan" ADD CONSTRAINT "PaymentPlan_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentPlanInstallment" ADD CONSTRAINT "PaymentPlanInstallment_planId_fkey" FOREIGN KEY ("planId") REFERENCES "PaymentPlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentPlanAllocation" ADD CONSTRAINT "PaymentPlanAllocation_installmentId_fkey" FOREIGN KEY ("installmentId") REFERENCES "PaymentPlanInstallment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentPlanAllocation" ADD CONSTRAINT "PaymentPlanAllocation_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
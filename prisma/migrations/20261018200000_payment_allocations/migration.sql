@@ -0,0 +1,125 @@
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "allocatedAmount" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentAllocation" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_transactionId_key" ON "Payment"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "Payment_clientId_idx" ON "Payment"("clientId");
+
+-- CreateIndex
+CREATE INDEX "PaymentAllocation_paymentId_idx" ON "PaymentAllocation"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "PaymentAllocation_transactionId_idx" ON "PaymentAllocation"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentAllocation" ADD CONSTRAINT "PaymentAllocation_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentAllocation" ADD CONSTRAINT "PaymentAllocation_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentAllocation" ADD CONSTRAINT "PaymentAllocation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing deposits become payments
+INSERT INTO "Payment" ("id", "transactionId", "clientId", "amount", "updatedAt")
+SELECT 'pay_' || "id", "id", "clientId", "amountPaid", CURRENT_TIMESTAMP
+FROM "Transaction"
+WHERE "type" = 'DEPOSIT' AND "clientId" IS NOT NULL AND "status" <> 'CANCELLED';
+
+-- Backfill: allocate each client's deposits, oldest first, to their oldest
+-- outstanding invoices, as PaymentsService.allocate does. Both sides are laid
+-- end to end as running totals and every overlap becomes an allocation,
+-- dated when both the deposit and the invoice existed.
+WITH "deposits" AS (
+    SELECT
+        p."id",
+        p."clientId",
+        p."amount",
+        COALESCE(t."date", t."createdAt") AS "paidAt",
+        SUM(p."amount") OVER (
+            PARTITION BY p."clientId"
+            ORDER BY COALESCE(t."date", t."createdAt"), t."createdAt", p."id"
+        ) - p."amount" AS "start"
+    FROM "Payment" p
+    JOIN "Transaction" t ON t."id" = p."transactionId"
+    WHERE p."amount" > 0
+),
+"invoices" AS (
+    SELECT
+        "id",
+        "clientId",
+        "total" - "amountPaid" AS "outstanding",
+        COALESCE("date", "createdAt") AS "issuedAt",
+        SUM("total" - "amountPaid") OVER (
+            PARTITION BY "clientId"
+            ORDER BY "date", "createdAt", "id"
+        ) - ("total" - "amountPaid") AS "start"
+    FROM "Transaction"
+    WHERE "type" IN ('PURCHASE', 'WHOLESALE')
+      AND "status" <> 'CANCELLED'
+      AND "clientId" IS NOT NULL
+      AND "amountPaid" < "total"
+)
+INSERT INTO "PaymentAllocation" ("id", "paymentId", "transactionId", "amount", "createdAt")
+SELECT
+    'alloc_' || d."id" || '_' || i."id",
+    d."id",
+    i."id",
+    LEAST(d."start" + d."amount", i."start" + i."outstanding") - GREATEST(d."start", i."start"),
+    GREATEST(d."paidAt", i."issuedAt")
+FROM "deposits" d
+JOIN "invoices" i ON i."clientId" = d."clientId"
+WHERE LEAST(d."start" + d."amount", i."start" + i."outstanding") > GREATEST(d."start", i."start");
+
+UPDATE "Payment" p SET "allocatedAmount" = a."allocated"
+FROM (
+    SELECT "paymentId", SUM("amount") AS "allocated"
+    FROM "PaymentAllocation"
+    GROUP BY "paymentId"
+) a
+WHERE a."paymentId" = p."id";
+
+UPDATE "Transaction" t SET "amountPaid" = t."amountPaid" + a."allocated"
+FROM (
+    SELECT "transactionId", SUM("amount") AS "allocated"
+    FROM "PaymentAllocation"
+    GROUP BY "transactionId"
+) a
+WHERE a."transactionId" = t."id";
+
+-- Backfill: PENDING now means a sale still has money owing on it
+UPDATE "Transaction" SET "status" = 'PENDING'
+WHERE "type" IN ('PURCHASE', 'WHOLESALE') AND "status" = 'COMPLETED' AND "amountPaid" < "total";
+
+UPDATE "Transaction" SET "status" = 'COMPLETED'
+WHERE "type" IN ('PURCHASE', 'WHOLESALE') AND "status" = 'PENDING' AND "amountPaid" >= "total";
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "creditHold" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "creditHoldAt" TIMESTAMP(3),
+ADD COLUMN     "creditHoldReason" TEXT,
+ADD COLUMN     "creditLimit" BIGINT,
+ADD COLUMN     "paymentTermsDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "creditOverrideById" TEXT,
+ADD COLUMN     "creditOverrideReason" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_creditOverrideById_fkey" FOREIGN KEY ("creditOverrideById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
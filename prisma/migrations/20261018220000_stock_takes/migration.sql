@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "StockTakeStatus" AS ENUM ('OPEN', 'APPROVED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN     "stockTakeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "StockTake" (
+    "id" TEXT NOT NULL,
+    "stockTakeNumber" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "status" "StockTakeStatus" NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "startedById" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "approvedById" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "adjustmentReason" TEXT,
+    "varianceValue" BIGINT,
+    "cancelReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockTake_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockTakeItem" (
+    "id" TEXT NOT NULL,
+    "stockTakeId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productName" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "unitPrice" BIGINT NOT NULL,
+    "snapshotStock" DOUBLE PRECISION NOT NULL,
+    "countedQuantity" DOUBLE PRECISION,
+    "countedById" TEXT,
+    "countedAt" TIMESTAMP(3),
+    "note" TEXT,
+
+    CONSTRAINT "StockTakeItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_stockTakeId_idx" ON "StockMovement"("stockTakeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockTake_stockTakeNumber_key" ON "StockTake"("stockTakeNumber");
+
+-- CreateIndex
+CREATE INDEX "StockTake_branchId_status_idx" ON "StockTake"("branchId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockTakeItem_stockTakeId_productId_key" ON "StockTakeItem"("stockTakeId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_stockTakeId_fkey" FOREIGN KEY ("stockTakeId") REFERENCES "StockTake"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTake" ADD CONSTRAINT "StockTake_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTake" ADD CONSTRAINT "StockTake_startedById_fkey" FOREIGN KEY ("startedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTake" ADD CONSTRAINT "StockTake_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTakeItem" ADD CONSTRAINT "StockTakeItem_stockTakeId_fkey" FOREIGN KEY ("stockTakeId") REFERENCES "StockTake"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTakeItem" ADD CONSTRAINT "StockTakeItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTakeItem" ADD CONSTRAINT "StockTakeItem_countedById_fkey" FOREIGN KEY ("countedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PurchaseOrderStatus" ADD VALUE 'DRAFT' BEFORE 'OPEN';
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'BANK_TRANSFER', 'POS', 'CHEQUE', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "TransactionPayment" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "reference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TransactionPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionPayment_transactionId_idx" ON "TransactionPayment"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "TransactionPayment_method_createdAt_idx" ON "TransactionPayment"("method", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TransactionPayment" ADD CONSTRAINT "TransactionPayment_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one tender per existing payment, typed from the free-text method.
+-- Money allocated from a later deposit is already a tender on that deposit.
+INSERT INTO "TransactionPayment" ("id", "transactionId", "method", "amount", "createdAt")
+SELECT
+    'tender_' || t."id",
+    t."id",
+    CASE
+        WHEN LOWER(COALESCE(t."paymentMethod", '')) LIKE '%cash%' THEN 'CASH'::"PaymentMethod"
+        WHEN LOWER(COALESCE(t."paymentMethod", '')) ~ '(transfer|bank)' THEN 'BANK_TRANSFER'::"PaymentMethod"
+        WHEN LOWER(COALESCE(t."paymentMethod", '')) ~ '(^pos|card)' THEN 'POS'::"PaymentMethod"
+        WHEN LOWER(COALESCE(t."paymentMethod", '')) ~ '(cheque|check)' THEN 'CHEQUE'::"PaymentMethod"
+        ELSE 'OTHER'::"PaymentMethod"
+    END,
+    t."amountPaid" - COALESCE(a."allocated", 0),
+    COALESCE(t."date", t."createdAt")
+FROM "Transaction" t
+LEFT JOIN (
+    SELECT "transactionId", SUM("amount") AS "allocated"
+    FROM "PaymentAllocation"
+    GROUP BY "transactionId"
+) a ON a."transactionId" = t."id"
+WHERE t."type" <> 'RETURN'
+  AND t."amountPaid" - COALESCE(a."allocated", 0) > 0;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "RegisterSessionStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "registerSessionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "TransactionPayment" ADD COLUMN     "registerSessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RegisterSession" (
+    "id" TEXT NOT NULL,
+    "sessionNumber" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "RegisterSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "openingFloat" BIGINT NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "openingNotes" TEXT,
+    "closedById" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "expectedCash" BIGINT,
+    "countedCash" BIGINT,
+    "overShort" BIGINT,
+    "closingNotes" TEXT,
+    "zReport" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RegisterSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionPayment_registerSessionId_idx" ON "TransactionPayment"("registerSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RegisterSession_sessionNumber_key" ON "RegisterSession"("sessionNumber");
+
+-- CreateIndex
+CREATE INDEX "RegisterSession_userId_status_idx" ON "RegisterSession"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "RegisterSession_branchId_openedAt_idx" ON "RegisterSession"("branchId", "openedAt");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_registerSessionId_fkey" FOREIGN KEY ("registerSessionId") REFERENCES "RegisterSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionPayment" ADD CONSTRAINT "TransactionPayment_registerSessionId_fkey" FOREIGN KEY ("registerSessionId") REFERENCES "RegisterSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegisterSession" ADD CONSTRAINT "RegisterSession_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegisterSession" ADD CONSTRAINT "RegisterSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegisterSession" ADD CONSTRAINT "RegisterSession_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "BankStatementLineStatus" AS ENUM ('UNMATCHED', 'SUGGESTED', 'MATCHED', 'IGNORED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reconciledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "TransactionPayment" ADD COLUMN     "reconciledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "BankStatement" (
+    "id" TEXT NOT NULL,
+    "statementNumber" TEXT NOT NULL,
+    "bankName" TEXT,
+    "accountNumber" TEXT,
+    "branchId" TEXT,
+    "fileName" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "importedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankStatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankStatementLine" (
+    "id" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "narration" TEXT NOT NULL,
+    "reference" TEXT,
+    "fingerprint" TEXT NOT NULL,
+    "status" "BankStatementLineStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "tenderId" TEXT,
+    "matchScore" INTEGER,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankStatementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatement_statementNumber_key" ON "BankStatement"("statementNumber");
+
+-- CreateIndex
+CREATE INDEX "BankStatement_branchId_createdAt_idx" ON "BankStatement"("branchId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementLine_fingerprint_key" ON "BankStatementLine"("fingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementLine_tenderId_key" ON "BankStatementLine"("tenderId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_statementId_idx" ON "BankStatementLine"("statementId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_status_date_idx" ON "BankStatementLine"("status", "date");
+
+-- AddForeignKey
+ALTER TABLE "BankStatement" ADD CONSTRAINT "BankStatement_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatement" ADD CONSTRAINT "BankStatement_importedById_fkey" FOREIGN KEY ("importedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "BankStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_tenderId_fkey" FOREIGN KEY ("tenderId") REFERENCES "TransactionPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "ExpenseStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "ExpenseCategory" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExpenseCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Expense" (
+    "id" TEXT NOT NULL,
+    "expenseNumber" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "method" "PaymentMethod" NOT NULL DEFAULT 'CASH',
+    "payee" TEXT,
+    "description" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "status" "ExpenseStatus" NOT NULL DEFAULT 'PENDING',
+    "receiptUrl" TEXT,
+    "receiptMeta" JSONB,
+    "registerSessionId" TEXT,
+    "recordedById" TEXT NOT NULL,
+    "approvedById" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Expense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseCategory_name_key" ON "ExpenseCategory"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Expense_expenseNumber_key" ON "Expense"("expenseNumber");
+
+-- CreateIndex
+CREATE INDEX "Expense_branchId_date_idx" ON "Expense"("branchId", "date");
+
+-- CreateIndex
+CREATE INDEX "Expense_registerSessionId_idx" ON "Expense"("registerSessionId");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_registerSessionId_fkey" FOREIGN KEY ("registerSessionId") REFERENCES "RegisterSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Default categories
+INSERT INTO "ExpenseCategory" ("id", "name", "description", "updatedAt") VALUES
+    ('expcat_fuel', 'Fuel', 'Fuel for generators and delivery vehicles', CURRENT_TIMESTAMP),
+    ('expcat_offloading', 'Offloading Labour', 'Labourers paid to load and offload goods', CURRENT_TIMESTAMP),
+    ('expcat_sundries', 'Sundries', 'Small day-to-day purchases', CURRENT_TIMESTAMP);
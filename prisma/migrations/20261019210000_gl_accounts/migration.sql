@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "GlAccountRole" AS ENUM ('SALES', 'RECEIVABLES', 'CASH', 'BANK', 'INVENTORY', 'COGS', 'TRANSPORT_INCOME');
+
+-- CreateTable
+CREATE TABLE "GlAccount" (
+    "id" TEXT NOT NULL,
+    "role" "GlAccountRole" NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GlAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GlAccount_role_key" ON "GlAccount"("role");
+
+-- AddForeignKey
+ALTER TABLE "GlAccount" ADD CONSTRAINT "GlAccount_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Default chart of accounts; codes and names can be changed to match the accounting package
+INSERT INTO "GlAccount" ("id", "role", "code", "name", "updatedAt") VALUES
+    ('glacct_cash', 'CASH', '1000', 'Cash on Hand', CURRENT_TIMESTAMP),
+    ('glacct_bank', 'BANK', '1010', 'Bank', CURRENT_TIMESTAMP),
+    ('glacct_receivables', 'RECEIVABLES', '1100', 'Accounts Receivable', CURRENT_TIMESTAMP),
+    ('glacct_inventory', 'INVENTORY', '1200', 'Inventory', CURRENT_TIMESTAMP),
+    ('glacct_sales', 'SALES', '4000', 'Sales', CURRENT_TIMESTAMP),
+    ('glacct_transport_income', 'TRANSPORT_INCOME', '4100', 'Transport Income', CURRENT_TIMESTAMP),
+    ('glacct_cogs', 'COGS', '5000', 'Cost of Goods Sold', CURRENT_TIMESTAMP);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Product" ALTER COLUMN "costPrice" DROP NOT NULL,
+ALTER COLUMN "costPrice" DROP DEFAULT;
+
+-- Products that were never costed defaulted to 0; their cost is unknown
+UPDATE "Product" SET "costPrice" = NULL WHERE "costPrice" = 0;
+
+-- Sale lines snapshotted from those products carry the same unknown cost
+UPDATE "TransactionItem" SET "unitCost" = NULL WHERE "unitCost" = 0;
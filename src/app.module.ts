@@ -1,11 +1,22 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppService } from './app.service';
 import { AppController } from './app.controller';
 import { PrismaModule } from './prisma/prisma.module';
 import { SeedModule } from './modules/seed/seed.module';
 import { ReportsModule } from './modules/reports/reports.module';
 import { TransactionsModule } from './modules/transactions/transactions.module';
+import { StockTransfersModule } from './modules/stock-transfers/stock-transfers.module';
+import { StockTakesModule } from './modules/stock-takes/stock-takes.module';
+import { RegisterSessionsModule } from './modules/register-sessions/register-sessions.module';
+import { BankReconciliationModule } from './modules/bank-reconciliation/bank-reconciliation.module';
+import { ExpensesModule } from './modules/expenses/expenses.module';
+import { AccountingModule } from './modules/accounting/accounting.module';
+import { SuppliersModule } from './modules/suppliers/suppliers.module';
+import { PriceListsModule } from './modules/price-lists/price-lists.module';
+import { PaymentPlansModule } from './modules/payment-plans/payment-plans.module';
+import { ImportsModule } from './modules/imports/imports.module';
 import { ClientsModule } from './modules/clients/clients.module';
 import { ProductsModule } from './modules/products/products.module';
 import { CategoriesModule } from './modules/categories/categories.module';
@@ -27,6 +38,7 @@ import { NotificationsModule } from './modules/notifications/notifications.modul
       isGlobal: true,
       load: [jwtConfig],
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
     UsersModule,
     AuthModule,
@@ -35,6 +47,16 @@ import { NotificationsModule } from './modules/notifications/notifications.modul
     ProductsModule,
     ClientsModule,
     TransactionsModule,
+    StockTransfersModule,
+    StockTakesModule,
+    RegisterSessionsModule,
+    BankReconciliationModule,
+    ExpensesModule,
+    AccountingModule,
+    SuppliersModule,
+    PriceListsModule,
+    PaymentPlansModule,
+    ImportsModule,
     ReportsModule,
     SeedModule,
     SystemActivityLogModule,
@@ -0,0 +1,148 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  StreamableFile,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, mergeMap } from 'rxjs';
+import { ColumnSettingsService } from '../../modules/column-settings/services/column-settings.service';
+import { CsvUtils, CsvValue } from '../utils/csv.utils';
+import { SpreadsheetUtils } from '../utils/spreadsheet.utils';
+
+export const EXPORT_KEY = 'export';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+export interface ExportOptions {
+  /** Column settings table name, also used for the file name. */
+  table: string;
+  /**
+   * Where the rows are in the JSON response: a property name, or a function
+   * of the response and query. Defaults to the response itself; an object
+   * response becomes a single row.
+   */
+  rows?: string | ((result: any, query: Record<string, any>) => any[]);
+}
+
+/**
+ * Turns the JSON response of an @Exportable route into a CSV or XLSX
+ * download when the request has `?format=csv` or `?format=xlsx`. Nested
+ * objects become dotted columns (e.g. `clientId.name`), arrays of objects
+ * are left out, and the user's saved column settings for the table pick and
+ * order the columns.
+ */
+@Injectable()
+export class ExportInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly columnSettingsService: ColumnSettingsService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+    const options = this.reflector.get<ExportOptions>(
+      EXPORT_KEY,
+      context.getHandler(),
+    );
+    const format = request.query?.format;
+    if (!options || !format) return next.handle();
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new BadRequestException(
+        `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+
+    const response = context.switchToHttp().getResponse();
+    return next
+      .handle()
+      .pipe(
+        mergeMap((result) =>
+          this.export(result, format, options, request, response),
+        ),
+      );
+  }
+
+  private async export(
+    result: any,
+    format: string,
+    options: ExportOptions,
+    request: any,
+    response: any,
+  ): Promise<StreamableFile> {
+    const source =
+      typeof options.rows === 'function'
+        ? options.rows(result, request.query)
+        : options.rows
+          ? result?.[options.rows]
+          : result;
+    const records = (Array.isArray(source) ? source : [source])
+      .filter((record) => record !== null && record !== undefined)
+      .map((record) => this.flatten(record));
+
+    const columns = await this.resolveColumns(
+      records,
+      request.user?.userId,
+      options.table,
+    );
+    const rows = records.map((record) => columns.map((c) => record[c]));
+
+    const filename = `${options.table}-${new Date().toISOString().split('T')[0]}.${format}`;
+    const buffer =
+      format === 'csv'
+        ? Buffer.from(CsvUtils.toCsv(columns, rows), 'utf-8')
+        : await SpreadsheetUtils.toXlsx(options.table, columns, rows);
+    response.set({
+      'Content-Type':
+        format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
+  /** Saved columns that exist in the data, else every column in first-seen order. */
+  private async resolveColumns(
+    records: Record<string, CsvValue>[],
+    userId: string | undefined,
+    table: string,
+  ): Promise<string[]> {
+    const available = [...new Set(records.flatMap((r) => Object.keys(r)))];
+    const saved = userId
+      ? await this.columnSettingsService.findSavedColumns(userId, table)
+      : null;
+    const chosen = (saved || []).filter((c) => available.includes(c));
+    return chosen.length > 0 ? chosen : available;
+  }
+
+  private flatten(
+    value: any,
+    prefix = '',
+    out: Record<string, CsvValue> = {},
+  ): Record<string, CsvValue> {
+    if (typeof value !== 'object' || value instanceof Date) {
+      out[prefix || 'value'] = value;
+      return out;
+    }
+    for (const [key, child] of Object.entries(value)) {
+      // Mongo-style aliases duplicate `id`
+      if (key === '_id') continue;
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (child === null || child === undefined) {
+        out[path] = null;
+      } else if (Array.isArray(child)) {
+        if (child.every((item) => typeof item !== 'object')) {
+          out[path] = child.join('; ');
+        }
+      } else if (typeof child === 'bigint') {
+        out[path] = Number(child);
+      } else {
+        this.flatten(child, path, out);
+      }
+    }
+    return out;
+  }
+}
@@ -0,0 +1,63 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+/** RFC 4180 CSV for report and list exports, and for bulk imports. */
+export class CsvUtils {
+  static escape(value: CsvValue): string {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  static toCsv(headers: string[], rows: CsvValue[][]): string {
+    return (
+      [headers, ...rows]
+        .map((row) => row.map((value) => this.escape(value)).join(','))
+        .join('\r\n') + '\r\n'
+    );
+  }
+
+  /**
+   * Splits CSV text into rows of cells. Handles quoted cells containing
+   * commas, quotes and line breaks, CRLF or LF endings and a leading BOM.
+   * Blank lines come back as a single empty cell so record numbers hold.
+   */
+  static parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+    return rows;
+  }
+}
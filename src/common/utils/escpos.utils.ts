@@ -0,0 +1,109 @@
+export interface ReceiptLine {
+  text: string;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const ALIGNMENTS = { left: 0, center: 1, right: 2 };
+
+/**
+ * Receipts for 58/80mm thermal printers. A receipt is built as a list of
+ * lines already fitted to the paper's character width, then either joined as
+ * plain text or encoded as ESC/POS commands (Font A, code page 437).
+ */
+export class EscPosUtils {
+  /** Font A characters per line for each supported paper width (mm). */
+  static columnsFor(paperWidth: number): number {
+    return paperWidth <= 58 ? 32 : 48;
+  }
+
+  /** "1,234.50" - receipts are too narrow for a currency prefix per line. */
+  static amount(naira: number): string {
+    return naira.toLocaleString('en-NG', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  }
+
+  /** Word-wraps text to `width`, hard-breaking words that are too long. */
+  static wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of String(text ?? '').split('\n')) {
+      let line = '';
+      for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+        while (word.length > width) {
+          if (line) lines.push(line);
+          lines.push(word.slice(0, width));
+          word = word.slice(width);
+          line = '';
+        }
+        if (!line) line = word;
+        else if (line.length + 1 + word.length <= width) line += ` ${word}`;
+        else {
+          lines.push(line);
+          line = word;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Left text and right-aligned value on one line, wrapping the left side.
+   * Values too long to share a line go on their own lines beneath.
+   */
+  static pair(left: string, right: string, width: number): string[] {
+    const available = width - right.length - 1;
+    if (available < Math.min(left.length, 10)) {
+      return [
+        ...this.wrap(left, width),
+        ...this.wrap(right, width).map((line) => line.padStart(width)),
+      ];
+    }
+    const wrapped = this.wrap(left, available);
+    const last = wrapped.pop();
+    return [...wrapped, last.padEnd(available) + ' ' + right];
+  }
+
+  static rule(width: number, char = '-'): ReceiptLine {
+    return { text: char.repeat(width) };
+  }
+
+  static toText(lines: ReceiptLine[], width: number): string {
+    return (
+      lines
+        .map(({ text, align }) => {
+          if (align === 'right') return text.padStart(width);
+          if (align === 'center') {
+            return (
+              ' '.repeat(Math.max(0, Math.floor((width - text.length) / 2))) +
+              text
+            );
+          }
+          return text;
+        })
+        .map((text) => text.trimEnd())
+        .join('\n') + '\n'
+    );
+  }
+
+  /** Initialise, print every line, feed and cut. */
+  static toEscPos(lines: ReceiptLine[]): Buffer {
+    const bytes: number[] = [ESC, 0x40, ESC, 0x74, 0];
+    for (const { text, align, bold } of lines) {
+      bytes.push(ESC, 0x61, ALIGNMENTS[align || 'left']);
+      bytes.push(ESC, 0x45, bold ? 1 : 0);
+      for (const char of text) {
+        const code = char.charCodeAt(0);
+        bytes.push(code >= 0x20 && code < 0x7f ? code : 0x3f);
+      }
+      bytes.push(0x0a);
+    }
+    bytes.push(ESC, 0x61, 0, ESC, 0x45, 0);
+    bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0);
+    return Buffer.from(bytes);
+  }
+}
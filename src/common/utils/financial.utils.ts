@@ -1,3 +1,9 @@
+import { KoboValue, MoneyUtils } from './money.utils';
+
+/**
+ * All amounts passed to and returned from these helpers are integer kobo
+ * (see MoneyUtils); convert with MoneyUtils.fromKobo before display.
+ */
 export class FinancialUtils {
   static calculateDiscount(
     amount: number,
@@ -5,7 +11,7 @@ export class FinancialUtils {
     discountAmount?: number,
   ): number {
     if (discountPercent) {
-      return amount * (discountPercent / 100);
+      return Math.round(amount * (discountPercent / 100));
     }
     if (discountAmount) {
       return Math.min(amount, discountAmount);
@@ -14,20 +20,18 @@ export class FinancialUtils {
   }
 
   static formatCurrency(
-    amount: number,
+    amount: KoboValue,
     currency: string = 'NGN',
     locale: string = 'en-NG',
   ): string {
     return new Intl.NumberFormat(locale, {
       style: 'currency',
       currency: currency,
-    }).format(amount);
+    }).format(MoneyUtils.fromKobo(amount));
   }
 
-  static calculateBalance(credits: number[], debits: number[]): number {
-    const totalCredits = credits.reduce((sum, credit) => sum + credit, 0);
-    const totalDebits = debits.reduce((sum, debit) => sum + debit, 0);
-    return totalCredits - totalDebits;
+  static calculateBalance(credits: KoboValue[], debits: KoboValue[]): number {
+    return MoneyUtils.sum(credits) - MoneyUtils.sum(debits);
   }
 
   static roundToDecimalPlaces(number: number, places: number = 2): number {
@@ -39,16 +43,25 @@ export class FinancialUtils {
     totalAmount: number,
     numberOfInstallments: number,
     interestRate: number = 0,
-  ): { installmentAmount: number; totalPayable: number } {
-    const interest = (totalAmount * interestRate) / 100;
+  ): {
+    installmentAmount: number;
+    totalPayable: number;
+    installments: number[];
+  } {
+    const interest = Math.round((totalAmount * interestRate) / 100);
     const totalPayable = totalAmount + interest;
-    const installmentAmount = this.roundToDecimalPlaces(
-      totalPayable / numberOfInstallments,
+    const installmentAmount = Math.floor(totalPayable / numberOfInstallments);
+    // The last installment absorbs the remainder so the schedule sums exactly.
+    const installments = Array.from({ length: numberOfInstallments }, (_, i) =>
+      i === numberOfInstallments - 1
+        ? totalPayable - installmentAmount * (numberOfInstallments - 1)
+        : installmentAmount,
     );
 
     return {
       installmentAmount,
       totalPayable,
+      installments,
     };
   }
 }
@@ -2,3 +2,9 @@ export * from './date.utils';
 export * from './financial.utils';
 export * from './inventory.utils';
 export * from './string.utils';
+export * from './money.utils';
+export * from './pdf.utils';
+export * from './escpos.utils';
+export * from './csv.utils';
+export * from './spreadsheet.utils';
+export * from './tender.utils';
@@ -0,0 +1,79 @@
+import { MoneyUtils } from './money.utils';
+
+describe('MoneyUtils', () => {
+  describe('toKobo', () => {
+    it('converts naira to integer kobo', () => {
+      expect(MoneyUtils.toKobo(1500)).toBe(150000);
+      expect(MoneyUtils.toKobo(12.5)).toBe(1250);
+    });
+
+    it('rounds away floating point error to the nearest kobo', () => {
+      expect(MoneyUtils.toKobo(0.1 + 0.2)).toBe(30);
+      expect(MoneyUtils.toKobo(19.999)).toBe(2000);
+    });
+
+    it('treats a missing amount as zero', () => {
+      expect(MoneyUtils.toKobo(null)).toBe(0);
+      expect(MoneyUtils.toKobo(undefined)).toBe(0);
+    });
+  });
+
+  describe('fromKobo', () => {
+    it('converts BigInt and number kobo to naira', () => {
+      expect(MoneyUtils.fromKobo(BigInt(150050))).toBe(1500.5);
+      expect(MoneyUtils.fromKobo(-2500)).toBe(-25);
+      expect(MoneyUtils.fromKobo(null)).toBe(0);
+    });
+  });
+
+  describe('multiply', () => {
+    it('rounds a fractional quantity line to the nearest kobo', () => {
+      expect(MoneyUtils.multiply(BigInt(333), 1.5)).toBe(500);
+      expect(MoneyUtils.multiply(1000, 3)).toBe(3000);
+      expect(MoneyUtils.multiply(1000, -2)).toBe(-2000);
+    });
+  });
+
+  describe('sum', () => {
+    it('adds mixed BigInt, number and missing values', () => {
+      expect(MoneyUtils.sum([BigInt(100), 250, null, undefined, -50])).toBe(
+        300,
+      );
+      expect(MoneyUtils.sum([])).toBe(0);
+    });
+  });
+
+  describe('fieldsToNaira', () => {
+    it('converts only the listed fields and keeps nulls', () => {
+      const out = MoneyUtils.fieldsToNaira(
+        { id: 'p1', unitPrice: BigInt(120000), costPrice: null, stock: 4 },
+        ['unitPrice', 'costPrice', 'missing'],
+      );
+      expect(out).toEqual({
+        id: 'p1',
+        unitPrice: 1200,
+        costPrice: null,
+        stock: 4,
+      });
+      expect(out).not.toHaveProperty('missing');
+    });
+  });
+
+  describe('transactionToNaira', () => {
+    it('converts the transaction and its nested money fields', () => {
+      const out = MoneyUtils.transactionToNaira({
+        id: 't1',
+        total: BigInt(500000),
+        amountPaid: BigInt(200000),
+        items: [{ unitPrice: BigInt(250000), quantity: 2 }],
+        tenders: [{ method: 'CASH', amount: BigInt(200000) }],
+        clientRef: { name: 'Ada', balance: BigInt(-300000) },
+      });
+      expect(out.total).toBe(5000);
+      expect(out.amountPaid).toBe(2000);
+      expect(out.items[0]).toEqual({ unitPrice: 2500, quantity: 2 });
+      expect(out.tenders[0]).toEqual({ method: 'CASH', amount: 2000 });
+      expect(out.clientRef).toEqual({ name: 'Ada', balance: -3000 });
+    });
+  });
+});
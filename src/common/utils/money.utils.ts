@@ -0,0 +1,104 @@
+/**
+ * Money is stored as integer kobo (BigInt columns) and exposed over the API
+ * as naira numbers. Services do all arithmetic on kobo integers and only
+ * convert at the edges: DTO input -> toKobo, database row -> fromKobo.
+ */
+export type KoboValue = bigint | number | null | undefined;
+
+export const TRANSACTION_MONEY_FIELDS = [
+  'subtotal',
+  'discount',
+  'transportFare',
+  'loadingAndOffloading',
+  'loading',
+  'total',
+  'amountPaid',
+  'totalRefundedAmount',
+  'actualAmountReturned',
+  'clientBalanceAfterTransaction',
+];
+
+export const TRANSACTION_ITEM_MONEY_FIELDS = [
+  'unitPrice',
+  'unitCost',
+  'listUnitPrice',
+  'discount',
+  'subtotal',
+  'wholesalePrice',
+  'originalUnitPrice',
+  'currentUnitPrice',
+  'refundUnitPrice',
+];
+
+export class MoneyUtils {
+  static readonly KOBO_PER_NAIRA = 100;
+
+  /** Converts a naira amount from a request into integer kobo. */
+  static toKobo(naira: number | null | undefined): number {
+    if (naira === null || naira === undefined) return 0;
+    return Math.round(naira * this.KOBO_PER_NAIRA);
+  }
+
+  /** Converts stored kobo into a naira number for responses. */
+  static fromKobo(kobo: KoboValue): number {
+    return this.kobo(kobo) / this.KOBO_PER_NAIRA;
+  }
+
+  /** Normalises a stored BigInt/number kobo value for integer arithmetic. */
+  static kobo(value: KoboValue): number {
+    if (value === null || value === undefined) return 0;
+    return Number(value);
+  }
+
+  /** Line amount for a (possibly fractional) quantity, rounded to the nearest kobo. */
+  static multiply(unitKobo: KoboValue, quantity: number): number {
+    return Math.round(this.kobo(unitKobo) * quantity);
+  }
+
+  static sum(values: KoboValue[]): number {
+    return values.reduce<number>((acc, v) => acc + this.kobo(v), 0);
+  }
+
+  /** Returns a copy of obj with the given kobo fields converted to naira; nulls are preserved. */
+  static fieldsToNaira<T extends Record<string, any>>(
+    obj: T,
+    fields: string[],
+  ): T {
+    if (!obj) return obj;
+    const out: Record<string, any> = { ...obj };
+    for (const field of fields) {
+      if (out[field] === undefined) continue;
+      out[field] = out[field] === null ? null : this.fromKobo(out[field]);
+    }
+    return out as T;
+  }
+
+  static transactionToNaira(t: any): any {
+    if (!t) return t;
+    const out = this.fieldsToNaira(t, TRANSACTION_MONEY_FIELDS);
+    if (Array.isArray(t.items)) {
+      out.items = t.items.map((i: any) =>
+        this.fieldsToNaira(i, TRANSACTION_ITEM_MONEY_FIELDS),
+      );
+    }
+    if (Array.isArray(t.extraCharges)) {
+      out.extraCharges = t.extraCharges.map((c: any) =>
+        this.fieldsToNaira(c, ['amount']),
+      );
+    }
+    if (Array.isArray(t.tenders)) {
+      out.tenders = t.tenders.map((p: any) =>
+        this.fieldsToNaira(p, ['amount']),
+      );
+    }
+    if (t.clientRef) {
+      out.clientRef = this.fieldsToNaira(t.clientRef, ['balance']);
+    }
+    return out;
+  }
+
+  static priceHistoryToNaira(history: any): any[] {
+    if (!Array.isArray(history)) return [];
+    return history.map((h: any) => ({ ...h, price: this.fromKobo(h?.price) }));
+  }
+}
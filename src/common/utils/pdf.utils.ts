@@ -0,0 +1,227 @@
+import * as PDFDocument from 'pdfkit';
+import { KoboValue, MoneyUtils } from './money.utils';
+
+export interface PdfLetterhead {
+  name: string;
+  address: string;
+  phone: string;
+  email?: string | null;
+}
+
+/** A generated file ready to send as a download. */
+export interface RenderedDocument {
+  filename: string;
+  buffer: Buffer;
+}
+
+export interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * Building blocks for server-rendered documents (invoices, waybills,
+ * statements). Pages are A4 and use the built-in Helvetica fonts, which have
+ * no naira sign, so amounts are printed with an "NGN" prefix.
+ */
+export class PdfUtils {
+  static readonly MARGIN = 40;
+
+  static createDocument(): PDFKit.PDFDocument {
+    return new PDFDocument({
+      size: 'A4',
+      margin: this.MARGIN,
+      bufferPages: true,
+    });
+  }
+
+  /** Ends the document and resolves with the complete file. */
+  static toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+      doc.end();
+    });
+  }
+
+  static money(kobo: KoboValue): string {
+    const naira = MoneyUtils.fromKobo(kobo).toLocaleString('en-NG', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+    return `NGN ${naira}`;
+  }
+
+  static date(value: Date | string | null | undefined): string {
+    if (!value) return '-';
+    return new Date(value).toLocaleDateString('en-GB', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  }
+
+  static contentWidth(doc: PDFKit.PDFDocument): number {
+    return doc.page.width - this.MARGIN * 2;
+  }
+
+  /** Starts a new page unless `height` points still fit on this one. */
+  static ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  }
+
+  /** Branch name and contact details across the top, then the document title. */
+  static letterhead(
+    doc: PDFKit.PDFDocument,
+    branch: PdfLetterhead,
+    title: string,
+  ) {
+    doc.font('Helvetica-Bold').fontSize(18).text(branch.name.toUpperCase());
+    doc.font('Helvetica').fontSize(9).text(branch.address);
+    doc.text(
+      [`Tel: ${branch.phone}`, branch.email].filter(Boolean).join('  |  '),
+    );
+    doc.moveDown(0.5);
+    this.rule(doc);
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(14).text(title, { align: 'right' });
+    doc.moveDown(0.5);
+  }
+
+  static rule(doc: PDFKit.PDFDocument) {
+    doc
+      .moveTo(this.MARGIN, doc.y)
+      .lineTo(doc.page.width - this.MARGIN, doc.y)
+      .lineWidth(0.5)
+      .stroke();
+  }
+
+  /** Label/value pairs, e.g. invoice number, date and customer. */
+  static details(doc: PDFKit.PDFDocument, rows: Array<[string, string]>) {
+    const labelWidth = 110;
+    doc.fontSize(9);
+    for (const [label, value] of rows) {
+      const y = doc.y;
+      doc.font('Helvetica-Bold').text(label, this.MARGIN, y, {
+        width: labelWidth,
+      });
+      doc.font('Helvetica').text(value || '-', this.MARGIN + labelWidth, y, {
+        width: this.contentWidth(doc) - labelWidth,
+      });
+    }
+    doc.x = this.MARGIN;
+    doc.moveDown(0.5);
+  }
+
+  /** Simple ruled table; starts a new page (repeating the header) when full. */
+  static table(
+    doc: PDFKit.PDFDocument,
+    columns: PdfColumn[],
+    rows: string[][],
+  ) {
+    const drawRow = (cells: string[], bold: boolean) => {
+      const y = doc.y;
+      let x = this.MARGIN;
+      let height = 0;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+      cells.forEach((cell, i) => {
+        const column = columns[i];
+        doc.text(cell, x + 2, y, {
+          width: column.width - 4,
+          align: column.align || 'left',
+        });
+        height = Math.max(height, doc.y - y);
+        x += column.width;
+      });
+      doc.x = this.MARGIN;
+      doc.y = y + height + 4;
+    };
+    const drawHeader = () => {
+      drawRow(
+        columns.map((c) => c.header),
+        true,
+      );
+      this.rule(doc);
+      doc.y += 4;
+    };
+
+    drawHeader();
+    for (const row of rows) {
+      if (doc.y + 30 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        drawHeader();
+      }
+      drawRow(row, false);
+    }
+    this.rule(doc);
+    doc.moveDown(0.5);
+  }
+
+  /** Right-aligned summary lines such as subtotal, discount and total. */
+  static totals(
+    doc: PDFKit.PDFDocument,
+    rows: Array<[string, string, boolean?]>,
+  ) {
+    const valueWidth = 110;
+    const labelWidth = 170;
+    const valueX = doc.page.width - this.MARGIN - valueWidth;
+    const labelX = valueX - labelWidth;
+    this.ensureSpace(doc, rows.length * 12);
+    for (const [label, value, bold] of rows) {
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+      doc.text(label, labelX, y, { width: labelWidth, align: 'right' });
+      doc.text(value, valueX, y, { width: valueWidth, align: 'right' });
+    }
+    doc.x = this.MARGIN;
+    doc.moveDown(0.5);
+  }
+
+  /** Lines for handwritten signatures, laid out side by side. */
+  static signatures(doc: PDFKit.PDFDocument, labels: string[]) {
+    doc.moveDown(3);
+    this.ensureSpace(doc, 20);
+    const gap = 20;
+    const width =
+      (this.contentWidth(doc) - gap * (labels.length - 1)) / labels.length;
+    const y = doc.y;
+    labels.forEach((label, i) => {
+      const x = this.MARGIN + i * (width + gap);
+      doc
+        .moveTo(x, y)
+        .lineTo(x + width, y)
+        .lineWidth(0.5)
+        .stroke();
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .text(label, x, y + 4, { width, align: 'center' });
+    });
+    doc.x = this.MARGIN;
+  }
+
+  /** Stamps "Page n of m" and a footer note on every page. Call last. */
+  static footer(doc: PDFKit.PDFDocument, note: string) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc
+        .font('Helvetica')
+        .fontSize(7)
+        .text(
+          `${note}  -  Page ${i + 1} of ${range.count}`,
+          this.MARGIN,
+          doc.page.height - 25,
+          { width: this.contentWidth(doc), align: 'center', lineBreak: false },
+        );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { BadRequestException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { CsvUtils, CsvValue } from './csv.utils';
+
+export interface SpreadsheetFile {
+  buffer: Buffer;
+  originalname: string;
+}
+
+/** A data row keyed by normalised header, with its row number in the sheet. */
+export interface SpreadsheetRow {
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Reads uploaded CSV or XLSX files into rows keyed by their header, and
+ * writes tables out as XLSX. Headers read in are normalised to lowercase
+ * letters and digits, so "Unit Price", "unit_price" and "unitPrice" all
+ * become "unitprice".
+ */
+export class SpreadsheetUtils {
+  static normaliseHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  static async readRows(file: SpreadsheetFile): Promise<SpreadsheetRow[]> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException(
+        'No file provided. Upload a CSV or XLSX file.',
+      );
+    }
+    const extension = file.originalname.toLowerCase().split('.').pop();
+    if (extension === 'csv') {
+      return this.toRows(CsvUtils.parse(file.buffer.toString('utf-8')));
+    }
+    if (extension === 'xlsx') {
+      return this.toRows(await this.readXlsx(file.buffer));
+    }
+    throw new BadRequestException('Only .csv and .xlsx files can be imported');
+  }
+
+  /** Single-sheet workbook with a bold header row. */
+  static async toXlsx(
+    sheetName: string,
+    headers: string[],
+    rows: CsvValue[][],
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    // Excel rejects sheet names over 31 characters or containing []:*?/\
+    const sheet = workbook.addWorksheet(
+      sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1',
+    );
+    sheet.addRow(headers).font = { bold: true };
+    sheet.addRows(rows.map((row) => row.map((value) => value ?? null)));
+    sheet.columns.forEach((column, i) => {
+      column.width = Math.min(Math.max(headers[i]?.length ?? 0, 10) + 2, 50);
+    });
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private static async readXlsx(buffer: Buffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(buffer);
+    } catch {
+      throw new BadRequestException('The file is not a readable XLSX workbook');
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const cells: string[] = [];
+      for (let col = 1; col <= sheet.columnCount; col++) {
+        cells.push(this.cellText(row.getCell(col).value));
+      }
+      rows[rowNumber - 1] = cells;
+    });
+    return Array.from(rows, (row) => row || []);
+  }
+
+  private static cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value !== 'object') return String(value);
+    if ('richText' in value) return value.richText.map((t) => t.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value)
+      return this.cellText(value.result as ExcelJS.CellValue);
+    return '';
+  }
+
+  /** First row is the header; blank rows are skipped but keep their numbering. */
+  private static toRows(table: string[][]): SpreadsheetRow[] {
+    const [header, ...body] = table;
+    if (!header) return [];
+    const keys = header.map((h) => this.normaliseHeader(h || ''));
+    return body
+      .map((cells, i) => {
+        const values: Record<string, string> = {};
+        keys.forEach((key, col) => {
+          const value = (cells[col] ?? '').trim();
+          if (key && value !== '') values[key] = value;
+        });
+        return { rowNumber: i + 2, values };
+      })
+      .filter((row) => Object.keys(row.values).length > 0);
+  }
+}
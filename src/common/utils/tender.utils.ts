@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaymentMethod } from '@prisma/client';
+import { MoneyUtils } from './money.utils';
+
+export interface TenderInput {
+  method: PaymentMethod;
+  /** Naira, as sent by the client. */
+  amount: number;
+  reference?: string;
+}
+
+/** A tender ready to store: amount in kobo. */
+export interface Tender {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+/**
+ * Splits the money taken on a transaction into typed tenders. Sales used to
+ * carry a single free-text `paymentMethod`; that is still accepted and
+ * becomes one tender of the whole amount paid.
+ */
+export class TenderUtils {
+  static readonly METHOD_LABELS: Record<PaymentMethod, string> = {
+    CASH: 'Cash',
+    BANK_TRANSFER: 'Bank Transfer',
+    POS: 'POS',
+    CHEQUE: 'Cheque',
+    OTHER: 'Other',
+  };
+
+  /** Best guess at the tender type behind a free-text payment method. */
+  static normaliseMethod(paymentMethod?: string | null): PaymentMethod {
+    const text = (paymentMethod || '').toLowerCase();
+    if (text.includes('cash')) return 'CASH';
+    if (/transfer|bank/.test(text)) return 'BANK_TRANSFER';
+    if (/^pos|card/.test(text)) return 'POS';
+    if (/cheque|check/.test(text)) return 'CHEQUE';
+    return 'OTHER';
+  }
+
+  /**
+   * Returns the tenders for `amountPaid` (kobo) and the paymentMethod label
+   * to keep on the transaction. Explicit tenders must add up to amountPaid.
+   */
+  static resolve(
+    tenders: TenderInput[] | undefined,
+    paymentMethod: string | undefined,
+    amountPaid: number,
+  ): { tenders: Tender[]; paymentMethod?: string } {
+    if (!tenders?.length) {
+      return {
+        tenders:
+          amountPaid > 0
+            ? [
+                {
+                  method: this.normaliseMethod(paymentMethod),
+                  amount: amountPaid,
+                },
+              ]
+            : [],
+        paymentMethod,
+      };
+    }
+
+    const resolved = tenders.map((t) => ({
+      method: t.method,
+      amount: MoneyUtils.toKobo(t.amount),
+      reference: t.reference || undefined,
+    }));
+    const tendered = MoneyUtils.sum(resolved.map((t) => t.amount));
+    if (tendered !== amountPaid) {
+      throw new BadRequestException(
+        `Tenders add up to ${MoneyUtils.fromKobo(tendered)} but the amount paid is ${MoneyUtils.fromKobo(amountPaid)}`,
+      );
+    }
+    return { tenders: resolved, paymentMethod: this.label(resolved) };
+  }
+
+  /** e.g. "Cash + POS" */
+  static label(tenders: { method: PaymentMethod }[]): string {
+    return [...new Set(tenders.map((t) => t.method))]
+      .map((m) => this.METHOD_LABELS[m])
+      .join(' + ');
+  }
+
+  /** One tender for a receipt line, e.g. "POS 0042". */
+  static describe(tender: {
+    method: PaymentMethod;
+    reference?: string | null;
+  }): string {
+    return [this.METHOD_LABELS[tender.method], tender.reference]
+      .filter(Boolean)
+      .join(' ');
+  }
+}
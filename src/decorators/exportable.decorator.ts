@@ -0,0 +1,13 @@
+import { SetMetadata, UseInterceptors, applyDecorators } from '@nestjs/common';
+import {
+  EXPORT_KEY,
+  ExportInterceptor,
+  ExportOptions,
+} from 'src/common/interceptors/export.interceptor';
+
+/** Lets the route be downloaded as CSV or XLSX with `?format=csv|xlsx`. */
+export const Exportable = (table: string, rows?: ExportOptions['rows']) =>
+  applyDecorators(
+    SetMetadata(EXPORT_KEY, { table, rows }),
+    UseInterceptors(ExportInterceptor),
+  );
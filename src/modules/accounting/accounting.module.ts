@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AccountingService } from './services/accounting.service';
+import { AccountingController } from './controllers/accounting.controller';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
+
+@Module({
+  imports: [SystemActivityLogModule, ColumnSettingsModule],
+  providers: [AccountingService],
+  controllers: [AccountingController],
+  exports: [AccountingService],
+})
+export class AccountingModule {}
@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  ParseEnumPipe,
+  Query,
+  Request,
+  Response,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { GlAccountRole } from '@prisma/client';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { AccountingService } from '../services/accounting.service';
+import {
+  JournalExportQueryDto,
+  JournalQueryDto,
+  UpdateGlAccountDto,
+} from '../dto/accounting.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
+
+@Controller('accounting')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AccountingController {
+  constructor(private readonly accountingService: AccountingService) {}
+
+  /**
+   * Chart of accounts: the account each journal role posts to.
+   */
+  @Get('accounts')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findAccounts(): Promise<any[]> {
+    return this.accountingService.findAccounts();
+  }
+
+  @Patch('accounts/:role')
+  @Roles(UserRole.SUPER_ADMIN)
+  async updateAccount(
+    @Param('role', new ParseEnumPipe(GlAccountRole)) role: GlAccountRole,
+    @Body() updateGlAccountDto: UpdateGlAccountDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.accountingService.updateAccount(
+      role,
+      updateGlAccountDto,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  /**
+   * Balanced journal entries for sales, deposits, returns, wholesale and write-offs in the period.
+   */
+  @Get('journal')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  @Exportable('accounting-journal', 'lines')
+  async getJournal(
+    @Query() query: JournalQueryDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.accountingService.getJournal(query, req.user);
+  }
+
+  /**
+   * Journal as CSV for import: format=generic (default), quickbooks or sage.
+   */
+  @Get('journal.csv')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async getJournalCsv(
+    @Query() query: JournalExportQueryDto,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } = await this.accountingService.renderJournalCsv(
+      query,
+      query.format ?? 'generic',
+      req.user,
+    );
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  IsDate,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  JOURNAL_EXPORT_FORMATS,
+  JournalExportFormat,
+} from '../utils/journal-export.util';
+
+export class UpdateGlAccountDto {
+  /** Account number in the accounting package, e.g. "4000". */
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  code?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  name?: string;
+}
+
+export class JournalQueryDto {
+  @Type(() => Date)
+  @IsDate()
+  startDate: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  endDate: Date;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
+
+export class JournalExportQueryDto extends JournalQueryDto {
+  /** Column layout: generic (default), quickbooks or sage. */
+  @IsOptional()
+  @IsIn(JOURNAL_EXPORT_FORMATS)
+  format?: JournalExportFormat;
+}
@@ -0,0 +1,452 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { GlAccountRole, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { TenderUtils } from '../../../common/utils/tender.utils';
+import { RenderedDocument } from '../../../common/utils/pdf.utils';
+import {
+  JournalExportFormat,
+  JournalExportUtils,
+} from '../utils/journal-export.util';
+import { JournalQueryDto, UpdateGlAccountDto } from '../dto/accounting.dto';
+
+type AccountingActor = {
+  userId: string;
+  role: string;
+  email?: string;
+  name?: string;
+  branchId?: string;
+};
+
+export type JournalSource =
+  | 'SALE'
+  | 'WHOLESALE'
+  | 'DEPOSIT'
+  | 'RETURN'
+  | 'WRITE_OFF';
+
+export interface JournalLine {
+  role: GlAccountRole;
+  accountCode: string;
+  accountName: string;
+  /** Amounts in kobo; exactly one of debit and credit is non-zero. */
+  debit: number;
+  credit: number;
+  memo: string;
+}
+
+export interface JournalEntry {
+  journalNumber: string;
+  date: Date;
+  source: JournalSource;
+  reference: string;
+  branch: { id: string; name: string };
+  /** Customer on sales, deposits and returns. */
+  party: string | null;
+  description: string;
+  lines: JournalLine[];
+}
+
+export interface Journal {
+  startDate: Date;
+  endDate: Date;
+  entries: JournalEntry[];
+  /** Totals in kobo; they are always equal. */
+  totalDebit: number;
+  totalCredit: number;
+}
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+const ACCOUNT_ORDER: GlAccountRole[] = [
+  'CASH',
+  'BANK',
+  'RECEIVABLES',
+  'INVENTORY',
+  'SALES',
+  'TRANSPORT_INCOME',
+  'COGS',
+];
+
+const journalTransactionSelect = {
+  id: true,
+  invoiceNumber: true,
+  type: true,
+  date: true,
+  clientId: true,
+  walkInClientName: true,
+  total: true,
+  transportFare: true,
+  loading: true,
+  loadingAndOffloading: true,
+  actualAmountReturned: true,
+  branchRef: { select: { id: true, name: true } },
+  clientRef: { select: { name: true } },
+  referenceTransaction: { select: { invoiceNumber: true } },
+  tenders: { select: { method: true, amount: true } },
+  items: { select: { productName: true, quantity: true, unitCost: true } },
+  stockMovements: {
+    where: { reason: 'RETURN' as const },
+    select: { id: true },
+    take: 1,
+  },
+};
+
+type JournalTransaction = Prisma.TransactionGetPayload<{
+  select: typeof journalTransactionSelect;
+}>;
+
+/** Signed kobo: positive debits, negative credits. */
+type Posting = { role: GlAccountRole; amount: number; memo: string };
+
+type WriteOffMovement = Prisma.StockMovementGetPayload<{
+  include: {
+    productRef: { select: { name: true; costPrice: true } };
+    branchRef: { select: { id: true; name: true } };
+    stockTakeRef: { select: { stockTakeNumber: true } };
+  };
+}>;
+
+/**
+ * General-ledger journal for the accountant. Nothing is stored: the entries
+ * are derived from the period's transactions and stock write-offs each time
+ * they are asked for, and posted to the accounts configured for each role
+ * in the chart of accounts.
+ *
+ * - Sales and wholesale: money taken debits cash (CASH tenders) or bank
+ *   (all other tenders), anything unpaid debits receivables; transport,
+ *   loading and offloading are credited to transport income and the rest
+ *   of the total to sales. Cost of the items sold moves from inventory to
+ *   COGS at the cost recorded on the sale.
+ * - Deposits: money taken against receivables.
+ * - Returns: the amount given back is debited to sales and credited to
+ *   receivables for registered clients, whose account is credited, or to
+ *   cash for walk-ins. Restocked items go back into inventory at cost.
+ * - Write-offs: stock adjusted down, by hand or on a stock take, is
+ *   expensed to COGS at the product's current cost price.
+ *
+ * Voided transactions are left out, so a period exported before a void
+ * will differ when exported again.
+ */
+@Injectable()
+export class AccountingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private toDoc(account: any) {
+    if (!account) return account;
+    return { ...account, _id: account.id };
+  }
+
+  async findAccounts(): Promise<any[]> {
+    const accounts = await this.prisma.glAccount.findMany({
+      include: { updatedBy: { select: { id: true, name: true } } },
+    });
+    return accounts
+      .sort(
+        (a, b) => ACCOUNT_ORDER.indexOf(a.role) - ACCOUNT_ORDER.indexOf(b.role),
+      )
+      .map((a) => this.toDoc(a));
+  }
+
+  /** Points a role at the account code and name used in the accounting package. */
+  async updateAccount(
+    role: GlAccountRole,
+    dto: UpdateGlAccountDto,
+    user: AccountingActor,
+    device?: string,
+  ): Promise<any> {
+    const existing = await this.prisma.glAccount.findUnique({
+      where: { role },
+    });
+    if (!existing) throw new NotFoundException('Account not found');
+
+    const account = await this.prisma.glAccount.update({
+      where: { role },
+      data: { code: dto.code, name: dto.name, updatedById: user.userId },
+      include: { updatedBy: { select: { id: true, name: true } } },
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'GL_ACCOUNT_UPDATED',
+        details: `${role} account changed from ${existing.code} ${existing.name} to ${account.code} ${account.name}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: device || '',
+      })
+      .catch(() => {});
+
+    return this.toDoc(account);
+  }
+
+  /** Journal entries for the period with amounts in naira, plus flat lines for export. */
+  async getJournal(query: JournalQueryDto, user: AccountingActor) {
+    const journal = await this.buildJournal(query, user);
+    const entries = journal.entries.map((entry) => ({
+      ...entry,
+      lines: entry.lines.map((line) =>
+        MoneyUtils.fieldsToNaira(line, ['debit', 'credit']),
+      ),
+    }));
+
+    const accounts = new Map<
+      GlAccountRole,
+      {
+        accountCode: string;
+        accountName: string;
+        debit: number;
+        credit: number;
+      }
+    >();
+    journal.entries
+      .flatMap((e) => e.lines)
+      .forEach((line) => {
+        const account = accounts.get(line.role) || {
+          accountCode: line.accountCode,
+          accountName: line.accountName,
+          debit: 0,
+          credit: 0,
+        };
+        account.debit += line.debit;
+        account.credit += line.credit;
+        accounts.set(line.role, account);
+      });
+
+    return {
+      startDate: journal.startDate,
+      endDate: journal.endDate,
+      totalDebit: MoneyUtils.fromKobo(journal.totalDebit),
+      totalCredit: MoneyUtils.fromKobo(journal.totalCredit),
+      accounts: ACCOUNT_ORDER.filter((role) => accounts.has(role)).map(
+        (role) => ({
+          role,
+          ...MoneyUtils.fieldsToNaira(accounts.get(role), ['debit', 'credit']),
+        }),
+      ),
+      entries,
+      lines: entries.flatMap((entry) =>
+        entry.lines.map((line) => ({
+          journalNumber: entry.journalNumber,
+          date: entry.date,
+          source: entry.source,
+          reference: entry.reference,
+          branch: entry.branch.name,
+          party: entry.party,
+          ...line,
+        })),
+      ),
+    };
+  }
+
+  async renderJournalCsv(
+    query: JournalQueryDto,
+    format: JournalExportFormat,
+    user: AccountingActor,
+  ): Promise<RenderedDocument> {
+    const journal = await this.buildJournal(query, user);
+    const day = (date: Date) => date.toISOString().split('T')[0];
+    return {
+      filename: `journal-${format}-${day(journal.startDate)}-to-${day(journal.endDate)}.csv`,
+      buffer: Buffer.from(JournalExportUtils.toCsv(journal, format), 'utf-8'),
+    };
+  }
+
+  private async buildJournal(
+    query: JournalQueryDto,
+    user: AccountingActor,
+  ): Promise<Journal> {
+    const branchId = GLOBAL_ROLES.includes(user.role)
+      ? query.branchId
+      : user.branchId?.toString();
+    const accounts = new Map(
+      (await this.prisma.glAccount.findMany()).map((a) => [a.role, a]),
+    );
+
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        status: { not: 'CANCELLED' },
+        date: { gte: query.startDate, lte: query.endDate },
+        ...(branchId ? { branchId } : {}),
+      },
+      select: journalTransactionSelect,
+      orderBy: [{ date: 'asc' }, { invoiceNumber: 'asc' }],
+    });
+    const writeOffs = await this.prisma.stockMovement.findMany({
+      where: {
+        reason: 'ADJUSTMENT',
+        delta: { lt: 0 },
+        createdAt: { gte: query.startDate, lte: query.endDate },
+        ...(branchId ? { branchId } : {}),
+      },
+      include: {
+        productRef: { select: { name: true, costPrice: true } },
+        branchRef: { select: { id: true, name: true } },
+        stockTakeRef: { select: { stockTakeNumber: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const entries = [
+      ...transactions.map((t) => this.transactionEntry(t)),
+      ...this.writeOffEntries(writeOffs),
+    ]
+      .filter((entry) => entry.postings.length > 0)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map(({ postings, ...entry }) => ({
+        ...entry,
+        lines: postings.map((p) => {
+          const account = accounts.get(p.role);
+          return {
+            role: p.role,
+            accountCode: account?.code ?? p.role,
+            accountName: account?.name ?? p.role,
+            debit: p.amount > 0 ? p.amount : 0,
+            credit: p.amount < 0 ? -p.amount : 0,
+            memo: p.memo,
+          };
+        }),
+      }));
+
+    const lines = entries.flatMap((e) => e.lines);
+    return {
+      startDate: query.startDate,
+      endDate: query.endDate,
+      entries,
+      totalDebit: MoneyUtils.sum(lines.map((l) => l.debit)),
+      totalCredit: MoneyUtils.sum(lines.map((l) => l.credit)),
+    };
+  }
+
+  /**
+   * Postings are signed: positive debits, negative credits. Each entry is
+   * built so its postings add up to zero.
+   */
+  private transactionEntry(t: JournalTransaction) {
+    const postings: Posting[] = [];
+    const post = (role: GlAccountRole, amount: number, memo: string) => {
+      if (amount !== 0) postings.push({ role, amount, memo });
+    };
+    const party = t.clientRef?.name ?? t.walkInClientName ?? null;
+    const ref = t.invoiceNumber;
+
+    const postTenders = () => {
+      let tendered = 0;
+      for (const tender of t.tenders) {
+        const amount = MoneyUtils.kobo(tender.amount);
+        tendered += amount;
+        post(
+          tender.method === 'CASH' ? 'CASH' : 'BANK',
+          amount,
+          `${TenderUtils.METHOD_LABELS[tender.method]} received on ${ref}`,
+        );
+      }
+      return tendered;
+    };
+    const postCost = (cost: number, memo: string) => {
+      post('COGS', cost, memo);
+      post('INVENTORY', -cost, memo);
+    };
+    const itemsCost = () =>
+      MoneyUtils.sum(
+        t.items
+          .filter((i) => i.unitCost !== null)
+          .map((i) => MoneyUtils.multiply(i.unitCost, i.quantity)),
+      );
+
+    let source: JournalSource;
+    let description: string;
+    if (t.type === 'DEPOSIT') {
+      source = 'DEPOSIT';
+      description = `Deposit ${ref}`;
+      const tendered = postTenders();
+      post('RECEIVABLES', -tendered, `Deposit ${ref}`);
+    } else if (t.type === 'RETURN') {
+      source = 'RETURN';
+      const original = t.referenceTransaction?.invoiceNumber;
+      description = `Return ${ref}${original ? ` against ${original}` : ''}`;
+      const returned = MoneyUtils.kobo(t.actualAmountReturned);
+      post('SALES', returned, `Sales returned on ${ref}`);
+      post(
+        t.clientId ? 'RECEIVABLES' : 'CASH',
+        -returned,
+        t.clientId ? `Credited to client on ${ref}` : `Cash refunded on ${ref}`,
+      );
+      // Items returned without restocking stay written off
+      if (t.stockMovements.length > 0) {
+        postCost(-itemsCost(), `Cost of goods restocked on ${ref}`);
+      }
+    } else {
+      source = t.type === 'WHOLESALE' ? 'WHOLESALE' : 'SALE';
+      description = `${t.type === 'WHOLESALE' ? 'Wholesale invoice' : 'Invoice'} ${ref}`;
+      const total = MoneyUtils.kobo(t.total);
+      const transportIncome =
+        MoneyUtils.kobo(t.transportFare) +
+        MoneyUtils.kobo(t.loading) +
+        MoneyUtils.kobo(t.loadingAndOffloading);
+      const tendered = postTenders();
+      post('RECEIVABLES', total - tendered, `Unpaid balance on ${ref}`);
+      post('SALES', -(total - transportIncome), `Sales on ${ref}`);
+      post(
+        'TRANSPORT_INCOME',
+        -transportIncome,
+        `Transport and loading on ${ref}`,
+      );
+      postCost(itemsCost(), `Cost of goods sold on ${ref}`);
+    }
+
+    return {
+      journalNumber: ref,
+      date: t.date,
+      source,
+      reference: ref,
+      branch: t.branchRef,
+      party,
+      description,
+      postings,
+    };
+  }
+
+  /** One entry per stock take, and one per manual adjustment. */
+  private writeOffEntries(movements: WriteOffMovement[]) {
+    const groups = new Map<string, WriteOffMovement[]>();
+    for (const movement of movements) {
+      const key = movement.stockTakeId ?? movement.id;
+      groups.set(key, [...(groups.get(key) || []), movement]);
+    }
+
+    return Array.from(groups.values()).map((group) => {
+      const first = group[0];
+      const reference =
+        first.stockTakeRef?.stockTakeNumber ??
+        `ADJ-${first.id.slice(-8).toUpperCase()}`;
+      const postings: Posting[] = [];
+      for (const movement of group) {
+        const value = MoneyUtils.multiply(
+          MoneyUtils.kobo(movement.productRef.costPrice),
+          -movement.delta,
+        );
+        if (value === 0) continue;
+        const memo = `${-movement.delta} ${movement.productRef.name} written off`;
+        postings.push({ role: 'COGS', amount: value, memo });
+        postings.push({ role: 'INVENTORY', amount: -value, memo });
+      }
+      return {
+        journalNumber: reference,
+        date: first.createdAt,
+        source: 'WRITE_OFF' as JournalSource,
+        reference,
+        branch: first.branchRef,
+        party: null,
+        description: first.stockTakeRef
+          ? `Stock take ${reference} write-off`
+          : `Stock adjustment${first.note ? `: ${first.note}` : ''}`,
+        postings,
+      };
+    });
+  }
+}
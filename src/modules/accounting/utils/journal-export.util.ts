@@ -0,0 +1,148 @@
+import { CsvUtils, CsvValue } from '../../../common/utils/csv.utils';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { Journal } from '../services/accounting.service';
+
+export const JOURNAL_EXPORT_FORMATS = [
+  'generic',
+  'quickbooks',
+  'sage',
+] as const;
+
+export type JournalExportFormat = (typeof JOURNAL_EXPORT_FORMATS)[number];
+
+/** Sage 50 rejects longer references and details. */
+const SAGE_REFERENCE_LENGTH = 30;
+const SAGE_DETAILS_LENGTH = 60;
+
+/**
+ * Writes a journal as CSV for import into accounting software. Every
+ * layout has one row per journal line; lines sharing a journal number make
+ * up one balanced entry.
+ *
+ * - generic: ISO dates, account code and name, separate debit and credit.
+ * - quickbooks: the QuickBooks Online journal entry import. Accounts are
+ *   matched by name, and receivables lines carry the customer name, which
+ *   QuickBooks requires on A/R lines.
+ * - sage: the Sage 50 audit trail import, one JD (debit) or JC (credit)
+ *   row per line against the nominal code, with no VAT (T9).
+ */
+export class JournalExportUtils {
+  static toCsv(journal: Journal, format: JournalExportFormat): string {
+    if (format === 'quickbooks') return this.toQuickBooks(journal);
+    if (format === 'sage') return this.toSage(journal);
+    return this.toGeneric(journal);
+  }
+
+  private static toGeneric(journal: Journal): string {
+    const rows: CsvValue[][] = [];
+    for (const entry of journal.entries) {
+      for (const line of entry.lines) {
+        rows.push([
+          entry.journalNumber,
+          this.isoDate(entry.date),
+          entry.source,
+          entry.reference,
+          entry.branch.name,
+          line.accountCode,
+          line.accountName,
+          line.memo,
+          line.debit ? this.amount(line.debit) : '',
+          line.credit ? this.amount(line.credit) : '',
+        ]);
+      }
+    }
+    return CsvUtils.toCsv(
+      [
+        'Journal No',
+        'Date',
+        'Source',
+        'Reference',
+        'Branch',
+        'Account Code',
+        'Account Name',
+        'Description',
+        'Debit',
+        'Credit',
+      ],
+      rows,
+    );
+  }
+
+  private static toQuickBooks(journal: Journal): string {
+    const rows: CsvValue[][] = [];
+    for (const entry of journal.entries) {
+      for (const line of entry.lines) {
+        rows.push([
+          entry.journalNumber,
+          this.dayFirstDate(entry.date),
+          line.accountName,
+          line.debit ? this.amount(line.debit) : '',
+          line.credit ? this.amount(line.credit) : '',
+          line.memo,
+          line.role === 'RECEIVABLES' ? entry.party : '',
+        ]);
+      }
+    }
+    return CsvUtils.toCsv(
+      [
+        'Journal No',
+        'Journal Date',
+        'Account',
+        'Debits',
+        'Credits',
+        'Description',
+        'Name',
+      ],
+      rows,
+    );
+  }
+
+  private static toSage(journal: Journal): string {
+    const rows: CsvValue[][] = [];
+    for (const entry of journal.entries) {
+      for (const line of entry.lines) {
+        rows.push([
+          line.debit ? 'JD' : 'JC',
+          '',
+          line.accountCode,
+          '',
+          this.dayFirstDate(entry.date),
+          entry.journalNumber.slice(0, SAGE_REFERENCE_LENGTH),
+          line.memo.slice(0, SAGE_DETAILS_LENGTH),
+          this.amount(line.debit || line.credit),
+          'T9',
+          '0.00',
+        ]);
+      }
+    }
+    return CsvUtils.toCsv(
+      [
+        'Type',
+        'Account Reference',
+        'Nominal A/C Ref',
+        'Department Code',
+        'Date',
+        'Reference',
+        'Details',
+        'Net Amount',
+        'Tax Code',
+        'Tax Amount',
+      ],
+      rows,
+    );
+  }
+
+  /** Kobo to a plain two-decimal naira amount, without separators. */
+  private static amount(kobo: number): string {
+    return MoneyUtils.fromKobo(kobo).toFixed(2);
+  }
+
+  private static isoDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private static dayFirstDate(date: Date): string {
+    const [year, month, day] = this.isoDate(date).split('-');
+    return `${day}/${month}/${year}`;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BankReconciliationService } from './services/bank-reconciliation.service';
+import { BankReconciliationController } from './controllers/bank-reconciliation.controller';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
+
+@Module({
+  imports: [SystemActivityLogModule, ColumnSettingsModule],
+  providers: [BankReconciliationService],
+  controllers: [BankReconciliationController],
+  exports: [BankReconciliationService],
+})
+export class BankReconciliationModule {}
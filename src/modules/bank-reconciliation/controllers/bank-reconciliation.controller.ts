@@ -0,0 +1,162 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Request,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { BankReconciliationService } from '../services/bank-reconciliation.service';
+import {
+  AutoMatchDto,
+  CandidatesQueryDto,
+  ConfirmMatchDto,
+  IgnoreStatementLineDto,
+  ImportBankStatementDto,
+  QueryStatementLinesDto,
+} from '../dto/bank-reconciliation.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
+
+const MAX_STATEMENT_FILE_SIZE = 5 * 1024 * 1024;
+
+@Controller('bank-reconciliation')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class BankReconciliationController {
+  constructor(
+    private readonly bankReconciliationService: BankReconciliationService,
+  ) {}
+
+  /**
+   * Upload a CSV or OFX bank statement as multipart field `file`; its credits are imported and auto-matched.
+   */
+  @Post('statements')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_STATEMENT_FILE_SIZE } }),
+  )
+  async importStatement(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importBankStatementDto: ImportBankStatementDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.bankReconciliationService.importStatement(
+      file,
+      importBankStatementDto,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  @Get('statements')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findStatements(@Request() req): Promise<any[]> {
+    return this.bankReconciliationService.findStatements(req.user);
+  }
+
+  @Get('statements/:id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findStatement(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.bankReconciliationService.findStatement(id, req.user);
+  }
+
+  /**
+   * Match the statement's unmatched lines again, e.g. after late payments were recorded.
+   */
+  @Post('statements/:id/auto-match')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async autoMatch(
+    @Param('id') id: string,
+    @Body() autoMatchDto: AutoMatchDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.bankReconciliationService.autoMatch(id, autoMatchDto, req.user);
+  }
+
+  @Post('statements/:id/confirm-suggestions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async confirmSuggestions(
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<any> {
+    return this.bankReconciliationService.confirmSuggestions(
+      id,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  /**
+   * Review queue: unmatched and suggested lines unless a status is given.
+   */
+  @Get('lines')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  @Exportable('bank-reconciliation-lines')
+  async findLines(
+    @Query() query: QueryStatementLinesDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.bankReconciliationService.findLines(query, req.user);
+  }
+
+  @Get('lines/:id/candidates')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async getCandidates(
+    @Param('id') id: string,
+    @Query() query: CandidatesQueryDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.bankReconciliationService.getCandidates(id, query, req.user);
+  }
+
+  /**
+   * Confirm the suggested payment, or pass tenderId to match another one by hand.
+   */
+  @Post('lines/:id/confirm')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async confirm(
+    @Param('id') id: string,
+    @Body() confirmMatchDto: ConfirmMatchDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.bankReconciliationService.confirm(
+      id,
+      confirmMatchDto,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  @Post('lines/:id/unmatch')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async unmatch(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.bankReconciliationService.unmatch(
+      id,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  @Post('lines/:id/ignore')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async ignore(
+    @Param('id') id: string,
+    @Body() ignoreStatementLineDto: IgnoreStatementLineDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.bankReconciliationService.ignore(
+      id,
+      ignoreStatementLineDto,
+      req.user,
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BankStatementLineStatus } from '@prisma/client';
+
+export class ImportBankStatementDto {
+  @IsOptional()
+  @IsString()
+  bankName?: string;
+
+  @IsOptional()
+  @IsString()
+  accountNumber?: string;
+
+  /** Only match payments taken at this branch. ADMIN statements are always their own branch. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  /** How many days either side of the bank date a payment may fall. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  windowDays?: number;
+}
+
+export class AutoMatchDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  windowDays?: number;
+}
+
+export class ConfirmMatchDto {
+  /** Match to this payment instead of the suggested one. */
+  @IsOptional()
+  @IsString()
+  tenderId?: string;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class IgnoreStatementLineDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class QueryStatementLinesDto {
+  @IsOptional()
+  @IsEnum(BankStatementLineStatus)
+  status?: BankStatementLineStatus;
+
+  @IsOptional()
+  @IsString()
+  statementId?: string;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
+
+export class CandidatesQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  windowDays?: number;
+}
@@ -0,0 +1,803 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import {
+  AutoMatchDto,
+  CandidatesQueryDto,
+  ConfirmMatchDto,
+  IgnoreStatementLineDto,
+  ImportBankStatementDto,
+  QueryStatementLinesDto,
+} from '../dto/bank-reconciliation.dto';
+import { StatementParser } from '../utils/statement-parser.util';
+
+type ReconciliationActor = {
+  userId: string;
+  role: string;
+  email?: string;
+  name?: string;
+  branchId?: string;
+};
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+export const DEFAULT_MATCH_WINDOW_DAYS = 3;
+
+/** Sales and deposits whose transfer payments can be matched to bank credits. */
+const MATCHABLE_TYPES: Prisma.EnumTransactionTypeFilter['in'] = [
+  'DEPOSIT',
+  'PURCHASE',
+  'WHOLESALE',
+];
+
+/** A suggestion must beat the runner-up by this much, or the line goes to review. */
+const CLEAR_LEAD = 20;
+
+const DAY = 86400000;
+
+const tenderInclude = {
+  transactionRef: {
+    select: {
+      id: true,
+      invoiceNumber: true,
+      type: true,
+      date: true,
+      branchId: true,
+      walkInClientName: true,
+      walkInClientPhone: true,
+      clientRef: { select: { id: true, name: true, phone: true } },
+    },
+  },
+};
+
+type CandidateTender = Prisma.TransactionPaymentGetPayload<{
+  include: typeof tenderInclude;
+}>;
+
+type MatchableLine = {
+  id: string;
+  date: Date;
+  amount: bigint | number;
+  narration: string;
+  reference: string | null;
+};
+
+/**
+ * Bank reconciliation of transfer payments. Imported statement credits are
+ * matched to BANK_TRANSFER tenders of the same amount taken within a few
+ * days of the bank date; the narration is then searched for the customer's
+ * phone number, name and invoice number to pick between candidates. A clear
+ * winner is suggested, anything ambiguous or without a candidate is left in
+ * the review queue. Nothing counts as reconciled until someone confirms it.
+ */
+@Injectable()
+export class BankReconciliationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly lineInclude = {
+    statementRef: {
+      select: { id: true, statementNumber: true, branchId: true },
+    },
+    tenderRef: { include: tenderInclude },
+    reviewedBy: { select: { id: true, name: true } },
+  };
+
+  private toLine(line: any) {
+    if (!line) return line;
+    return {
+      ...MoneyUtils.fieldsToNaira(line, ['amount']),
+      _id: line.id,
+      tenderRef: line.tenderRef
+        ? MoneyUtils.fieldsToNaira(line.tenderRef, ['amount'])
+        : null,
+    };
+  }
+
+  async generateStatementNumber(): Promise<string> {
+    const date = new Date();
+    const prefix = `BS${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+
+    const result = await this.prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "Counter" (name, value) VALUES (${prefix}, 1)
+      ON CONFLICT (name) DO UPDATE SET value = "Counter".value + 1
+      RETURNING value
+    `;
+
+    const seq = Number(result[0].value);
+    return `${prefix}-${seq.toString().padStart(4, '0')}`;
+  }
+
+  /**
+   * Imports the credits on a CSV or OFX statement and auto-matches them.
+   * Lines already imported from an earlier (overlapping) statement are
+   * skipped, so the same export can safely be uploaded twice.
+   */
+  async importStatement(
+    file: { buffer: Buffer; originalname: string },
+    dto: ImportBankStatementDto,
+    user: ReconciliationActor,
+    device?: string,
+  ): Promise<any> {
+    const parsed = StatementParser.parse(file);
+    if (parsed.errors.length) {
+      throw new BadRequestException({
+        message: `${parsed.errors.length} row(s) of the statement could not be read. Fix them and upload the file again.`,
+        errors: parsed.errors,
+      });
+    }
+    if (parsed.lines.length === 0) {
+      throw new BadRequestException(
+        'The statement has no credits to reconcile',
+      );
+    }
+
+    const branchId =
+      user.role === UserRole.SUPER_ADMIN
+        ? dto.branchId || null
+        : user.branchId?.toString();
+    if (branchId) {
+      const branch = await this.prisma.branch.findUnique({
+        where: { id: branchId },
+      });
+      if (!branch) throw new BadRequestException('Branch does not exist');
+    }
+
+    // Identical credits on the same day are told apart by their position
+    const seen = new Map<string, number>();
+    const lines = parsed.lines.map((line) => {
+      let fingerprint: string;
+      if (line.fitId) {
+        fingerprint = `ofx:${dto.accountNumber || ''}:${line.fitId}`;
+      } else {
+        const key = [
+          dto.accountNumber || '',
+          line.date.toISOString().split('T')[0],
+          line.amount,
+          line.narration,
+          line.reference || '',
+        ].join('|');
+        const occurrence = (seen.get(key) ?? 0) + 1;
+        seen.set(key, occurrence);
+        fingerprint = createHash('sha256')
+          .update(`${key}|${occurrence}`)
+          .digest('hex');
+      }
+      return { ...line, fingerprint };
+    });
+
+    const existing = await this.prisma.bankStatementLine.findMany({
+      where: { fingerprint: { in: lines.map((l) => l.fingerprint) } },
+      select: { fingerprint: true },
+    });
+    const imported = new Set(existing.map((l) => l.fingerprint));
+    const fresh = lines.filter((l) => !imported.has(l.fingerprint));
+    if (fresh.length === 0) {
+      throw new BadRequestException(
+        'Every credit on this statement has already been imported',
+      );
+    }
+
+    const dates = fresh.map((l) => l.date.getTime());
+    const statementNumber = await this.generateStatementNumber();
+    const statement = await this.prisma.bankStatement.create({
+      data: {
+        statementNumber,
+        bankName: dto.bankName,
+        accountNumber: dto.accountNumber,
+        branchId,
+        fileName: file.originalname,
+        periodStart: new Date(Math.min(...dates)),
+        periodEnd: new Date(Math.max(...dates)),
+        importedById: user.userId,
+        lines: {
+          create: fresh.map((l) => ({
+            date: l.date,
+            amount: l.amount,
+            narration: l.narration,
+            reference: l.reference,
+            fingerprint: l.fingerprint,
+          })),
+        },
+      },
+      include: { lines: true },
+    });
+
+    const suggested = await this.matchLines(
+      statement.lines,
+      branchId,
+      dto.windowDays ?? DEFAULT_MATCH_WINDOW_DAYS,
+    );
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'BANK_STATEMENT_IMPORTED',
+        details: `Bank statement ${statementNumber} imported from ${file.originalname}: ${fresh.length} credit(s), ${suggested} matched automatically`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: device || 'System',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return {
+      statement: await this.findStatement(statement.id, user),
+      imported: fresh.length,
+      duplicatesSkipped: lines.length - fresh.length,
+      debitsSkipped: parsed.debitsSkipped,
+      suggested,
+      unmatched: fresh.length - suggested,
+    };
+  }
+
+  /** Runs matching again for the statement's unmatched lines, e.g. after late payments were recorded. */
+  async autoMatch(
+    statementId: string,
+    dto: AutoMatchDto,
+    user: ReconciliationActor,
+  ): Promise<any> {
+    const statement = await this.getStatement(statementId, user);
+    const lines = await this.prisma.bankStatementLine.findMany({
+      where: { statementId, status: 'UNMATCHED' },
+    });
+    const suggested = await this.matchLines(
+      lines,
+      statement.branchId,
+      dto.windowDays ?? DEFAULT_MATCH_WINDOW_DAYS,
+    );
+    return {
+      statement: await this.findStatement(statementId, user),
+      suggested,
+      unmatched: lines.length - suggested,
+    };
+  }
+
+  async findStatements(user: ReconciliationActor): Promise<any[]> {
+    const where: Prisma.BankStatementWhereInput = GLOBAL_ROLES.includes(
+      user.role,
+    )
+      ? {}
+      : { branchId: user.branchId?.toString() };
+    const statements = await this.prisma.bankStatement.findMany({
+      where,
+      include: {
+        branchRef: { select: { id: true, name: true } },
+        importedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const counts = await this.prisma.bankStatementLine.groupBy({
+      by: ['statementId', 'status'],
+      where: { statementId: { in: statements.map((s) => s.id) } },
+      _count: { _all: true },
+      _sum: { amount: true },
+    });
+    return statements.map((s) => ({
+      ...s,
+      _id: s.id,
+      ...this.tally(counts.filter((c) => c.statementId === s.id)),
+    }));
+  }
+
+  async findStatement(id: string, user: ReconciliationActor): Promise<any> {
+    const statement = await this.getStatement(id, user);
+    const lines = await this.prisma.bankStatementLine.findMany({
+      where: { statementId: id },
+      include: this.lineInclude,
+      orderBy: { date: 'asc' },
+    });
+    const counts = await this.prisma.bankStatementLine.groupBy({
+      by: ['statementId', 'status'],
+      where: { statementId: id },
+      _count: { _all: true },
+      _sum: { amount: true },
+    });
+    return {
+      ...statement,
+      _id: statement.id,
+      ...this.tally(counts),
+      lines: lines.map((line) => this.toLine(line)),
+    };
+  }
+
+  /** The review queue: by default every line still unmatched or awaiting confirmation. */
+  async findLines(
+    query: QueryStatementLinesDto,
+    user: ReconciliationActor,
+  ): Promise<any[]> {
+    const branchId = GLOBAL_ROLES.includes(user.role)
+      ? query.branchId
+      : user.branchId?.toString();
+
+    const where: Prisma.BankStatementLineWhereInput = {
+      status: query.status || { in: ['UNMATCHED', 'SUGGESTED'] },
+    };
+    if (query.statementId) where.statementId = query.statementId;
+    if (branchId) where.statementRef = { branchId };
+
+    const lines = await this.prisma.bankStatementLine.findMany({
+      where,
+      include: this.lineInclude,
+      orderBy: { date: 'asc' },
+    });
+    return lines.map((line) => this.toLine(line));
+  }
+
+  /** Unreconciled transfer payments of the line's amount, best match first. */
+  async getCandidates(
+    lineId: string,
+    query: CandidatesQueryDto,
+    user: ReconciliationActor,
+  ): Promise<any[]> {
+    const line = await this.getLine(lineId, user);
+    const windowDays = query.windowDays ?? DEFAULT_MATCH_WINDOW_DAYS;
+    const tenders = await this.findCandidates(
+      [line],
+      line.statementRef.branchId,
+      windowDays,
+      line.id,
+    );
+    return tenders
+      .map((tender) => ({
+        tender,
+        score: this.score(line, tender, windowDays),
+      }))
+      .filter((c) => c.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map(({ tender, score }) => ({
+        ...MoneyUtils.fieldsToNaira(tender, ['amount']),
+        _id: tender.id,
+        score,
+      }));
+  }
+
+  /**
+   * Confirms the suggested payment, or the one given, as the bank credit and
+   * marks it reconciled. The transaction is reconciled once all of its
+   * transfer payments are.
+   */
+  async confirm(
+    lineId: string,
+    dto: ConfirmMatchDto,
+    user: ReconciliationActor,
+    device?: string,
+  ): Promise<any> {
+    const line = await this.getLine(lineId, user);
+    this.assertReviewable(line);
+
+    const tenderId = dto.tenderId || line.tenderId;
+    if (!tenderId) {
+      throw new BadRequestException(
+        'This line has no suggested payment; pass tenderId to match it by hand',
+      );
+    }
+    const tender = await this.prisma.transactionPayment.findUnique({
+      where: { id: tenderId },
+      include: { transactionRef: true, statementLine: true },
+    });
+    if (!tender) throw new NotFoundException('Payment not found');
+    if (tender.method !== 'BANK_TRANSFER') {
+      throw new BadRequestException(
+        `Only bank transfer payments can be reconciled; this one was taken as ${tender.method}`,
+      );
+    }
+    if (tender.reconciledAt || tender.statementLine?.status === 'MATCHED') {
+      throw new BadRequestException(
+        'This payment has already been reconciled to another bank credit',
+      );
+    }
+    if (MoneyUtils.kobo(tender.amount) !== MoneyUtils.kobo(line.amount)) {
+      throw new BadRequestException(
+        `The payment is for ${MoneyUtils.fromKobo(tender.amount)} but the bank credit is ${MoneyUtils.fromKobo(line.amount)}`,
+      );
+    }
+    if (tender.transactionRef.status === 'CANCELLED') {
+      throw new BadRequestException(
+        `Transaction ${tender.transactionRef.invoiceNumber} has been voided`,
+      );
+    }
+    if (
+      line.statementRef.branchId &&
+      tender.transactionRef.branchId !== line.statementRef.branchId
+    ) {
+      throw new BadRequestException(
+        'The payment was taken at a different branch from this statement',
+      );
+    }
+
+    const reconciledAt = new Date();
+    await this.prisma.$transaction(async (tx) => {
+      // Take the payment off any other line it was only suggested for
+      if (tender.statementLine && tender.statementLine.id !== line.id) {
+        await tx.bankStatementLine.update({
+          where: { id: tender.statementLine.id },
+          data: { status: 'UNMATCHED', tenderId: null, matchScore: null },
+        });
+      }
+      const { count } = await tx.bankStatementLine.updateMany({
+        where: { id: line.id, status: { in: ['UNMATCHED', 'SUGGESTED'] } },
+        data: {
+          status: 'MATCHED',
+          tenderId,
+          matchScore: tenderId === line.tenderId ? line.matchScore : null,
+          reviewedById: user.userId,
+          reviewedAt: reconciledAt,
+          note: dto.note,
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException('This line has already been reviewed');
+      }
+      await this.setReconciled(
+        tx,
+        tender.id,
+        tender.transactionId,
+        reconciledAt,
+      );
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'BANK_PAYMENT_RECONCILED',
+        details: `Bank credit of ${MoneyUtils.fromKobo(line.amount)} on ${line.date.toISOString().split('T')[0]} reconciled to ${tender.transactionRef.invoiceNumber}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: device || 'System',
+        branchId: tender.transactionRef.branchId,
+      })
+      .catch(() => {});
+
+    return this.toLine(await this.getLine(lineId, user));
+  }
+
+  /** Confirms every suggested match on the statement in one go. */
+  async confirmSuggestions(
+    statementId: string,
+    user: ReconciliationActor,
+    device?: string,
+  ): Promise<any> {
+    const statement = await this.getStatement(statementId, user);
+    const lines = await this.prisma.bankStatementLine.findMany({
+      where: { statementId, status: 'SUGGESTED' },
+      include: { tenderRef: true },
+    });
+    if (lines.length === 0) {
+      throw new BadRequestException(
+        'There are no suggested matches to confirm',
+      );
+    }
+
+    const reconciledAt = new Date();
+    await this.prisma.$transaction(
+      async (tx) => {
+        for (const line of lines) {
+          await tx.bankStatementLine.update({
+            where: { id: line.id },
+            data: {
+              status: 'MATCHED',
+              reviewedById: user.userId,
+              reviewedAt: reconciledAt,
+            },
+          });
+          await this.setReconciled(
+            tx,
+            line.tenderId,
+            line.tenderRef.transactionId,
+            reconciledAt,
+          );
+        }
+      },
+      { timeout: 120000 },
+    );
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'BANK_PAYMENT_RECONCILED',
+        details: `${lines.length} suggested match(es) confirmed on bank statement ${statement.statementNumber}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: device || 'System',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.findStatement(statementId, user);
+  }
+
+  /** Rejects a suggestion, reverses a confirmed match or un-ignores a line; it goes back to the queue. */
+  async unmatch(
+    lineId: string,
+    user: ReconciliationActor,
+    device?: string,
+  ): Promise<any> {
+    const line = await this.getLine(lineId, user);
+    if (line.status === 'UNMATCHED') {
+      throw new BadRequestException('This line is not matched');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.bankStatementLine.updateMany({
+        where: { id: line.id, status: line.status },
+        data: {
+          status: 'UNMATCHED',
+          tenderId: null,
+          matchScore: null,
+          reviewedById: user.userId,
+          reviewedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException('This line has changed; reload it');
+      }
+      if (line.status === 'MATCHED') {
+        await this.setReconciled(
+          tx,
+          line.tenderId,
+          line.tenderRef.transactionId,
+          null,
+        );
+      }
+    });
+
+    if (line.status === 'MATCHED') {
+      this.systemActivityLogService
+        .createLog({
+          action: 'BANK_PAYMENT_UNRECONCILED',
+          details: `Bank credit of ${MoneyUtils.fromKobo(line.amount)} on ${line.date.toISOString().split('T')[0]} unmatched from ${line.tenderRef.transactionRef.invoiceNumber}`,
+          performedBy: user.email || user.name || user.userId,
+          role: user.role,
+          device: device || 'System',
+          branchId: line.tenderRef.transactionRef.branchId,
+        })
+        .catch(() => {});
+    }
+
+    return this.toLine(await this.getLine(lineId, user));
+  }
+
+  /** Takes a credit that is not a customer payment (interest, loans, transfers between accounts) out of the queue. */
+  async ignore(
+    lineId: string,
+    dto: IgnoreStatementLineDto,
+    user: ReconciliationActor,
+  ): Promise<any> {
+    const line = await this.getLine(lineId, user);
+    this.assertReviewable(line);
+
+    await this.prisma.bankStatementLine.update({
+      where: { id: line.id },
+      data: {
+        status: 'IGNORED',
+        tenderId: null,
+        matchScore: null,
+        reviewedById: user.userId,
+        reviewedAt: new Date(),
+        note: dto.reason,
+      },
+    });
+    return this.toLine(await this.getLine(lineId, user));
+  }
+
+  /** Suggests a payment for each line that has a clear best candidate. Returns how many were suggested. */
+  private async matchLines(
+    lines: MatchableLine[],
+    branchId: string | null,
+    windowDays: number,
+  ): Promise<number> {
+    if (lines.length === 0) return 0;
+    const tenders = await this.findCandidates(lines, branchId, windowDays);
+
+    const used = new Set<string>();
+    const suggestions: { lineId: string; tenderId: string; score: number }[] =
+      [];
+    const ordered = [...lines].sort(
+      (a, b) => a.date.getTime() - b.date.getTime(),
+    );
+    for (const line of ordered) {
+      const [best, next] = tenders
+        .filter((t) => !used.has(t.id))
+        .map((tender) => ({
+          tender,
+          score: this.score(line, tender, windowDays),
+        }))
+        .filter((c) => c.score !== null)
+        .sort((a, b) => b.score - a.score);
+      if (!best || (next && best.score - next.score < CLEAR_LEAD)) continue;
+      used.add(best.tender.id);
+      suggestions.push({
+        lineId: line.id,
+        tenderId: best.tender.id,
+        score: best.score,
+      });
+    }
+
+    if (suggestions.length) {
+      await this.prisma.$transaction(
+        suggestions.map((s) =>
+          this.prisma.bankStatementLine.updateMany({
+            where: { id: s.lineId, status: 'UNMATCHED' },
+            data: {
+              status: 'SUGGESTED',
+              tenderId: s.tenderId,
+              matchScore: s.score,
+            },
+          }),
+        ),
+      );
+    }
+    return suggestions.length;
+  }
+
+  private findCandidates(
+    lines: MatchableLine[],
+    branchId: string | null,
+    windowDays: number,
+    forLineId?: string,
+  ): Promise<CandidateTender[]> {
+    const dates = lines.map((l) => l.date.getTime());
+    return this.prisma.transactionPayment.findMany({
+      where: {
+        method: 'BANK_TRANSFER',
+        reconciledAt: null,
+        amount: {
+          in: [...new Set(lines.map((l) => MoneyUtils.kobo(l.amount)))],
+        },
+        createdAt: {
+          gte: new Date(Math.min(...dates) - (windowDays + 1) * DAY),
+          lt: new Date(Math.max(...dates) + (windowDays + 1) * DAY),
+        },
+        OR: [
+          { statementLine: { is: null } },
+          ...(forLineId ? [{ statementLine: { is: { id: forLineId } } }] : []),
+        ],
+        transactionRef: {
+          type: { in: MATCHABLE_TYPES },
+          status: { not: 'CANCELLED' },
+          ...(branchId ? { branchId } : {}),
+        },
+      },
+      include: tenderInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * How well a payment fits a bank credit, or null if it cannot be the same
+   * money. Same amount is required; then closeness in days, the customer's
+   * phone, the invoice number or payment reference, and their name in the
+   * narration all add to the score.
+   */
+  private score(
+    line: MatchableLine,
+    tender: CandidateTender,
+    windowDays: number,
+  ): number | null {
+    if (MoneyUtils.kobo(tender.amount) !== MoneyUtils.kobo(line.amount)) {
+      return null;
+    }
+    const day = (date: Date) => Date.parse(date.toISOString().split('T')[0]);
+    const days = Math.abs(day(tender.createdAt) - day(line.date)) / DAY;
+    if (days > windowDays) return null;
+
+    let score = Math.max(30 - 10 * days, 0);
+    const text = `${line.narration} ${line.reference || ''}`.toUpperCase();
+    const transaction = tender.transactionRef;
+
+    const phone = (
+      transaction.clientRef?.phone ||
+      transaction.walkInClientPhone ||
+      ''
+    )
+      .replace(/\D/g, '')
+      .slice(-10);
+    if (phone.length === 10 && text.replace(/\D/g, '').includes(phone)) {
+      score += 40;
+    }
+
+    const references = [transaction.invoiceNumber, tender.reference]
+      .filter((r) => r && r.length >= 4)
+      .map((r) => r.toUpperCase());
+    if (references.some((r) => text.includes(r))) score += 50;
+
+    const name = transaction.clientRef?.name || transaction.walkInClientName;
+    const tokens = (name || '')
+      .toUpperCase()
+      .split(/[^A-Z0-9]+/)
+      .filter((t) => t.length >= 3);
+    if (tokens.length && tokens.every((t) => text.includes(t))) score += 20;
+
+    return score;
+  }
+
+  private async setReconciled(
+    tx: Prisma.TransactionClient,
+    tenderId: string,
+    transactionId: string,
+    reconciledAt: Date | null,
+  ) {
+    await tx.transactionPayment.update({
+      where: { id: tenderId },
+      data: { reconciledAt },
+    });
+    const outstanding = await tx.transactionPayment.count({
+      where: { transactionId, method: 'BANK_TRANSFER', reconciledAt: null },
+    });
+    await tx.transaction.update({
+      where: { id: transactionId },
+      data: { reconciledAt: outstanding === 0 ? reconciledAt : null },
+    });
+  }
+
+  private tally(
+    counts: {
+      status: string;
+      _count: { _all: number };
+      _sum: { amount: bigint | null };
+    }[],
+  ) {
+    const lineCount = (status: string) =>
+      counts.find((c) => c.status === status)?._count._all ?? 0;
+    return {
+      lineCount: counts.reduce((acc, c) => acc + c._count._all, 0),
+      totalCredits: MoneyUtils.fromKobo(
+        MoneyUtils.sum(counts.map((c) => MoneyUtils.kobo(c._sum.amount))),
+      ),
+      unmatchedCount: lineCount('UNMATCHED'),
+      suggestedCount: lineCount('SUGGESTED'),
+      matchedCount: lineCount('MATCHED'),
+      ignoredCount: lineCount('IGNORED'),
+    };
+  }
+
+  private async getStatement(id: string, user: ReconciliationActor) {
+    const statement = await this.prisma.bankStatement.findUnique({
+      where: { id },
+      include: {
+        branchRef: { select: { id: true, name: true } },
+        importedBy: { select: { id: true, name: true } },
+      },
+    });
+    if (!statement) throw new NotFoundException('Bank statement not found');
+    if (
+      !GLOBAL_ROLES.includes(user.role) &&
+      statement.branchId !== user.branchId?.toString()
+    ) {
+      throw new NotFoundException('Bank statement not found');
+    }
+    return statement;
+  }
+
+  private async getLine(id: string, user: ReconciliationActor) {
+    const line = await this.prisma.bankStatementLine.findUnique({
+      where: { id },
+      include: this.lineInclude,
+    });
+    if (!line) throw new NotFoundException('Statement line not found');
+    if (
+      !GLOBAL_ROLES.includes(user.role) &&
+      line.statementRef.branchId !== user.branchId?.toString()
+    ) {
+      throw new NotFoundException('Statement line not found');
+    }
+    return line;
+  }
+
+  private assertReviewable(line: { status: string }) {
+    if (line.status === 'MATCHED' || line.status === 'IGNORED') {
+      throw new BadRequestException(
+        `This line is already ${line.status}; unmatch it first`,
+      );
+    }
+  }
+}
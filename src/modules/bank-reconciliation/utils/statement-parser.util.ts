@@ -0,0 +1,265 @@
+import { BadRequestException } from '@nestjs/common';
+import { CsvUtils } from '../../../common/utils/csv.utils';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { SpreadsheetUtils } from '../../../common/utils/spreadsheet.utils';
+
+export interface ParsedStatementLine {
+  date: Date;
+  /** Credit amount in kobo. */
+  amount: number;
+  narration: string;
+  reference: string | null;
+  /** The bank's own transaction id (OFX FITID), when it gives one. */
+  fitId: string | null;
+}
+
+export interface ParsedStatement {
+  lines: ParsedStatementLine[];
+  debitsSkipped: number;
+  errors: { row: number; message: string }[];
+}
+
+/** Normalised header names, most specific first. */
+const DATE_HEADERS = [
+  'transactiondate',
+  'transdate',
+  'txndate',
+  'postingdate',
+  'postdate',
+  'date',
+  'valuedate',
+];
+const NARRATION_HEADERS = [
+  'narration',
+  'description',
+  'transactiondetails',
+  'details',
+  'remarks',
+  'particulars',
+  'memo',
+];
+const REFERENCE_HEADERS = [
+  'reference',
+  'referenceno',
+  'referencenumber',
+  'transactionreference',
+  'ref',
+  'refno',
+  'transactionid',
+  'chequeno',
+];
+const CREDIT_HEADERS = [
+  'credit',
+  'credits',
+  'creditamount',
+  'deposit',
+  'deposits',
+  'lodgement',
+  'lodgements',
+  'moneyin',
+];
+const AMOUNT_HEADERS = ['amount', 'transactionamount'];
+
+/** Bank exports often put account details above the table. */
+const MAX_PREAMBLE_ROWS = 20;
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+/**
+ * Reads bank statement exports into credit lines. CSV layouts differ by
+ * bank, so columns are found by header name: either separate credit/debit
+ * columns or one signed amount. Dates are read day-first, as Nigerian banks
+ * print them. Debits are counted and dropped; only money in is reconciled.
+ */
+export class StatementParser {
+  static parse(file: {
+    buffer: Buffer;
+    originalname: string;
+  }): ParsedStatement {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException(
+        'No file provided. Upload a CSV or OFX bank statement.',
+      );
+    }
+    const extension = file.originalname.toLowerCase().split('.').pop();
+    const text = file.buffer.toString('utf-8');
+    if (extension === 'csv') return this.parseCsv(text);
+    if (extension === 'ofx' || extension === 'qfx') return this.parseOfx(text);
+    throw new BadRequestException(
+      'Only .csv and .ofx bank statements can be imported',
+    );
+  }
+
+  static parseCsv(text: string): ParsedStatement {
+    const table = CsvUtils.parse(text);
+    const headerIndex = table.slice(0, MAX_PREAMBLE_ROWS).findIndex((row) => {
+      const keys = row.map((h) => SpreadsheetUtils.normaliseHeader(h || ''));
+      return (
+        DATE_HEADERS.some((h) => keys.includes(h)) &&
+        [...CREDIT_HEADERS, ...AMOUNT_HEADERS].some((h) => keys.includes(h))
+      );
+    });
+    if (headerIndex === -1) {
+      throw new BadRequestException(
+        'Could not find the statement header row. It needs a date column and a credit or amount column.',
+      );
+    }
+
+    const keys = table[headerIndex].map((h) =>
+      SpreadsheetUtils.normaliseHeader(h || ''),
+    );
+    const column = (candidates: string[]) => {
+      const header = candidates.find((h) => keys.includes(h));
+      return header ? keys.indexOf(header) : -1;
+    };
+    const dateCol = column(DATE_HEADERS);
+    const narrationCol = column(NARRATION_HEADERS);
+    const referenceCol = column(REFERENCE_HEADERS);
+    const creditCol = column(CREDIT_HEADERS);
+    const amountCol = column(AMOUNT_HEADERS);
+
+    const result: ParsedStatement = { lines: [], debitsSkipped: 0, errors: [] };
+    table.slice(headerIndex + 1).forEach((cells, i) => {
+      const row = headerIndex + i + 2;
+      const cell = (col: number) =>
+        col === -1 ? '' : (cells[col] ?? '').trim();
+      // Blank, opening/closing balance and total rows have no date
+      if (!cell(dateCol)) return;
+
+      const rawAmount = creditCol !== -1 ? cell(creditCol) : cell(amountCol);
+      if (creditCol !== -1 && rawAmount === '') {
+        result.debitsSkipped++;
+        return;
+      }
+      const amount = this.parseAmount(rawAmount);
+      if (amount === null) {
+        result.errors.push({
+          row,
+          message: `Unreadable amount "${rawAmount}"`,
+        });
+        return;
+      }
+      if (amount <= 0) {
+        result.debitsSkipped++;
+        return;
+      }
+      const date = this.parseDate(cell(dateCol));
+      if (!date) {
+        result.errors.push({
+          row,
+          message: `Unreadable date "${cell(dateCol)}"`,
+        });
+        return;
+      }
+      result.lines.push({
+        date,
+        amount: MoneyUtils.toKobo(amount),
+        narration: cell(narrationCol),
+        reference: cell(referenceCol) || null,
+        fitId: null,
+      });
+    });
+    return result;
+  }
+
+  static parseOfx(text: string): ParsedStatement {
+    const result: ParsedStatement = { lines: [], debitsSkipped: 0, errors: [] };
+    // OFX 1.x is SGML and may leave leaf tags unclosed, so read each value up to the next tag
+    const field = (block: string, tag: string) =>
+      block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+
+    const blocks = text.split(/<STMTTRN>/i).slice(1);
+    if (blocks.length === 0) {
+      throw new BadRequestException('No transactions found in the OFX file');
+    }
+    blocks.forEach((block, i) => {
+      const amount = this.parseAmount(field(block, 'TRNAMT'));
+      const fitId = field(block, 'FITID') || null;
+      if (amount === null) {
+        result.errors.push({
+          row: i + 1,
+          message: `Unreadable amount in transaction ${fitId || i + 1}`,
+        });
+        return;
+      }
+      if (amount <= 0) {
+        result.debitsSkipped++;
+        return;
+      }
+      const posted = field(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+      if (!posted) {
+        result.errors.push({
+          row: i + 1,
+          message: `Unreadable date in transaction ${fitId || i + 1}`,
+        });
+        return;
+      }
+      result.lines.push({
+        date: new Date(Date.UTC(+posted[1], +posted[2] - 1, +posted[3])),
+        amount: MoneyUtils.toKobo(amount),
+        narration: [field(block, 'NAME'), field(block, 'MEMO')]
+          .filter(Boolean)
+          .join(' '),
+        reference: field(block, 'CHECKNUM') || field(block, 'REFNUM') || null,
+        fitId,
+      });
+    });
+    return result;
+  }
+
+  /** "1,250.00", "NGN 1250", "(500.00)" and "500.00 DR" are all understood. */
+  static parseAmount(value: string): number | null {
+    let text = (value || '').trim().toUpperCase();
+    if (!text) return null;
+    let sign = 1;
+    if (/^\(.*\)$/.test(text)) {
+      sign = -1;
+      text = text.slice(1, -1);
+    }
+    if (/DR$/.test(text)) sign = -1;
+    text = text.replace(/CR$|DR$|NGN|₦|,|\s/g, '');
+    if (!/^[-+]?\d*\.?\d+$/.test(text)) return null;
+    return sign * parseFloat(text);
+  }
+
+  /** ISO, day-first numeric (05/10/2026) or with a month name (05-Oct-2026). */
+  static parseDate(value: string): Date | null {
+    const text = (value || '').trim();
+    let year: number, month: number, day: number;
+    let m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (m) {
+      [year, month, day] = [+m[1], +m[2], +m[3]];
+    } else if ((m = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/))) {
+      [day, month, year] = [+m[1], +m[2], +m[3]];
+    } else if (
+      (m = text.match(
+        /^(\d{1,2})[-\s/]([A-Za-z]{3})[A-Za-z]*[-\s/,]*(\d{2,4})/,
+      ))
+    ) {
+      [day, month, year] = [
+        +m[1],
+        MONTHS.indexOf(m[2].toLowerCase()) + 1,
+        +m[3],
+      ];
+    } else {
+      return null;
+    }
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCDate() === day ? date : null;
+  }
+}
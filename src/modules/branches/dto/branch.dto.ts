@@ -1,4 +1,13 @@
-import { IsNotEmpty, IsString, IsOptional, IsEmail } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsEmail,
+  IsIn,
+} from 'class-validator';
+
+/** Paper widths (mm) of the thermal printers used at branch counters. */
+export const RECEIPT_WIDTHS = [58, 80];
 
 export class CreateBranchDto {
   @IsNotEmpty()
@@ -16,6 +25,10 @@ export class CreateBranchDto {
   @IsOptional()
   @IsEmail()
   email?: string;
+
+  @IsOptional()
+  @IsIn(RECEIPT_WIDTHS)
+  receiptWidth?: number;
 }
 
 export class UpdateBranchDto {
@@ -35,6 +48,10 @@ export class UpdateBranchDto {
   @IsEmail()
   email?: string;
 
+  @IsOptional()
+  @IsIn(RECEIPT_WIDTHS)
+  receiptWidth?: number;
+
   @IsOptional()
   isActive?: boolean;
 }
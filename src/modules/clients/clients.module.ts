@@ -1,13 +1,22 @@
 import { Module } from '@nestjs/common';
 import { ClientsService } from './services/clients.service';
+import { ClientLedgerService } from './services/client-ledger.service';
+import { ClientCreditService } from './services/client-credit.service';
+import { ClientStatementService } from './services/client-statement.service';
 import { ClientsController } from './controllers/clients.controller';
 import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
 import { WebSocketModule } from '../websocket/websocket.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
 
 @Module({
-  imports: [SystemActivityLogModule, WebSocketModule],
-  providers: [ClientsService],
+  imports: [SystemActivityLogModule, WebSocketModule, ColumnSettingsModule],
+  providers: [
+    ClientsService,
+    ClientLedgerService,
+    ClientCreditService,
+    ClientStatementService,
+  ],
   controllers: [ClientsController],
-  exports: [ClientsService],
+  exports: [ClientsService, ClientLedgerService, ClientCreditService],
 })
 export class ClientsModule {}
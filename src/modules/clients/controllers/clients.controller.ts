@@ -9,24 +9,36 @@ import {
   Query,
   UseGuards,
   Request,
+  Response,
+  StreamableFile,
 } from '@nestjs/common';
 import { ClientsService } from '../services/clients.service';
+import { ClientCreditService } from '../services/client-credit.service';
+import { ClientStatementService } from '../services/client-statement.service';
 import {
   CreateClientDto,
   UpdateClientDto,
   AddTransactionDto,
   QueryClientsDto,
+  UpdateClientCreditDto,
 } from '../dto/client.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { UserRole } from '../../../common/enums';
 import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
 import { use } from 'passport';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { ParseDatePipe } from 'src/common/pipes/parse-date.pipe';
 
 @Controller('clients')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class ClientsController {
-  constructor(private readonly clientsService: ClientsService) {}
+  constructor(
+    private readonly clientsService: ClientsService,
+    private readonly clientCreditService: ClientCreditService,
+    private readonly clientStatementService: ClientStatementService,
+  ) {}
 
   @Post()
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
@@ -78,6 +90,7 @@ export class ClientsController {
 
   @Get('debtors')
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  @Exportable('debtors')
   async findDebtors(
     @Request() req,
     @Query('minAmount') minAmount?: number,
@@ -86,6 +99,12 @@ export class ClientsController {
     return this.clientsService.findDebtors(parsedMinAmount, req.user);
   }
 
+  @Get('credit-holds')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findOnCreditHold(): Promise<any[]> {
+    return this.clientCreditService.findOnHold();
+  }
+
   @Get(':id')
   @Roles(
     UserRole.SUPER_ADMIN,
@@ -118,6 +137,100 @@ export class ClientsController {
     );
   }
 
+  @Get(':id/ledger')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getLedger(
+    @Request() req,
+    @Param('id') id: string,
+    @Query('startDate') startDate?: Date,
+    @Query('endDate') endDate?: Date,
+  ) {
+    return this.clientsService.getLedger(id, startDate, endDate, req.user);
+  }
+
+  /**
+   * Statement of account for a period: opening balance, every debit and
+   * credit with its running balance, and the closing balance
+   */
+  @Get(':id/statement')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getStatement(
+    @Param('id') id: string,
+    @Query('startDate', ParseDatePipe) startDate: Date,
+    @Query('endDate', ParseDatePipe) endDate: Date,
+  ) {
+    return this.clientStatementService.getStatement(id, startDate, endDate);
+  }
+
+  /**
+   * Statement as a PDF on branch letterhead (the caller's branch unless branchId is given)
+   */
+  @Get(':id/statement.pdf')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getStatementPdf(
+    @Param('id') id: string,
+    @Query('startDate', ParseDatePipe) startDate: Date,
+    @Query('endDate', ParseDatePipe) endDate: Date,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+    @Query('branchId') branchId?: string,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } = await this.clientStatementService.renderPdf(
+      id,
+      startDate,
+      endDate,
+      branchId || req.user.branchId,
+    );
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
+  /**
+   * Statement as CSV
+   */
+  @Get(':id/statement.csv')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getStatementCsv(
+    @Param('id') id: string,
+    @Query('startDate', ParseDatePipe) startDate: Date,
+    @Query('endDate', ParseDatePipe) endDate: Date,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } = await this.clientStatementService.renderCsv(
+      id,
+      startDate,
+      endDate,
+    );
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
   @Patch(':id')
   @Roles(UserRole.SUPER_ADMIN)
   async update(
@@ -128,6 +241,22 @@ export class ClientsController {
     return this.clientsService.update(id, updateClientDto, req.user);
   }
 
+  @Patch(':id/credit')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async updateCredit(
+    @Param('id') id: string,
+    @Body() updateClientCreditDto: UpdateClientCreditDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.clientCreditService.updateCreditTerms(
+      id,
+      updateClientCreditDto,
+      req.user,
+      device,
+    );
+  }
+
   @Post(':id/transactions')
   @Roles(
     UserRole.SUPER_ADMIN,
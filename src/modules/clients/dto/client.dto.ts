@@ -7,6 +7,8 @@ import {
   Min,
   IsEnum,
   IsDate,
+  IsInt,
+  ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -32,7 +34,7 @@ export class CreateClientDto {
   address?: string;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   balance?: number;
 }
 
@@ -58,16 +60,51 @@ export class UpdateClientDto {
   address?: string;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   balance?: number;
 }
 
+export class UpdateClientCreditDto {
+  /** Most the client may owe, in naira; null removes the limit. */
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  creditLimit?: number | null;
+
+  /** Days an invoice may stay unpaid before the client goes on hold; null disables holds. */
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(0)
+  paymentTermsDays?: number | null;
+}
+
+/**
+ * Sent with a sale that would exceed the client's credit limit or is made
+ * while the client is on hold. Approver credentials are only needed when the
+ * cashier is not an ADMIN or SUPER_ADMIN.
+ */
+export class CreditOverrideDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+
+  @IsOptional()
+  @IsEmail()
+  approverEmail?: string;
+
+  @IsOptional()
+  @IsString()
+  approverPassword?: string;
+}
+
 export class AddTransactionDto {
   @IsEnum(['DEPOSIT', 'PURCHASE', 'PICKUP', 'RETURN', 'WHOLESALE'])
   type: 'DEPOSIT' | 'PURCHASE' | 'PICKUP' | 'RETURN' | 'WHOLESALE';
 
   @IsNotEmpty()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   amount: number;
 
@@ -91,12 +128,12 @@ export class QueryClientsDto {
   search?: string;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   minBalance?: number;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   maxBalance?: number;
 
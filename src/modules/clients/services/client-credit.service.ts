@@ -0,0 +1,389 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { CreditOverrideDto, UpdateClientCreditDto } from '../dto/client.dto';
+import { UserRole } from '../../../common/enums';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { RealtimeEventService } from '../../websocket/realtime-event.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+
+const CREDIT_OVERRIDE_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.ADMIN];
+
+/** Actor recorded on holds placed or released by the scheduled sweep. */
+const SYSTEM_ACTOR = { id: '', email: 'System', role: UserRole.SUPER_ADMIN };
+
+export interface CreditSaleInput {
+  clientId: string;
+  branchId: string;
+  /** Sale total and amount paid at the till, in kobo. */
+  total: number;
+  amountPaid: number;
+}
+
+export interface CreditOverrideApproval {
+  id: string;
+  email: string;
+  reason: string;
+}
+
+@Injectable()
+export class ClientCreditService {
+  private readonly logger = new Logger(ClientCreditService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+    private readonly realtimeEventService: RealtimeEventService,
+  ) {}
+
+  private toDoc(client: any) {
+    if (!client) return client;
+    return {
+      ...MoneyUtils.fieldsToNaira(client, ['balance', 'creditLimit']),
+      _id: client.id,
+    };
+  }
+
+  async updateCreditTerms(
+    id: string,
+    dto: UpdateClientCreditDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    const existing = await this.prisma.client.findUnique({ where: { id } });
+    if (!existing) throw new NotFoundException('Client not found');
+
+    const data: any = {};
+    if (dto.creditLimit !== undefined) {
+      data.creditLimit =
+        dto.creditLimit === null ? null : MoneyUtils.toKobo(dto.creditLimit);
+    }
+    if (dto.paymentTermsDays !== undefined) {
+      data.paymentTermsDays = dto.paymentTermsDays;
+    }
+    await this.prisma.client.update({ where: { id }, data });
+
+    const limit =
+      data.creditLimit === undefined
+        ? 'unchanged'
+        : data.creditLimit === null
+          ? 'none'
+          : MoneyUtils.fromKobo(data.creditLimit);
+    const terms =
+      dto.paymentTermsDays === undefined
+        ? 'unchanged'
+        : dto.paymentTermsDays === null
+          ? 'none'
+          : `${dto.paymentTermsDays} days`;
+    this.systemActivityLogService
+      .createLog({
+        action: 'CLIENT_CREDIT_UPDATED',
+        details: `Credit terms for ${existing.name} - Limit: ${limit}, Payment terms: ${terms}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    const client = await this.refreshHold(id, {
+      id: currentUser?.userId || '',
+      email: currentUser?.email || '',
+      role: currentUser?.role,
+      branchId: currentUser?.branchId?.toString(),
+      branch: currentUser?.branch,
+    });
+    return this.toDoc(client);
+  }
+
+  async findOnHold(): Promise<any[]> {
+    const clients = await this.prisma.client.findMany({
+      where: { creditHold: true },
+      orderBy: { creditHoldAt: 'asc' },
+    });
+    return clients.map((c) => this.toDoc(c));
+  }
+
+  /**
+   * Checks a sale that leaves money owing against the client's hold and credit
+   * limit. Returns undefined when the sale is within terms, otherwise the
+   * approver of the override; throws when no valid override was supplied.
+   */
+  async authoriseSale(
+    input: CreditSaleInput,
+    override: CreditOverrideDto | undefined,
+    currentUser: { userId: string; role: string; email?: string },
+  ): Promise<CreditOverrideApproval | undefined> {
+    const addedDebt = input.total - input.amountPaid;
+    if (addedDebt <= 0) return undefined;
+
+    const client = await this.refreshHold(input.clientId);
+    const problems: string[] = [];
+    if (client.creditHold) {
+      problems.push(
+        `Client "${client.name}" is on credit hold (${client.creditHoldReason})`,
+      );
+    }
+    if (client.creditLimit !== null) {
+      const debtAfterSale = -MoneyUtils.kobo(client.balance) + addedDebt;
+      const limit = MoneyUtils.kobo(client.creditLimit);
+      if (debtAfterSale > limit) {
+        problems.push(
+          `This sale takes "${client.name}" to ${MoneyUtils.fromKobo(debtAfterSale)} owed, over their credit limit of ${MoneyUtils.fromKobo(limit)}`,
+        );
+      }
+    }
+    if (problems.length === 0) return undefined;
+
+    const approver = await this.approveCreditOverride(
+      currentUser,
+      override,
+      input.branchId,
+      problems.join('. '),
+    );
+    return { ...approver, reason: override.reason };
+  }
+
+  /**
+   * Puts the client on hold while any invoice is unpaid past their payment
+   * terms, and releases the hold once none are. A client whose balance is
+   * not negative owes nothing overall and is never held. Branch admins are
+   * alerted either way. Returns the client row as stored (amounts in kobo).
+   */
+  async refreshHold(
+    clientId: string,
+    actor: {
+      id: string;
+      email: string;
+      role: UserRole;
+      branchId?: string;
+      branch?: string;
+    } = SYSTEM_ACTOR,
+  ) {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+
+    const overdue =
+      client.paymentTermsDays === null || MoneyUtils.kobo(client.balance) >= 0
+        ? []
+        : await this.findOverdueInvoices(client.id, client.paymentTermsDays);
+
+    if (overdue.length > 0 && !client.creditHold) {
+      const reason = `${overdue.length} invoice(s) unpaid past ${client.paymentTermsDays}-day terms, oldest ${overdue[0].invoiceNumber}`;
+      const held = await this.prisma.client.update({
+        where: { id: client.id },
+        data: {
+          creditHold: true,
+          creditHoldReason: reason,
+          creditHoldAt: new Date(),
+        },
+      });
+      this.notifyHoldChange(
+        held,
+        'placed',
+        overdue,
+        overdue.map((i) => i.branchId),
+        actor,
+      );
+      return held;
+    }
+    if (overdue.length === 0 && client.creditHold) {
+      // Alert the branches whose invoices were settled while the hold was on.
+      const settled = await this.prisma.transaction.findMany({
+        where: {
+          clientId: client.id,
+          type: { in: ['PURCHASE', 'WHOLESALE'] },
+          updatedAt: { gte: client.creditHoldAt || new Date(0) },
+        },
+        select: { branchId: true },
+        distinct: ['branchId'],
+      });
+      const released = await this.prisma.client.update({
+        where: { id: client.id },
+        data: { creditHold: false, creditHoldReason: null, creditHoldAt: null },
+      });
+      this.notifyHoldChange(
+        released,
+        'released',
+        [],
+        settled.map((t) => t.branchId).concat(actor.branchId || []),
+        actor,
+      );
+      return released;
+    }
+    return client;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async refreshAllHolds(): Promise<void> {
+    const clients = await this.prisma.client.findMany({
+      where: {
+        OR: [{ paymentTermsDays: { not: null } }, { creditHold: true }],
+      },
+      select: { id: true },
+    });
+    for (const { id } of clients) {
+      try {
+        await this.refreshHold(id);
+      } catch (error: any) {
+        this.logger.error(
+          `Failed to refresh credit hold for client ${id}: ${error?.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Invoices unpaid past terms, oldest first. Payments the client has made
+   * but not yet allocated are set against the oldest of them, so only what
+   * that credit does not cover counts as overdue.
+   */
+  private async findOverdueInvoices(clientId: string, termsDays: number) {
+    const cutoff = new Date(Date.now() - termsDays * 86400000);
+    const invoices = await this.prisma.transaction.findMany({
+      where: {
+        clientId,
+        type: { in: ['PURCHASE', 'WHOLESALE'] },
+        status: 'PENDING',
+        OR: [
+          { date: { lt: cutoff } },
+          { date: null, createdAt: { lt: cutoff } },
+        ],
+      },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        branchId: true,
+        total: true,
+        amountPaid: true,
+      },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+    const payments = await this.prisma.payment.findMany({
+      where: { clientId, transactionRef: { status: { not: 'CANCELLED' } } },
+      select: { amount: true, allocatedAmount: true },
+    });
+    let credit = MoneyUtils.sum(
+      payments.map(
+        (p) => MoneyUtils.kobo(p.amount) - MoneyUtils.kobo(p.allocatedAmount),
+      ),
+    );
+    return invoices.filter((i) => {
+      const outstanding =
+        MoneyUtils.kobo(i.total) - MoneyUtils.kobo(i.amountPaid);
+      if (outstanding <= 0) return false;
+      const covered = Math.min(Math.max(credit, 0), outstanding);
+      credit -= covered;
+      return outstanding > covered;
+    });
+  }
+
+  private notifyHoldChange(
+    client: any,
+    change: 'placed' | 'released',
+    overdue: { invoiceNumber: string }[],
+    branchIds: string[],
+    actor: typeof SYSTEM_ACTOR & { branchId?: string; branch?: string },
+  ) {
+    this.systemActivityLogService
+      .createLog({
+        action:
+          change === 'placed'
+            ? 'CLIENT_CREDIT_HOLD_PLACED'
+            : 'CLIENT_CREDIT_HOLD_RELEASED',
+        details:
+          change === 'placed'
+            ? `Client ${client.name} put on credit hold: ${client.creditHoldReason}`
+            : `Credit hold released for ${client.name}`,
+        performedBy: actor.email || 'System',
+        role: actor === SYSTEM_ACTOR ? 'SYSTEM' : actor.role,
+        device: 'System',
+        branchId: branchIds[0],
+      })
+      .catch(() => {});
+
+    try {
+      const eventData = this.realtimeEventService.createEventData(
+        `credit_hold_${change}`,
+        'client',
+        client.id,
+        {
+          ...this.toDoc(client),
+          overdueInvoices: overdue.map((i) => i.invoiceNumber),
+        },
+        actor,
+      );
+      if (change === 'placed') {
+        this.realtimeEventService.emitClientCreditHoldPlaced(
+          eventData,
+          branchIds,
+        );
+      } else {
+        this.realtimeEventService.emitClientCreditHoldReleased(
+          eventData,
+          branchIds,
+        );
+      }
+    } catch {}
+  }
+
+  /**
+   * ADMIN and SUPER_ADMIN cashiers approve their own overrides; anyone else
+   * needs an ADMIN of the selling branch (or a SUPER_ADMIN) to enter their
+   * credentials. A reason is always required so it can be kept on the sale.
+   */
+  private async approveCreditOverride(
+    currentUser: { userId: string; role: string; email?: string },
+    override: CreditOverrideDto | undefined,
+    branchId: string,
+    reason: string,
+  ): Promise<{ id: string; email: string }> {
+    if (!override) {
+      throw new ForbiddenException(
+        `${reason}. An ADMIN must approve a credit override.`,
+      );
+    }
+    if (CREDIT_OVERRIDE_ROLES.includes(currentUser.role)) {
+      return { id: currentUser.userId, email: currentUser.email || '' };
+    }
+    if (!override.approverEmail || !override.approverPassword) {
+      throw new ForbiddenException(
+        `${reason}. An ADMIN must approve a credit override.`,
+      );
+    }
+
+    const approver = await this.prisma.user.findUnique({
+      where: { email: override.approverEmail },
+    });
+    const isPasswordValid =
+      approver &&
+      (await bcrypt.compare(override.approverPassword, approver.password));
+    if (!isPasswordValid) {
+      throw new ForbiddenException(
+        'Credit override rejected: invalid approver credentials',
+      );
+    }
+    if (!approver.isActive || approver.isBlocked) {
+      throw new ForbiddenException(
+        'Credit override rejected: approver account is not active',
+      );
+    }
+    if (
+      !CREDIT_OVERRIDE_ROLES.includes(approver.role) ||
+      (approver.role !== UserRole.SUPER_ADMIN && approver.branchId !== branchId)
+    ) {
+      throw new ForbiddenException(
+        'Credit override rejected: approver cannot authorise credit for this branch',
+      );
+    }
+    return { id: approver.id, email: approver.email };
+  }
+}
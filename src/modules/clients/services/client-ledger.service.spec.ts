@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ClientLedgerService } from './client-ledger.service';
+
+describe('ClientLedgerService', () => {
+  let service: ClientLedgerService;
+  let tx: any;
+
+  beforeEach(async () => {
+    tx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      clientLedgerEntry: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'e1', ...data })),
+      },
+      client: {
+        update: jest.fn().mockResolvedValue({}),
+        findUnique: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClientLedgerService,
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(ClientLedgerService);
+  });
+
+  describe('post', () => {
+    it('locks the client row before reading the last entry', async () => {
+      await service.post(tx, {
+        clientId: 'c1',
+        entryType: 'CREDIT',
+        amount: 5000,
+        description: 'Deposit',
+      });
+
+      expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(tx.$queryRaw.mock.calls[0][0].join('?')).toContain('FOR UPDATE');
+      expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.clientLedgerEntry.findFirst.mock.invocationCallOrder[0],
+      );
+      expect(tx.clientLedgerEntry.findFirst).toHaveBeenCalledWith({
+        where: { clientId: 'c1' },
+        orderBy: { sequence: 'desc' },
+      });
+    });
+
+    it('raises the running balance on a credit', async () => {
+      tx.clientLedgerEntry.findFirst.mockResolvedValue({
+        runningBalance: BigInt(-20000),
+      });
+
+      const entry = await service.post(tx, {
+        clientId: 'c1',
+        entryType: 'CREDIT',
+        amount: 5000,
+        description: 'Deposit',
+        transactionId: 't1',
+      });
+
+      expect(entry.runningBalance).toBe(-15000);
+      expect(tx.clientLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          clientId: 'c1',
+          transactionId: 't1',
+          entryType: 'CREDIT',
+          amount: 5000,
+          runningBalance: -15000,
+        }),
+      });
+    });
+
+    it('lowers the running balance on a debit and refreshes the client', async () => {
+      tx.clientLedgerEntry.findFirst.mockResolvedValue({
+        runningBalance: BigInt(3000),
+      });
+      const date = new Date('2026-10-01T09:00:00Z');
+
+      await service.post(tx, {
+        clientId: 'c1',
+        entryType: 'DEBIT',
+        amount: 10000,
+        description: 'Invoice',
+        date,
+      });
+
+      expect(tx.client.update).toHaveBeenCalledWith({
+        where: { id: 'c1' },
+        data: { balance: -7000, lastTransactionDate: date },
+      });
+    });
+
+    it('starts from zero when the client has no entries', async () => {
+      const entry = await service.post(tx, {
+        clientId: 'c1',
+        entryType: 'DEBIT',
+        amount: 2500,
+        description: 'Invoice',
+      });
+
+      expect(entry.runningBalance).toBe(-2500);
+      expect(entry.date).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('postMany', () => {
+    it('skips zero amounts and returns the last running balance', async () => {
+      let balance = 0;
+      tx.clientLedgerEntry.findFirst.mockImplementation(() =>
+        Promise.resolve({ runningBalance: balance }),
+      );
+      tx.clientLedgerEntry.create.mockImplementation(({ data }) => {
+        balance = data.runningBalance;
+        return Promise.resolve(data);
+      });
+
+      const result = await service.postMany(tx, [
+        { clientId: 'c1', entryType: 'DEBIT', amount: 9000, description: 'a' },
+        { clientId: 'c1', entryType: 'CREDIT', amount: 0, description: 'b' },
+        { clientId: 'c1', entryType: 'CREDIT', amount: 4000, description: 'c' },
+      ]);
+
+      expect(result).toBe(-5000);
+      expect(tx.clientLedgerEntry.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns the current balance when every amount is zero', async () => {
+      tx.client.findUnique.mockResolvedValue({ balance: BigInt(1200) });
+
+      const result = await service.postMany(tx, [
+        { clientId: 'c1', entryType: 'CREDIT', amount: 0, description: 'a' },
+      ]);
+
+      expect(result).toBe(1200);
+      expect(tx.clientLedgerEntry.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { UserRole } from '../../../common/enums';
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+export type LedgerEntryType = 'DEBIT' | 'CREDIT';
+
+export interface PostLedgerEntryInput {
+  clientId: string;
+  entryType: LedgerEntryType;
+  /** Amount in kobo. */
+  amount: number;
+  description: string;
+  transactionId?: string;
+  date?: Date;
+  createdById?: string;
+}
+
+@Injectable()
+export class ClientLedgerService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private toDoc(entry: any) {
+    if (!entry) return entry;
+    return {
+      ...MoneyUtils.fieldsToNaira(entry, ['amount', 'runningBalance']),
+      _id: entry.id,
+    };
+  }
+
+  /**
+   * Appends an entry to a client's ledger inside the caller's transaction.
+   * The client row is locked first so concurrent postings for the same client
+   * are serialised, then Client.balance is refreshed from the new running balance.
+   */
+  async post(
+    tx: Prisma.TransactionClient,
+    input: PostLedgerEntryInput,
+  ): Promise<any> {
+    await tx.$queryRaw`SELECT id FROM "Client" WHERE id = ${input.clientId} FOR UPDATE`;
+
+    const last = await tx.clientLedgerEntry.findFirst({
+      where: { clientId: input.clientId },
+      orderBy: { sequence: 'desc' },
+    });
+    const previousBalance = MoneyUtils.kobo(last?.runningBalance);
+    const runningBalance =
+      input.entryType === 'CREDIT'
+        ? previousBalance + input.amount
+        : previousBalance - input.amount;
+    const date = input.date || new Date();
+
+    const entry = await tx.clientLedgerEntry.create({
+      data: {
+        clientId: input.clientId,
+        transactionId: input.transactionId,
+        entryType: input.entryType,
+        amount: input.amount,
+        runningBalance,
+        description: input.description,
+        date,
+        createdById: input.createdById,
+      },
+    });
+
+    await tx.client.update({
+      where: { id: input.clientId },
+      data: { balance: runningBalance, lastTransactionDate: date },
+    });
+
+    return entry;
+  }
+
+  /**
+   * Posts several entries in order and returns the balance (in kobo) after the last one.
+   * Zero amounts are skipped so a fully unpaid sale does not get an empty payment line.
+   */
+  async postMany(
+    tx: Prisma.TransactionClient,
+    inputs: PostLedgerEntryInput[],
+  ): Promise<number> {
+    let balance: number | undefined;
+    for (const input of inputs) {
+      if (!input.amount) continue;
+      const entry = await this.post(tx, input);
+      balance = MoneyUtils.kobo(entry.runningBalance);
+    }
+    if (balance !== undefined || inputs.length === 0) return balance ?? 0;
+
+    const client = await tx.client.findUnique({
+      where: { id: inputs[0].clientId },
+    });
+    return MoneyUtils.kobo(client?.balance);
+  }
+
+  /**
+   * A client's ledger for a period. The opening and closing balances are the
+   * sums of every entry dated before and up to the period, so back-dated
+   * entries fall on the right side of it. Outside the global roles only
+   * entries from the user's own branch are listed; the balances stay the
+   * client's overall.
+   */
+  async getLedger(
+    clientId: string,
+    startDate?: Date,
+    endDate?: Date,
+    currentUser?: { role: string; branchId?: any },
+  ): Promise<any> {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+
+    const where: Prisma.ClientLedgerEntryWhereInput = { clientId };
+    if (startDate || endDate) where.date = { gte: startDate, lte: endDate };
+    if (currentUser && !GLOBAL_ROLES.includes(currentUser.role)) {
+      const branchId = currentUser.branchId?.toString();
+      where.OR = [
+        { transactionRef: { branchId } },
+        { transactionId: null, createdBy: { branchId } },
+      ];
+    }
+
+    const entries = await this.prisma.clientLedgerEntry.findMany({
+      where,
+      include: {
+        transactionRef: {
+          select: { id: true, invoiceNumber: true, type: true },
+        },
+        createdBy: { select: { id: true, name: true } },
+      },
+      orderBy: { sequence: 'asc' },
+    });
+
+    const openingBalance = startDate
+      ? await this.balanceAt(clientId, { lt: startDate })
+      : 0;
+    const closingBalance = endDate
+      ? await this.balanceAt(clientId, { lte: endDate })
+      : MoneyUtils.kobo(client.balance);
+
+    return {
+      clientId: client.id,
+      clientName: client.name,
+      openingBalance: MoneyUtils.fromKobo(openingBalance),
+      closingBalance: MoneyUtils.fromKobo(closingBalance),
+      currentBalance: MoneyUtils.fromKobo(client.balance),
+      entries: entries.map((e) => this.toDoc(e)),
+    };
+  }
+
+  /** Credits less debits over the client's entries dated within the filter, in kobo. */
+  private async balanceAt(
+    clientId: string,
+    date: Prisma.DateTimeFilter,
+  ): Promise<number> {
+    const sums = await this.prisma.clientLedgerEntry.groupBy({
+      by: ['entryType'],
+      where: { clientId, date },
+      _sum: { amount: true },
+    });
+    return sums.reduce(
+      (acc, row) =>
+        row.entryType === 'CREDIT'
+          ? acc + MoneyUtils.kobo(row._sum.amount)
+          : acc - MoneyUtils.kobo(row._sum.amount),
+      0,
+    );
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { CsvUtils } from '../../../common/utils/csv.utils';
+import { PdfUtils, RenderedDocument } from '../../../common/utils/pdf.utils';
+import { renderStatement } from '../templates/statement.template';
+
+export interface StatementLine {
+  date: Date;
+  reference: string | null;
+  type: string | null;
+  description: string;
+  /** Amounts in kobo. Debits increase what the client owes. */
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface ClientStatement {
+  client: {
+    id: string;
+    name: string;
+    phone: string;
+    address: string | null;
+  };
+  startDate: Date;
+  endDate: Date;
+  /** All balances in kobo; negative means the client owes. */
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  lines: StatementLine[];
+}
+
+/**
+ * Account statements built from the client ledger. Lines are in date order,
+ * so backdated sales land where the customer expects them; the running
+ * balance is recomputed in that order from the opening balance.
+ */
+@Injectable()
+export class ClientStatementService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async buildStatement(
+    clientId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<ClientStatement> {
+    if (startDate > endDate) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+
+    const before = await this.prisma.clientLedgerEntry.groupBy({
+      by: ['entryType'],
+      where: { clientId, date: { lt: startDate } },
+      _sum: { amount: true },
+    });
+    const openingBalance = before.reduce(
+      (acc, row) =>
+        row.entryType === 'CREDIT'
+          ? acc + MoneyUtils.kobo(row._sum.amount)
+          : acc - MoneyUtils.kobo(row._sum.amount),
+      0,
+    );
+
+    const entries = await this.prisma.clientLedgerEntry.findMany({
+      where: { clientId, date: { gte: startDate, lte: endDate } },
+      include: {
+        transactionRef: { select: { invoiceNumber: true, type: true } },
+      },
+      orderBy: [{ date: 'asc' }, { sequence: 'asc' }],
+    });
+
+    let balance = openingBalance;
+    let totalDebits = 0;
+    let totalCredits = 0;
+    const lines = entries.map((entry): StatementLine => {
+      const amount = MoneyUtils.kobo(entry.amount);
+      const isCredit = entry.entryType === 'CREDIT';
+      balance += isCredit ? amount : -amount;
+      if (isCredit) totalCredits += amount;
+      else totalDebits += amount;
+      return {
+        date: entry.date,
+        reference: entry.transactionRef?.invoiceNumber || null,
+        type: entry.transactionRef?.type || null,
+        description: entry.description,
+        debit: isCredit ? 0 : amount,
+        credit: isCredit ? amount : 0,
+        balance,
+      };
+    });
+
+    return {
+      client: {
+        id: client.id,
+        name: client.name,
+        phone: client.phone,
+        address: client.address,
+      },
+      startDate,
+      endDate,
+      openingBalance,
+      totalDebits,
+      totalCredits,
+      closingBalance: balance,
+      lines,
+    };
+  }
+
+  async getStatement(
+    clientId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<any> {
+    const statement = await this.buildStatement(clientId, startDate, endDate);
+    return {
+      ...MoneyUtils.fieldsToNaira(statement, [
+        'openingBalance',
+        'totalDebits',
+        'totalCredits',
+        'closingBalance',
+      ]),
+      lines: statement.lines.map((line) =>
+        MoneyUtils.fieldsToNaira(line, ['debit', 'credit', 'balance']),
+      ),
+    };
+  }
+
+  /** PDF statement on the letterhead of the given branch. */
+  async renderPdf(
+    clientId: string,
+    startDate: Date,
+    endDate: Date,
+    branchId: string | undefined,
+  ): Promise<RenderedDocument> {
+    if (!branchId) {
+      throw new BadRequestException(
+        'branchId is required to choose the statement letterhead',
+      );
+    }
+    const branch = await this.prisma.branch.findUnique({
+      where: { id: branchId },
+    });
+    if (!branch) throw new NotFoundException('Branch not found');
+
+    const statement = await this.buildStatement(clientId, startDate, endDate);
+    const doc = PdfUtils.createDocument();
+    renderStatement(doc, statement, branch);
+    return {
+      filename: this.filename(statement, 'pdf'),
+      buffer: await PdfUtils.toBuffer(doc),
+    };
+  }
+
+  async renderCsv(
+    clientId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<RenderedDocument> {
+    const statement = await this.buildStatement(clientId, startDate, endDate);
+    const day = (date: Date) => date.toISOString().split('T')[0];
+    const csv = CsvUtils.toCsv(
+      [
+        'Date',
+        'Reference',
+        'Type',
+        'Description',
+        'Debit',
+        'Credit',
+        'Balance',
+      ],
+      [
+        [
+          day(statement.startDate),
+          '',
+          '',
+          'Opening balance',
+          '',
+          '',
+          MoneyUtils.fromKobo(statement.openingBalance),
+        ],
+        ...statement.lines.map((line) => [
+          day(line.date),
+          line.reference,
+          line.type,
+          line.description,
+          line.debit ? MoneyUtils.fromKobo(line.debit) : '',
+          line.credit ? MoneyUtils.fromKobo(line.credit) : '',
+          MoneyUtils.fromKobo(line.balance),
+        ]),
+        [
+          day(statement.endDate),
+          '',
+          '',
+          'Closing balance',
+          MoneyUtils.fromKobo(statement.totalDebits),
+          MoneyUtils.fromKobo(statement.totalCredits),
+          MoneyUtils.fromKobo(statement.closingBalance),
+        ],
+      ],
+    );
+    return {
+      filename: this.filename(statement, 'csv'),
+      buffer: Buffer.from(csv, 'utf-8'),
+    };
+  }
+
+  private filename(statement: ClientStatement, extension: string): string {
+    const slug = statement.client.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    const day = (date: Date) => date.toISOString().split('T')[0];
+    return `statement-${slug || statement.client.id}-${day(statement.startDate)}-to-${day(statement.endDate)}.${extension}`;
+  }
+}
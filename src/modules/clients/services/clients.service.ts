@@ -14,6 +14,8 @@ import {
 import { UserRole } from '../../../common/enums';
 import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
 import { RealtimeEventService } from '../../websocket/realtime-event.service';
+import { ClientLedgerService } from './client-ledger.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
 
 @Injectable()
 export class ClientsService {
@@ -21,11 +23,15 @@ export class ClientsService {
     private readonly prisma: PrismaService,
     private readonly systemActivityLogService: SystemActivityLogService,
     private readonly realtimeEventService: RealtimeEventService,
+    private readonly clientLedgerService: ClientLedgerService,
   ) {}
 
   private toDoc(client: any) {
     if (!client) return client;
-    return { ...client, _id: client.id };
+    return {
+      ...MoneyUtils.fieldsToNaira(client, ['balance', 'creditLimit']),
+      _id: client.id,
+    };
   }
 
   async create(
@@ -38,16 +44,29 @@ export class ClientsService {
     });
     if (existing) throw new ConflictException('Phone number already registered');
 
-    const client = await this.prisma.client.create({
-      data: {
-        name: createClientDto.name,
-        phone: createClientDto.phone,
-        email: createClientDto.email,
-        description: createClientDto.description,
-        address: createClientDto.address,
-        balance: createClientDto.balance ?? 0,
-        isRegistered: true,
-      },
+    const openingBalance = MoneyUtils.toKobo(createClientDto.balance);
+    const client = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.client.create({
+        data: {
+          name: createClientDto.name,
+          phone: createClientDto.phone,
+          email: createClientDto.email,
+          description: createClientDto.description,
+          address: createClientDto.address,
+          balance: 0,
+          isRegistered: true,
+        },
+      });
+      if (openingBalance === 0) return created;
+
+      await this.clientLedgerService.post(tx, {
+        clientId: created.id,
+        entryType: openingBalance > 0 ? 'CREDIT' : 'DEBIT',
+        amount: Math.abs(openingBalance),
+        description: 'Opening balance',
+        createdById: currentUser?.userId,
+      });
+      return tx.client.findUniqueOrThrow({ where: { id: created.id } });
     });
 
     this.systemActivityLogService.createLog({
@@ -62,8 +81,17 @@ export class ClientsService {
     try {
       if (currentUser) {
         const eventData = this.realtimeEventService.createEventData(
-          'created', 'client', client.id, client,
-          { id: currentUser._id?.toString() || '', email: currentUser.email, role: currentUser.role, branchId: currentUser.branchId?.toString(), branch: currentUser.branch },
+          'created',
+          'client',
+          client.id,
+          this.toDoc(client),
+          {
+            id: currentUser._id?.toString() || '',
+            email: currentUser.email,
+            role: currentUser.role,
+            branchId: currentUser.branchId?.toString(),
+            branch: currentUser.branch,
+          },
         );
         this.realtimeEventService.emitClientCreated(eventData);
       }
@@ -81,9 +109,13 @@ export class ClientsService {
         { phone: { contains: query.search, mode: 'insensitive' } },
       ];
     }
-    if (query.minBalance !== undefined) where.balance = { gte: query.minBalance };
+    if (query.minBalance !== undefined)
+      where.balance = { gte: MoneyUtils.toKobo(query.minBalance) };
     if (query.maxBalance !== undefined) {
-      where.balance = { ...where.balance, lte: query.maxBalance };
+      where.balance = {
+        ...where.balance,
+        lte: MoneyUtils.toKobo(query.maxBalance),
+      };
     }
     if (query.startDate || query.endDate) {
       where.lastTransactionDate = {};
@@ -108,9 +140,13 @@ export class ClientsService {
         { phone: { contains: query.search, mode: 'insensitive' } },
       ];
     }
-    if (query.minBalance !== undefined) where.balance = { gte: query.minBalance };
+    if (query.minBalance !== undefined)
+      where.balance = { gte: MoneyUtils.toKobo(query.minBalance) };
     if (query.maxBalance !== undefined) {
-      where.balance = { ...where.balance, lte: query.maxBalance };
+      where.balance = {
+        ...where.balance,
+        lte: MoneyUtils.toKobo(query.maxBalance),
+      };
     }
     if (query.startDate || query.endDate) {
       where.lastTransactionDate = {};
@@ -147,9 +183,23 @@ export class ClientsService {
       if (existing) throw new ConflictException('Phone number already registered');
     }
 
-    const client = await this.prisma.client.update({
-      where: { id },
-      data: updateClientDto,
+    const { balance, ...details } = updateClientDto;
+    const client = await this.prisma.$transaction(async (tx) => {
+      if (balance !== undefined) {
+        const current = await tx.client.findUniqueOrThrow({ where: { id } });
+        const delta =
+          MoneyUtils.toKobo(balance) - MoneyUtils.kobo(current.balance);
+        if (delta !== 0) {
+          await this.clientLedgerService.post(tx, {
+            clientId: id,
+            entryType: delta > 0 ? 'CREDIT' : 'DEBIT',
+            amount: Math.abs(delta),
+            description: 'Manual balance adjustment',
+            createdById: currentUser?.userId,
+          });
+        }
+      }
+      return tx.client.update({ where: { id }, data: details });
     });
 
     const changes = Object.keys(updateClientDto).join(', ');
@@ -165,8 +215,17 @@ export class ClientsService {
     try {
       if (currentUser) {
         const eventData = this.realtimeEventService.createEventData(
-          'updated', 'client', client.id, client,
-          { id: currentUser._id?.toString() || '', email: currentUser.email, role: currentUser.role, branchId: currentUser.branchId?.toString(), branch: currentUser.branch },
+          'updated',
+          'client',
+          client.id,
+          this.toDoc(client),
+          {
+            id: currentUser._id?.toString() || '',
+            email: currentUser.email,
+            role: currentUser.role,
+            branchId: currentUser.branchId?.toString(),
+            branch: currentUser.branch,
+          },
         );
         this.realtimeEventService.emitClientUpdated(eventData);
       }
@@ -184,24 +243,28 @@ export class ClientsService {
     const client = await this.findById(id, currentUser);
     const date = transactionDto.date || new Date();
 
-    let newBalance = client.balance;
-    switch (transactionDto.type) {
-      case 'DEPOSIT':
-        newBalance += transactionDto.amount;
-        break;
-      case 'PURCHASE':
-      case 'PICKUP':
-      case 'WHOLESALE':
-        newBalance -= transactionDto.amount;
-        break;
-      case 'RETURN':
-        newBalance += transactionDto.amount;
-        break;
-    }
-
-    const updated = await this.prisma.client.update({
+    const isCredit =
+      transactionDto.type === 'DEPOSIT' || transactionDto.type === 'RETURN';
+    const referencedTransaction = transactionDto.reference
+      ? await this.prisma.transaction.findUnique({
+          where: { id: transactionDto.reference },
+        })
+      : null;
+
+    const entry = await this.prisma.$transaction((tx) =>
+      this.clientLedgerService.post(tx, {
+        clientId: id,
+        entryType: isCredit ? 'CREDIT' : 'DEBIT',
+        amount: MoneyUtils.toKobo(transactionDto.amount),
+        description: transactionDto.description,
+        transactionId: referencedTransaction?.id,
+        date,
+        createdById: currentUser?.userId,
+      }),
+    );
+    const newBalance = MoneyUtils.fromKobo(entry.runningBalance);
+    const updated = await this.prisma.client.findUniqueOrThrow({
       where: { id },
-      data: { balance: newBalance, lastTransactionDate: date },
     });
 
     this.systemActivityLogService.createLog({
@@ -234,8 +297,17 @@ export class ClientsService {
     try {
       if (currentUser) {
         const eventData = this.realtimeEventService.createEventData(
-          'deleted', 'client', id, client,
-          { id: currentUser._id?.toString() || '', email: currentUser.email, role: currentUser.role, branchId: currentUser.branchId?.toString(), branch: currentUser.branch },
+          'deleted',
+          'client',
+          id,
+          this.toDoc(client),
+          {
+            id: currentUser._id?.toString() || '',
+            email: currentUser.email,
+            role: currentUser.role,
+            branchId: currentUser.branchId?.toString(),
+            branch: currentUser.branch,
+          },
         );
         this.realtimeEventService.emitClientDeleted(eventData);
       }
@@ -269,22 +341,42 @@ export class ClientsService {
 
     let totalDeposits = 0;
     let totalPurchases = 0;
+    let totalReturns = 0;
 
     transactions.forEach(t => {
-      if (t.type === 'DEPOSIT') totalDeposits += t.total;
-      if (t.type === 'PURCHASE') totalPurchases += t.total;
+      if (t.status === 'CANCELLED') return;
+      if (t.type === 'DEPOSIT') totalDeposits += MoneyUtils.kobo(t.total);
+      if (t.type === 'PURCHASE' || t.type === 'WHOLESALE')
+        totalPurchases += MoneyUtils.kobo(t.total);
+      if (t.type === 'RETURN') totalReturns += MoneyUtils.kobo(t.total);
     });
 
     return {
-      totalDeposits,
-      totalPurchases,
+      totalDeposits: MoneyUtils.fromKobo(totalDeposits),
+      totalPurchases: MoneyUtils.fromKobo(totalPurchases),
+      totalReturns: MoneyUtils.fromKobo(totalReturns),
       currentBalance: client.balance,
       transactions: transactions.map(t => this.transformTransaction(t)),
     };
   }
 
+  async getLedger(
+    id: string,
+    startDate?: Date,
+    endDate?: Date,
+    currentUser?: any,
+  ): Promise<any> {
+    return this.clientLedgerService.getLedger(
+      id,
+      startDate,
+      endDate,
+      currentUser,
+    );
+  }
+
   private transformTransaction(t: any) {
-    const { userRef, clientRef, branchRef, ...rest } = t;
+    const { userRef, clientRef, branchRef, ...rest } =
+      MoneyUtils.transactionToNaira(t);
     return {
       ...rest,
       _id: t.id,
@@ -300,7 +392,7 @@ export class ClientsService {
     const clients = await this.prisma.client.findMany();
     return clients
       .filter(c => {
-        const balance = Number(c.balance);
+        const balance = MoneyUtils.fromKobo(c.balance);
         return !isNaN(balance) && balance < 0 && Math.abs(balance) >= minAmount;
       })
       .sort((a, b) => Number(a.balance) - Number(b.balance))
@@ -329,7 +421,9 @@ export class ClientsService {
       where: { clientId: id, type: 'PURCHASE' },
     });
 
-    const totalSpent = transactions.reduce((sum, t) => sum + t.total, 0);
+    const totalSpent = MoneyUtils.fromKobo(
+      MoneyUtils.sum(transactions.map((t) => t.total)),
+    );
     const currentBalance = client.balance;
     const lifetimeValue = currentBalance >= 0
       ? totalSpent + currentBalance
@@ -0,0 +1,71 @@
+import { PdfLetterhead, PdfUtils } from '../../../common/utils/pdf.utils';
+import { ClientStatement } from '../services/client-statement.service';
+
+function balance(kobo: number): string {
+  if (kobo === 0) return PdfUtils.money(0);
+  return `${PdfUtils.money(Math.abs(kobo))} ${kobo < 0 ? 'DR' : 'CR'}`;
+}
+
+/** Statement of account: opening balance, every posting, closing balance. */
+export function renderStatement(
+  doc: PDFKit.PDFDocument,
+  statement: ClientStatement,
+  branch: PdfLetterhead,
+) {
+  PdfUtils.letterhead(doc, branch, 'STATEMENT OF ACCOUNT');
+
+  const { client } = statement;
+  PdfUtils.details(doc, [
+    [
+      'Customer',
+      [client.name, client.phone, client.address].filter(Boolean).join('\n'),
+    ],
+    [
+      'Period',
+      `${PdfUtils.date(statement.startDate)} to ${PdfUtils.date(statement.endDate)}`,
+    ],
+    ['Statement Date', PdfUtils.date(new Date())],
+  ]);
+
+  PdfUtils.table(
+    doc,
+    [
+      { header: 'Date', width: 65 },
+      { header: 'Reference', width: 80 },
+      { header: 'Description', width: 140 },
+      { header: 'Debit', width: 70, align: 'right' },
+      { header: 'Credit', width: 70, align: 'right' },
+      { header: 'Balance', width: 90, align: 'right' },
+    ],
+    [
+      [
+        PdfUtils.date(statement.startDate),
+        '',
+        'Opening balance',
+        '',
+        '',
+        balance(statement.openingBalance),
+      ],
+      ...statement.lines.map((line) => [
+        PdfUtils.date(line.date),
+        line.reference || '-',
+        line.description,
+        line.debit ? PdfUtils.money(line.debit) : '',
+        line.credit ? PdfUtils.money(line.credit) : '',
+        balance(line.balance),
+      ]),
+    ],
+  );
+
+  PdfUtils.totals(doc, [
+    ['Opening Balance', balance(statement.openingBalance)],
+    ['Total Debits', PdfUtils.money(statement.totalDebits)],
+    ['Total Credits', PdfUtils.money(statement.totalCredits)],
+    ['Closing Balance', balance(statement.closingBalance), true],
+  ]);
+
+  PdfUtils.footer(
+    doc,
+    `${branch.name} - Statement for ${client.name} - CR = in credit, DR = owing`,
+  );
+}
@@ -12,9 +12,34 @@ export class UpdateColumnSettingDto {
   columnOrder?: string[];
 }
 
+/** Tables whose column layout can be saved; all but users are list/report exports. */
+export const COLUMN_SETTING_TABLES = [
+  'users',
+  'transactions',
+  'revenue-total',
+  'revenue-daily',
+  'revenue-monthly',
+  'debtors',
+  'low-stock-products',
+  'reorder-suggestions',
+  'system-activity-logs',
+  'reports-sales',
+  'reports-margins',
+  'reports-inventory',
+  'reports-clients',
+  'reports-overdue-installments',
+  'reports-receivables-aging',
+  'stock-take-variance',
+  'register-sessions',
+  'bank-reconciliation-lines',
+  'expenses',
+  'reports-net-cash',
+  'accounting-journal',
+];
+
 export class GetColumnSettingParamsDto {
   @IsString()
-  @IsEnum(['users'])
+  @IsEnum(COLUMN_SETTING_TABLES)
   tableName: string;
 }
 
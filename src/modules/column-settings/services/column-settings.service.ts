@@ -27,6 +27,23 @@ export class ColumnSettingsService {
     };
   }
 
+  /** The user's saved visible columns in display order, or null when they have not saved any. */
+  async findSavedColumns(
+    userId: string,
+    tableName: string,
+  ): Promise<string[] | null> {
+    const setting = await this.prisma.columnSetting.findUnique({
+      where: { userId_tableName: { userId, tableName } },
+    });
+    if (!setting) return null;
+
+    const order =
+      setting.columnOrder.length > 0
+        ? setting.columnOrder
+        : setting.visibleColumns;
+    return order.filter((column) => setting.visibleColumns.includes(column));
+  }
+
   async updateColumnSettings(
     userId: string,
     tableName: string,
@@ -0,0 +1,173 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Request,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { ExpensesService } from '../services/expenses.service';
+import {
+  CreateExpenseCategoryDto,
+  CreateExpenseDto,
+  NetCashQueryDto,
+  QueryExpensesDto,
+  RejectExpenseDto,
+  UpdateExpenseCategoryDto,
+} from '../dto/expense.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
+
+const MAX_RECEIPT_FILE_SIZE = 5 * 1024 * 1024;
+
+@Controller('expenses')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ExpensesController {
+  constructor(private readonly expensesService: ExpensesService) {}
+
+  /**
+   * Record an expense. Cash expenses are paid from the caller's open register session unless one is given.
+   */
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER)
+  async create(
+    @Body() createExpenseDto: CreateExpenseDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.expensesService.create(
+      createExpenseDto,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MANAGER,
+    UserRole.MAINTAINER,
+  )
+  @Exportable('expenses')
+  async findAll(
+    @Query() query: QueryExpensesDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.expensesService.findAll(query, req.user);
+  }
+
+  /**
+   * Daily cash collected less expenses, per branch.
+   */
+  @Get('net-cash')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MANAGER,
+    UserRole.MAINTAINER,
+  )
+  @Exportable('reports-net-cash', 'rows')
+  async getNetCashReport(
+    @Query() query: NetCashQueryDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.expensesService.getNetCashReport(query, req.user);
+  }
+
+  @Get('categories')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MANAGER,
+    UserRole.MAINTAINER,
+  )
+  async findCategories(
+    @Query('includeInactive') includeInactive?: string,
+  ): Promise<any[]> {
+    return this.expensesService.findCategories(includeInactive === 'true');
+  }
+
+  @Post('categories')
+  @Roles(UserRole.SUPER_ADMIN)
+  async createCategory(
+    @Body() createExpenseCategoryDto: CreateExpenseCategoryDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.expensesService.createCategory(
+      createExpenseCategoryDto,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  @Patch('categories/:id')
+  @Roles(UserRole.SUPER_ADMIN)
+  async updateCategory(
+    @Param('id') id: string,
+    @Body() updateExpenseCategoryDto: UpdateExpenseCategoryDto,
+  ): Promise<any> {
+    return this.expensesService.updateCategory(id, updateExpenseCategoryDto);
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MANAGER,
+    UserRole.MAINTAINER,
+  )
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.expensesService.findById(id, req.user);
+  }
+
+  @Post(':id/approve')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async approve(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.expensesService.approve(
+      id,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  @Post(':id/reject')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async reject(
+    @Param('id') id: string,
+    @Body() rejectExpenseDto: RejectExpenseDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.expensesService.reject(
+      id,
+      rejectExpenseDto,
+      req.user,
+      extractDeviceInfo(req.get('user-agent')),
+    );
+  }
+
+  /**
+   * Upload a JPEG, PNG or PDF of the receipt as multipart field `file`.
+   */
+  @Post(':id/receipt')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_RECEIPT_FILE_SIZE } }),
+  )
+  async uploadReceipt(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req,
+  ): Promise<any> {
+    return this.expensesService.uploadReceipt(id, file, req.user);
+  }
+}
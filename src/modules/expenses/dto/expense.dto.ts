@@ -0,0 +1,125 @@
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ExpenseStatus, PaymentMethod } from '@prisma/client';
+
+export class CreateExpenseDto {
+  @IsNotEmpty()
+  @IsString()
+  categoryId: string;
+
+  /** Amount spent, in naira. */
+  @IsNumber()
+  @Min(0.01)
+  amount: number;
+
+  /** How it was paid; CASH expenses come out of the register drawer. */
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  method?: PaymentMethod;
+
+  @IsOptional()
+  @IsString()
+  payee?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  description: string;
+
+  /** Defaults to now. */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  date?: Date;
+
+  /** Defaults to the user's branch; only SUPER_ADMIN may record one for another branch. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  /** Till the cash was paid from; defaults to the recorder's open session at the branch. */
+  @IsOptional()
+  @IsString()
+  registerSessionId?: string;
+}
+
+export class RejectExpenseDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class QueryExpensesDto {
+  @IsOptional()
+  @IsEnum(ExpenseStatus)
+  status?: ExpenseStatus;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @IsOptional()
+  @IsString()
+  registerSessionId?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+}
+
+export class NetCashQueryDto {
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @Type(() => Date)
+  @IsDate()
+  startDate: Date;
+
+  /** Exclusive: the report stops just before this instant. */
+  @Type(() => Date)
+  @IsDate()
+  endDate: Date;
+}
+
+export class CreateExpenseCategoryDto {
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class UpdateExpenseCategoryDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ExpensesService } from './services/expenses.service';
+import { ExpensesController } from './controllers/expenses.controller';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { RegisterSessionsModule } from '../register-sessions/register-sessions.module';
+import { CloudinaryModule } from '../users/cloudinary.module';
+
+@Module({
+  imports: [
+    SystemActivityLogModule,
+    ColumnSettingsModule,
+    TransactionsModule,
+    RegisterSessionsModule,
+    CloudinaryModule,
+  ],
+  providers: [ExpensesService],
+  controllers: [ExpensesController],
+  exports: [ExpensesService],
+})
+export class ExpensesModule {}
@@ -0,0 +1,629 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { v2 as cloudinary } from 'cloudinary';
+import { Readable } from 'stream';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { TransactionsService } from '../../transactions/services/transactions.service';
+import { RegisterSessionsService } from '../../register-sessions/services/register-sessions.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import {
+  CreateExpenseCategoryDto,
+  CreateExpenseDto,
+  NetCashQueryDto,
+  QueryExpensesDto,
+  RejectExpenseDto,
+  UpdateExpenseCategoryDto,
+} from '../dto/expense.dto';
+
+type ExpenseActor = {
+  userId: string;
+  role: string;
+  email?: string;
+  name?: string;
+  branchId?: string;
+};
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+const RECEIPT_MIME_TYPES = [
+  'image/jpeg',
+  'image/pjpeg',
+  'image/png',
+  'application/pdf',
+];
+
+/**
+ * Branch expenses such as fuel and offloading labour. Each one is recorded
+ * against a category and waits for approval by someone other than the
+ * person who recorded it. Cash expenses are stamped with the till they were
+ * paid from, so the register session expects that much less in the drawer.
+ */
+@Injectable()
+export class ExpensesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+    private readonly transactionsService: TransactionsService,
+    private readonly registerSessionsService: RegisterSessionsService,
+  ) {}
+
+  private readonly expenseInclude = {
+    branchRef: { select: { id: true, name: true } },
+    categoryRef: { select: { id: true, name: true } },
+    registerSessionRef: { select: { id: true, sessionNumber: true } },
+    recordedBy: { select: { id: true, name: true } },
+    approvedBy: { select: { id: true, name: true } },
+  };
+
+  private toDoc(expense: any) {
+    if (!expense) return expense;
+    return {
+      ...MoneyUtils.fieldsToNaira(expense, ['amount']),
+      _id: expense.id,
+    };
+  }
+
+  async generateExpenseNumber(): Promise<string> {
+    const date = new Date();
+    const prefix = `EX${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+
+    const result = await this.prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "Counter" (name, value) VALUES (${prefix}, 1)
+      ON CONFLICT (name) DO UPDATE SET value = "Counter".value + 1
+      RETURNING value
+    `;
+
+    const seq = Number(result[0].value);
+    return `${prefix}-${seq.toString().padStart(4, '0')}`;
+  }
+
+  async create(
+    dto: CreateExpenseDto,
+    user: ExpenseActor,
+    device?: string,
+  ): Promise<any> {
+    const branchId =
+      user.role === UserRole.SUPER_ADMIN && dto.branchId
+        ? dto.branchId
+        : user.branchId?.toString();
+    if (!branchId) {
+      throw new BadRequestException('Branch is required');
+    }
+
+    const branch = await this.prisma.branch.findUnique({
+      where: { id: branchId },
+    });
+    if (!branch || !branch.isActive) {
+      throw new BadRequestException('Branch does not exist or is inactive');
+    }
+
+    const category = await this.prisma.expenseCategory.findUnique({
+      where: { id: dto.categoryId },
+    });
+    if (!category || !category.isActive) {
+      throw new BadRequestException(
+        'Expense category does not exist or is inactive',
+      );
+    }
+
+    const method = dto.method ?? 'CASH';
+    const registerSessionId = await this.resolveRegisterSession(
+      dto,
+      method,
+      branchId,
+      user,
+    );
+
+    const expenseNumber = await this.generateExpenseNumber();
+    const amount = MoneyUtils.toKobo(dto.amount);
+    const expense = await this.prisma.expense.create({
+      data: {
+        expenseNumber,
+        branchId,
+        categoryId: category.id,
+        amount,
+        method,
+        payee: dto.payee,
+        description: dto.description,
+        date: dto.date ?? new Date(),
+        registerSessionId,
+        recordedById: user.userId,
+      },
+      include: this.expenseInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'EXPENSE_RECORDED',
+        details: `Expense ${expenseNumber} of ${MoneyUtils.fromKobo(amount)} recorded under ${category.name} at ${branch.name}${expense.registerSessionRef ? ` from register session ${expense.registerSessionRef.sessionNumber}` : ''}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: device || '',
+        branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(expense);
+  }
+
+  /**
+   * Only cash leaves the drawer. A session given explicitly must be open at
+   * the same branch; otherwise the recorder's own open session is used.
+   */
+  private async resolveRegisterSession(
+    dto: CreateExpenseDto,
+    method: string,
+    branchId: string,
+    user: ExpenseActor,
+  ): Promise<string | null> {
+    if (method !== 'CASH') {
+      if (dto.registerSessionId) {
+        throw new BadRequestException(
+          'Only cash expenses can be paid from a register session',
+        );
+      }
+      return null;
+    }
+    if (!dto.registerSessionId) {
+      return this.registerSessionsService.findOpenSessionId(
+        user.userId,
+        branchId,
+      );
+    }
+
+    const session = await this.prisma.registerSession.findUnique({
+      where: { id: dto.registerSessionId },
+    });
+    if (!session || session.branchId !== branchId) {
+      throw new BadRequestException(
+        'Register session does not exist at this branch',
+      );
+    }
+    if (session.status !== 'OPEN') {
+      throw new BadRequestException(
+        `Register session ${session.sessionNumber} is closed`,
+      );
+    }
+    return session.id;
+  }
+
+  async findAll(query: QueryExpensesDto, user: ExpenseActor): Promise<any[]> {
+    const branchId = GLOBAL_ROLES.includes(user.role)
+      ? query.branchId
+      : user.branchId?.toString();
+
+    const where: Prisma.ExpenseWhereInput = {};
+    if (branchId) where.branchId = branchId;
+    if (query.status) where.status = query.status;
+    if (query.categoryId) where.categoryId = query.categoryId;
+    if (query.registerSessionId) {
+      where.registerSessionId = query.registerSessionId;
+    }
+    if (query.startDate || query.endDate) {
+      where.date = {};
+      if (query.startDate) where.date.gte = query.startDate;
+      if (query.endDate) where.date.lte = query.endDate;
+    }
+
+    const expenses = await this.prisma.expense.findMany({
+      where,
+      include: this.expenseInclude,
+      orderBy: { date: 'desc' },
+    });
+    return expenses.map((e) => this.toDoc(e));
+  }
+
+  async findById(id: string, user: ExpenseActor): Promise<any> {
+    return this.toDoc(await this.getVisible(id, user));
+  }
+
+  /**
+   * SUPER_ADMIN can approve anything; an ADMIN approves expenses at their
+   * own branch that someone else recorded.
+   */
+  async approve(id: string, user: ExpenseActor, device?: string) {
+    const expense = await this.getPending(id, user);
+    const { count } = await this.prisma.expense.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status: 'APPROVED',
+        approvedById: user.userId,
+        approvedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Expense has already been reviewed');
+    }
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'EXPENSE_APPROVED',
+        details: `Expense ${expense.expenseNumber} of ${MoneyUtils.fromKobo(expense.amount)} approved`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: device || '',
+        branchId: expense.branchId,
+      })
+      .catch(() => {});
+
+    return this.findById(id, user);
+  }
+
+  /** A rejected cash expense no longer counts against its register session. */
+  async reject(
+    id: string,
+    dto: RejectExpenseDto,
+    user: ExpenseActor,
+    device?: string,
+  ) {
+    const expense = await this.getPending(id, user);
+    const { count } = await this.prisma.expense.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status: 'REJECTED',
+        approvedById: user.userId,
+        approvedAt: new Date(),
+        rejectionReason: dto.reason,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Expense has already been reviewed');
+    }
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'EXPENSE_REJECTED',
+        details: `Expense ${expense.expenseNumber} of ${MoneyUtils.fromKobo(expense.amount)} rejected: ${dto.reason}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: device || '',
+        branchId: expense.branchId,
+      })
+      .catch(() => {});
+
+    return this.findById(id, user);
+  }
+
+  /** Attaches a photo or PDF of the receipt, replacing any earlier one. */
+  async uploadReceipt(
+    id: string,
+    file: Express.Multer.File,
+    user: ExpenseActor,
+  ): Promise<any> {
+    if (!file) {
+      throw new BadRequestException(
+        'No file provided. Upload a JPEG, PNG or PDF receipt.',
+      );
+    }
+    if (!RECEIPT_MIME_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(
+        'Only JPEG, PNG or PDF receipts are allowed',
+      );
+    }
+    const expense = await this.getVisible(id, user);
+    if (expense.status === 'REJECTED') {
+      throw new BadRequestException('Expense has been rejected');
+    }
+
+    let result: any;
+    try {
+      result = await new Promise<any>((resolve, reject) => {
+        const uploadStream = cloudinary.uploader.upload_stream(
+          {
+            folder: 'expense_receipts',
+            public_id: `expense_${id}`,
+            overwrite: true,
+            resource_type: 'auto',
+          },
+          (error, result) => {
+            if (error) return reject(error);
+            resolve(result);
+          },
+        );
+        Readable.from(file.buffer).pipe(uploadStream);
+      });
+    } catch (error) {
+      throw new BadRequestException(error.message || 'Receipt upload failed');
+    }
+
+    const updated = await this.prisma.expense.update({
+      where: { id },
+      data: {
+        receiptUrl: result.secure_url,
+        receiptMeta: {
+          public_id: result.public_id,
+          format: result.format,
+          resource_type: result.resource_type,
+          bytes: result.bytes,
+          originalName: file.originalname,
+        },
+      },
+      include: this.expenseInclude,
+    });
+    return this.toDoc(updated);
+  }
+
+  /**
+   * Daily net cash per branch: cash tenders taken on that day's
+   * transactions less cash refunded on returns and the expenses paid in
+   * cash, as the register Z-report counts them. Revenue and other expenses
+   * are shown alongside from the daily revenue report. Pending expenses are
+   * counted because the money has already been spent; rejected ones are
+   * not. Without a branch, every active branch is reported. Every figure
+   * covers startDate up to but excluding endDate, as the daily revenue
+   * report does.
+   */
+  async getNetCashReport(query: NetCashQueryDto, user: ExpenseActor) {
+    if (query.startDate > query.endDate) {
+      throw new BadRequestException('Start date cannot be after end date');
+    }
+    const branchId = GLOBAL_ROLES.includes(user.role)
+      ? query.branchId
+      : user.branchId?.toString();
+
+    const branches = await this.prisma.branch.findMany({
+      where: branchId ? { id: branchId } : { isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+    if (branchId && branches.length === 0) {
+      throw new NotFoundException('Branch not found');
+    }
+
+    const expenses = await this.prisma.expense.findMany({
+      where: {
+        branchId: { in: branches.map((b) => b.id) },
+        status: { not: 'REJECTED' },
+        date: { gte: query.startDate, lt: query.endDate },
+      },
+      select: {
+        branchId: true,
+        date: true,
+        amount: true,
+        status: true,
+        method: true,
+      },
+    });
+    const refunds = await this.prisma.transaction.findMany({
+      where: {
+        type: 'RETURN',
+        branchId: { in: branches.map((b) => b.id) },
+        status: { not: 'CANCELLED' },
+        date: { gte: query.startDate, lt: query.endDate },
+      },
+      select: { branchId: true, date: true, actualAmountReturned: true },
+    });
+    const cashTenders = await this.prisma.transactionPayment.findMany({
+      where: {
+        method: 'CASH',
+        transactionRef: {
+          branchId: { in: branches.map((b) => b.id) },
+          status: { not: 'CANCELLED' },
+          date: { gte: query.startDate, lt: query.endDate },
+        },
+      },
+      select: {
+        amount: true,
+        transactionRef: { select: { branchId: true, date: true } },
+      },
+    });
+
+    const report = [];
+    for (const branch of branches) {
+      const revenue = await this.transactionsService.getDailyRevenue(
+        branch.id,
+        undefined,
+        query.startDate,
+        query.endDate,
+      );
+
+      const days = new Map<
+        string,
+        {
+          revenue: number;
+          transactions: number;
+          cashReceived: number;
+          cashRefunds: number;
+          expenses: number;
+          cashExpenses: number;
+          pendingExpenses: number;
+        }
+      >();
+      const dayFor = (date: string) => {
+        if (!days.has(date)) {
+          days.set(date, {
+            revenue: 0,
+            transactions: 0,
+            cashReceived: 0,
+            cashRefunds: 0,
+            expenses: 0,
+            cashExpenses: 0,
+            pendingExpenses: 0,
+          });
+        }
+        return days.get(date);
+      };
+
+      revenue.breakdown.forEach((d) => {
+        const day = dayFor(d.date);
+        day.revenue = MoneyUtils.toKobo(d.revenue);
+        day.transactions = d.transactions;
+      });
+      cashTenders
+        .filter((t) => t.transactionRef.branchId === branch.id)
+        .forEach((t) => {
+          const date = t.transactionRef.date ?? new Date();
+          const day = dayFor(date.toISOString().split('T')[0]);
+          day.cashReceived += MoneyUtils.kobo(t.amount);
+        });
+      refunds
+        .filter((t) => t.branchId === branch.id)
+        .forEach((t) => {
+          const date = t.date ?? new Date();
+          const day = dayFor(date.toISOString().split('T')[0]);
+          day.cashRefunds += MoneyUtils.kobo(t.actualAmountReturned);
+        });
+      expenses
+        .filter((e) => e.branchId === branch.id)
+        .forEach((e) => {
+          const day = dayFor(e.date.toISOString().split('T')[0]);
+          const amount = MoneyUtils.kobo(e.amount);
+          day.expenses += amount;
+          if (e.method === 'CASH') day.cashExpenses += amount;
+          if (e.status === 'PENDING') day.pendingExpenses += amount;
+        });
+
+      const breakdown = Array.from(days.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, v]) => ({
+          date,
+          revenue: MoneyUtils.fromKobo(v.revenue),
+          transactions: v.transactions,
+          cashReceived: MoneyUtils.fromKobo(v.cashReceived),
+          cashRefunds: MoneyUtils.fromKobo(v.cashRefunds),
+          expenses: MoneyUtils.fromKobo(v.expenses),
+          cashExpenses: MoneyUtils.fromKobo(v.cashExpenses),
+          pendingExpenses: MoneyUtils.fromKobo(v.pendingExpenses),
+          netCash: MoneyUtils.fromKobo(
+            v.cashReceived - v.cashRefunds - v.cashExpenses,
+          ),
+        }));
+
+      const values = Array.from(days.values());
+      const totalCashReceived = MoneyUtils.sum(
+        values.map((v) => v.cashReceived),
+      );
+      const totalCashRefunds = MoneyUtils.sum(values.map((v) => v.cashRefunds));
+      const totalCashExpenses = MoneyUtils.sum(
+        values.map((v) => v.cashExpenses),
+      );
+      report.push({
+        branch,
+        totalRevenue: revenue.totalRevenue,
+        totalCashReceived: MoneyUtils.fromKobo(totalCashReceived),
+        totalCashRefunds: MoneyUtils.fromKobo(totalCashRefunds),
+        totalExpenses: MoneyUtils.fromKobo(
+          MoneyUtils.sum(values.map((v) => v.expenses)),
+        ),
+        totalCashExpenses: MoneyUtils.fromKobo(totalCashExpenses),
+        netCash: MoneyUtils.fromKobo(
+          totalCashReceived - totalCashRefunds - totalCashExpenses,
+        ),
+        breakdown,
+      });
+    }
+
+    return {
+      startDate: query.startDate,
+      endDate: query.endDate,
+      branches: report,
+      // Flat per-branch, per-day rows for export
+      rows: report.flatMap((b) =>
+        b.breakdown.map((d) => ({
+          branchId: b.branch.id,
+          branch: b.branch.name,
+          ...d,
+        })),
+      ),
+    };
+  }
+
+  async findCategories(includeInactive = false): Promise<any[]> {
+    const categories = await this.prisma.expenseCategory.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+    });
+    return categories.map((c) => ({ ...c, _id: c.id }));
+  }
+
+  async createCategory(
+    dto: CreateExpenseCategoryDto,
+    user: ExpenseActor,
+    device?: string,
+  ): Promise<any> {
+    try {
+      const category = await this.prisma.expenseCategory.create({
+        data: { name: dto.name, description: dto.description },
+      });
+
+      this.systemActivityLogService
+        .createLog({
+          action: 'EXPENSE_CATEGORY_CREATED',
+          details: `Expense category ${category.name} has been created`,
+          performedBy: user.email || user.name || user.userId,
+          role: user.role,
+          device: device || '',
+        })
+        .catch(() => {});
+
+      return { ...category, _id: category.id };
+    } catch (error) {
+      if (error?.code === 'P2002') {
+        throw new ConflictException('Expense category name already exists');
+      }
+      throw error;
+    }
+  }
+
+  async updateCategory(
+    id: string,
+    dto: UpdateExpenseCategoryDto,
+  ): Promise<any> {
+    const existing = await this.prisma.expenseCategory.findUnique({
+      where: { id },
+    });
+    if (!existing) throw new NotFoundException('Expense category not found');
+
+    try {
+      const category = await this.prisma.expenseCategory.update({
+        where: { id },
+        data: dto,
+      });
+      return { ...category, _id: category.id };
+    } catch (error) {
+      if (error?.code === 'P2002') {
+        throw new ConflictException('Expense category name already exists');
+      }
+      throw error;
+    }
+  }
+
+  private async getVisible(id: string, user: ExpenseActor) {
+    const expense = await this.prisma.expense.findUnique({
+      where: { id },
+      include: this.expenseInclude,
+    });
+    if (
+      !expense ||
+      (!GLOBAL_ROLES.includes(user.role) &&
+        expense.branchId !== user.branchId?.toString())
+    ) {
+      throw new NotFoundException('Expense not found');
+    }
+    return expense;
+  }
+
+  private async getPending(id: string, user: ExpenseActor) {
+    const expense = await this.getVisible(id, user);
+    if (expense.status !== 'PENDING') {
+      throw new BadRequestException('Expense has already been reviewed');
+    }
+    if (
+      user.role !== UserRole.SUPER_ADMIN &&
+      expense.recordedById === user.userId
+    ) {
+      throw new ForbiddenException(
+        'An expense must be reviewed by someone other than the person who recorded it',
+      );
+    }
+    return expense;
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Post,
+  Query,
+  Request,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { ImportReport, ImportsService } from '../services/imports.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Upload a CSV or XLSX as multipart field `file`. Without `commit=true` the
+ * file is only validated and the report of errors and duplicates returned.
+ */
+@Controller('imports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService) {}
+
+  /**
+   * Rows without a branchId column go to `branchId`, or the caller's branch
+   */
+  @Post('products')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }),
+  )
+  async importProducts(
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req,
+    @Query('commit') commit?: string,
+    @Query('branchId') branchId?: string,
+  ): Promise<ImportReport> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.importsService.importProducts(
+      file,
+      { commit: commit === 'true', branchId },
+      req.user,
+      device,
+    );
+  }
+
+  @Post('clients')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }),
+  )
+  async importClients(
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req,
+    @Query('commit') commit?: string,
+  ): Promise<ImportReport> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.importsService.importClients(
+      file,
+      { commit: commit === 'true' },
+      req.user,
+      device,
+    );
+  }
+}
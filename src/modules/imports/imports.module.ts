@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ImportsService } from './services/imports.service';
+import { ImportsController } from './controllers/imports.controller';
+import { ProductsModule } from '../products/products.module';
+import { ClientsModule } from '../clients/clients.module';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+
+@Module({
+  imports: [ProductsModule, ClientsModule, SystemActivityLogModule],
+  providers: [ImportsService],
+  controllers: [ImportsController],
+})
+export class ImportsModule {}
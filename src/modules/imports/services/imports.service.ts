@@ -0,0 +1,386 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { CreateProductDto } from '../../products/dto/product.dto';
+import { CreateClientDto } from '../../clients/dto/client.dto';
+import { StockMovementService } from '../../products/services/stock-movement.service';
+import { ClientLedgerService } from '../../clients/services/client-ledger.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import {
+  SpreadsheetFile,
+  SpreadsheetRow,
+  SpreadsheetUtils,
+} from '../../../common/utils/spreadsheet.utils';
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/** Normalised header -> DTO field. Products may name their category instead of giving its id. */
+const PRODUCT_COLUMNS: Record<string, string> = {
+  name: 'name',
+  category: 'category',
+  categoryid: 'categoryId',
+  unit: 'unit',
+  unitprice: 'unitPrice',
+  price: 'unitPrice',
+  costprice: 'costPrice',
+  stock: 'stock',
+  openingstock: 'stock',
+  minstocklevel: 'minStockLevel',
+  branchid: 'branchId',
+};
+
+const CLIENT_COLUMNS: Record<string, string> = {
+  name: 'name',
+  phone: 'phone',
+  email: 'email',
+  description: 'description',
+  address: 'address',
+  balance: 'balance',
+  openingbalance: 'balance',
+};
+
+export interface ImportIssue {
+  /** Row number in the uploaded sheet; the header is row 1. */
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportReport {
+  entity: 'products' | 'clients';
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  validRows: number;
+  errors: ImportIssue[];
+  duplicates: ImportIssue[];
+  created: number;
+}
+
+interface ImportOptions {
+  commit: boolean;
+  branchId?: string;
+}
+
+/**
+ * Bulk onboarding of products and clients from CSV/XLSX. Every row is
+ * validated with the same DTOs as the single-record endpoints and checked
+ * for duplicates, both within the file and against the database. Nothing is
+ * written unless `commit` is set and the whole file is clean; then all rows
+ * are created in one transaction.
+ */
+@Injectable()
+export class ImportsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockMovementService: StockMovementService,
+    private readonly clientLedgerService: ClientLedgerService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  async importProducts(
+    file: SpreadsheetFile,
+    options: ImportOptions,
+    currentUser: any,
+    device?: string,
+  ): Promise<ImportReport> {
+    const rows = await this.readRows(file);
+    const report = this.emptyReport('products', options, rows.length);
+
+    const categories = await this.prisma.category.findMany({
+      where: { isActive: true },
+    });
+    const branches = await this.prisma.branch.findMany({
+      select: { id: true },
+    });
+    const branchIds = new Set(branches.map((b) => b.id));
+
+    const valid: { row: number; dto: CreateProductDto }[] = [];
+    for (const row of rows) {
+      const fields = this.mapColumns(row, PRODUCT_COLUMNS);
+      const issues: ImportIssue[] = [];
+
+      const categoryRef = fields.categoryId || fields.category;
+      const category = categories.find(
+        (c) =>
+          c.id === categoryRef ||
+          c.name.toLowerCase() === categoryRef?.toLowerCase(),
+      );
+      if (categoryRef && !category) {
+        issues.push({
+          row: row.rowNumber,
+          field: 'category',
+          message: `Category "${categoryRef}" does not exist`,
+        });
+      }
+      delete fields.category;
+      fields.categoryId = category?.id || fields.categoryId;
+
+      fields.branchId =
+        fields.branchId || options.branchId || currentUser.branchId;
+      if (fields.branchId && !branchIds.has(fields.branchId)) {
+        issues.push({
+          row: row.rowNumber,
+          field: 'branchId',
+          message: `Branch "${fields.branchId}" does not exist`,
+        });
+      } else if (
+        fields.branchId &&
+        !GLOBAL_ROLES.includes(currentUser.role) &&
+        fields.branchId !== currentUser.branchId
+      ) {
+        issues.push({
+          row: row.rowNumber,
+          field: 'branchId',
+          message: 'You can only import products into your own branch',
+        });
+      }
+
+      const dto = plainToInstance(CreateProductDto, fields, {
+        enableImplicitConversion: true,
+      });
+      issues.push(...(await this.validateDto(dto, row.rowNumber)));
+
+      if (category && dto.unit && !category.units.includes(dto.unit)) {
+        issues.push({
+          row: row.rowNumber,
+          field: 'unit',
+          message: `Invalid unit ${dto.unit} for category ${category.name}`,
+        });
+      }
+
+      if (issues.length) report.errors.push(...issues);
+      else valid.push({ row: row.rowNumber, dto });
+    }
+
+    const existing = await this.prisma.product.findMany({
+      where: {
+        OR: valid.map(({ dto }) => ({
+          name: dto.name,
+          branchId: dto.branchId,
+        })),
+      },
+      select: { name: true, branchId: true },
+    });
+    const taken = new Map<string, number | null>(
+      existing.map((p) => [`${p.branchId}|${p.name}`, null]),
+    );
+    const unique = valid.filter(({ row, dto }) => {
+      const key = `${dto.branchId}|${dto.name}`;
+      if (!taken.has(key)) {
+        taken.set(key, row);
+        return true;
+      }
+      const firstRow = taken.get(key);
+      report.duplicates.push({
+        row,
+        field: 'name',
+        message:
+          firstRow === null
+            ? `A product named "${dto.name}" already exists in this branch`
+            : `Duplicate of row ${firstRow}: "${dto.name}" appears twice for this branch`,
+      });
+      return false;
+    });
+    report.validRows = unique.length;
+
+    if (!this.canCommit(report)) return report;
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        for (const { dto } of unique) {
+          const unitPrice = MoneyUtils.toKobo(dto.unitPrice);
+          const created = await tx.product.create({
+            data: {
+              name: dto.name,
+              categoryId: dto.categoryId,
+              unit: dto.unit,
+              unitPrice,
+              costPrice:
+                dto.costPrice == null ? null : MoneyUtils.toKobo(dto.costPrice),
+              stock: 0,
+              minStockLevel: dto.minStockLevel ?? 0,
+              branchId: dto.branchId,
+              priceHistory: [{ price: unitPrice, date: new Date() }],
+            },
+          });
+          if (dto.stock) {
+            await this.stockMovementService.record(tx, {
+              productId: created.id,
+              delta: dto.stock,
+              reason: 'OPENING',
+              actorId: currentUser?.userId,
+              note: 'Opening stock (import)',
+            });
+          }
+        }
+      },
+      // Large files take longer than Prisma's 5s interactive transaction default
+      { timeout: 120000 },
+    );
+    return this.committed(report, currentUser, device);
+  }
+
+  async importClients(
+    file: SpreadsheetFile,
+    options: ImportOptions,
+    currentUser: any,
+    device?: string,
+  ): Promise<ImportReport> {
+    const rows = await this.readRows(file);
+    const report = this.emptyReport('clients', options, rows.length);
+
+    const valid: { row: number; dto: CreateClientDto }[] = [];
+    for (const row of rows) {
+      const dto = plainToInstance(
+        CreateClientDto,
+        this.mapColumns(row, CLIENT_COLUMNS),
+        { enableImplicitConversion: true },
+      );
+      const issues = await this.validateDto(dto, row.rowNumber);
+      if (issues.length) report.errors.push(...issues);
+      else valid.push({ row: row.rowNumber, dto });
+    }
+
+    const existing = await this.prisma.client.findMany({
+      where: { phone: { in: valid.map(({ dto }) => dto.phone) } },
+      select: { phone: true, name: true },
+    });
+    const taken = new Map<string, number | string>(
+      existing.map((c) => [c.phone, c.name]),
+    );
+    const unique = valid.filter(({ row, dto }) => {
+      if (!taken.has(dto.phone)) {
+        taken.set(dto.phone, row);
+        return true;
+      }
+      const owner = taken.get(dto.phone);
+      report.duplicates.push({
+        row,
+        field: 'phone',
+        message:
+          typeof owner === 'number'
+            ? `Duplicate of row ${owner}: phone ${dto.phone} appears twice`
+            : `Phone ${dto.phone} is already registered to ${owner}`,
+      });
+      return false;
+    });
+    report.validRows = unique.length;
+
+    if (!this.canCommit(report)) return report;
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        for (const { dto } of unique) {
+          const created = await tx.client.create({
+            data: {
+              name: dto.name,
+              phone: dto.phone,
+              email: dto.email,
+              description: dto.description,
+              address: dto.address,
+              balance: 0,
+              isRegistered: true,
+            },
+          });
+          const openingBalance = MoneyUtils.toKobo(dto.balance);
+          if (openingBalance !== 0) {
+            await this.clientLedgerService.post(tx, {
+              clientId: created.id,
+              entryType: openingBalance > 0 ? 'CREDIT' : 'DEBIT',
+              amount: Math.abs(openingBalance),
+              description: 'Opening balance',
+              createdById: currentUser?.userId,
+            });
+          }
+        }
+      },
+      { timeout: 120000 },
+    );
+    return this.committed(report, currentUser, device);
+  }
+
+  private async readRows(file: SpreadsheetFile): Promise<SpreadsheetRow[]> {
+    const rows = await SpreadsheetUtils.readRows(file);
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `Import files are limited to ${MAX_IMPORT_ROWS} rows; this one has ${rows.length}. Split it and upload each part.`,
+      );
+    }
+    return rows;
+  }
+
+  private mapColumns(
+    row: SpreadsheetRow,
+    columns: Record<string, string>,
+  ): Record<string, any> {
+    const fields: Record<string, any> = {};
+    for (const [header, value] of Object.entries(row.values)) {
+      if (columns[header]) fields[columns[header]] = value;
+    }
+    return fields;
+  }
+
+  private async validateDto(dto: object, row: number): Promise<ImportIssue[]> {
+    const errors = await validate(dto, { whitelist: true });
+    return errors.flatMap((error) =>
+      Object.values(error.constraints || {}).map((message) => ({
+        row,
+        field: error.property,
+        message,
+      })),
+    );
+  }
+
+  private emptyReport(
+    entity: ImportReport['entity'],
+    options: ImportOptions,
+    totalRows: number,
+  ): ImportReport {
+    return {
+      entity,
+      dryRun: !options.commit,
+      committed: false,
+      totalRows,
+      validRows: 0,
+      errors: [],
+      duplicates: [],
+      created: 0,
+    };
+  }
+
+  private canCommit(report: ImportReport): boolean {
+    return (
+      !report.dryRun &&
+      report.validRows > 0 &&
+      report.errors.length === 0 &&
+      report.duplicates.length === 0
+    );
+  }
+
+  private committed(
+    report: ImportReport,
+    currentUser: any,
+    device?: string,
+  ): ImportReport {
+    this.systemActivityLogService
+      .createLog({
+        action:
+          report.entity === 'products'
+            ? 'PRODUCTS_IMPORTED'
+            : 'CLIENTS_IMPORTED',
+        details: `Imported ${report.validRows} ${report.entity} from file`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+    return { ...report, committed: true, created: report.validRows };
+  }
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Param, UseGuards, Request } from '@nestjs/common';
+import { PaymentPlansService } from '../services/payment-plans.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+/** Serves GET /clients/:id/payment-plans alongside the clients routes. */
+@Controller('clients')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ClientPaymentPlansController {
+  constructor(private readonly paymentPlansService: PaymentPlansService) {}
+
+  @Get(':id/payment-plans')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findByClient(@Param('id') id: string, @Request() req): Promise<any[]> {
+    return this.paymentPlansService.findByClient(id, req.user);
+  }
+}
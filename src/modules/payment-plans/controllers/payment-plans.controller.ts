@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { PaymentPlansService } from '../services/payment-plans.service';
+import {
+  CancelPaymentPlanDto,
+  CreatePaymentPlanDto,
+  QueryPaymentPlansDto,
+} from '../dto/payment-plan.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('payment-plans')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PaymentPlansController {
+  constructor(private readonly paymentPlansService: PaymentPlansService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async create(
+    @Body() createPaymentPlanDto: CreatePaymentPlanDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.paymentPlansService.create(
+      createPaymentPlanDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findAll(
+    @Query() query: QueryPaymentPlansDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.paymentPlansService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.paymentPlansService.findById(id, req.user);
+  }
+
+  @Patch(':id/cancel')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelPaymentPlanDto: CancelPaymentPlanDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.paymentPlansService.cancel(
+      id,
+      cancelPaymentPlanDto,
+      req.user,
+      device,
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { PaymentPlanFrequency, PaymentPlanStatus } from '@prisma/client';
+
+export class CreatePaymentPlanDto {
+  /** The PURCHASE or WHOLESALE sale whose unpaid balance is being scheduled. */
+  @IsNotEmpty()
+  @IsString()
+  transactionId: string;
+
+  @IsInt()
+  @Min(2)
+  @Max(60)
+  numberOfInstallments: number;
+
+  @IsEnum(PaymentPlanFrequency)
+  frequency: PaymentPlanFrequency;
+
+  @IsDateString()
+  firstDueDate: string;
+
+  /** Flat interest on the outstanding amount, in percent. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  interestRate?: number;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class CancelPaymentPlanDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class QueryPaymentPlansDto {
+  @IsOptional()
+  @IsEnum(PaymentPlanStatus)
+  status?: PaymentPlanStatus;
+
+  @IsOptional()
+  @IsString()
+  clientId?: string;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
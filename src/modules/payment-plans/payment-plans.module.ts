@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PaymentPlansService } from './services/payment-plans.service';
+import { PaymentPlansController } from './controllers/payment-plans.controller';
+import { ClientPaymentPlansController } from './controllers/client-payment-plans.controller';
+import { ClientsModule } from '../clients/clients.module';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+
+@Module({
+  imports: [ClientsModule, SystemActivityLogModule],
+  providers: [PaymentPlansService],
+  controllers: [PaymentPlansController, ClientPaymentPlansController],
+  exports: [PaymentPlansService],
+})
+export class PaymentPlansModule {}
@@ -0,0 +1,474 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PaymentPlanFrequency, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ClientLedgerService } from '../../clients/services/client-ledger.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { FinancialUtils } from '../../../common/utils/financial.utils';
+import {
+  CancelPaymentPlanDto,
+  CreatePaymentPlanDto,
+  QueryPaymentPlansDto,
+} from '../dto/payment-plan.dto';
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+const PLAN_TRANSACTION_TYPES = ['PURCHASE', 'WHOLESALE'];
+
+export type InstallmentStatus = 'PAID' | 'PARTIAL' | 'DUE' | 'OVERDUE';
+
+export interface AllocateDepositInput {
+  clientId: string;
+  /** The DEPOSIT transaction the money came in on. */
+  transactionId: string;
+  /** Amount in kobo. */
+  amount: number;
+  date: Date;
+}
+
+/**
+ * Installment schedules for the unpaid part of a credit sale. The sale's
+ * debit stays on the client ledger as usual; the plan only records when the
+ * client has agreed to pay it. Deposits are allocated to the client's oldest
+ * outstanding installments first.
+ */
+@Injectable()
+export class PaymentPlansService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clientLedgerService: ClientLedgerService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly planInclude = {
+    installments: { orderBy: { sequence: 'asc' as const } },
+    transactionRef: {
+      select: {
+        id: true,
+        invoiceNumber: true,
+        type: true,
+        total: true,
+        amountPaid: true,
+        branchId: true,
+        date: true,
+      },
+    },
+    clientRef: { select: { id: true, name: true, phone: true } },
+    createdBy: { select: { id: true, name: true } },
+  };
+
+  static installmentStatus(
+    installment: any,
+    now = new Date(),
+  ): InstallmentStatus {
+    const outstanding =
+      MoneyUtils.kobo(installment.amount) -
+      MoneyUtils.kobo(installment.amountPaid);
+    if (outstanding <= 0) return 'PAID';
+    if (new Date(installment.dueDate) < now) return 'OVERDUE';
+    return MoneyUtils.kobo(installment.amountPaid) > 0 ? 'PARTIAL' : 'DUE';
+  }
+
+  private toDoc(plan: any) {
+    if (!plan) return plan;
+    const now = new Date();
+    let overdueAmount = 0;
+    const installments = (plan.installments || []).map((i: any) => {
+      const status: InstallmentStatus =
+        plan.status === 'ACTIVE'
+          ? PaymentPlansService.installmentStatus(i, now)
+          : MoneyUtils.kobo(i.amountPaid) >= MoneyUtils.kobo(i.amount)
+            ? 'PAID'
+            : 'DUE';
+      const outstanding =
+        MoneyUtils.kobo(i.amount) - MoneyUtils.kobo(i.amountPaid);
+      if (status === 'OVERDUE') overdueAmount += outstanding;
+      return {
+        ...MoneyUtils.fieldsToNaira(i, ['amount', 'amountPaid']),
+        _id: i.id,
+        outstanding: MoneyUtils.fromKobo(outstanding),
+        status,
+      };
+    });
+    const next = installments.find((i: any) => i.status !== 'PAID');
+
+    return {
+      ...MoneyUtils.fieldsToNaira(plan, [
+        'principal',
+        'interest',
+        'totalPayable',
+        'amountPaid',
+      ]),
+      _id: plan.id,
+      transactionRef: plan.transactionRef
+        ? MoneyUtils.fieldsToNaira(plan.transactionRef, ['total', 'amountPaid'])
+        : plan.transactionRef,
+      installments,
+      outstanding: MoneyUtils.fromKobo(
+        MoneyUtils.kobo(plan.totalPayable) - MoneyUtils.kobo(plan.amountPaid),
+      ),
+      isOverdue: overdueAmount > 0,
+      overdueAmount: MoneyUtils.fromKobo(overdueAmount),
+      nextDueDate: plan.status === 'ACTIVE' ? next?.dueDate || null : null,
+    };
+  }
+
+  /**
+   * Schedules what the client still owes on a sale. Interest, if any, is
+   * debited to the client's ledger against the sale so a void reverses it.
+   */
+  async create(
+    dto: CreatePaymentPlanDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: dto.transactionId },
+      include: { clientRef: true },
+    });
+    if (!transaction) throw new NotFoundException('Transaction not found');
+    this.assertBranchAccess(transaction.branchId, currentUser);
+
+    if (!PLAN_TRANSACTION_TYPES.includes(transaction.type)) {
+      throw new BadRequestException(
+        `Payment plans can only be created for ${PLAN_TRANSACTION_TYPES.join(' or ')} transactions`,
+      );
+    }
+    if (transaction.status === 'CANCELLED') {
+      throw new BadRequestException(
+        `Transaction ${transaction.invoiceNumber} has been voided`,
+      );
+    }
+    if (!transaction.clientRef) {
+      throw new BadRequestException(
+        'Payment plans are only available to registered clients',
+      );
+    }
+
+    const existing = await this.prisma.paymentPlan.findFirst({
+      where: { transactionId: transaction.id, status: 'ACTIVE' },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Invoice ${transaction.invoiceNumber} already has an active payment plan`,
+      );
+    }
+
+    // A client whose deposits already cover the sale owes nothing to schedule.
+    const invoiceOutstanding =
+      MoneyUtils.kobo(transaction.total) -
+      MoneyUtils.kobo(transaction.amountPaid);
+    const clientDebt = -MoneyUtils.kobo(transaction.clientRef.balance);
+    const principal = Math.min(invoiceOutstanding, clientDebt);
+    if (principal <= 0) {
+      throw new BadRequestException(
+        `Nothing is outstanding on invoice ${transaction.invoiceNumber} for ${transaction.clientRef.name}`,
+      );
+    }
+
+    const firstDueDate = new Date(dto.firstDueDate);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (firstDueDate < today) {
+      throw new BadRequestException('firstDueDate cannot be in the past');
+    }
+
+    const interestRate = dto.interestRate || 0;
+    const schedule = FinancialUtils.calculatePaymentPlan(
+      principal,
+      dto.numberOfInstallments,
+      interestRate,
+    );
+    const interest = schedule.totalPayable - principal;
+
+    const plan = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.paymentPlan.create({
+        data: {
+          transactionId: transaction.id,
+          clientId: transaction.clientRef.id,
+          principal,
+          interestRate,
+          interest,
+          totalPayable: schedule.totalPayable,
+          frequency: dto.frequency,
+          notes: dto.notes,
+          createdById: currentUser.userId,
+          installments: {
+            create: schedule.installments.map((amount, i) => ({
+              sequence: i + 1,
+              dueDate: this.dueDate(firstDueDate, dto.frequency, i),
+              amount,
+            })),
+          },
+        },
+        include: this.planInclude,
+      });
+
+      if (interest > 0) {
+        await this.clientLedgerService.post(tx, {
+          clientId: transaction.clientRef.id,
+          entryType: 'DEBIT',
+          amount: interest,
+          description: `Interest (${interestRate}%) on payment plan for invoice ${transaction.invoiceNumber}`,
+          transactionId: transaction.id,
+          createdById: currentUser.userId,
+        });
+      }
+
+      return created;
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PAYMENT_PLAN_CREATED',
+        details: `Payment plan for invoice ${transaction.invoiceNumber} (${transaction.clientRef.name}): ${dto.numberOfInstallments} ${dto.frequency} installments totalling ${MoneyUtils.fromKobo(schedule.totalPayable)}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: transaction.branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(plan);
+  }
+
+  async findAll(query: QueryPaymentPlansDto, currentUser: any): Promise<any[]> {
+    const where: Prisma.PaymentPlanWhereInput = {};
+    if (query.status) where.status = query.status;
+    if (query.clientId) where.clientId = query.clientId;
+    if (GLOBAL_ROLES.includes(currentUser.role)) {
+      if (query.branchId) where.transactionRef = { branchId: query.branchId };
+    } else {
+      where.transactionRef = { branchId: currentUser.branchId?.toString() };
+    }
+
+    const plans = await this.prisma.paymentPlan.findMany({
+      where,
+      include: this.planInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return plans.map((p) => this.toDoc(p));
+  }
+
+  async findById(id: string, currentUser?: any): Promise<any> {
+    const plan = await this.prisma.paymentPlan.findUnique({
+      where: { id },
+      include: this.planInclude,
+    });
+    if (!plan) throw new NotFoundException('Payment plan not found');
+    if (currentUser) {
+      this.assertBranchAccess(plan.transactionRef.branchId, currentUser);
+    }
+    return this.toDoc(plan);
+  }
+
+  async findByClient(clientId: string, currentUser: any): Promise<any[]> {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+    return this.findAll({ clientId }, currentUser);
+  }
+
+  /** Stops a plan. Interest not yet paid is credited back to the client. */
+  async cancel(
+    id: string,
+    dto: CancelPaymentPlanDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    const plan = await this.prisma.paymentPlan.findUnique({
+      where: { id },
+      include: this.planInclude,
+    });
+    if (!plan) throw new NotFoundException('Payment plan not found');
+    this.assertBranchAccess(plan.transactionRef.branchId, currentUser);
+    if (plan.status !== 'ACTIVE') {
+      throw new BadRequestException(`Payment plan is already ${plan.status}`);
+    }
+
+    const unpaidInterest = Math.min(
+      MoneyUtils.kobo(plan.interest),
+      MoneyUtils.kobo(plan.totalPayable) - MoneyUtils.kobo(plan.amountPaid),
+    );
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (unpaidInterest > 0) {
+        await this.clientLedgerService.post(tx, {
+          clientId: plan.clientId,
+          entryType: 'CREDIT',
+          amount: unpaidInterest,
+          description: `Unpaid interest waived on cancelled payment plan for invoice ${plan.transactionRef.invoiceNumber}`,
+          transactionId: plan.transactionId,
+          createdById: currentUser.userId,
+        });
+      }
+      return tx.paymentPlan.update({
+        where: { id },
+        data: {
+          status: 'CANCELLED',
+          cancelReason: dto.reason,
+          cancelledAt: new Date(),
+        },
+        include: this.planInclude,
+      });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PAYMENT_PLAN_CANCELLED',
+        details: `Payment plan for invoice ${plan.transactionRef.invoiceNumber} cancelled - Reason: ${dto.reason}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: plan.transactionRef.branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(updated);
+  }
+
+  /**
+   * Spreads a deposit over the client's outstanding installments, earliest
+   * due first, inside the caller's transaction. Call after the deposit has
+   * been posted to the ledger, which holds the lock on the client row.
+   * Returns the amount allocated, in kobo.
+   */
+  async allocateDeposit(
+    tx: Prisma.TransactionClient,
+    input: AllocateDepositInput,
+  ): Promise<number> {
+    const installments = await tx.paymentPlanInstallment.findMany({
+      where: { planRef: { clientId: input.clientId, status: 'ACTIVE' } },
+      orderBy: [{ dueDate: 'asc' }, { sequence: 'asc' }],
+    });
+
+    let remaining = input.amount;
+    const touchedPlans = new Set<string>();
+    for (const installment of installments) {
+      if (remaining <= 0) break;
+      const outstanding =
+        MoneyUtils.kobo(installment.amount) -
+        MoneyUtils.kobo(installment.amountPaid);
+      if (outstanding <= 0) continue;
+
+      const amount = Math.min(outstanding, remaining);
+      remaining -= amount;
+      await tx.paymentPlanInstallment.update({
+        where: { id: installment.id },
+        data: {
+          amountPaid: { increment: amount },
+          paidAt: amount === outstanding ? input.date : undefined,
+        },
+      });
+      await tx.paymentPlanAllocation.create({
+        data: {
+          installmentId: installment.id,
+          transactionId: input.transactionId,
+          amount,
+        },
+      });
+      await tx.paymentPlan.update({
+        where: { id: installment.planId },
+        data: { amountPaid: { increment: amount } },
+      });
+      touchedPlans.add(installment.planId);
+    }
+
+    for (const planId of touchedPlans) {
+      const plan = await tx.paymentPlan.findUnique({ where: { id: planId } });
+      if (
+        MoneyUtils.kobo(plan.amountPaid) >= MoneyUtils.kobo(plan.totalPayable)
+      ) {
+        await tx.paymentPlan.update({
+          where: { id: planId },
+          data: { status: 'COMPLETED', completedAt: input.date },
+        });
+      }
+    }
+
+    return input.amount - remaining;
+  }
+
+  /**
+   * Undoes a voided transaction's effect on payment plans: a voided sale's
+   * active plans are cancelled, and a voided deposit's allocations are
+   * returned to the installments they paid.
+   */
+  async releaseVoidedTransaction(
+    tx: Prisma.TransactionClient,
+    transactionId: string,
+  ): Promise<void> {
+    await tx.paymentPlan.updateMany({
+      where: { transactionId, status: 'ACTIVE' },
+      data: {
+        status: 'CANCELLED',
+        cancelReason: 'Transaction voided',
+        cancelledAt: new Date(),
+      },
+    });
+
+    const allocations = await tx.paymentPlanAllocation.findMany({
+      where: { transactionId },
+      include: { installmentRef: true },
+    });
+    for (const allocation of allocations) {
+      const amount = MoneyUtils.kobo(allocation.amount);
+      await tx.paymentPlanInstallment.update({
+        where: { id: allocation.installmentId },
+        data: { amountPaid: { decrement: amount }, paidAt: null },
+      });
+      const plan = await tx.paymentPlan.update({
+        where: { id: allocation.installmentRef.planId },
+        data: { amountPaid: { decrement: amount } },
+      });
+      if (plan.status === 'COMPLETED') {
+        await tx.paymentPlan.update({
+          where: { id: plan.id },
+          data: { status: 'ACTIVE', completedAt: null },
+        });
+      }
+    }
+    await tx.paymentPlanAllocation.deleteMany({ where: { transactionId } });
+  }
+
+  /** Due date of installment `index` (0-based); monthly dates keep the day, clamped to month end. */
+  private dueDate(
+    first: Date,
+    frequency: PaymentPlanFrequency,
+    index: number,
+  ): Date {
+    const date = new Date(first);
+    if (frequency === 'MONTHLY') {
+      const day = first.getDate();
+      date.setDate(1);
+      date.setMonth(date.getMonth() + index);
+      const lastDay = new Date(
+        date.getFullYear(),
+        date.getMonth() + 1,
+        0,
+      ).getDate();
+      date.setDate(Math.min(day, lastDay));
+      return date;
+    }
+    date.setDate(date.getDate() + index * (frequency === 'WEEKLY' ? 7 : 14));
+    return date;
+  }
+
+  private assertBranchAccess(branchId: string, currentUser: any) {
+    if (
+      !GLOBAL_ROLES.includes(currentUser.role) &&
+      currentUser.branchId?.toString() !== branchId
+    ) {
+      throw new ForbiddenException(
+        'You can only manage payment plans for your own branch',
+      );
+    }
+  }
+}
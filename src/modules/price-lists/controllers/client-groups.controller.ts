@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { ClientGroupsService } from '../services/client-groups.service';
+import {
+  CreateClientGroupDto,
+  UpdateClientGroupDto,
+} from '../dto/client-group.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('client-groups')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ClientGroupsController {
+  constructor(private readonly clientGroupsService: ClientGroupsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async create(
+    @Body() createClientGroupDto: CreateClientGroupDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.clientGroupsService.create(
+      createClientGroupDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findAll(): Promise<any[]> {
+    return this.clientGroupsService.findAll();
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findOne(@Param('id') id: string): Promise<any> {
+    return this.clientGroupsService.findById(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async update(
+    @Param('id') id: string,
+    @Body() updateClientGroupDto: UpdateClientGroupDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.clientGroupsService.update(
+      id,
+      updateClientGroupDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async remove(@Param('id') id: string, @Request() req): Promise<void> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.clientGroupsService.remove(id, req.user, device);
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { PriceListsService } from '../services/price-lists.service';
+import {
+  AssignClientPricingDto,
+  CreatePriceListDto,
+  SetPriceListItemsDto,
+  UpdatePriceListDto,
+} from '../dto/price-list.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('price-lists')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PriceListsController {
+  constructor(private readonly priceListsService: PriceListsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async create(
+    @Body() createPriceListDto: CreatePriceListDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.priceListsService.create(createPriceListDto, req.user, device);
+  }
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findAll(
+    @Query('includeInactive') includeInactive?: string,
+  ): Promise<any[]> {
+    return this.priceListsService.findAll(includeInactive === 'true');
+  }
+
+  @Patch('clients/:clientId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async assignClient(
+    @Param('clientId') clientId: string,
+    @Body() assignClientPricingDto: AssignClientPricingDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.priceListsService.assignClient(
+      clientId,
+      assignClientPricingDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findOne(@Param('id') id: string): Promise<any> {
+    return this.priceListsService.findById(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async update(
+    @Param('id') id: string,
+    @Body() updatePriceListDto: UpdatePriceListDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.priceListsService.update(
+      id,
+      updatePriceListDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Put(':id/items')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async setItems(
+    @Param('id') id: string,
+    @Body() setPriceListItemsDto: SetPriceListItemsDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.priceListsService.setItems(
+      id,
+      setPriceListItemsDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async remove(@Param('id') id: string, @Request() req): Promise<void> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.priceListsService.remove(id, req.user, device);
+  }
+}
@@ -0,0 +1,30 @@
+import { IsNotEmpty, IsOptional, IsString, ValidateIf } from 'class-validator';
+
+export class CreateClientGroupDto {
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  priceListId?: string;
+}
+
+export class UpdateClientGroupDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  priceListId?: string | null;
+}
@@ -0,0 +1,110 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEmail,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PriceListItemDto {
+  @IsString()
+  productId: string;
+
+  /**
+   * Smallest quantity, in the product's stock unit, this price applies to.
+   * Omit (or 0) for the base tier.
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minQuantity?: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  unitPrice: number;
+}
+
+export class CreatePriceListDto {
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  validTo?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PriceListItemDto)
+  items?: PriceListItemDto[];
+}
+
+export class UpdatePriceListDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  validFrom?: string | null;
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  validTo?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class SetPriceListItemsDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PriceListItemDto)
+  items: PriceListItemDto[];
+}
+
+/** Pass null to clear an assignment; omit a field to leave it unchanged. */
+export class AssignClientPricingDto {
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  priceListId?: string | null;
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  groupId?: string | null;
+}
+
+/** Credentials of the ADMIN or SUPER_ADMIN authorising a sale below list price. */
+export class PriceOverrideDto {
+  @IsEmail()
+  approverEmail: string;
+
+  @IsNotEmpty()
+  @IsString()
+  approverPassword: string;
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PriceListsService } from './services/price-lists.service';
+import { ClientGroupsService } from './services/client-groups.service';
+import { PriceListsController } from './controllers/price-lists.controller';
+import { ClientGroupsController } from './controllers/client-groups.controller';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+
+@Module({
+  imports: [SystemActivityLogModule],
+  providers: [PriceListsService, ClientGroupsService],
+  controllers: [PriceListsController, ClientGroupsController],
+  exports: [PriceListsService],
+})
+export class PriceListsModule {}
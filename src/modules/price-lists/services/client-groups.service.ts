@@ -0,0 +1,144 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  CreateClientGroupDto,
+  UpdateClientGroupDto,
+} from '../dto/client-group.dto';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+
+@Injectable()
+export class ClientGroupsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly groupInclude = {
+    priceListRef: { select: { id: true, name: true, isActive: true } },
+    _count: { select: { clients: true } },
+  };
+
+  private toDoc(group: any) {
+    if (!group) return group;
+    return { ...group, _id: group.id };
+  }
+
+  async create(
+    dto: CreateClientGroupDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    await this.assertNameAvailable(dto.name);
+    if (dto.priceListId) await this.assertPriceListExists(dto.priceListId);
+
+    const group = await this.prisma.clientGroup.create({
+      data: dto,
+      include: this.groupInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'CLIENT_GROUP_CREATED',
+        details: `Client group created: ${group.name}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(group);
+  }
+
+  async findAll(): Promise<any[]> {
+    const groups = await this.prisma.clientGroup.findMany({
+      include: this.groupInclude,
+      orderBy: { name: 'asc' },
+    });
+    return groups.map((g) => this.toDoc(g));
+  }
+
+  async findById(id: string): Promise<any> {
+    const group = await this.prisma.clientGroup.findUnique({
+      where: { id },
+      include: {
+        ...this.groupInclude,
+        clients: { select: { id: true, name: true, phone: true } },
+      },
+    });
+    if (!group) throw new NotFoundException('Client group not found');
+    return this.toDoc(group);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateClientGroupDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    const existing = await this.findById(id);
+    if (dto.name && dto.name !== existing.name) {
+      await this.assertNameAvailable(dto.name);
+    }
+    if (dto.priceListId) await this.assertPriceListExists(dto.priceListId);
+
+    const group = await this.prisma.clientGroup.update({
+      where: { id },
+      data: dto,
+      include: this.groupInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'CLIENT_GROUP_UPDATED',
+        details: `Client group updated: ${group.name} - Changes: ${Object.keys(dto).join(', ')}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(group);
+  }
+
+  /** Deletes the group; its clients simply stop belonging to a group. */
+  async remove(id: string, currentUser?: any, device?: string): Promise<void> {
+    const group = await this.findById(id);
+
+    await this.prisma.clientGroup.delete({ where: { id } });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'CLIENT_GROUP_DELETED',
+        details: `Client group deleted: ${group.name} (${group.clients.length} clients ungrouped)`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+  }
+
+  private async assertNameAvailable(name: string) {
+    const existing = await this.prisma.clientGroup.findUnique({
+      where: { name },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `A client group named "${name}" already exists`,
+      );
+    }
+  }
+
+  private async assertPriceListExists(priceListId: string) {
+    const priceList = await this.prisma.priceList.findUnique({
+      where: { id: priceListId },
+    });
+    if (!priceList) throw new NotFoundException('Price list not found');
+  }
+}
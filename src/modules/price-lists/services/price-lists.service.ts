@@ -0,0 +1,414 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  AssignClientPricingDto,
+  CreatePriceListDto,
+  PriceListItemDto,
+  PriceOverrideDto,
+  SetPriceListItemsDto,
+  UpdatePriceListDto,
+} from '../dto/price-list.dto';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+
+const PRICE_OVERRIDE_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.ADMIN];
+
+export interface ResolvedPrice {
+  /** Unit price in kobo. */
+  unitPrice: number;
+  priceListId: string;
+  priceListName: string;
+  minQuantity: number;
+}
+
+@Injectable()
+export class PriceListsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly priceListInclude = {
+    createdBy: { select: { id: true, name: true } },
+    items: {
+      include: {
+        productRef: {
+          select: { id: true, name: true, unit: true, branchId: true },
+        },
+      },
+      orderBy: [{ productId: 'asc' as const }, { minQuantity: 'asc' as const }],
+    },
+    _count: { select: { clients: true, clientGroups: true } },
+  };
+
+  private toDoc(priceList: any) {
+    if (!priceList) return priceList;
+    return {
+      ...priceList,
+      _id: priceList.id,
+      items: (priceList.items || []).map((item: any) => ({
+        ...MoneyUtils.fieldsToNaira(item, ['unitPrice']),
+        _id: item.id,
+      })),
+    };
+  }
+
+  async create(
+    dto: CreatePriceListDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    await this.assertNameAvailable(dto.name);
+    this.assertValidityWindow(dto.validFrom, dto.validTo);
+    const items = await this.prepareItems(dto.items || []);
+
+    const priceList = await this.prisma.priceList.create({
+      data: {
+        name: dto.name,
+        description: dto.description,
+        validFrom: dto.validFrom ? new Date(dto.validFrom) : null,
+        validTo: dto.validTo ? new Date(dto.validTo) : null,
+        createdById: currentUser.userId,
+        items: { create: items },
+      },
+      include: this.priceListInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PRICE_LIST_CREATED',
+        details: `Price list created: ${priceList.name} (${items.length} prices)`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(priceList);
+  }
+
+  async findAll(includeInactive = false): Promise<any[]> {
+    const priceLists = await this.prisma.priceList.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      include: this.priceListInclude,
+      orderBy: { name: 'asc' },
+    });
+    return priceLists.map((p) => this.toDoc(p));
+  }
+
+  async findById(id: string): Promise<any> {
+    const priceList = await this.prisma.priceList.findUnique({
+      where: { id },
+      include: this.priceListInclude,
+    });
+    if (!priceList) throw new NotFoundException('Price list not found');
+    return this.toDoc(priceList);
+  }
+
+  async update(
+    id: string,
+    dto: UpdatePriceListDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    const existing = await this.findById(id);
+    if (dto.name && dto.name !== existing.name) {
+      await this.assertNameAvailable(dto.name);
+    }
+    const validFrom =
+      dto.validFrom !== undefined ? dto.validFrom : existing.validFrom;
+    const validTo = dto.validTo !== undefined ? dto.validTo : existing.validTo;
+    this.assertValidityWindow(validFrom, validTo);
+
+    const data: Prisma.PriceListUpdateInput = {
+      name: dto.name,
+      description: dto.description,
+      isActive: dto.isActive,
+    };
+    if (dto.validFrom !== undefined) {
+      data.validFrom = dto.validFrom ? new Date(dto.validFrom) : null;
+    }
+    if (dto.validTo !== undefined) {
+      data.validTo = dto.validTo ? new Date(dto.validTo) : null;
+    }
+
+    const priceList = await this.prisma.priceList.update({
+      where: { id },
+      data,
+      include: this.priceListInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PRICE_LIST_UPDATED',
+        details: `Price list updated: ${priceList.name} - Changes: ${Object.keys(dto).join(', ')}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(priceList);
+  }
+
+  /** Replaces every price on the list in one go. */
+  async setItems(
+    id: string,
+    dto: SetPriceListItemsDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    const existing = await this.findById(id);
+    const items = await this.prepareItems(dto.items);
+
+    const priceList = await this.prisma.$transaction(async (tx) => {
+      await tx.priceListItem.deleteMany({ where: { priceListId: id } });
+      await tx.priceListItem.createMany({
+        data: items.map((item) => ({ ...item, priceListId: id })),
+      });
+      return tx.priceList.findUnique({
+        where: { id },
+        include: this.priceListInclude,
+      });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PRICE_LIST_ITEMS_UPDATED',
+        details: `Price list ${existing.name} now has ${items.length} prices`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(priceList);
+  }
+
+  async remove(id: string, currentUser?: any, device?: string): Promise<void> {
+    const priceList = await this.findById(id);
+
+    await this.prisma.priceList.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PRICE_LIST_DEACTIVATED',
+        details: `Price list deactivated: ${priceList.name}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+  }
+
+  /** Sets or clears the price list and client group a client buys under. */
+  async assignClient(
+    clientId: string,
+    dto: AssignClientPricingDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+
+    if (dto.priceListId) await this.findById(dto.priceListId);
+    if (dto.groupId) {
+      const group = await this.prisma.clientGroup.findUnique({
+        where: { id: dto.groupId },
+      });
+      if (!group) throw new NotFoundException('Client group not found');
+    }
+
+    const updated = await this.prisma.client.update({
+      where: { id: clientId },
+      data: { priceListId: dto.priceListId, groupId: dto.groupId },
+      include: {
+        priceListRef: { select: { id: true, name: true } },
+        groupRef: { select: { id: true, name: true } },
+      },
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'CLIENT_PRICING_ASSIGNED',
+        details: `Pricing for ${updated.name}: price list ${updated.priceListRef?.name ?? 'none'}, group ${updated.groupRef?.name ?? 'none'}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return {
+      ...MoneyUtils.fieldsToNaira(updated, ['balance']),
+      _id: updated.id,
+    };
+  }
+
+  /**
+   * Finds the list price for a product at a quantity. A client's own price
+   * list wins over their group's; within a list the highest quantity break
+   * not exceeding the quantity applies. Returns null when no list covers the
+   * product, in which case the product's own unit price is the price.
+   */
+  async resolvePrice(
+    productId: string,
+    quantity: number,
+    clientId?: string,
+    at: Date = new Date(),
+  ): Promise<ResolvedPrice | null> {
+    if (!clientId) return null;
+
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+      select: {
+        priceListId: true,
+        groupRef: { select: { priceListId: true } },
+      },
+    });
+    const priceListIds = [
+      client?.priceListId,
+      client?.groupRef?.priceListId,
+    ].filter(Boolean);
+
+    for (const priceListId of priceListIds) {
+      const item = await this.prisma.priceListItem.findFirst({
+        where: {
+          productId,
+          minQuantity: { lte: quantity },
+          priceListRef: {
+            id: priceListId,
+            isActive: true,
+            AND: [
+              { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+              { OR: [{ validTo: null }, { validTo: { gte: at } }] },
+            ],
+          },
+        },
+        include: { priceListRef: { select: { name: true } } },
+        orderBy: { minQuantity: 'desc' },
+      });
+      if (item) {
+        return {
+          unitPrice: MoneyUtils.kobo(item.unitPrice),
+          priceListId: item.priceListId,
+          priceListName: item.priceListRef.name,
+          minQuantity: item.minQuantity,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Authorises selling below list price. ADMIN and SUPER_ADMIN cashiers
+   * approve their own sales; anyone else needs an ADMIN of the selling branch
+   * (or a SUPER_ADMIN) to enter their credentials at the till.
+   */
+  async approvePriceOverride(
+    currentUser: { userId: string; role: string; email?: string },
+    credentials: PriceOverrideDto | undefined,
+    branchId: string,
+    reason: string,
+  ): Promise<{ id: string; email: string }> {
+    if (PRICE_OVERRIDE_ROLES.includes(currentUser.role)) {
+      return { id: currentUser.userId, email: currentUser.email || '' };
+    }
+    if (!credentials) {
+      throw new ForbiddenException(
+        `${reason}. An ADMIN must approve this price override.`,
+      );
+    }
+
+    const approver = await this.prisma.user.findUnique({
+      where: { email: credentials.approverEmail },
+    });
+    const isPasswordValid =
+      approver &&
+      (await bcrypt.compare(credentials.approverPassword, approver.password));
+    if (!isPasswordValid) {
+      throw new ForbiddenException(
+        'Price override rejected: invalid approver credentials',
+      );
+    }
+    if (!approver.isActive || approver.isBlocked) {
+      throw new ForbiddenException(
+        'Price override rejected: approver account is not active',
+      );
+    }
+    if (
+      !PRICE_OVERRIDE_ROLES.includes(approver.role) ||
+      (approver.role !== UserRole.SUPER_ADMIN && approver.branchId !== branchId)
+    ) {
+      throw new ForbiddenException(
+        'Price override rejected: approver cannot authorise prices for this branch',
+      );
+    }
+    return { id: approver.id, email: approver.email };
+  }
+
+  private async assertNameAvailable(name: string) {
+    const existing = await this.prisma.priceList.findUnique({
+      where: { name },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `A price list named "${name}" already exists`,
+      );
+    }
+  }
+
+  private assertValidityWindow(
+    validFrom?: string | Date | null,
+    validTo?: string | Date | null,
+  ) {
+    if (validFrom && validTo && new Date(validFrom) > new Date(validTo)) {
+      throw new BadRequestException('validFrom must be before validTo');
+    }
+  }
+
+  private async prepareItems(items: PriceListItemDto[]) {
+    const keys = items.map((i) => `${i.productId}:${i.minQuantity ?? 0}`);
+    if (new Set(keys).size !== keys.length) {
+      throw new BadRequestException(
+        'Each product can only have one price per quantity break',
+      );
+    }
+
+    const productIds = [...new Set(items.map((i) => i.productId))];
+    const found = await this.prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true },
+    });
+    const missing = productIds.filter((id) => !found.some((p) => p.id === id));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Products not found: ${missing.join(', ')}`,
+      );
+    }
+
+    return items.map((item) => ({
+      productId: item.productId,
+      minQuantity: item.minQuantity ?? 0,
+      unitPrice: MoneyUtils.toKobo(item.unitPrice),
+    }));
+  }
+}
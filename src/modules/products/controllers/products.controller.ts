@@ -8,24 +8,32 @@ import {
   Delete,
   UseGuards,
   Request,
+  Query,
   BadRequestException,
 } from '@nestjs/common';
 import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
 import { ProductsService } from '../services/products.service';
+import { ReorderService } from '../services/reorder.service';
 import {
   CreateProductDto,
   UpdateProductDto,
   UpdateStockDto,
+  QueryStockMovementsDto,
+  ReorderSuggestionsQueryDto,
 } from '../dto/product.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { UserRole } from '../../../common/enums';
 import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
 
 @Controller('products')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class ProductsController {
-  constructor(private readonly productsService: ProductsService) {}
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly reorderService: ReorderService,
+  ) {}
 
   @Post()
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
@@ -49,10 +57,24 @@ export class ProductsController {
 
   @Get('low-stock')
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  @Exportable('low-stock-products')
   async getLowStockProducts(@Request() req): Promise<any[]> {
     return this.productsService.getLowStockProducts(req.user);
   }
 
+  /**
+   * Products due for reorder based on their sales rate, lead time and stock on order.
+   */
+  @Get('reorder-suggestions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  @Exportable('reorder-suggestions')
+  async getReorderSuggestions(
+    @Query() query: ReorderSuggestionsQueryDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.reorderService.getSuggestions(query, req.user);
+  }
+
   @Get('branch/:branchId')
   @Roles(
     UserRole.SUPER_ADMIN,
@@ -92,6 +114,16 @@ export class ProductsController {
     return this.productsService.findById(id, req.user);
   }
 
+  @Get(':id/stock-movements')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async getStockMovements(
+    @Param('id') id: string,
+    @Query() query: QueryStockMovementsDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.productsService.getStockMovements(id, query, req.user);
+  }
+
   @Get(':id/category')
   @Roles(
     UserRole.SUPER_ADMIN,
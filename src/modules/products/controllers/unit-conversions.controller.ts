@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { UnitConversionService } from '../services/unit-conversion.service';
+import {
+  CreateUnitConversionDto,
+  QueryUnitConversionsDto,
+} from '../dto/unit-conversion.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('unit-conversions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class UnitConversionsController {
+  constructor(private readonly unitConversionService: UnitConversionService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async create(
+    @Body() createUnitConversionDto: CreateUnitConversionDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.unitConversionService.create(
+      createUnitConversionDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findAll(@Query() query: QueryUnitConversionsDto): Promise<any[]> {
+    return this.unitConversionService.findAll(query);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async remove(@Param('id') id: string, @Request() req): Promise<void> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.unitConversionService.remove(id, req.user, device);
+  }
+}
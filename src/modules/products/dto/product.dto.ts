@@ -5,7 +5,12 @@ import {
   IsString,
   Min,
   IsEnum,
+  IsDateString,
+  IsIn,
+  IsInt,
+  Max,
 } from 'class-validator';
+import { StockMovementReason } from '@prisma/client';
 
 export class CreateProductDto {
   @IsNotEmpty()
@@ -21,10 +26,16 @@ export class CreateProductDto {
   unit: string;
 
   @IsNotEmpty()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   unitPrice: number;
 
+  /** Opening cost price; afterwards it is maintained as a weighted average by goods receipts. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  costPrice?: number;
+
   @IsNotEmpty()
   @IsNumber()
   @Min(0)
@@ -54,10 +65,16 @@ export class UpdateProductDto {
   unit?: string;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   unitPrice?: number;
 
+  /** null marks the cost as unknown. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  costPrice?: number | null;
+
   @IsOptional()
   @IsNumber()
   @Min(0)
@@ -91,4 +108,55 @@ export class UpdateStockDto {
   @IsEnum(StockOperation)
   @IsNotEmpty()
   readonly operation: StockOperation;
+
+  @IsOptional()
+  @IsString()
+  readonly note?: string;
+}
+
+export class QueryStockMovementsDto {
+  @IsOptional()
+  @IsEnum(StockMovementReason)
+  reason?: StockMovementReason;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class ReorderSuggestionsQueryDto {
+  /** Only SUPER_ADMIN and MAINTAINER may pick a branch; everyone else sees their own. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  /** Days between ordering and the goods arriving. */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  leadTimeDays?: number;
+
+  /** Days of sales each order should cover once it arrives. */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  coverDays?: number;
+
+  /** Sales history used to work out the daily rate. */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  lookbackDays?: number;
+
+  /** `true` lists every product, not just those due for reorder. */
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  all?: string;
 }
@@ -0,0 +1,44 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+
+/**
+ * One `fromUnit` equals `factor` of `toUnit`, e.g. 1 Tonne = 20 Bag. Set
+ * either categoryId (applies to every product in the category) or productId
+ * (overrides the category for that product).
+ */
+export class CreateUnitConversionDto {
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @IsOptional()
+  @IsString()
+  productId?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  fromUnit: string;
+
+  @IsNotEmpty()
+  @IsString()
+  toUnit: string;
+
+  @IsNumber()
+  @IsPositive()
+  factor: number;
+}
+
+export class QueryUnitConversionsDto {
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @IsOptional()
+  @IsString()
+  productId?: string;
+}
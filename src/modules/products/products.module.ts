@@ -1,18 +1,34 @@
 import { Module } from '@nestjs/common';
 import { ProductsService } from './services/products.service';
+import { StockMovementService } from './services/stock-movement.service';
+import { UnitConversionService } from './services/unit-conversion.service';
+import { ReorderService } from './services/reorder.service';
 import { ProductsController } from './controllers/products.controller';
+import { UnitConversionsController } from './controllers/unit-conversions.controller';
 import { CategoriesModule } from '../categories/categories.module';
 import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
 import { WebSocketModule } from '../websocket/websocket.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
 
 @Module({
   imports: [
     CategoriesModule,
     SystemActivityLogModule,
     WebSocketModule,
+    ColumnSettingsModule,
+  ],
+  providers: [
+    ProductsService,
+    StockMovementService,
+    UnitConversionService,
+    ReorderService,
+  ],
+  controllers: [ProductsController, UnitConversionsController],
+  exports: [
+    ProductsService,
+    StockMovementService,
+    UnitConversionService,
+    ReorderService,
   ],
-  providers: [ProductsService],
-  controllers: [ProductsController],
-  exports: [ProductsService],
 })
 export class ProductsModule {}
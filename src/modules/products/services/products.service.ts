@@ -9,11 +9,14 @@ import {
   UpdateProductDto,
   UpdateStockDto,
   StockOperation,
+  QueryStockMovementsDto,
 } from '../dto/product.dto';
 import { CategoriesService } from '../../categories/services/categories.service';
 import { UserRole } from '../../../common/enums';
 import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
 import { RealtimeEventService } from '../../websocket/realtime-event.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { StockMovementService } from './stock-movement.service';
 
 @Injectable()
 export class ProductsService {
@@ -22,6 +25,7 @@ export class ProductsService {
     private readonly categoriesService: CategoriesService,
     private readonly systemActivityLogService: SystemActivityLogService,
     private readonly realtimeEventService: RealtimeEventService,
+    private readonly stockMovementService: StockMovementService,
   ) {}
 
   private transformProduct(product: any) {
@@ -29,6 +33,12 @@ export class ProductsService {
     const { categoryRef, branchRef, ...rest } = product;
     return {
       ...rest,
+      unitPrice: MoneyUtils.fromKobo(product.unitPrice),
+      costPrice:
+        product.costPrice === null
+          ? null
+          : MoneyUtils.fromKobo(product.costPrice),
+      priceHistory: MoneyUtils.priceHistoryToNaira(product.priceHistory),
       _id: product.id,
       categoryId: categoryRef
         ? { _id: categoryRef.id, ...categoryRef }
@@ -79,36 +89,68 @@ export class ProductsService {
       );
     }
 
-    const product = await this.prisma.product.create({
-      data: {
-        name: createProductDto.name,
-        categoryId: createProductDto.categoryId,
-        unit: createProductDto.unit,
-        unitPrice: createProductDto.unitPrice,
-        stock: createProductDto.stock ?? 0,
-        minStockLevel: createProductDto.minStockLevel ?? 0,
-        branchId,
-        priceHistory: [{ price: createProductDto.unitPrice, date: new Date() }],
-      },
-      include: this.productInclude,
+    const unitPrice = MoneyUtils.toKobo(createProductDto.unitPrice);
+    const product = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          name: createProductDto.name,
+          categoryId: createProductDto.categoryId,
+          unit: createProductDto.unit,
+          unitPrice,
+          costPrice:
+            createProductDto.costPrice == null
+              ? null
+              : MoneyUtils.toKobo(createProductDto.costPrice),
+          stock: 0,
+          minStockLevel: createProductDto.minStockLevel ?? 0,
+          branchId,
+          priceHistory: [{ price: unitPrice, date: new Date() }],
+        },
+      });
+
+      if (createProductDto.stock) {
+        await this.stockMovementService.record(tx, {
+          productId: created.id,
+          delta: createProductDto.stock,
+          reason: 'OPENING',
+          actorId: currentUser?.userId,
+          note: 'Opening stock',
+        });
+      }
+
+      return tx.product.findUnique({
+        where: { id: created.id },
+        include: this.productInclude,
+      });
     });
 
     try {
-      this.systemActivityLogService.createLog({
-        action: 'PRODUCT_CREATED',
-        details: `Product created: ${product.name} (${product.unit}) in category ${category.name} - Price: ${product.unitPrice}`,
-        performedBy: currentUser?.email || currentUser?.name || 'System',
-        role: currentUser?.role || 'SYSTEM',
-        device: device || 'System',
-        branchId: currentUser?.branchId?.toString(),
-      }).catch(() => {});
+      this.systemActivityLogService
+        .createLog({
+          action: 'PRODUCT_CREATED',
+          details: `Product created: ${product.name} (${product.unit}) in category ${category.name} - Price: ${createProductDto.unitPrice}`,
+          performedBy: currentUser?.email || currentUser?.name || 'System',
+          role: currentUser?.role || 'SYSTEM',
+          device: device || 'System',
+          branchId: currentUser?.branchId?.toString(),
+        })
+        .catch(() => {});
     } catch {}
 
     try {
       if (currentUser) {
         const eventData = this.realtimeEventService.createEventData(
-          'created', 'product', product.id, product,
-          { id: currentUser.id || currentUser._id || '', email: currentUser.email, role: currentUser.role, branchId: currentUser.branchId?.toString(), branch: currentUser.branch },
+          'created',
+          'product',
+          product.id,
+          this.transformProduct(product),
+          {
+            id: currentUser.id || currentUser._id || '',
+            email: currentUser.email,
+            role: currentUser.role,
+            branchId: currentUser.branchId?.toString(),
+            branch: currentUser.branch,
+          },
         );
         this.realtimeEventService.emitProductCreated(eventData);
       }
@@ -172,16 +214,33 @@ export class ProductsService {
       }
     }
 
-    const updateData: any = { ...updateProductDto };
+    const { stock, ...rest } = updateProductDto;
+    const updateData: any = { ...rest };
+
+    if (updateProductDto.unitPrice !== undefined) {
+      updateData.unitPrice = MoneyUtils.toKobo(updateProductDto.unitPrice);
+    }
+    if (updateProductDto.costPrice !== undefined) {
+      updateData.costPrice =
+        updateProductDto.costPrice == null
+          ? null
+          : MoneyUtils.toKobo(updateProductDto.costPrice);
+    }
 
     if (
       updateProductDto.unitPrice &&
       updateProductDto.unitPrice !== existing.unitPrice
     ) {
-      const currentHistory = Array.isArray(existing.priceHistory) ? existing.priceHistory : [];
+      const stored = await this.prisma.product.findUnique({
+        where: { id },
+        select: { priceHistory: true },
+      });
+      const currentHistory = Array.isArray(stored?.priceHistory)
+        ? stored.priceHistory
+        : [];
       updateData.priceHistory = [
         ...currentHistory,
-        { price: updateProductDto.unitPrice, date: new Date() },
+        { price: updateData.unitPrice, date: new Date() },
       ];
     }
 
@@ -194,10 +253,22 @@ export class ProductsService {
       }
     }
 
-    const product = await this.prisma.product.update({
-      where: { id },
-      data: updateData,
-      include: this.productInclude,
+    const product = await this.prisma.$transaction(async (tx) => {
+      if (stock !== undefined && stock !== existing.stock) {
+        await this.stockMovementService.record(tx, {
+          productId: id,
+          delta: stock - existing.stock,
+          reason: 'ADJUSTMENT',
+          actorId: currentUser?.userId,
+          note: `Stock set to ${stock} via product update`,
+        });
+      }
+
+      return tx.product.update({
+        where: { id },
+        data: updateData,
+        include: this.productInclude,
+      });
     });
 
     try {
@@ -215,8 +286,17 @@ export class ProductsService {
     try {
       if (currentUser) {
         const eventData = this.realtimeEventService.createEventData(
-          'updated', 'product', product.id, product,
-          { id: currentUser.id || currentUser._id || '', email: currentUser.email, role: currentUser.role, branchId: currentUser.branchId?.toString(), branch: currentUser.branch },
+          'updated',
+          'product',
+          product.id,
+          this.transformProduct(product),
+          {
+            id: currentUser.id || currentUser._id || '',
+            email: currentUser.email,
+            role: currentUser.role,
+            branchId: currentUser.branchId?.toString(),
+            branch: currentUser.branch,
+          },
         );
         this.realtimeEventService.emitProductUpdated(eventData);
       }
@@ -257,31 +337,51 @@ export class ProductsService {
       );
     }
 
-    const newStock =
-      operation === StockOperation.ADD
-        ? product.stock + quantity
-        : product.stock - quantity;
-
-    const updatedProduct = await this.prisma.product.update({
-      where: { id },
-      data: { stock: newStock },
-      include: this.productInclude,
+    const updatedProduct = await this.prisma.$transaction(async (tx) => {
+      await this.stockMovementService.record(tx, {
+        productId: id,
+        delta: operation === StockOperation.ADD ? quantity : -quantity,
+        reason: 'ADJUSTMENT',
+        actorId: currentUser?.userId,
+        note: updateStockDto.note,
+      });
+
+      return tx.product.findUnique({
+        where: { id },
+        include: this.productInclude,
+      });
     });
 
     try {
-      this.systemActivityLogService.createLog({
-        action: 'STOCK_UPDATED',
-        details: `Stock ${operation === StockOperation.ADD ? 'increased' : 'decreased'} for ${updatedProduct.name}: ${quantity} ${unit} (New stock: ${newStock})`,
-        performedBy: currentUser?.email || currentUser?.name || 'System',
-        role: currentUser?.role || 'SYSTEM',
-        device: device || 'System',
-        branchId: currentUser?.branchId?.toString(),
-      }).catch(() => {});
+      this.systemActivityLogService
+        .createLog({
+          action: 'STOCK_UPDATED',
+          details: `Stock ${operation === StockOperation.ADD ? 'increased' : 'decreased'} for ${updatedProduct.name}: ${quantity} ${unit} (New stock: ${updatedProduct.stock})`,
+          performedBy: currentUser?.email || currentUser?.name || 'System',
+          role: currentUser?.role || 'SYSTEM',
+          device: device || 'System',
+          branchId: currentUser?.branchId?.toString(),
+        })
+        .catch(() => {});
     } catch {}
 
     return this.transformProduct(updatedProduct);
   }
 
+  async getStockMovements(
+    id: string,
+    query: QueryStockMovementsDto,
+    currentUser?: any,
+  ): Promise<any> {
+    const product = await this.findById(id, currentUser);
+
+    return this.stockMovementService.findByProduct(product, {
+      reason: query.reason,
+      startDate: query.startDate ? new Date(query.startDate) : undefined,
+      endDate: query.endDate ? new Date(query.endDate) : undefined,
+    });
+  }
+
   async remove(id: string, currentUser?: any, device?: string): Promise<void> {
     const product = await this.findById(id, currentUser);
 
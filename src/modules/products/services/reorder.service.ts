@@ -0,0 +1,222 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { UserRole } from '../../../common/enums';
+import { ReorderSuggestionsQueryDto } from '../dto/product.dto';
+
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+export const DEFAULT_COVER_DAYS = 14;
+export const DEFAULT_LOOKBACK_DAYS = 30;
+
+export interface ReorderOptions {
+  branchId?: string;
+  leadTimeDays?: number;
+  coverDays?: number;
+  lookbackDays?: number;
+  /** Include products that are not yet due for reorder. */
+  all?: boolean;
+  productIds?: string[];
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  categoryName: string;
+  branchId: string;
+  branchName: string;
+  unit: string;
+  stock: number;
+  minStockLevel: number;
+  /** Outstanding on draft, open and part-received purchase orders. */
+  onOrder: number;
+  unitsSold: number;
+  averageDailySales: number;
+  /** Days the current stock lasts at the average rate; null when nothing sells. */
+  daysOfCover: number | null;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  needsReorder: boolean;
+  /** Supplier and unit cost (kobo) of the last purchase, else the product's cost price. */
+  supplier: { id: string; name: string } | null;
+  unitCost: number;
+  estimatedCost: number;
+}
+
+const round = (value: number, places: number) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Reorder suggestions from sales velocity. The daily rate is net units sold
+ * (sales less returns, in the product's base unit) over the lookback window.
+ * A product is due once stock plus what is already on order falls to the
+ * reorder point, i.e. lead-time demand plus minStockLevel as safety stock;
+ * the suggestion tops it up to cover the lead time and `coverDays` more.
+ */
+@Injectable()
+export class ReorderService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async buildSuggestions(
+    options: ReorderOptions,
+  ): Promise<ReorderSuggestion[]> {
+    const leadTimeDays = options.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+    const coverDays = options.coverDays ?? DEFAULT_COVER_DAYS;
+    const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+
+    const where: Prisma.ProductWhereInput = { isActive: true };
+    if (options.branchId) where.branchId = options.branchId;
+    if (options.productIds) where.id = { in: options.productIds };
+    const products = await this.prisma.product.findMany({
+      where,
+      include: {
+        categoryRef: { select: { name: true } },
+        branchRef: { select: { name: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+    if (products.length === 0) return [];
+    const productIds = products.map((p) => p.id);
+
+    const since = new Date(Date.now() - lookbackDays * 86400000);
+    const [soldItems, openOrderItems, lastPurchases] = await Promise.all([
+      this.prisma.transactionItem.findMany({
+        where: {
+          productId: { in: productIds },
+          transaction: {
+            type: { in: ['PURCHASE', 'WHOLESALE', 'PICKUP', 'RETURN'] },
+            status: { not: 'CANCELLED' },
+            OR: [
+              { date: { gte: since } },
+              { date: null, createdAt: { gte: since } },
+            ],
+          },
+        },
+        select: {
+          productId: true,
+          quantity: true,
+          conversionFactor: true,
+          transaction: { select: { type: true } },
+        },
+      }),
+      this.prisma.purchaseOrderItem.findMany({
+        where: {
+          productId: { in: productIds },
+          purchaseOrderRef: {
+            status: { in: ['DRAFT', 'OPEN', 'PARTIALLY_RECEIVED'] },
+          },
+        },
+        select: {
+          productId: true,
+          quantityOrdered: true,
+          quantityReceived: true,
+        },
+      }),
+      this.prisma.goodsReceiptItem.findMany({
+        where: { productId: { in: productIds } },
+        select: {
+          productId: true,
+          unitCost: true,
+          goodsReceiptRef: {
+            select: { supplierRef: { select: { id: true, name: true } } },
+          },
+        },
+        orderBy: { goodsReceiptRef: { date: 'desc' } },
+        distinct: ['productId'],
+      }),
+    ]);
+
+    const sold = new Map<string, number>();
+    for (const item of soldItems) {
+      const quantity = item.quantity * item.conversionFactor;
+      const sign = item.transaction.type === 'RETURN' ? -1 : 1;
+      sold.set(
+        item.productId,
+        (sold.get(item.productId) ?? 0) + sign * quantity,
+      );
+    }
+    const onOrder = new Map<string, number>();
+    for (const item of openOrderItems) {
+      const outstanding = Math.max(
+        item.quantityOrdered - item.quantityReceived,
+        0,
+      );
+      onOrder.set(
+        item.productId,
+        (onOrder.get(item.productId) ?? 0) + outstanding,
+      );
+    }
+    const lastPurchase = new Map(lastPurchases.map((p) => [p.productId, p]));
+
+    const suggestions = products.map((product): ReorderSuggestion => {
+      const unitsSold = Math.max(sold.get(product.id) ?? 0, 0);
+      const averageDailySales = unitsSold / lookbackDays;
+      const pending = onOrder.get(product.id) ?? 0;
+      const reorderPoint =
+        averageDailySales * leadTimeDays + product.minStockLevel;
+      const targetStock =
+        averageDailySales * (leadTimeDays + coverDays) + product.minStockLevel;
+      const suggestedQuantity = Math.max(
+        Math.ceil(targetStock - product.stock - pending),
+        0,
+      );
+      const purchase = lastPurchase.get(product.id);
+      const unitCost = purchase
+        ? MoneyUtils.kobo(purchase.unitCost)
+        : MoneyUtils.kobo(product.costPrice);
+
+      return {
+        productId: product.id,
+        productName: product.name,
+        categoryName: product.categoryRef.name,
+        branchId: product.branchId,
+        branchName: product.branchRef.name,
+        unit: product.unit,
+        stock: product.stock,
+        minStockLevel: product.minStockLevel,
+        onOrder: pending,
+        unitsSold: round(unitsSold, 3),
+        averageDailySales: round(averageDailySales, 3),
+        daysOfCover:
+          averageDailySales > 0
+            ? round(product.stock / averageDailySales, 1)
+            : null,
+        reorderPoint: round(reorderPoint, 3),
+        suggestedQuantity,
+        needsReorder:
+          suggestedQuantity > 0 && product.stock + pending <= reorderPoint,
+        supplier: purchase?.goodsReceiptRef.supplierRef || null,
+        unitCost,
+        estimatedCost: MoneyUtils.multiply(unitCost, suggestedQuantity),
+      };
+    });
+
+    return suggestions
+      .filter((s) => options.all || s.needsReorder)
+      .sort(
+        (a, b) =>
+          (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+          a.productName.localeCompare(b.productName),
+      );
+  }
+
+  async getSuggestions(
+    query: ReorderSuggestionsQueryDto,
+    currentUser: any,
+  ): Promise<any[]> {
+    const suggestions = await this.buildSuggestions({
+      branchId: [UserRole.SUPER_ADMIN, UserRole.MAINTAINER].includes(
+        currentUser.role,
+      )
+        ? query.branchId
+        : currentUser.branchId?.toString(),
+      leadTimeDays: query.leadTimeDays,
+      coverDays: query.coverDays,
+      lookbackDays: query.lookbackDays,
+      all: query.all === 'true',
+    });
+    return suggestions.map((s) =>
+      MoneyUtils.fieldsToNaira(s, ['unitCost', 'estimatedCost']),
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Prisma, StockMovementReason } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+
+export interface RecordStockMovementInput {
+  productId: string;
+  /** Signed quantity in the product's unit: positive adds stock, negative removes it. */
+  delta: number;
+  reason: StockMovementReason;
+  transactionId?: string;
+  transferId?: string;
+  goodsReceiptId?: string;
+  stockTakeId?: string;
+  actorId?: string;
+  note?: string;
+}
+
+export interface StockMovementQuery {
+  startDate?: Date;
+  endDate?: Date;
+  reason?: StockMovementReason;
+}
+
+@Injectable()
+export class StockMovementService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private toDoc(movement: any) {
+    if (!movement) return movement;
+    return { ...movement, _id: movement.id };
+  }
+
+  /**
+   * Applies a stock change and journals it inside the caller's transaction.
+   * Decrements are conditional on enough stock being on hand, so concurrent
+   * sales cannot drive Product.stock negative.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    input: RecordStockMovementInput,
+  ): Promise<any> {
+    if (!input.delta) {
+      throw new BadRequestException('Stock movement quantity cannot be zero');
+    }
+
+    const where: Prisma.ProductWhereInput = { id: input.productId };
+    if (input.delta < 0) where.stock = { gte: -input.delta };
+
+    const { count } = await tx.product.updateMany({
+      where,
+      data: { stock: { increment: input.delta } },
+    });
+
+    const product = await tx.product.findUnique({
+      where: { id: input.productId },
+    });
+    if (!product) {
+      throw new BadRequestException(`Product ${input.productId} not found`);
+    }
+    if (count === 0) {
+      throw new BadRequestException(
+        `Insufficient stock for ${product.name}. Available: ${product.stock} ${product.unit}`,
+      );
+    }
+
+    return tx.stockMovement.create({
+      data: {
+        productId: product.id,
+        branchId: product.branchId,
+        delta: input.delta,
+        balanceAfter: product.stock,
+        reason: input.reason,
+        transactionId: input.transactionId,
+        transferId: input.transferId,
+        goodsReceiptId: input.goodsReceiptId,
+        stockTakeId: input.stockTakeId,
+        actorId: input.actorId,
+        note: input.note,
+      },
+    });
+  }
+
+  /**
+   * Records stock received at a unit cost (kobo) and folds it into the
+   * product's weighted average cost price. The product row is still locked by
+   * record(), so the stock and cost read here cannot change underneath us.
+   * Stock of unknown cost is not averaged in: while the product has no cost
+   * the receipt's cost is taken as is, and a receipt of unknown cost leaves
+   * the cost price alone.
+   */
+  async recordReceipt(
+    tx: Prisma.TransactionClient,
+    input: RecordStockMovementInput & { unitCost: number | null },
+  ): Promise<any> {
+    const movement = await this.record(tx, input);
+    if (input.unitCost === null) return movement;
+
+    const product = await tx.product.findUnique({
+      where: { id: input.productId },
+    });
+    const previousStock = movement.balanceAfter - input.delta;
+    const costPrice =
+      product.costPrice !== null &&
+      previousStock > 0 &&
+      movement.balanceAfter > 0
+        ? Math.round(
+            (previousStock * MoneyUtils.kobo(product.costPrice) +
+              input.delta * input.unitCost) /
+              movement.balanceAfter,
+          )
+        : input.unitCost;
+
+    await tx.product.update({
+      where: { id: input.productId },
+      data: { costPrice },
+    });
+
+    return movement;
+  }
+
+  /**
+   * Returns a product's movements in order, with the stock implied by the
+   * journal so it can be checked against Product.stock and physical counts.
+   */
+  async findByProduct(
+    product: { id: string; name: string; unit: string; stock: number },
+    query: StockMovementQuery = {},
+  ): Promise<any> {
+    const where: Prisma.StockMovementWhereInput = { productId: product.id };
+    if (query.reason) where.reason = query.reason;
+    if (query.startDate || query.endDate) {
+      where.createdAt = {};
+      if (query.startDate) where.createdAt.gte = query.startDate;
+      if (query.endDate) where.createdAt.lte = query.endDate;
+    }
+
+    const [movements, journal] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where,
+        include: {
+          transactionRef: {
+            select: { id: true, invoiceNumber: true, type: true },
+          },
+          transferRef: {
+            select: { id: true, transferNumber: true, status: true },
+          },
+          goodsReceiptRef: { select: { id: true, receiptNumber: true } },
+          stockTakeRef: { select: { id: true, stockTakeNumber: true } },
+          actorRef: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.stockMovement.aggregate({
+        where: { productId: product.id },
+        _sum: { delta: true },
+      }),
+    ]);
+
+    const journalStock = journal._sum.delta ?? 0;
+
+    return {
+      productId: product.id,
+      productName: product.name,
+      unit: product.unit,
+      currentStock: product.stock,
+      journalStock,
+      discrepancy: product.stock - journalStock,
+      totalIn: movements
+        .filter((m) => m.delta > 0)
+        .reduce((acc, m) => acc + m.delta, 0),
+      totalOut: movements
+        .filter((m) => m.delta < 0)
+        .reduce((acc, m) => acc - m.delta, 0),
+      movements: movements.map((m) => this.toDoc(m)),
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  CreateUnitConversionDto,
+  QueryUnitConversionsDto,
+} from '../dto/unit-conversion.dto';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+
+/**
+ * Conversions between the units of a category. Stock is always held in the
+ * product's own unit; a sale, return or price in any other unit is scaled by
+ * the factor resolved here. Product conversions override category ones.
+ */
+@Injectable()
+export class UnitConversionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly conversionInclude = {
+    categoryRef: { select: { id: true, name: true } },
+    productRef: { select: { id: true, name: true, unit: true } },
+  };
+
+  private toDoc(conversion: any) {
+    if (!conversion) return conversion;
+    return { ...conversion, _id: conversion.id };
+  }
+
+  async create(
+    dto: CreateUnitConversionDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    if (!dto.categoryId === !dto.productId) {
+      throw new BadRequestException(
+        'Provide either categoryId or productId for a unit conversion',
+      );
+    }
+    if (dto.fromUnit === dto.toUnit) {
+      throw new BadRequestException('fromUnit and toUnit must differ');
+    }
+
+    let units: string[];
+    let scope: string;
+    if (dto.productId) {
+      const product = await this.prisma.product.findUnique({
+        where: { id: dto.productId },
+        include: { categoryRef: true },
+      });
+      if (!product) throw new NotFoundException('Product not found');
+      if (dto.fromUnit !== product.unit && dto.toUnit !== product.unit) {
+        throw new BadRequestException(
+          `A product conversion must convert to or from its stock unit (${product.unit})`,
+        );
+      }
+      units = product.categoryRef.units;
+      scope = `product ${product.name}`;
+    } else {
+      const category = await this.prisma.category.findUnique({
+        where: { id: dto.categoryId },
+      });
+      if (!category) throw new NotFoundException('Category not found');
+      units = category.units;
+      scope = `category ${category.name}`;
+    }
+
+    const unknown = [dto.fromUnit, dto.toUnit].filter(
+      (u) => !units.includes(u),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unit ${unknown.join(', ')} is not defined for ${scope}. Allowed units: ${units.join(', ')}`,
+      );
+    }
+
+    const existing = await this.prisma.unitConversion.findFirst({
+      where: {
+        categoryId: dto.categoryId ?? null,
+        productId: dto.productId ?? null,
+        OR: [
+          { fromUnit: dto.fromUnit, toUnit: dto.toUnit },
+          { fromUnit: dto.toUnit, toUnit: dto.fromUnit },
+        ],
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `A conversion between ${dto.fromUnit} and ${dto.toUnit} already exists for ${scope}`,
+      );
+    }
+
+    const conversion = await this.prisma.unitConversion.create({
+      data: dto,
+      include: this.conversionInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'UNIT_CONVERSION_CREATED',
+        details: `Unit conversion for ${scope}: 1 ${dto.fromUnit} = ${dto.factor} ${dto.toUnit}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(conversion);
+  }
+
+  /** With productId, returns the product's own conversions and its category's. */
+  async findAll(query: QueryUnitConversionsDto): Promise<any[]> {
+    const where: Prisma.UnitConversionWhereInput = {};
+    if (query.productId) {
+      const product = await this.prisma.product.findUnique({
+        where: { id: query.productId },
+      });
+      if (!product) throw new NotFoundException('Product not found');
+      where.OR = [
+        { productId: product.id },
+        { categoryId: product.categoryId },
+      ];
+    } else if (query.categoryId) {
+      where.categoryId = query.categoryId;
+    }
+
+    const conversions = await this.prisma.unitConversion.findMany({
+      where,
+      include: this.conversionInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+    return conversions.map((c) => this.toDoc(c));
+  }
+
+  async remove(id: string, currentUser?: any, device?: string): Promise<void> {
+    const conversion = await this.prisma.unitConversion.findUnique({
+      where: { id },
+    });
+    if (!conversion) throw new NotFoundException('Unit conversion not found');
+
+    await this.prisma.unitConversion.delete({ where: { id } });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'UNIT_CONVERSION_DELETED',
+        details: `Unit conversion removed: 1 ${conversion.fromUnit} = ${conversion.factor} ${conversion.toUnit}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * How many of the product's stock unit one `unit` represents. Accepts
+   * conversions defined in either direction.
+   */
+  async resolveFactor(
+    product: {
+      id?: string;
+      _id?: string;
+      categoryId: any;
+      name: string;
+      unit: string;
+    },
+    unit: string,
+  ): Promise<number> {
+    if (unit === product.unit) return 1;
+
+    const productId = product.id || product._id;
+    const categoryId =
+      typeof product.categoryId === 'object'
+        ? product.categoryId?.id || product.categoryId?._id
+        : product.categoryId;
+    const conversions = await this.prisma.unitConversion.findMany({
+      where: {
+        OR: [{ productId }, { categoryId }],
+        AND: [
+          {
+            OR: [
+              { fromUnit: unit, toUnit: product.unit },
+              { fromUnit: product.unit, toUnit: unit },
+            ],
+          },
+        ],
+      },
+    });
+    const conversion =
+      conversions.find((c) => c.productId) ||
+      conversions.find((c) => c.categoryId);
+    if (!conversion) {
+      const accepted = await this.acceptedUnits(
+        product.unit,
+        productId,
+        categoryId,
+      );
+      throw new BadRequestException(
+        `Invalid unit ${unit} for product ${product.name}. This product only accepts ${accepted.join(', ')}`,
+      );
+    }
+    return conversion.fromUnit === unit
+      ? conversion.factor
+      : 1 / conversion.factor;
+  }
+
+  private async acceptedUnits(
+    baseUnit: string,
+    productId: string,
+    categoryId: string,
+  ): Promise<string[]> {
+    const conversions = await this.prisma.unitConversion.findMany({
+      where: {
+        OR: [{ productId }, { categoryId }],
+        AND: [{ OR: [{ fromUnit: baseUnit }, { toUnit: baseUnit }] }],
+      },
+    });
+    const units = conversions.map((c) =>
+      c.fromUnit === baseUnit ? c.toUnit : c.fromUnit,
+    );
+    return [...new Set([baseUnit, ...units])];
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  Response,
+  StreamableFile,
+} from '@nestjs/common';
+import { RegisterSessionsService } from '../services/register-sessions.service';
+import {
+  CloseRegisterSessionDto,
+  OpenRegisterSessionDto,
+  QueryRegisterSessionsDto,
+} from '../dto/register-session.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
+
+@Controller('register-sessions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RegisterSessionsController {
+  constructor(
+    private readonly registerSessionsService: RegisterSessionsService,
+  ) {}
+
+  /**
+   * Open a till session with the cash float in the drawer.
+   */
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.STAFF)
+  async open(
+    @Body() openRegisterSessionDto: OpenRegisterSessionDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.registerSessionsService.open(
+      openRegisterSessionDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  @Exportable('register-sessions')
+  async findAll(
+    @Query() query: QueryRegisterSessionsDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.registerSessionsService.findAll(query, req.user);
+  }
+
+  /**
+   * The caller's open session with running totals; null when none is open.
+   */
+  @Get('current')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.STAFF)
+  async findCurrent(@Request() req): Promise<any> {
+    return this.registerSessionsService.findCurrent(req.user);
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.registerSessionsService.findById(id, req.user);
+  }
+
+  /**
+   * Close the session with the cash counted in the drawer; records over/short and keeps the Z-report.
+   */
+  @Post(':id/close')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.STAFF)
+  async close(
+    @Param('id') id: string,
+    @Body() closeRegisterSessionDto: CloseRegisterSessionDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.registerSessionsService.close(
+      id,
+      closeRegisterSessionDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  /**
+   * Z-report as plain text, at the branch's receipt width
+   */
+  @Get(':id/z-report.txt')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getZReportText(
+    @Param('id') id: string,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } =
+      await this.registerSessionsService.renderZReport(id, 'text', req.user);
+    res.set({
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Disposition': `inline; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
+  /**
+   * Z-report as raw ESC/POS bytes, ready to send to the printer
+   */
+  @Get(':id/z-report.escpos')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getZReportEscPos(
+    @Param('id') id: string,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } =
+      await this.registerSessionsService.renderZReport(id, 'escpos', req.user);
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  IsDate,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RegisterSessionStatus } from '@prisma/client';
+
+export class OpenRegisterSessionDto {
+  /** Cash in the drawer at the start of the session, in naira. */
+  @IsNumber()
+  @Min(0)
+  openingFloat: number;
+
+  /** Defaults to the user's branch; only SUPER_ADMIN may open one for another branch. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class CloseRegisterSessionDto {
+  /** Cash physically counted in the drawer at close, in naira. */
+  @IsNumber()
+  @Min(0)
+  countedCash: number;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class QueryRegisterSessionsDto {
+  @IsOptional()
+  @IsEnum(RegisterSessionStatus)
+  status?: RegisterSessionStatus;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+}
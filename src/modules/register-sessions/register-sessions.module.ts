@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RegisterSessionsService } from './services/register-sessions.service';
+import { RegisterSessionsController } from './controllers/register-sessions.controller';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
+
+@Module({
+  imports: [SystemActivityLogModule, ColumnSettingsModule],
+  providers: [RegisterSessionsService],
+  controllers: [RegisterSessionsController],
+  exports: [RegisterSessionsService],
+})
+export class RegisterSessionsModule {}
@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { RegisterSessionsService, ZReport } from './register-sessions.service';
+
+const session = {
+  id: 'rs1',
+  sessionNumber: 'RS20261018-0001',
+  branchRef: { id: 'b1', name: 'Main' },
+  userRef: { id: 'u1', name: 'Cashier' },
+  openedAt: new Date('2026-10-18T08:00:00Z'),
+  openingFloat: BigInt(500000),
+};
+
+const txn = (
+  type: string,
+  fields: Record<string, number> = {},
+  status = 'COMPLETED',
+) => ({
+  type,
+  status,
+  total: BigInt(fields.total ?? 0),
+  amountPaid: BigInt(fields.amountPaid ?? 0),
+  totalRefundedAmount: BigInt(fields.totalRefundedAmount ?? 0),
+  actualAmountReturned: BigInt(fields.actualAmountReturned ?? 0),
+});
+
+const tender = (method: string, amount: number, type = 'PURCHASE') => ({
+  method,
+  amount: BigInt(amount),
+  transactionRef: { type },
+});
+
+describe('RegisterSessionsService', () => {
+  let service: RegisterSessionsService;
+  let db: any;
+
+  const buildReport = (countedCash: number | null = null): Promise<ZReport> =>
+    service['buildReport'](db, session, countedCash);
+
+  beforeEach(async () => {
+    db = {
+      transaction: { findMany: jest.fn().mockResolvedValue([]) },
+      transactionPayment: { findMany: jest.fn().mockResolvedValue([]) },
+      expense: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RegisterSessionsService,
+        { provide: PrismaService, useValue: {} },
+        {
+          provide: SystemActivityLogService,
+          useValue: { createLog: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(RegisterSessionsService);
+  });
+
+  describe('buildReport', () => {
+    beforeEach(() => {
+      db.transaction.findMany.mockResolvedValue([
+        txn('PURCHASE', { total: 300000, amountPaid: 300000 }),
+        txn('WHOLESALE', { total: 200000, amountPaid: 100000 }),
+        txn('PICKUP', { total: 50000 }),
+        txn('DEPOSIT', { total: 150000, amountPaid: 150000 }),
+        txn('RETURN', {
+          totalRefundedAmount: 80000,
+          actualAmountReturned: 60000,
+        }),
+        txn('PURCHASE', { total: 999999 }, 'CANCELLED'),
+      ]);
+      db.transactionPayment.findMany.mockResolvedValue([
+        tender('CASH', 200000),
+        tender('POS', 100000),
+        tender('BANK_TRANSFER', 100000, 'WHOLESALE'),
+        tender('CASH', 100000, 'DEPOSIT'),
+        tender('BANK_TRANSFER', 50000, 'DEPOSIT'),
+      ]);
+      db.expense.findMany.mockResolvedValue([
+        { amount: BigInt(25000) },
+        { amount: BigInt(15000) },
+      ]);
+    });
+
+    it('expects the float plus cash taken less cash refunds and expenses', async () => {
+      const report = await buildReport();
+
+      expect(report.openingFloat).toBe(500000);
+      expect(report.cashSales).toBe(200000);
+      expect(report.cashDeposits).toBe(100000);
+      expect(report.cashRefunds).toBe(60000);
+      expect(report.expenses).toEqual({ count: 2, amount: 40000 });
+      expect(report.expectedCash).toBe(
+        500000 + 200000 + 100000 - 60000 - 40000,
+      );
+      expect(report.countedCash).toBeNull();
+      expect(report.overShort).toBeNull();
+    });
+
+    it('totals sales, deposits and returns without voided transactions', async () => {
+      const report = await buildReport();
+
+      expect(report.sales).toEqual({ count: 3, total: 550000 });
+      expect(report.deposits).toEqual({ count: 1, amount: 150000 });
+      expect(report.returns).toEqual({
+        count: 1,
+        totalRefunded: 80000,
+        cashRefunded: 60000,
+      });
+      expect(report.voidedCount).toBe(1);
+    });
+
+    it('groups tenders by method in the standard order', async () => {
+      const report = await buildReport();
+
+      expect(report.tenders).toEqual([
+        { method: 'CASH', count: 2, amount: 300000 },
+        { method: 'BANK_TRANSFER', count: 2, amount: 150000 },
+        { method: 'POS', count: 1, amount: 100000 },
+      ]);
+    });
+
+    it('reports over/short as counted less expected', async () => {
+      expect((await buildReport(710000)).overShort).toBe(10000);
+      expect((await buildReport(695000)).overShort).toBe(-5000);
+    });
+
+    it('only reads live tenders and unrejected cash expenses of the session', async () => {
+      await buildReport();
+
+      expect(db.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { registerSessionId: 'rs1' } }),
+      );
+      expect(db.transactionPayment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            registerSessionId: 'rs1',
+            transactionRef: { status: { not: 'CANCELLED' } },
+          },
+        }),
+      );
+      expect(db.expense.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            registerSessionId: 'rs1',
+            method: 'CASH',
+            status: { not: 'REJECTED' },
+          },
+        }),
+      );
+    });
+
+    it('expects just the float on an empty session', async () => {
+      db.transaction.findMany.mockResolvedValue([]);
+      db.transactionPayment.findMany.mockResolvedValue([]);
+      db.expense.findMany.mockResolvedValue([]);
+
+      const report = await buildReport(500000);
+
+      expect(report.expectedCash).toBe(500000);
+      expect(report.overShort).toBe(0);
+      expect(report.tenders).toEqual([]);
+    });
+  });
+});
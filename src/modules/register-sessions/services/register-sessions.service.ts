@@ -0,0 +1,526 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PaymentMethod, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { TenderUtils } from '../../../common/utils/tender.utils';
+import { EscPosUtils } from '../../../common/utils/escpos.utils';
+import { RenderedDocument } from '../../../common/utils/pdf.utils';
+import { buildZReport } from '../templates/z-report.template';
+import {
+  CloseRegisterSessionDto,
+  OpenRegisterSessionDto,
+  QueryRegisterSessionsDto,
+} from '../dto/register-session.dto';
+
+type RegisterActor = {
+  userId: string;
+  role: string;
+  email?: string;
+  name?: string;
+  branch?: string;
+  branchId?: string;
+};
+
+export type ZReportFormat = 'text' | 'escpos';
+
+export interface ZReportTender {
+  method: PaymentMethod;
+  count: number;
+  amount: number;
+}
+
+/** End-of-session summary. All amounts in kobo. */
+export interface ZReport {
+  sessionNumber: string;
+  branch: { id: string; name: string };
+  cashier: { id: string; name: string };
+  openedAt: Date;
+  closedAt: Date | null;
+  openingFloat: number;
+  sales: { count: number; total: number };
+  deposits: { count: number; amount: number };
+  returns: { count: number; totalRefunded: number; cashRefunded: number };
+  /** Expenses paid in cash out of this drawer. */
+  expenses: { count: number; amount: number };
+  voidedCount: number;
+  tenders: ZReportTender[];
+  cashSales: number;
+  cashDeposits: number;
+  cashRefunds: number;
+  /** Opening float plus cash taken less cash refunded and cash expenses. */
+  expectedCash: number;
+  countedCash: number | null;
+  /** Counted less expected: positive is over, negative is short. */
+  overShort: number | null;
+}
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+const SALE_TYPES = ['PURCHASE', 'WHOLESALE', 'PICKUP'];
+
+const ZREPORT_MONEY_FIELDS = [
+  'openingFloat',
+  'cashSales',
+  'cashDeposits',
+  'cashRefunds',
+  'expectedCash',
+  'countedCash',
+  'overShort',
+];
+
+/**
+ * Till sessions. A cashier opens a session with a float; while it is open,
+ * every transaction they post at that branch, and every tender they take,
+ * is stamped with the session. Closing records the cash counted in the
+ * drawer, works out over/short against the cash expected, and keeps the
+ * Z-report as it stood at close so later voids do not rewrite it.
+ */
+@Injectable()
+export class RegisterSessionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly sessionInclude = {
+    branchRef: { select: { id: true, name: true } },
+    userRef: { select: { id: true, name: true } },
+    closedBy: { select: { id: true, name: true } },
+  };
+
+  private toDoc(session: any, report: ZReport) {
+    if (!session) return session;
+    return {
+      ...MoneyUtils.fieldsToNaira(session, [
+        'openingFloat',
+        'expectedCash',
+        'countedCash',
+        'overShort',
+      ]),
+      _id: session.id,
+      zReport: this.reportToNaira(report),
+    };
+  }
+
+  private reportToNaira(report: ZReport) {
+    return {
+      ...MoneyUtils.fieldsToNaira(report, ZREPORT_MONEY_FIELDS),
+      sales: MoneyUtils.fieldsToNaira(report.sales, ['total']),
+      deposits: MoneyUtils.fieldsToNaira(report.deposits, ['amount']),
+      returns: MoneyUtils.fieldsToNaira(report.returns, [
+        'totalRefunded',
+        'cashRefunded',
+      ]),
+      expenses: MoneyUtils.fieldsToNaira(report.expenses, ['amount']),
+      tenders: report.tenders.map((t) =>
+        MoneyUtils.fieldsToNaira(t, ['amount']),
+      ),
+    };
+  }
+
+  async generateSessionNumber(): Promise<string> {
+    const date = new Date();
+    const prefix = `RS${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+
+    const result = await this.prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "Counter" (name, value) VALUES (${prefix}, 1)
+      ON CONFLICT (name) DO UPDATE SET value = "Counter".value + 1
+      RETURNING value
+    `;
+
+    const seq = Number(result[0].value);
+    return `${prefix}-${seq.toString().padStart(4, '0')}`;
+  }
+
+  /** The cashier's open session at the branch, if any; transactions posted now belong to it. */
+  async findOpenSessionId(
+    userId: string,
+    branchId: string,
+  ): Promise<string | null> {
+    const session = await this.prisma.registerSession.findFirst({
+      where: { userId, branchId, status: 'OPEN' },
+      select: { id: true },
+    });
+    return session?.id ?? null;
+  }
+
+  /** Opens a till session. A cashier can only have one open session at a time. */
+  async open(
+    dto: OpenRegisterSessionDto,
+    user: RegisterActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const branchId =
+      user.role === UserRole.SUPER_ADMIN && dto.branchId
+        ? dto.branchId
+        : user.branchId?.toString();
+    if (!branchId) {
+      throw new BadRequestException('Branch is required');
+    }
+
+    const branch = await this.prisma.branch.findUnique({
+      where: { id: branchId },
+    });
+    if (!branch || !branch.isActive) {
+      throw new BadRequestException('Branch does not exist or is inactive');
+    }
+
+    const open = await this.prisma.registerSession.findFirst({
+      where: { userId: user.userId, status: 'OPEN' },
+      include: { branchRef: { select: { name: true } } },
+    });
+    if (open) {
+      throw new BadRequestException(
+        `Register session ${open.sessionNumber} is already open at ${open.branchRef.name}; close it first`,
+      );
+    }
+
+    const sessionNumber = await this.generateSessionNumber();
+    const openingFloat = MoneyUtils.toKobo(dto.openingFloat);
+    const session = await this.prisma.registerSession.create({
+      data: {
+        sessionNumber,
+        branchId,
+        userId: user.userId,
+        openingFloat,
+        openingNotes: dto.notes,
+      },
+      include: this.sessionInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'REGISTER_SESSION_OPENED',
+        details: `Register session ${sessionNumber} opened at ${branch.name} with a float of ${MoneyUtils.fromKobo(openingFloat)}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(session, await this.buildReport(this.prisma, session));
+  }
+
+  /**
+   * Closes the session against the cash counted in the drawer. The cashier
+   * closes their own session; an ADMIN can close any session in their branch.
+   */
+  async close(
+    id: string,
+    dto: CloseRegisterSessionDto,
+    user: RegisterActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const session = await this.getOpen(id);
+    if (
+      session.userId !== user.userId &&
+      user.role !== UserRole.SUPER_ADMIN &&
+      !(
+        user.role === UserRole.ADMIN &&
+        user.branchId?.toString() === session.branchId
+      )
+    ) {
+      throw new ForbiddenException(
+        'You can only close your own register session',
+      );
+    }
+
+    const countedCash = MoneyUtils.toKobo(dto.countedCash);
+    const closedAt = new Date();
+    const { updated, report } = await this.prisma.$transaction(async (tx) => {
+      const report = await this.buildReport(
+        tx,
+        { ...session, closedAt },
+        countedCash,
+      );
+      const { count } = await tx.registerSession.updateMany({
+        where: { id, status: 'OPEN' },
+        data: {
+          status: 'CLOSED',
+          closedById: user.userId,
+          closedAt,
+          expectedCash: report.expectedCash,
+          countedCash,
+          overShort: report.overShort,
+          closingNotes: dto.notes,
+          zReport: report as unknown as Prisma.InputJsonValue,
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'Register session has already been closed',
+        );
+      }
+
+      const updated = await tx.registerSession.findUnique({
+        where: { id },
+        include: this.sessionInclude,
+      });
+      return { updated, report };
+    });
+
+    const overShort = report.overShort;
+    this.systemActivityLogService
+      .createLog({
+        action: 'REGISTER_SESSION_CLOSED',
+        details: `Register session ${session.sessionNumber} closed - expected ${MoneyUtils.fromKobo(report.expectedCash)}, counted ${MoneyUtils.fromKobo(countedCash)}, ${overShort === 0 ? 'balanced' : `${overShort > 0 ? 'over' : 'short'} by ${MoneyUtils.fromKobo(Math.abs(overShort))}`}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: session.branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(updated, report);
+  }
+
+  /** The current user's open session with its running totals, or null. */
+  async findCurrent(user: RegisterActor): Promise<any> {
+    const session = await this.prisma.registerSession.findFirst({
+      where: { userId: user.userId, status: 'OPEN' },
+      include: this.sessionInclude,
+    });
+    if (!session) return null;
+    return this.toDoc(session, await this.buildReport(this.prisma, session));
+  }
+
+  async findAll(
+    query: QueryRegisterSessionsDto,
+    user: RegisterActor,
+  ): Promise<any[]> {
+    const branchId = GLOBAL_ROLES.includes(user.role)
+      ? query.branchId
+      : user.branchId?.toString();
+
+    const where: Prisma.RegisterSessionWhereInput = {};
+    if (query.status) where.status = query.status;
+    if (branchId) where.branchId = branchId;
+    // Staff only see their own till
+    if (user.role === UserRole.STAFF) where.userId = user.userId;
+    else if (query.userId) where.userId = query.userId;
+    if (query.startDate || query.endDate) {
+      where.openedAt = {};
+      if (query.startDate) where.openedAt.gte = query.startDate;
+      if (query.endDate) where.openedAt.lte = query.endDate;
+    }
+
+    const sessions = await this.prisma.registerSession.findMany({
+      where,
+      select: {
+        id: true,
+        sessionNumber: true,
+        status: true,
+        openingFloat: true,
+        openedAt: true,
+        closedAt: true,
+        expectedCash: true,
+        countedCash: true,
+        overShort: true,
+        closingNotes: true,
+        ...this.sessionInclude,
+        _count: { select: { transactions: true } },
+      },
+      orderBy: { openedAt: 'desc' },
+    });
+    return sessions.map((s) => ({
+      ...MoneyUtils.fieldsToNaira(s, [
+        'openingFloat',
+        'expectedCash',
+        'countedCash',
+        'overShort',
+      ]),
+      _id: s.id,
+    }));
+  }
+
+  /** Closed sessions return the Z-report kept at close; open ones are computed now. */
+  async findById(id: string, user: RegisterActor): Promise<any> {
+    const session = await this.getVisible(id, user);
+    return this.toDoc(session, await this.getReport(session));
+  }
+
+  /** Z-report for a thermal printer at the branch's receipt width. */
+  async renderZReport(
+    id: string,
+    format: ZReportFormat,
+    user: RegisterActor,
+  ): Promise<RenderedDocument> {
+    const session = await this.getVisible(id, user);
+    const branch = await this.prisma.branch.findUnique({
+      where: { id: session.branchId },
+    });
+    const report = await this.getReport(session);
+
+    const width = EscPosUtils.columnsFor(branch.receiptWidth);
+    const lines = buildZReport(report, branch, width);
+    if (format === 'escpos') {
+      return {
+        filename: `${session.sessionNumber}.bin`,
+        buffer: EscPosUtils.toEscPos(lines),
+      };
+    }
+    return {
+      filename: `${session.sessionNumber}.txt`,
+      buffer: Buffer.from(EscPosUtils.toText(lines, width), 'utf8'),
+    };
+  }
+
+  private async getReport(session: any): Promise<ZReport> {
+    if (session.status === 'CLOSED' && session.zReport) {
+      return session.zReport as ZReport;
+    }
+    return this.buildReport(this.prisma, session);
+  }
+
+  /**
+   * Totals for everything stamped with the session. Cash expected in the
+   * drawer is the float plus CASH tenders on sales and deposits, less the
+   * cash handed back on returns and cash expenses paid from the till.
+   * Voided transactions and rejected expenses are left out.
+   */
+  private async buildReport(
+    db: Prisma.TransactionClient,
+    session: any,
+    countedCash: number | null = null,
+  ): Promise<ZReport> {
+    const transactions = await db.transaction.findMany({
+      where: { registerSessionId: session.id },
+      select: {
+        type: true,
+        status: true,
+        total: true,
+        amountPaid: true,
+        totalRefundedAmount: true,
+        actualAmountReturned: true,
+      },
+    });
+    const tenders = await db.transactionPayment.findMany({
+      where: {
+        registerSessionId: session.id,
+        transactionRef: { status: { not: 'CANCELLED' } },
+      },
+      select: {
+        method: true,
+        amount: true,
+        transactionRef: { select: { type: true } },
+      },
+    });
+    const expenses = await db.expense.findMany({
+      where: {
+        registerSessionId: session.id,
+        method: 'CASH',
+        status: { not: 'REJECTED' },
+      },
+      select: { amount: true },
+    });
+
+    const live = transactions.filter((t) => t.status !== 'CANCELLED');
+    const sales = live.filter((t) => SALE_TYPES.includes(t.type));
+    const deposits = live.filter((t) => t.type === 'DEPOSIT');
+    const returns = live.filter((t) => t.type === 'RETURN');
+
+    const byMethod = new Map<PaymentMethod, ZReportTender>();
+    let cashSales = 0;
+    let cashDeposits = 0;
+    for (const tender of tenders) {
+      const amount = MoneyUtils.kobo(tender.amount);
+      const row = byMethod.get(tender.method) || {
+        method: tender.method,
+        count: 0,
+        amount: 0,
+      };
+      row.count += 1;
+      row.amount += amount;
+      byMethod.set(tender.method, row);
+      if (tender.method !== 'CASH') continue;
+      if (tender.transactionRef.type === 'DEPOSIT') cashDeposits += amount;
+      else cashSales += amount;
+    }
+
+    const openingFloat = MoneyUtils.kobo(session.openingFloat);
+    const cashRefunds = MoneyUtils.sum(
+      returns.map((t) => MoneyUtils.kobo(t.actualAmountReturned)),
+    );
+    const cashExpenses = MoneyUtils.sum(
+      expenses.map((e) => MoneyUtils.kobo(e.amount)),
+    );
+    const expectedCash =
+      openingFloat + cashSales + cashDeposits - cashRefunds - cashExpenses;
+
+    return {
+      sessionNumber: session.sessionNumber,
+      branch: session.branchRef,
+      cashier: session.userRef,
+      openedAt: session.openedAt,
+      closedAt: session.closedAt ?? null,
+      openingFloat,
+      sales: {
+        count: sales.length,
+        total: MoneyUtils.sum(sales.map((t) => MoneyUtils.kobo(t.total))),
+      },
+      deposits: {
+        count: deposits.length,
+        amount: MoneyUtils.sum(
+          deposits.map((t) => MoneyUtils.kobo(t.amountPaid)),
+        ),
+      },
+      returns: {
+        count: returns.length,
+        totalRefunded: MoneyUtils.sum(
+          returns.map((t) => MoneyUtils.kobo(t.totalRefundedAmount)),
+        ),
+        cashRefunded: cashRefunds,
+      },
+      expenses: { count: expenses.length, amount: cashExpenses },
+      voidedCount: transactions.length - live.length,
+      tenders: (Object.keys(TenderUtils.METHOD_LABELS) as PaymentMethod[])
+        .filter((method) => byMethod.has(method))
+        .map((method) => byMethod.get(method)),
+      cashSales,
+      cashDeposits,
+      cashRefunds,
+      expectedCash,
+      countedCash,
+      overShort: countedCash === null ? null : countedCash - expectedCash,
+    };
+  }
+
+  private async getVisible(id: string, user: RegisterActor) {
+    const session = await this.prisma.registerSession.findUnique({
+      where: { id },
+      include: this.sessionInclude,
+    });
+    if (!session) throw new NotFoundException('Register session not found');
+
+    const visible = GLOBAL_ROLES.includes(user.role)
+      ? true
+      : user.role === UserRole.STAFF
+        ? session.userId === user.userId
+        : session.branchId === user.branchId?.toString();
+    if (!visible) throw new NotFoundException('Register session not found');
+    return session;
+  }
+
+  private async getOpen(id: string) {
+    const session = await this.prisma.registerSession.findUnique({
+      where: { id },
+      include: this.sessionInclude,
+    });
+    if (!session) throw new NotFoundException('Register session not found');
+    if (session.status !== 'OPEN') {
+      throw new BadRequestException(
+        `Register session ${session.sessionNumber} is already closed`,
+      );
+    }
+    return session;
+  }
+}
@@ -0,0 +1,94 @@
+import { EscPosUtils, ReceiptLine } from '../../../common/utils/escpos.utils';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { PdfLetterhead, PdfUtils } from '../../../common/utils/pdf.utils';
+import { TenderUtils } from '../../../common/utils/tender.utils';
+import { ZReport } from '../services/register-sessions.service';
+
+const money = (kobo: number) => EscPosUtils.amount(MoneyUtils.fromKobo(kobo));
+
+const dateTime = (value: Date | string) => {
+  const date = new Date(value);
+  return `${PdfUtils.date(date)} ${date.toTimeString().slice(0, 5)}`;
+};
+
+/**
+ * Z-report for the thermal printer: takings by tender, the cash
+ * reconciliation and space for signatures. Amounts are in kobo.
+ */
+export function buildZReport(
+  report: ZReport,
+  branch: PdfLetterhead,
+  width: number,
+): ReceiptLine[] {
+  const lines: ReceiptLine[] = [];
+  const add = (texts: string[], options: Omit<ReceiptLine, 'text'> = {}) =>
+    texts.forEach((text) => lines.push({ text, ...options }));
+  const pair = (left: string, right: string, bold = false) =>
+    add(EscPosUtils.pair(left, right, width), { bold });
+
+  add(EscPosUtils.wrap(branch.name.toUpperCase(), width), {
+    align: 'center',
+    bold: true,
+  });
+  add(EscPosUtils.wrap(branch.address, width), { align: 'center' });
+  lines.push(EscPosUtils.rule(width));
+  add([report.closedAt ? 'Z-REPORT' : 'X-REPORT (SESSION OPEN)'], {
+    align: 'center',
+    bold: true,
+  });
+  pair('Session', report.sessionNumber);
+  pair('Cashier', report.cashier?.name || '-');
+  pair('Opened', dateTime(report.openedAt));
+  if (report.closedAt) pair('Closed', dateTime(report.closedAt));
+  lines.push(EscPosUtils.rule(width));
+
+  pair(`Sales (${report.sales.count})`, money(report.sales.total));
+  pair(`Deposits (${report.deposits.count})`, money(report.deposits.amount));
+  pair(
+    `Returns (${report.returns.count})`,
+    money(report.returns.totalRefunded),
+  );
+  if (report.voidedCount > 0) pair('Voided', String(report.voidedCount));
+  lines.push(EscPosUtils.rule(width));
+
+  add(['TENDERS'], { bold: true });
+  for (const tender of report.tenders) {
+    pair(
+      `${TenderUtils.METHOD_LABELS[tender.method]} (${tender.count})`,
+      money(tender.amount),
+    );
+  }
+  if (report.tenders.length === 0) add(['No payments taken']);
+  lines.push(EscPosUtils.rule(width));
+
+  add(['CASH'], { bold: true });
+  pair('Opening Float', money(report.openingFloat));
+  pair('Cash Sales', money(report.cashSales));
+  pair('Cash Deposits', money(report.cashDeposits));
+  pair('Cash Refunded', `-${money(report.cashRefunds)}`);
+  // Z-reports kept before expenses were recorded have no expenses total
+  if (report.expenses) {
+    pair(
+      `Cash Expenses (${report.expenses.count})`,
+      `-${money(report.expenses.amount)}`,
+    );
+  }
+  pair('Expected in Drawer', money(report.expectedCash), true);
+  if (report.countedCash !== null) {
+    pair('Counted', money(report.countedCash), true);
+    const overShort = report.overShort;
+    pair(
+      overShort === 0 ? 'Balanced' : overShort > 0 ? 'Over' : 'Short',
+      money(Math.abs(overShort)),
+      true,
+    );
+  }
+  lines.push(EscPosUtils.rule(width));
+
+  lines.push({ text: '' });
+  add(['Cashier: ____________________']);
+  lines.push({ text: '' });
+  add(['Supervisor: _________________']);
+
+  return lines;
+}
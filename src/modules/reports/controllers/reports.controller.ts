@@ -1,10 +1,11 @@
 import { Controller, Get, Query, UseGuards } from '@nestjs/common';
-import { ReportsService } from '../services/reports.service';
+import { ReportsService, MarginGroupBy } from '../services/reports.service';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { UserRole } from '../../../common/enums';
 import { Roles } from 'src/decorators/roles.decorators';
 import { ParseDatePipe } from 'src/common/pipes/parse-date.pipe';
+import { Exportable } from 'src/decorators/exportable.decorator';
 
 @Controller('reports')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -13,6 +14,7 @@ export class ReportsController {
   constructor(private readonly reportsService: ReportsService) {}
 
   @Get('sales')
+  @Exportable('reports-sales', 'topProducts')
   async getSalesReport(
     @Query('startDate', ParseDatePipe) startDate: Date,
     @Query('endDate', ParseDatePipe) endDate: Date,
@@ -20,13 +22,104 @@ export class ReportsController {
     return this.reportsService.generateSalesReport(startDate, endDate);
   }
 
+  @Get('margins/products')
+  @Exportable('reports-margins', 'rows')
+  async getProductMargins(
+    @Query('startDate', ParseDatePipe) startDate: Date,
+    @Query('endDate', ParseDatePipe) endDate: Date,
+    @Query('branchId') branchId?: string,
+  ) {
+    return this.getMargins(startDate, endDate, 'product', branchId);
+  }
+
+  @Get('margins/categories')
+  @Exportable('reports-margins', 'rows')
+  async getCategoryMargins(
+    @Query('startDate', ParseDatePipe) startDate: Date,
+    @Query('endDate', ParseDatePipe) endDate: Date,
+    @Query('branchId') branchId?: string,
+  ) {
+    return this.getMargins(startDate, endDate, 'category', branchId);
+  }
+
+  @Get('margins/branches')
+  @Exportable('reports-margins', 'rows')
+  async getBranchMargins(
+    @Query('startDate', ParseDatePipe) startDate: Date,
+    @Query('endDate', ParseDatePipe) endDate: Date,
+    @Query('branchId') branchId?: string,
+  ) {
+    return this.getMargins(startDate, endDate, 'branch', branchId);
+  }
+
+  @Get('margins/staff')
+  @Exportable('reports-margins', 'rows')
+  async getStaffMargins(
+    @Query('startDate', ParseDatePipe) startDate: Date,
+    @Query('endDate', ParseDatePipe) endDate: Date,
+    @Query('branchId') branchId?: string,
+  ) {
+    return this.getMargins(startDate, endDate, 'staff', branchId);
+  }
+
   @Get('inventory')
+  @Exportable('reports-inventory', (report) =>
+    Object.entries(report.byCategory).map(
+      ([category, stats]: [string, any]) => ({ category, ...stats }),
+    ),
+  )
   async getInventoryReport() {
     return this.reportsService.generateInventoryReport();
   }
 
   @Get('clients')
+  @Exportable('reports-clients', 'topClients')
   async getClientReport() {
     return this.reportsService.generateClientReport();
   }
+
+  @Get('overdue-installments')
+  @Exportable('reports-overdue-installments', 'installments')
+  async getOverdueInstallments(@Query('branchId') branchId?: string) {
+    return this.reportsService.generateOverdueInstallmentsReport(branchId);
+  }
+
+  /** Exports one row per debtor, or per invoice with `detail=invoices`. */
+  @Get('receivables-aging')
+  @Exportable('reports-receivables-aging', (report, query) =>
+    query.detail === 'invoices'
+      ? report.debtors.flatMap((d) =>
+          d.invoices.map((i) => ({
+            clientName: d.clientName,
+            phone: d.phone,
+            ...i,
+          })),
+        )
+      : report.debtors,
+  )
+  async getReceivablesAging(
+    @Query('branchId') branchId?: string,
+    @Query('clientId') clientId?: string,
+    @Query('asOf') asOf?: string,
+  ) {
+    return this.reportsService.generateReceivablesAgingReport({
+      branchId,
+      clientId,
+      asOf: asOf ? new ParseDatePipe().transform(asOf) : undefined,
+    });
+  }
+
+  private getMargins(
+    startDate: Date,
+    endDate: Date,
+    groupBy: MarginGroupBy,
+    branchId?: string,
+  ) {
+    return this.reportsService.generateMarginReport(
+      startDate,
+      endDate,
+      groupBy,
+      branchId,
+    );
+  }
 }
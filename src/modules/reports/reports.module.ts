@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { ReportsService } from './services/reports.service';
 import { ReportsController } from './controllers/reports.controller';
 import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
 
 @Module({
-  imports: [SystemActivityLogModule],
+  imports: [SystemActivityLogModule, ColumnSettingsModule],
   providers: [ReportsService],
   controllers: [ReportsController],
 })
@@ -1,5 +1,7 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
 
 interface SalesReportProduct {
   productId: string;
@@ -30,6 +32,99 @@ export interface SalesReport {
   paymentMethods: { [key: string]: number };
 }
 
+export type MarginGroupBy = 'product' | 'category' | 'branch' | 'staff';
+
+interface MarginSummary {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  uncostedRevenue: number;
+}
+
+export interface MarginReport {
+  period: { startDate: Date; endDate: Date };
+  groupBy: MarginGroupBy;
+  totals: MarginReportRow;
+  rows: MarginReportRow[];
+}
+
+export interface MarginReportRow {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  grossProfit: number;
+  marginPercent: number | null;
+  uncostedRevenue: number;
+}
+
+export interface OverdueInstallmentRow {
+  installmentId: string;
+  planId: string;
+  sequence: number;
+  dueDate: Date;
+  daysOverdue: number;
+  amount: number;
+  amountPaid: number;
+  outstanding: number;
+  client: { id: string; name: string; phone: string };
+  invoiceNumber: string;
+  transactionId: string;
+  branchId: string;
+}
+
+export interface OverdueInstallmentsReport {
+  asOf: Date;
+  totalOverdue: number;
+  installmentCount: number;
+  clientCount: number;
+  installments: OverdueInstallmentRow[];
+}
+
+export type AgingBucket = 'current' | 'days31to60' | 'days61to90' | 'over90';
+
+const AGING_BUCKETS: AgingBucket[] = [
+  'current',
+  'days31to60',
+  'days61to90',
+  'over90',
+];
+
+type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export interface AgingInvoice {
+  transactionId: string;
+  invoiceNumber: string;
+  type: string;
+  date: Date;
+  ageDays: number;
+  bucket: AgingBucket;
+  total: number;
+  amountPaid: number;
+  outstanding: number;
+}
+
+export interface AgingDebtorRow extends AgingTotals {
+  clientId: string;
+  clientName: string;
+  phone: string;
+  balance: number;
+  unallocatedCredit: number;
+  oldestInvoiceDate: Date;
+  invoices: AgingInvoice[];
+}
+
+export interface ReceivablesAgingReport {
+  asOf: Date;
+  branchId: string | null;
+  totals: AgingTotals;
+  debtorCount: number;
+  debtors: AgingDebtorRow[];
+}
+
 @Injectable()
 export class ReportsService {
   constructor(private readonly prisma: PrismaService) {}
@@ -38,10 +133,12 @@ export class ReportsService {
     const transactions = await this.prisma.transaction.findMany({
       where: {
         date: { gte: startDate, lte: endDate },
-        status: 'COMPLETED',
+        status: { not: 'CANCELLED' },
       },
       include: {
         items: true,
+        tenders: true,
+        payment: { select: { allocatedAmount: true } },
         clientRef: { select: { id: true, name: true, phone: true } },
         userRef: { select: { id: true, name: true } },
       },
@@ -59,14 +156,21 @@ export class ReportsService {
       const dateKey = (transaction.date ? new Date(transaction.date) : new Date())
         .toISOString()
         .split('T')[0];
-      const paymentMethod = transaction.paymentMethod || 'UNKNOWN';
 
-      totalSales += transaction.total;
-      totalDiscount += transaction.discount;
-      totalPaid += transaction.amountPaid;
-      totalPending += transaction.total - transaction.amountPaid;
-      paymentMethods[paymentMethod] = (paymentMethods[paymentMethod] || 0) + transaction.amountPaid;
-      dailySales[dateKey] = (dailySales[dateKey] || 0) + transaction.total;
+      // A deposit allocated to an invoice is already in that invoice's amountPaid
+      const allocated = MoneyUtils.kobo(transaction.payment?.allocatedAmount);
+      const total = MoneyUtils.kobo(transaction.total) - allocated;
+      const amountPaid = MoneyUtils.kobo(transaction.amountPaid) - allocated;
+      totalSales += total;
+      totalDiscount += MoneyUtils.kobo(transaction.discount);
+      totalPaid += amountPaid;
+      totalPending += total - amountPaid;
+      // By tender rather than the free-text paymentMethod, so split payments count once per method
+      transaction.tenders.forEach((tender) => {
+        paymentMethods[tender.method] =
+          (paymentMethods[tender.method] || 0) + MoneyUtils.kobo(tender.amount);
+      });
+      dailySales[dateKey] = (dailySales[dateKey] || 0) + total;
 
       transaction.items.forEach((item) => {
         const productId = item.productId;
@@ -77,8 +181,8 @@ export class ReportsService {
           revenue: 0,
           units: new Map<string, number>(),
         };
-        currentProduct.quantity += item.quantity;
-        currentProduct.revenue += item.subtotal;
+        currentProduct.quantity += item.quantity * item.conversionFactor;
+        currentProduct.revenue += MoneyUtils.kobo(item.subtotal);
         const currentUnitQty = currentProduct.units.get(item.unit) || 0;
         currentProduct.units.set(item.unit, currentUnitQty + item.quantity);
         productSales.set(productId, currentProduct);
@@ -90,7 +194,7 @@ export class ReportsService {
         productId: product.productId,
         name: product.name,
         quantity: product.quantity,
-        revenue: product.revenue,
+        revenue: MoneyUtils.fromKobo(product.revenue),
         units: Array.from(product.units.entries()).reduce(
           (acc, [unit, qty]) => ({ ...acc, [unit]: qty }),
           {},
@@ -99,17 +203,160 @@ export class ReportsService {
       .sort((a, b) => b.revenue - a.revenue)
       .slice(0, 10);
 
+    const toNairaMap = (map: { [key: string]: number }) =>
+      Object.fromEntries(
+        Object.entries(map).map(([k, v]) => [k, MoneyUtils.fromKobo(v)]),
+      );
+
     return {
       period: { startDate, endDate },
-      totalSales,
-      totalRevenue: totalSales,
-      totalDiscount,
-      totalPaid,
-      totalPending,
+      totalSales: MoneyUtils.fromKobo(totalSales),
+      totalRevenue: MoneyUtils.fromKobo(totalSales),
+      totalDiscount: MoneyUtils.fromKobo(totalDiscount),
+      totalPaid: MoneyUtils.fromKobo(totalPaid),
+      totalPending: MoneyUtils.fromKobo(totalPending),
       transactionCount: transactions.length,
       topProducts,
-      dailySales,
-      paymentMethods,
+      dailySales: toNairaMap(dailySales),
+      paymentMethods: toNairaMap(paymentMethods),
+    };
+  }
+
+  /**
+   * Gross margin on sales in the period, grouped by product, category, branch
+   * or the staff member who made the sale. Revenue is net of line discounts
+   * and the invoice discount (spread across lines by value); delivery and
+   * other charges are excluded. Returns count negatively. Lines sold before
+   * cost tracking have no cost snapshot and are reported as uncostedRevenue
+   * rather than as pure profit.
+   */
+  async generateMarginReport(
+    startDate: Date,
+    endDate: Date,
+    groupBy: MarginGroupBy,
+    branchId?: string,
+  ): Promise<MarginReport> {
+    const where: any = {
+      date: { gte: startDate, lte: endDate },
+      status: { not: 'CANCELLED' },
+      type: { in: ['PURCHASE', 'WHOLESALE', 'RETURN'] },
+    };
+    if (branchId) where.branchId = branchId;
+
+    const transactions = await this.prisma.transaction.findMany({
+      where,
+      include: {
+        items: {
+          include: {
+            productRef: {
+              select: { categoryRef: { select: { id: true, name: true } } },
+            },
+          },
+        },
+        branchRef: { select: { id: true, name: true } },
+        userRef: { select: { id: true, name: true } },
+      },
+    });
+
+    const groups = new Map<string, MarginSummary>();
+
+    transactions.forEach((transaction) => {
+      const sign = transaction.type === 'RETURN' ? -1 : 1;
+      const itemsTotal = MoneyUtils.sum(
+        transaction.items.map((i) => i.subtotal),
+      );
+      const invoiceDiscount =
+        transaction.type === 'RETURN'
+          ? 0
+          : MoneyUtils.kobo(transaction.discount);
+
+      transaction.items.forEach((item) => {
+        const [key, name] =
+          groupBy === 'product'
+            ? [item.productId, item.productName]
+            : groupBy === 'category'
+              ? [
+                  item.productRef?.categoryRef?.id || 'uncategorised',
+                  item.productRef?.categoryRef?.name || 'Uncategorised',
+                ]
+              : groupBy === 'branch'
+                ? [
+                    transaction.branchId,
+                    transaction.branchRef?.name || transaction.branchId,
+                  ]
+                : [
+                    transaction.userId,
+                    transaction.userRef?.name || transaction.userId,
+                  ];
+
+        const group = groups.get(key) || {
+          key,
+          name,
+          quantity: 0,
+          revenue: 0,
+          cost: 0,
+          uncostedRevenue: 0,
+        };
+        const lineSubtotal = MoneyUtils.kobo(item.subtotal);
+        const discountShare =
+          itemsTotal > 0
+            ? Math.round((invoiceDiscount * lineSubtotal) / itemsTotal)
+            : 0;
+        const revenue = sign * (lineSubtotal - discountShare);
+
+        group.quantity += sign * item.quantity * item.conversionFactor;
+        if (item.unitCost === null) {
+          group.uncostedRevenue += revenue;
+        } else {
+          group.revenue += revenue;
+          group.cost +=
+            sign * MoneyUtils.multiply(item.unitCost, item.quantity);
+        }
+        groups.set(key, group);
+      });
+    });
+
+    const toRow = (g: MarginSummary): MarginReportRow => {
+      const grossProfit = g.revenue - g.cost;
+      return {
+        key: g.key,
+        name: g.name,
+        quantity: g.quantity,
+        revenue: MoneyUtils.fromKobo(g.revenue),
+        cost: MoneyUtils.fromKobo(g.cost),
+        grossProfit: MoneyUtils.fromKobo(grossProfit),
+        marginPercent:
+          g.revenue !== 0
+            ? Math.round((grossProfit / g.revenue) * 10000) / 100
+            : null,
+        uncostedRevenue: MoneyUtils.fromKobo(g.uncostedRevenue),
+      };
+    };
+
+    const summaries = Array.from(groups.values());
+    const totals = summaries.reduce<MarginSummary>(
+      (acc, g) => ({
+        ...acc,
+        quantity: acc.quantity + g.quantity,
+        revenue: acc.revenue + g.revenue,
+        cost: acc.cost + g.cost,
+        uncostedRevenue: acc.uncostedRevenue + g.uncostedRevenue,
+      }),
+      {
+        key: 'total',
+        name: 'Total',
+        quantity: 0,
+        revenue: 0,
+        cost: 0,
+        uncostedRevenue: 0,
+      },
+    );
+
+    return {
+      period: { startDate, endDate },
+      groupBy,
+      totals: toRow(totals),
+      rows: summaries.map(toRow).sort((a, b) => b.grossProfit - a.grossProfit),
     };
   }
 
@@ -127,10 +374,15 @@ export class ReportsService {
       unit: string;
     }> = [];
     let totalValue = 0;
+    let totalCostValue = 0;
 
     products.forEach((product) => {
-      const productValue = product.unitPrice * product.stock;
+      const productValue = MoneyUtils.multiply(
+        product.unitPrice,
+        product.stock,
+      );
       totalValue += productValue;
+      totalCostValue += MoneyUtils.multiply(product.costPrice, product.stock);
 
       if (product.stock <= product.minStockLevel) {
         lowStockProducts.push({
@@ -151,17 +403,26 @@ export class ReportsService {
     });
 
     const byCategory = Array.from(categoryStats.entries()).reduce(
-      (acc, [category, stats]) => ({ ...acc, [category]: stats }),
+      (acc, [category, stats]) => ({
+        ...acc,
+        [category]: { ...stats, value: MoneyUtils.fromKobo(stats.value) },
+      }),
       {},
     );
 
-    return { totalProducts: products.length, lowStockProducts, totalValue, byCategory };
+    return {
+      totalProducts: products.length,
+      lowStockProducts,
+      totalValue: MoneyUtils.fromKobo(totalValue),
+      totalCostValue: MoneyUtils.fromKobo(totalCostValue),
+      byCategory,
+    };
   }
 
   async generateClientReport() {
     const clients = await this.prisma.client.findMany();
     const transactions = await this.prisma.transaction.findMany({
-      where: { status: 'COMPLETED' },
+      where: { status: { not: 'CANCELLED' } },
     });
 
     const summary: any = {
@@ -184,7 +445,7 @@ export class ReportsService {
         lastTransaction: null,
         transactions: 0,
       };
-      current.totalPurchases += transaction.total;
+      current.totalPurchases += MoneyUtils.kobo(transaction.total);
       current.transactions++;
       const txDate = transaction.date ? new Date(transaction.date) : null;
       if (txDate && (!current.lastTransaction || txDate > current.lastTransaction)) {
@@ -194,11 +455,12 @@ export class ReportsService {
     });
 
     clients.forEach((client) => {
-      if (client.balance > 0) {
-        summary.totalCredit += client.balance;
+      const balance = MoneyUtils.kobo(client.balance);
+      if (balance > 0) {
+        summary.totalCredit += balance;
         summary.clientsByBalance.credit++;
-      } else if (client.balance < 0) {
-        summary.totalDebt += Math.abs(client.balance);
+      } else if (balance < 0) {
+        summary.totalDebt += Math.abs(balance);
         summary.clientsByBalance.debt++;
       } else {
         summary.clientsByBalance.zero++;
@@ -215,9 +477,9 @@ export class ReportsService {
           _id: client.id,
           name: client.name,
           phone: client.phone,
-          totalPurchases: clientStats.totalPurchases,
+          totalPurchases: MoneyUtils.fromKobo(clientStats.totalPurchases),
           transactions: clientStats.transactions,
-          balance: client.balance,
+          balance: MoneyUtils.fromKobo(balance),
           lastTransaction: clientStats.lastTransaction,
         });
       }
@@ -225,7 +487,220 @@ export class ReportsService {
 
     summary.topClients.sort((a: any, b: any) => b.totalPurchases - a.totalPurchases);
     summary.topClients = summary.topClients.slice(0, 10);
+    summary.totalDebt = MoneyUtils.fromKobo(summary.totalDebt);
+    summary.totalCredit = MoneyUtils.fromKobo(summary.totalCredit);
 
     return summary;
   }
+
+  /**
+   * Unpaid installments past their due date on active payment plans, most
+   * overdue first.
+   */
+  async generateOverdueInstallmentsReport(
+    branchId?: string,
+  ): Promise<OverdueInstallmentsReport> {
+    const asOf = new Date();
+    const planWhere: any = { status: 'ACTIVE' };
+    if (branchId) planWhere.transactionRef = { branchId };
+
+    const installments = await this.prisma.paymentPlanInstallment.findMany({
+      where: { dueDate: { lt: asOf }, planRef: planWhere },
+      include: {
+        planRef: {
+          include: {
+            clientRef: { select: { id: true, name: true, phone: true } },
+            transactionRef: {
+              select: { id: true, invoiceNumber: true, branchId: true },
+            },
+          },
+        },
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    let totalOverdue = 0;
+    const rows: OverdueInstallmentRow[] = installments
+      .filter((i) => MoneyUtils.kobo(i.amountPaid) < MoneyUtils.kobo(i.amount))
+      .map((i) => {
+        const outstanding =
+          MoneyUtils.kobo(i.amount) - MoneyUtils.kobo(i.amountPaid);
+        totalOverdue += outstanding;
+        return {
+          installmentId: i.id,
+          planId: i.planId,
+          sequence: i.sequence,
+          dueDate: i.dueDate,
+          daysOverdue: Math.floor(
+            (asOf.getTime() - i.dueDate.getTime()) / 86400000,
+          ),
+          amount: MoneyUtils.fromKobo(i.amount),
+          amountPaid: MoneyUtils.fromKobo(i.amountPaid),
+          outstanding: MoneyUtils.fromKobo(outstanding),
+          client: i.planRef.clientRef,
+          invoiceNumber: i.planRef.transactionRef.invoiceNumber,
+          transactionId: i.planRef.transactionRef.id,
+          branchId: i.planRef.transactionRef.branchId,
+        };
+      });
+
+    return {
+      asOf,
+      totalOverdue: MoneyUtils.fromKobo(totalOverdue),
+      installmentCount: rows.length,
+      clientCount: new Set(rows.map((r) => r.client.id)).size,
+      installments: rows,
+    };
+  }
+
+  /**
+   * Unpaid PURCHASE/WHOLESALE invoices bucketed by age (days since the
+   * invoice date): current (0-30), 31-60, 61-90 and over 90. Amounts are as
+   * they stood at asOf: allocations made after it are not counted as paid.
+   * Each client's unallocated payments at asOf are set against their oldest
+   * invoices first, so only what that credit does not cover is reported.
+   * Debtors are listed with the invoices behind their totals, oldest debt
+   * first.
+   */
+  async generateReceivablesAgingReport(
+    options: { branchId?: string; clientId?: string; asOf?: Date } = {},
+  ): Promise<ReceivablesAgingReport> {
+    const asOf = options.asOf || new Date();
+    const onOrBeforeAsOf: Prisma.TransactionWhereInput['OR'] = [
+      { date: { lte: asOf } },
+      { date: null, createdAt: { lte: asOf } },
+    ];
+    const invoices = await this.prisma.transaction.findMany({
+      where: {
+        type: { in: ['PURCHASE', 'WHOLESALE'] },
+        // Invoices settled since a back-dated asOf were still owed then
+        status: options.asOf ? { not: 'CANCELLED' } : 'PENDING',
+        clientId: options.clientId || { not: null },
+        OR: onOrBeforeAsOf,
+        ...(options.branchId ? { branchId: options.branchId } : {}),
+      },
+      include: {
+        clientRef: {
+          select: { id: true, name: true, phone: true, balance: true },
+        },
+        paymentAllocations: {
+          where: { createdAt: { gt: asOf } },
+          select: { amount: true },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        clientId: { in: [...new Set(invoices.map((i) => i.clientId))] },
+        transactionRef: { status: { not: 'CANCELLED' }, OR: onOrBeforeAsOf },
+      },
+      include: {
+        allocations: {
+          where: { createdAt: { lte: asOf } },
+          select: { amount: true },
+        },
+      },
+    });
+    const credit = new Map<string, number>();
+    payments.forEach((payment) => {
+      const unallocated =
+        MoneyUtils.kobo(payment.amount) -
+        MoneyUtils.sum(payment.allocations.map((a) => a.amount));
+      credit.set(
+        payment.clientId,
+        (credit.get(payment.clientId) || 0) + unallocated,
+      );
+    });
+    const remainingCredit = new Map(credit);
+
+    const emptyTotals = (): AgingTotals => ({
+      current: 0,
+      days31to60: 0,
+      days61to90: 0,
+      over90: 0,
+      total: 0,
+    });
+    const totals = emptyTotals();
+    const debtors = new Map<string, AgingDebtorRow>();
+
+    invoices.forEach((invoice) => {
+      const amountPaid =
+        MoneyUtils.kobo(invoice.amountPaid) -
+        MoneyUtils.sum(invoice.paymentAllocations.map((a) => a.amount));
+      const unpaid = MoneyUtils.kobo(invoice.total) - amountPaid;
+      if (unpaid <= 0) return;
+      const available = Math.max(remainingCredit.get(invoice.clientId) || 0, 0);
+      const covered = Math.min(available, unpaid);
+      remainingCredit.set(invoice.clientId, available - covered);
+      const outstanding = unpaid - covered;
+      if (outstanding <= 0) return;
+
+      const date = invoice.date || invoice.createdAt;
+      const ageDays = Math.max(
+        0,
+        Math.floor((asOf.getTime() - date.getTime()) / 86400000),
+      );
+      const bucket: AgingBucket =
+        ageDays <= 30
+          ? 'current'
+          : ageDays <= 60
+            ? 'days31to60'
+            : ageDays <= 90
+              ? 'days61to90'
+              : 'over90';
+
+      const debtor = debtors.get(invoice.clientId) || {
+        clientId: invoice.clientId,
+        clientName: invoice.clientRef?.name,
+        phone: invoice.clientRef?.phone,
+        balance: MoneyUtils.kobo(invoice.clientRef?.balance),
+        unallocatedCredit: credit.get(invoice.clientId) || 0,
+        oldestInvoiceDate: date,
+        invoices: [],
+        ...emptyTotals(),
+      };
+      debtor[bucket] += outstanding;
+      debtor.total += outstanding;
+      totals[bucket] += outstanding;
+      totals.total += outstanding;
+      debtor.invoices.push({
+        transactionId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        type: invoice.type,
+        date,
+        ageDays,
+        bucket,
+        total: MoneyUtils.fromKobo(invoice.total),
+        amountPaid: MoneyUtils.fromKobo(amountPaid),
+        outstanding: MoneyUtils.fromKobo(outstanding),
+      });
+      debtors.set(invoice.clientId, debtor);
+    });
+
+    const toNaira = <T extends AgingTotals>(row: T): T => {
+      const converted: any = { ...row, total: MoneyUtils.fromKobo(row.total) };
+      AGING_BUCKETS.forEach(
+        (bucket) => (converted[bucket] = MoneyUtils.fromKobo(row[bucket])),
+      );
+      return converted;
+    };
+
+    return {
+      asOf,
+      branchId: options.branchId || null,
+      totals: toNaira(totals),
+      debtorCount: debtors.size,
+      debtors: Array.from(debtors.values())
+        .sort(
+          (a, b) =>
+            a.oldestInvoiceDate.getTime() - b.oldestInvoiceDate.getTime(),
+        )
+        .map((debtor) => ({
+          ...toNaira(debtor),
+          balance: MoneyUtils.fromKobo(debtor.balance),
+          unallocatedCredit: MoneyUtils.fromKobo(debtor.unallocatedCredit),
+        })),
+    };
+  }
 }
@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { StockTakesService } from '../services/stock-takes.service';
+import {
+  ApproveStockTakeDto,
+  CancelStockTakeDto,
+  CreateStockTakeDto,
+  QueryStockTakesDto,
+  RecordStockTakeCountsDto,
+} from '../dto/stock-take.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
+
+@Controller('stock-takes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class StockTakesController {
+  constructor(private readonly stockTakesService: StockTakesService) {}
+
+  /**
+   * Start a stock take; the current stock of every product in scope is frozen as the expected quantity.
+   */
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async start(
+    @Body() createStockTakeDto: CreateStockTakeDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTakesService.start(
+      createStockTakeDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findAll(
+    @Query() query: QueryStockTakesDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.stockTakesService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.stockTakesService.findById(id, req.user);
+  }
+
+  @Get(':id/variance')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  @Exportable('stock-take-variance', 'lines')
+  async getVarianceReport(
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTakesService.getVarianceReport(id, req.user);
+  }
+
+  /**
+   * Record counted quantities; can be called as many times as needed while the stock take is open.
+   */
+  @Post(':id/counts')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.STAFF)
+  async recordCounts(
+    @Param('id') id: string,
+    @Body() recordStockTakeCountsDto: RecordStockTakeCountsDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTakesService.recordCounts(
+      id,
+      recordStockTakeCountsDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  /**
+   * Post the variances as stock adjustments and close the stock take.
+   */
+  @Post(':id/approve')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async approve(
+    @Param('id') id: string,
+    @Body() approveStockTakeDto: ApproveStockTakeDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTakesService.approve(
+      id,
+      approveStockTakeDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelStockTakeDto: CancelStockTakeDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTakesService.cancel(
+      id,
+      cancelStockTakeDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+}
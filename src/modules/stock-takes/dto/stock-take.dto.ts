@@ -0,0 +1,79 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StockTakeStatus } from '@prisma/client';
+
+export class CreateStockTakeDto {
+  /** Defaults to the user's branch; only SUPER_ADMIN may start one for another branch. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  /** Limit a cycle count to one category; by default every active product is counted. */
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  productIds?: string[];
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class StockTakeCountDto {
+  @IsNotEmpty()
+  @IsString()
+  productId: string;
+
+  @IsNumber()
+  @Min(0)
+  countedQuantity: number;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class RecordStockTakeCountsDto {
+  /** A later count of the same product replaces the earlier one. */
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => StockTakeCountDto)
+  counts: StockTakeCountDto[];
+}
+
+export class ApproveStockTakeDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class CancelStockTakeDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class QueryStockTakesDto {
+  @IsOptional()
+  @IsEnum(StockTakeStatus)
+  status?: StockTakeStatus;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
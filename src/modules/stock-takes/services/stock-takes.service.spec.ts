@@ -0,0 +1,203 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { StockMovementService } from '../../products/services/stock-movement.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { UserRole } from '../../../common/enums';
+import { StockTakesService } from './stock-takes.service';
+
+const startedAt = new Date('2026-10-18T08:00:00Z');
+const at = (time: string) => new Date(`2026-10-18T${time}:00Z`);
+
+const line = (
+  productId: string,
+  snapshotStock: number,
+  countedQuantity: number | null,
+  countedAt: Date | null,
+  unitPrice = 1000,
+) => ({
+  id: `item-${productId}`,
+  productId,
+  productName: `Product ${productId}`,
+  unit: 'bag',
+  unitPrice: BigInt(unitPrice),
+  snapshotStock,
+  countedQuantity,
+  countedAt,
+});
+
+describe('StockTakesService', () => {
+  let service: StockTakesService;
+  let prisma: any;
+  let tx: any;
+  let stockMovementService: { record: jest.Mock };
+
+  const admin = { userId: 'u1', role: UserRole.ADMIN, branchId: 'b1' };
+  const dto = { reason: 'Monthly count' };
+
+  const openStockTake = (items: any[]) => {
+    const stockTake = {
+      id: 'st1',
+      stockTakeNumber: 'SK20261018-0001',
+      branchId: 'b1',
+      status: 'OPEN',
+      startedAt,
+      items,
+    };
+    prisma.stockTake.findUnique.mockResolvedValue(stockTake);
+    tx.stockTake.findUnique.mockResolvedValue({
+      ...stockTake,
+      status: 'APPROVED',
+    });
+  };
+
+  beforeEach(async () => {
+    tx = {
+      stockTake: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn(),
+      },
+    };
+    prisma = {
+      stockTake: { findUnique: jest.fn() },
+      stockMovement: { findMany: jest.fn().mockResolvedValue([]) },
+      $transaction: jest.fn((fn) => fn(tx)),
+    };
+    stockMovementService = { record: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockTakesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: StockMovementService, useValue: stockMovementService },
+        {
+          provide: SystemActivityLogService,
+          useValue: { createLog: jest.fn().mockResolvedValue({}) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(StockTakesService);
+  });
+
+  describe('approve', () => {
+    it('posts counted less snapshot as the adjustment when nothing moved', async () => {
+      openStockTake([
+        line('p1', 10, 8, at('09:00'), 2500),
+        line('p2', 5, 7, at('09:00'), 1000),
+        line('p3', 4, 4, at('09:00')),
+        line('p4', 6, null, null),
+      ]);
+
+      await service.approve('st1', dto, admin);
+
+      expect(stockMovementService.record).toHaveBeenCalledTimes(2);
+      expect(stockMovementService.record).toHaveBeenCalledWith(
+        tx,
+        expect.objectContaining({
+          productId: 'p1',
+          delta: -2,
+          reason: 'ADJUSTMENT',
+          stockTakeId: 'st1',
+          actorId: 'u1',
+        }),
+      );
+      expect(stockMovementService.record).toHaveBeenCalledWith(
+        tx,
+        expect.objectContaining({ productId: 'p2', delta: 2 }),
+      );
+      expect(tx.stockTake.updateMany).toHaveBeenCalledWith({
+        where: { id: 'st1', status: 'OPEN' },
+        data: expect.objectContaining({
+          status: 'APPROVED',
+          approvedById: 'u1',
+          adjustmentReason: 'Monthly count',
+          varianceValue: -3000,
+        }),
+      });
+    });
+
+    it('counts movements made before the line was counted as expected', async () => {
+      openStockTake([line('p1', 10, 7, at('10:00'))]);
+      prisma.stockMovement.findMany.mockResolvedValue([
+        { productId: 'p1', delta: -3, createdAt: at('09:00') },
+      ]);
+
+      await service.approve('st1', dto, admin);
+
+      expect(prisma.stockMovement.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            productId: { in: ['p1'] },
+            createdAt: { gte: startedAt, lte: at('10:00') },
+          },
+        }),
+      );
+      expect(stockMovementService.record).not.toHaveBeenCalled();
+      expect(tx.stockTake.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ varianceValue: 0 }),
+        }),
+      );
+    });
+
+    it('ignores movements made after the line was counted', async () => {
+      openStockTake([
+        line('p1', 10, 9, at('09:00')),
+        line('p2', 3, 3, at('11:00')),
+      ]);
+      prisma.stockMovement.findMany.mockResolvedValue([
+        { productId: 'p1', delta: -1, createdAt: at('08:30') },
+        { productId: 'p1', delta: -4, createdAt: at('10:30') },
+      ]);
+
+      await service.approve('st1', dto, admin);
+
+      expect(stockMovementService.record).not.toHaveBeenCalled();
+    });
+
+    it('notes the counted and expected quantities on the adjustment', async () => {
+      openStockTake([line('p1', 10, 5, at('10:00'))]);
+      prisma.stockMovement.findMany.mockResolvedValue([
+        { productId: 'p1', delta: 2, createdAt: at('09:00') },
+      ]);
+
+      await service.approve('st1', dto, admin);
+
+      expect(stockMovementService.record).toHaveBeenCalledWith(
+        tx,
+        expect.objectContaining({
+          delta: -7,
+          note: 'Stock take SK20261018-0001: counted 5, expected 12 - Monthly count',
+        }),
+      );
+    });
+
+    it('rejects a stock take with no counts', async () => {
+      openStockTake([line('p1', 10, null, null)]);
+
+      await expect(service.approve('st1', dto, admin)).rejects.toThrow(
+        'No counts have been recorded on this stock take',
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects an approval from another branch', async () => {
+      openStockTake([line('p1', 10, 8, at('09:00'))]);
+
+      await expect(
+        service.approve('st1', dto, { ...admin, branchId: 'b2' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('posts nothing when the stock take was closed concurrently', async () => {
+      openStockTake([line('p1', 10, 8, at('09:00'))]);
+      tx.stockTake.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.approve('st1', dto, admin)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(stockMovementService.record).not.toHaveBeenCalled();
+    });
+  });
+});
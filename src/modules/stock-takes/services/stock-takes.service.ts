@@ -0,0 +1,559 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { StockMovementService } from '../../products/services/stock-movement.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import {
+  ApproveStockTakeDto,
+  CancelStockTakeDto,
+  CreateStockTakeDto,
+  QueryStockTakesDto,
+  RecordStockTakeCountsDto,
+} from '../dto/stock-take.dto';
+
+type StockTakeActor = {
+  userId: string;
+  role: string;
+  email?: string;
+  name?: string;
+  branch?: string;
+  branchId?: string;
+};
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+/**
+ * Physical stock counts. Starting a stock take snapshots each product's
+ * stock; staff then record what is on the shelf, in as many passes as they
+ * need. A line's expected quantity is the snapshot plus the stock movements
+ * (sales, receipts, transfers) posted between the start and its count.
+ * Approval posts the variance (counted - expected) as an ADJUSTMENT
+ * movement, so sales made while the count was running are neither lost nor
+ * deducted twice. Sessions and their lines are never deleted.
+ */
+@Injectable()
+export class StockTakesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockMovementService: StockMovementService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly stockTakeInclude = {
+    branchRef: { select: { id: true, name: true } },
+    startedBy: { select: { id: true, name: true } },
+    approvedBy: { select: { id: true, name: true } },
+    items: {
+      include: { countedBy: { select: { id: true, name: true } } },
+      orderBy: { productName: 'asc' as const },
+    },
+  };
+
+  private toDoc(stockTake: any) {
+    if (!stockTake) return stockTake;
+    return {
+      ...MoneyUtils.fieldsToNaira(stockTake, ['varianceValue']),
+      _id: stockTake.id,
+      items: (stockTake.items || []).map((item: any) => this.toLine(item)),
+    };
+  }
+
+  private toLine(item: any) {
+    const variance = this.variance(item);
+    return {
+      ...MoneyUtils.fieldsToNaira(item, ['unitPrice']),
+      _id: item.id,
+      variance,
+      varianceValue:
+        variance === null
+          ? null
+          : MoneyUtils.fromKobo(MoneyUtils.multiply(item.unitPrice, variance)),
+    };
+  }
+
+  private variance(item: {
+    expectedQuantity: number;
+    countedQuantity: number | null;
+  }): number | null {
+    return item.countedQuantity === null
+      ? null
+      : item.countedQuantity - item.expectedQuantity;
+  }
+
+  /**
+   * Adds each line's expected quantity: the snapshot plus the net stock
+   * movement on the product from the start of the stock take until the line
+   * was counted. Uncounted lines expect the snapshot.
+   */
+  private async withExpected<
+    T extends {
+      startedAt: Date;
+      items: Array<{
+        productId: string;
+        snapshotStock: number;
+        countedAt: Date | null;
+      }>;
+    },
+  >(
+    stockTake: T,
+  ): Promise<
+    Omit<T, 'items'> & {
+      items: Array<T['items'][number] & { expectedQuantity: number }>;
+    }
+  > {
+    const counted = stockTake.items.filter((i) => i.countedAt !== null);
+    const lastCount = Math.max(0, ...counted.map((i) => i.countedAt.getTime()));
+    const movements = counted.length
+      ? await this.prisma.stockMovement.findMany({
+          where: {
+            productId: { in: counted.map((i) => i.productId) },
+            createdAt: { gte: stockTake.startedAt, lte: new Date(lastCount) },
+          },
+          select: { productId: true, delta: true, createdAt: true },
+        })
+      : [];
+
+    return {
+      ...stockTake,
+      items: stockTake.items.map((item) => ({
+        ...item,
+        expectedQuantity:
+          item.snapshotStock +
+          movements
+            .filter(
+              (m) =>
+                m.productId === item.productId &&
+                item.countedAt !== null &&
+                m.createdAt <= item.countedAt,
+            )
+            .reduce((acc, m) => acc + m.delta, 0),
+      })),
+    };
+  }
+
+  async generateStockTakeNumber(): Promise<string> {
+    const date = new Date();
+    const prefix = `SK${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+
+    const result = await this.prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "Counter" (name, value) VALUES (${prefix}, 1)
+      ON CONFLICT (name) DO UPDATE SET value = "Counter".value + 1
+      RETURNING value
+    `;
+
+    const seq = Number(result[0].value);
+    return `${prefix}-${seq.toString().padStart(4, '0')}`;
+  }
+
+  /**
+   * Opens a stock take for the branch and snapshots the stock of every active
+   * product in scope. A branch can only have one open stock take at a time.
+   */
+  async start(
+    dto: CreateStockTakeDto,
+    user: StockTakeActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const branchId =
+      user.role === UserRole.SUPER_ADMIN && dto.branchId
+        ? dto.branchId
+        : user.branchId?.toString();
+    if (!branchId) {
+      throw new BadRequestException('Branch is required');
+    }
+
+    const branch = await this.prisma.branch.findUnique({
+      where: { id: branchId },
+    });
+    if (!branch || !branch.isActive) {
+      throw new BadRequestException('Branch does not exist or is inactive');
+    }
+
+    const open = await this.prisma.stockTake.findFirst({
+      where: { branchId, status: 'OPEN' },
+    });
+    if (open) {
+      throw new BadRequestException(
+        `Stock take ${open.stockTakeNumber} is already open for ${branch.name}; approve or cancel it first`,
+      );
+    }
+
+    const where: Prisma.ProductWhereInput = { branchId, isActive: true };
+    if (dto.categoryId) where.categoryId = dto.categoryId;
+    if (dto.productIds?.length) where.id = { in: dto.productIds };
+    const products = await this.prisma.product.findMany({
+      where,
+      orderBy: { name: 'asc' },
+    });
+    if (products.length === 0) {
+      throw new BadRequestException('No active products match this stock take');
+    }
+    const missing = (dto.productIds || []).filter(
+      (id) => !products.some((p) => p.id === id),
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        `Products not found in ${branch.name}: ${missing.join(', ')}`,
+      );
+    }
+
+    const stockTakeNumber = await this.generateStockTakeNumber();
+    const stockTake = await this.prisma.stockTake.create({
+      data: {
+        stockTakeNumber,
+        branchId,
+        notes: dto.notes,
+        startedById: user.userId,
+        items: {
+          create: products.map((p) => ({
+            productId: p.id,
+            productName: p.name,
+            unit: p.unit,
+            unitPrice: p.unitPrice,
+            snapshotStock: p.stock,
+          })),
+        },
+      },
+      include: this.stockTakeInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'STOCK_TAKE_STARTED',
+        details: `Stock take ${stockTakeNumber} started for ${branch.name} covering ${products.length} product(s)`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(await this.withExpected(stockTake));
+  }
+
+  /** Records counted quantities; a product counted again keeps the latest count. */
+  async recordCounts(
+    id: string,
+    dto: RecordStockTakeCountsDto,
+    user: StockTakeActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const stockTake = await this.getOpen(id);
+    this.assertBranchAccess(
+      user,
+      stockTake.branchId,
+      'You can only count stock for your own branch',
+    );
+
+    const items = new Map(stockTake.items.map((i) => [i.productId, i]));
+    for (const count of dto.counts) {
+      if (!items.has(count.productId)) {
+        throw new BadRequestException(
+          `Product ${count.productId} is not part of stock take ${stockTake.stockTakeNumber}`,
+        );
+      }
+    }
+
+    const countedAt = new Date();
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.stockTake.updateMany({
+        where: { id, status: 'OPEN' },
+        data: { updatedAt: countedAt },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'Stock take has already been approved or cancelled',
+        );
+      }
+
+      for (const entry of dto.counts) {
+        await tx.stockTakeItem.update({
+          where: { id: items.get(entry.productId).id },
+          data: {
+            countedQuantity: entry.countedQuantity,
+            countedById: user.userId,
+            countedAt,
+            note: entry.note,
+          },
+        });
+      }
+
+      return tx.stockTake.findUnique({
+        where: { id },
+        include: this.stockTakeInclude,
+      });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'STOCK_TAKE_COUNTED',
+        details: `Counts recorded on stock take ${stockTake.stockTakeNumber}: ${dto.counts.map((c) => `${items.get(c.productId).productName} ${c.countedQuantity} ${items.get(c.productId).unit}`).join(', ')}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: stockTake.branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(await this.withExpected(updated));
+  }
+
+  /**
+   * Posts every counted line's variance as a stock adjustment and closes the
+   * stock take. Products that were not counted are left unchanged.
+   */
+  async approve(
+    id: string,
+    dto: ApproveStockTakeDto,
+    user: StockTakeActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const stockTake = await this.withExpected(await this.getOpen(id));
+    this.assertBranchAccess(
+      user,
+      stockTake.branchId,
+      'ADMIN can only approve stock takes for their own branch',
+    );
+
+    const counted = stockTake.items.filter((i) => i.countedQuantity !== null);
+    if (counted.length === 0) {
+      throw new BadRequestException(
+        'No counts have been recorded on this stock take',
+      );
+    }
+    const adjustments = counted
+      .map((item) => ({ item, variance: this.variance(item) }))
+      .filter((a) => a.variance !== 0);
+    const varianceValue = MoneyUtils.sum(
+      adjustments.map((a) => MoneyUtils.multiply(a.item.unitPrice, a.variance)),
+    );
+
+    const updated = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.stockTake.updateMany({
+          where: { id, status: 'OPEN' },
+          data: {
+            status: 'APPROVED',
+            approvedById: user.userId,
+            approvedAt: new Date(),
+            adjustmentReason: dto.reason,
+            varianceValue,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException(
+            'Stock take has already been approved or cancelled',
+          );
+        }
+
+        for (const { item, variance } of adjustments) {
+          await this.stockMovementService.record(tx, {
+            productId: item.productId,
+            delta: variance,
+            reason: 'ADJUSTMENT',
+            stockTakeId: id,
+            actorId: user.userId,
+            note: `Stock take ${stockTake.stockTakeNumber}: counted ${item.countedQuantity}, expected ${item.expectedQuantity} - ${dto.reason}`,
+          });
+        }
+
+        return tx.stockTake.findUnique({
+          where: { id },
+          include: this.stockTakeInclude,
+        });
+      },
+      // A full-branch count can post hundreds of adjustments
+      { timeout: 120000 },
+    );
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'STOCK_TAKE_APPROVED',
+        details: `Stock take ${stockTake.stockTakeNumber} approved - ${adjustments.length} adjustment(s), net variance ${MoneyUtils.fromKobo(varianceValue)} - Reason: ${dto.reason}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: stockTake.branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(await this.withExpected(updated));
+  }
+
+  async cancel(
+    id: string,
+    dto: CancelStockTakeDto,
+    user: StockTakeActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const stockTake = await this.getOpen(id);
+    this.assertBranchAccess(
+      user,
+      stockTake.branchId,
+      'ADMIN can only cancel stock takes for their own branch',
+    );
+
+    const { count } = await this.prisma.stockTake.updateMany({
+      where: { id, status: 'OPEN' },
+      data: { status: 'CANCELLED', cancelReason: dto.reason },
+    });
+    if (count === 0) {
+      throw new BadRequestException(
+        'Stock take has already been approved or cancelled',
+      );
+    }
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'STOCK_TAKE_CANCELLED',
+        details: `Stock take ${stockTake.stockTakeNumber} cancelled - Reason: ${dto.reason}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: stockTake.branchId,
+      })
+      .catch(() => {});
+
+    return this.findById(id, user);
+  }
+
+  async findAll(
+    query: QueryStockTakesDto,
+    user: StockTakeActor,
+  ): Promise<any[]> {
+    const branchId = GLOBAL_ROLES.includes(user.role)
+      ? query.branchId
+      : user.branchId?.toString();
+
+    const where: Prisma.StockTakeWhereInput = {};
+    if (query.status) where.status = query.status;
+    if (branchId) where.branchId = branchId;
+
+    const stockTakes = await this.prisma.stockTake.findMany({
+      where,
+      include: {
+        branchRef: { select: { id: true, name: true } },
+        startedBy: { select: { id: true, name: true } },
+        approvedBy: { select: { id: true, name: true } },
+        _count: { select: { items: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return stockTakes.map((s) => ({
+      ...MoneyUtils.fieldsToNaira(s, ['varianceValue']),
+      _id: s.id,
+    }));
+  }
+
+  async findById(id: string, user: StockTakeActor): Promise<any> {
+    return this.toDoc(await this.withExpected(await this.getVisible(id, user)));
+  }
+
+  /**
+   * Variance report for audit: expected against counted quantity per product,
+   * valued at the unit price when the stock take started, largest first.
+   */
+  async getVarianceReport(id: string, user: StockTakeActor): Promise<any> {
+    const stockTake = await this.withExpected(await this.getVisible(id, user));
+
+    const lines = stockTake.items
+      .map((item) => {
+        const variance = this.variance(item);
+        return {
+          productId: item.productId,
+          productName: item.productName,
+          unit: item.unit,
+          unitPrice: item.unitPrice,
+          snapshotStock: item.snapshotStock,
+          expectedQuantity: item.expectedQuantity,
+          countedQuantity: item.countedQuantity,
+          variance,
+          varianceValue:
+            variance === null
+              ? null
+              : MoneyUtils.multiply(item.unitPrice, variance),
+          countedBy: item.countedBy?.name || null,
+          countedAt: item.countedAt,
+          note: item.note,
+        };
+      })
+      .sort(
+        (a, b) =>
+          Math.abs(b.varianceValue ?? 0) - Math.abs(a.varianceValue ?? 0),
+      );
+
+    const values = lines.map((l) => l.varianceValue ?? 0);
+    const gainValue = MoneyUtils.sum(values.filter((v) => v > 0));
+    const lossValue = -MoneyUtils.sum(values.filter((v) => v < 0));
+
+    return {
+      stockTakeId: stockTake.id,
+      stockTakeNumber: stockTake.stockTakeNumber,
+      branch: stockTake.branchRef,
+      status: stockTake.status,
+      startedAt: stockTake.startedAt,
+      startedBy: stockTake.startedBy,
+      approvedAt: stockTake.approvedAt,
+      approvedBy: stockTake.approvedBy,
+      adjustmentReason: stockTake.adjustmentReason,
+      productCount: lines.length,
+      countedCount: lines.filter((l) => l.countedQuantity !== null).length,
+      discrepancyCount: lines.filter((l) => l.variance).length,
+      gainValue: MoneyUtils.fromKobo(gainValue),
+      lossValue: MoneyUtils.fromKobo(lossValue),
+      netVarianceValue: MoneyUtils.fromKobo(gainValue - lossValue),
+      lines: lines.map((l) =>
+        MoneyUtils.fieldsToNaira(l, ['unitPrice', 'varianceValue']),
+      ),
+    };
+  }
+
+  private async getVisible(id: string, user: StockTakeActor) {
+    const stockTake = await this.prisma.stockTake.findUnique({
+      where: { id },
+      include: this.stockTakeInclude,
+    });
+    if (!stockTake) throw new NotFoundException('Stock take not found');
+
+    if (
+      !GLOBAL_ROLES.includes(user.role) &&
+      stockTake.branchId !== user.branchId?.toString()
+    ) {
+      throw new NotFoundException('Stock take not found');
+    }
+    return stockTake;
+  }
+
+  private async getOpen(id: string) {
+    const stockTake = await this.prisma.stockTake.findUnique({
+      where: { id },
+      include: { items: true },
+    });
+    if (!stockTake) throw new NotFoundException('Stock take not found');
+    if (stockTake.status !== 'OPEN') {
+      throw new BadRequestException(
+        `Stock take ${stockTake.stockTakeNumber} is ${stockTake.status} and can no longer be changed`,
+      );
+    }
+    return stockTake;
+  }
+
+  private assertBranchAccess(
+    user: StockTakeActor,
+    branchId: string,
+    message: string,
+  ) {
+    if (user.role === UserRole.SUPER_ADMIN) return;
+    if (user.branchId?.toString() !== branchId) {
+      throw new ForbiddenException(message);
+    }
+  }
+}
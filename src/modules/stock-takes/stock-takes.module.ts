@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { StockTakesService } from './services/stock-takes.service';
+import { StockTakesController } from './controllers/stock-takes.controller';
+import { ProductsModule } from '../products/products.module';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
+
+@Module({
+  imports: [ProductsModule, SystemActivityLogModule, ColumnSettingsModule],
+  providers: [StockTakesService],
+  controllers: [StockTakesController],
+  exports: [StockTakesService],
+})
+export class StockTakesModule {}
@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { StockTransfersService } from '../services/stock-transfers.service';
+import {
+  CancelStockTransferDto,
+  CreateStockTransferDto,
+  QueryStockTransfersDto,
+  ReceiveStockTransferDto,
+} from '../dto/stock-transfer.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('stock-transfers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class StockTransfersController {
+  constructor(private readonly stockTransfersService: StockTransfersService) {}
+
+  /**
+   * Dispatch goods from the source branch; stock leaves immediately and the transfer is IN_TRANSIT.
+   */
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async dispatch(
+    @Body() createStockTransferDto: CreateStockTransferDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTransfersService.dispatch(
+      createStockTransferDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findAll(
+    @Query() query: QueryStockTransfersDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.stockTransfersService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.stockTransfersService.findById(id, req.user);
+  }
+
+  /**
+   * Confirm receipt at the destination branch, with the quantities that actually arrived.
+   */
+  @Post(':id/receive')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async receive(
+    @Param('id') id: string,
+    @Body() receiveStockTransferDto: ReceiveStockTransferDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTransfersService.receive(
+      id,
+      receiveStockTransferDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelStockTransferDto: CancelStockTransferDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.stockTransfersService.cancel(
+      id,
+      cancelStockTransferDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StockTransferStatus } from '@prisma/client';
+
+export class StockTransferItemDto {
+  @IsNotEmpty()
+  @IsString()
+  productId: string;
+
+  @IsNumber()
+  @IsPositive()
+  quantity: number;
+}
+
+export class CreateStockTransferDto {
+  /** Defaults to the dispatcher's branch; only SUPER_ADMIN may dispatch from another branch. */
+  @IsOptional()
+  @IsString()
+  sourceBranchId?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  destinationBranchId: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => StockTransferItemDto)
+  items: StockTransferItemDto[];
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ReceiveStockTransferItemDto {
+  @IsNotEmpty()
+  @IsString()
+  itemId: string;
+
+  @IsNumber()
+  @Min(0)
+  quantityReceived: number;
+
+  @IsOptional()
+  @IsString()
+  discrepancyNote?: string;
+}
+
+export class ReceiveStockTransferDto {
+  /** Items left out are taken as received in full. */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceiveStockTransferItemDto)
+  items?: ReceiveStockTransferItemDto[];
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class CancelStockTransferDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class QueryStockTransfersDto {
+  @IsOptional()
+  @IsEnum(StockTransferStatus)
+  status?: StockTransferStatus;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @IsOptional()
+  @IsIn(['incoming', 'outgoing'])
+  direction?: 'incoming' | 'outgoing';
+}
@@ -0,0 +1,569 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { StockMovementService } from '../../products/services/stock-movement.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { RealtimeEventService } from '../../websocket/realtime-event.service';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import {
+  CancelStockTransferDto,
+  CreateStockTransferDto,
+  QueryStockTransfersDto,
+  ReceiveStockTransferDto,
+} from '../dto/stock-transfer.dto';
+
+type TransferActor = {
+  userId: string;
+  role: string;
+  email?: string;
+  name?: string;
+  branch?: string;
+  branchId?: string;
+};
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+@Injectable()
+export class StockTransfersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockMovementService: StockMovementService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+    private readonly realtimeEventService: RealtimeEventService,
+  ) {}
+
+  private readonly transferInclude = {
+    sourceBranchRef: { select: { id: true, name: true } },
+    destinationBranchRef: { select: { id: true, name: true } },
+    dispatchedBy: { select: { id: true, name: true } },
+    receivedBy: { select: { id: true, name: true } },
+    items: {
+      include: {
+        sourceProductRef: { select: { id: true, name: true, stock: true } },
+        destinationProductRef: {
+          select: { id: true, name: true, stock: true },
+        },
+      },
+    },
+  };
+
+  private toDoc(transfer: any) {
+    if (!transfer) return transfer;
+    return {
+      ...transfer,
+      _id: transfer.id,
+      items: (transfer.items || []).map((item: any) => ({
+        ...item,
+        _id: item.id,
+        shortfall:
+          item.quantityReceived === null
+            ? null
+            : item.quantitySent - item.quantityReceived,
+      })),
+    };
+  }
+
+  async generateTransferNumber(): Promise<string> {
+    const date = new Date();
+    const prefix = `ST${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+
+    const result = await this.prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "Counter" (name, value) VALUES (${prefix}, 1)
+      ON CONFLICT (name) DO UPDATE SET value = "Counter".value + 1
+      RETURNING value
+    `;
+
+    const seq = Number(result[0].value);
+    return `${prefix}-${seq.toString().padStart(4, '0')}`;
+  }
+
+  /**
+   * Takes the goods out of the source branch and leaves the transfer IN_TRANSIT.
+   * Each item is matched to the destination branch's product of the same name;
+   * items with no match get a product created for them on receipt.
+   */
+  async dispatch(
+    dto: CreateStockTransferDto,
+    user: TransferActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const sourceBranchId =
+      user.role === UserRole.SUPER_ADMIN && dto.sourceBranchId
+        ? dto.sourceBranchId
+        : user.branchId?.toString();
+    if (!sourceBranchId) {
+      throw new BadRequestException('Source branch is required');
+    }
+    if (sourceBranchId === dto.destinationBranchId) {
+      throw new BadRequestException(
+        'Source and destination branches must be different',
+      );
+    }
+
+    const destinationBranch = await this.prisma.branch.findUnique({
+      where: { id: dto.destinationBranchId },
+    });
+    if (!destinationBranch || !destinationBranch.isActive) {
+      throw new BadRequestException(
+        'Destination branch does not exist or is inactive',
+      );
+    }
+
+    const productIds = dto.items.map((i) => i.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'Each product can only appear once in a transfer',
+      );
+    }
+
+    const items = await Promise.all(
+      dto.items.map(async (item) => {
+        const product = await this.prisma.product.findFirst({
+          where: { id: item.productId, branchId: sourceBranchId },
+        });
+        if (!product) {
+          throw new BadRequestException(
+            `Product ${item.productId} not found in the source branch`,
+          );
+        }
+        if (product.stock < item.quantity) {
+          throw new BadRequestException(
+            `Insufficient stock for ${product.name}. Available: ${product.stock} ${product.unit}`,
+          );
+        }
+
+        const match = await this.findDestinationProduct(
+          this.prisma,
+          product,
+          dto.destinationBranchId,
+        );
+
+        return {
+          sourceProductId: product.id,
+          destinationProductId: match?.id,
+          productName: product.name,
+          unit: product.unit,
+          quantitySent: item.quantity,
+        };
+      }),
+    );
+
+    const transferNumber = await this.generateTransferNumber();
+
+    const transfer = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.stockTransfer.create({
+        data: {
+          transferNumber,
+          sourceBranchId,
+          destinationBranchId: dto.destinationBranchId,
+          notes: dto.notes,
+          dispatchedById: user.userId,
+          items: { create: items },
+        },
+      });
+
+      for (const item of items) {
+        await this.stockMovementService.record(tx, {
+          productId: item.sourceProductId,
+          delta: -item.quantitySent,
+          reason: 'TRANSFER',
+          transferId: created.id,
+          actorId: user.userId,
+          note: `Transfer ${transferNumber} to ${destinationBranch.name}`,
+        });
+      }
+
+      return tx.stockTransfer.findUnique({
+        where: { id: created.id },
+        include: this.transferInclude,
+      });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'STOCK_TRANSFER_DISPATCHED',
+        details: `Stock transfer ${transferNumber} dispatched to ${destinationBranch.name}: ${items.map((i) => `${i.quantitySent} ${i.unit} ${i.productName}`).join(', ')}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: sourceBranchId,
+      })
+      .catch(() => {});
+
+    const doc = this.toDoc(transfer);
+    this.emit('dispatched', doc, user, sourceBranchId);
+    return doc;
+  }
+
+  /**
+   * Confirms arrival at the destination branch. Received quantities are added
+   * to the matching products; any shortfall stays recorded on the item and the
+   * transfer is closed as RECEIVED_WITH_DISCREPANCY.
+   */
+  async receive(
+    id: string,
+    dto: ReceiveStockTransferDto,
+    user: TransferActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const transfer = await this.getInTransit(id);
+    this.assertBranchAccess(
+      user,
+      transfer.destinationBranchId,
+      'ADMIN can only receive transfers sent to their own branch',
+    );
+
+    const received = new Map((dto.items || []).map((i) => [i.itemId, i]));
+    for (const itemId of received.keys()) {
+      if (!transfer.items.some((i) => i.id === itemId)) {
+        throw new BadRequestException(
+          `Item ${itemId} is not part of transfer ${transfer.transferNumber}`,
+        );
+      }
+    }
+
+    const lines = transfer.items.map((item) => {
+      const entry = received.get(item.id);
+      const quantityReceived = entry
+        ? entry.quantityReceived
+        : item.quantitySent;
+      if (quantityReceived > item.quantitySent) {
+        throw new BadRequestException(
+          `Cannot receive ${quantityReceived} ${item.unit} of ${item.productName}; only ${item.quantitySent} was sent`,
+        );
+      }
+      return {
+        item,
+        quantityReceived,
+        discrepancyNote: entry?.discrepancyNote,
+      };
+    });
+    const hasDiscrepancy = lines.some(
+      (l) => l.quantityReceived < l.item.quantitySent,
+    );
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.stockTransfer.updateMany({
+        where: { id, status: 'IN_TRANSIT' },
+        data: {
+          status: hasDiscrepancy ? 'RECEIVED_WITH_DISCREPANCY' : 'RECEIVED',
+          receivedById: user.userId,
+          receivedAt: new Date(),
+          receiptNote: dto.note,
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'Transfer has already been received or cancelled',
+        );
+      }
+
+      for (const line of lines) {
+        const destinationProductId = await this.resolveDestinationProduct(
+          tx,
+          line.item,
+          transfer.destinationBranchId,
+        );
+
+        if (line.quantityReceived > 0) {
+          const source = await tx.product.findUnique({
+            where: { id: line.item.sourceProductId },
+          });
+          // Goods arrive at the source branch's cost, not the destination's selling price
+          await this.stockMovementService.recordReceipt(tx, {
+            productId: destinationProductId,
+            delta: line.quantityReceived,
+            unitCost:
+              source?.costPrice == null
+                ? null
+                : MoneyUtils.kobo(source.costPrice),
+            reason: 'TRANSFER',
+            transferId: id,
+            actorId: user.userId,
+            note: `Transfer ${transfer.transferNumber} from ${transfer.sourceBranchRef.name}`,
+          });
+        }
+
+        await tx.stockTransferItem.update({
+          where: { id: line.item.id },
+          data: {
+            destinationProductId,
+            quantityReceived: line.quantityReceived,
+            discrepancyNote: line.discrepancyNote,
+          },
+        });
+      }
+
+      return tx.stockTransfer.findUnique({
+        where: { id },
+        include: this.transferInclude,
+      });
+    });
+
+    const shortfalls = lines
+      .filter((l) => l.quantityReceived < l.item.quantitySent)
+      .map(
+        (l) =>
+          `${l.item.productName}: ${l.item.quantitySent - l.quantityReceived} ${l.item.unit} short`,
+      );
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'STOCK_TRANSFER_RECEIVED',
+        details: `Stock transfer ${transfer.transferNumber} received from ${transfer.sourceBranchRef.name}${shortfalls.length ? ` with discrepancies - ${shortfalls.join(', ')}` : ''}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: transfer.destinationBranchId,
+      })
+      .catch(() => {});
+
+    const doc = this.toDoc(updated);
+    this.emit('received', doc, user, transfer.destinationBranchId);
+    return doc;
+  }
+
+  /** Calls back an IN_TRANSIT transfer and returns the goods to the source branch. */
+  async cancel(
+    id: string,
+    dto: CancelStockTransferDto,
+    user: TransferActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const transfer = await this.getInTransit(id);
+    this.assertBranchAccess(
+      user,
+      transfer.sourceBranchId,
+      'ADMIN can only cancel transfers dispatched from their own branch',
+    );
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.stockTransfer.updateMany({
+        where: { id, status: 'IN_TRANSIT' },
+        data: { status: 'CANCELLED', cancelReason: dto.reason },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'Transfer has already been received or cancelled',
+        );
+      }
+
+      for (const item of transfer.items) {
+        await this.stockMovementService.record(tx, {
+          productId: item.sourceProductId,
+          delta: item.quantitySent,
+          reason: 'TRANSFER',
+          transferId: id,
+          actorId: user.userId,
+          note: `Transfer ${transfer.transferNumber} cancelled`,
+        });
+      }
+
+      return tx.stockTransfer.findUnique({
+        where: { id },
+        include: this.transferInclude,
+      });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'STOCK_TRANSFER_CANCELLED',
+        details: `Stock transfer ${transfer.transferNumber} cancelled - Reason: ${dto.reason}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: transfer.sourceBranchId,
+      })
+      .catch(() => {});
+
+    const doc = this.toDoc(updated);
+    this.emit('cancelled', doc, user, transfer.sourceBranchId);
+    return doc;
+  }
+
+  async findAll(
+    query: QueryStockTransfersDto,
+    user: TransferActor,
+  ): Promise<any[]> {
+    const branchId = GLOBAL_ROLES.includes(user.role)
+      ? query.branchId
+      : user.branchId?.toString();
+
+    const where: Prisma.StockTransferWhereInput = {};
+    if (query.status) where.status = query.status;
+    if (branchId) {
+      if (query.direction === 'incoming') {
+        where.destinationBranchId = branchId;
+      } else if (query.direction === 'outgoing') {
+        where.sourceBranchId = branchId;
+      } else {
+        where.OR = [
+          { sourceBranchId: branchId },
+          { destinationBranchId: branchId },
+        ];
+      }
+    }
+
+    const transfers = await this.prisma.stockTransfer.findMany({
+      where,
+      include: this.transferInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return transfers.map((t) => this.toDoc(t));
+  }
+
+  async findById(id: string, user: TransferActor): Promise<any> {
+    const transfer = await this.prisma.stockTransfer.findUnique({
+      where: { id },
+      include: this.transferInclude,
+    });
+    if (!transfer) throw new NotFoundException('Stock transfer not found');
+
+    if (
+      !GLOBAL_ROLES.includes(user.role) &&
+      ![transfer.sourceBranchId, transfer.destinationBranchId].includes(
+        user.branchId?.toString(),
+      )
+    ) {
+      throw new NotFoundException('Stock transfer not found');
+    }
+    return this.toDoc(transfer);
+  }
+
+  private async getInTransit(id: string) {
+    const transfer = await this.prisma.stockTransfer.findUnique({
+      where: { id },
+      include: { items: true, sourceBranchRef: true },
+    });
+    if (!transfer) throw new NotFoundException('Stock transfer not found');
+    if (transfer.status !== 'IN_TRANSIT') {
+      throw new BadRequestException(
+        `Transfer ${transfer.transferNumber} is ${transfer.status} and can no longer be changed`,
+      );
+    }
+    return transfer;
+  }
+
+  private assertBranchAccess(
+    user: TransferActor,
+    branchId: string,
+    message: string,
+  ) {
+    if (user.role === UserRole.SUPER_ADMIN) return;
+    if (user.branchId?.toString() !== branchId) {
+      throw new ForbiddenException(message);
+    }
+  }
+
+  /**
+   * Products are unique per (name, branchId), so the destination's product of
+   * the same name is the counterpart; it must also share the category and unit.
+   */
+  private async findDestinationProduct(
+    client: Prisma.TransactionClient,
+    product: { name: string; categoryId: string; unit: string },
+    destinationBranchId: string,
+  ) {
+    const match = await client.product.findFirst({
+      where: { name: product.name, branchId: destinationBranchId },
+    });
+    if (
+      match &&
+      (match.categoryId !== product.categoryId || match.unit !== product.unit)
+    ) {
+      throw new BadRequestException(
+        `"${product.name}" exists in the destination branch with a different category or unit (${match.unit}); align the products before transferring`,
+      );
+    }
+    return match;
+  }
+
+  private async resolveDestinationProduct(
+    tx: Prisma.TransactionClient,
+    item: {
+      sourceProductId: string;
+      destinationProductId: string | null;
+    },
+    destinationBranchId: string,
+  ): Promise<string> {
+    if (item.destinationProductId) return item.destinationProductId;
+
+    const source = await tx.product.findUnique({
+      where: { id: item.sourceProductId },
+    });
+    if (!source) {
+      throw new BadRequestException(
+        `Source product ${item.sourceProductId} no longer exists`,
+      );
+    }
+
+    const match = await this.findDestinationProduct(
+      tx,
+      source,
+      destinationBranchId,
+    );
+    if (match) return match.id;
+
+    const created = await tx.product.create({
+      data: {
+        name: source.name,
+        categoryId: source.categoryId,
+        unit: source.unit,
+        unitPrice: source.unitPrice,
+        costPrice: source.costPrice,
+        stock: 0,
+        minStockLevel: source.minStockLevel,
+        branchId: destinationBranchId,
+        priceHistory: [{ price: Number(source.unitPrice), date: new Date() }],
+      },
+    });
+    return created.id;
+  }
+
+  private emit(
+    action: 'dispatched' | 'received' | 'cancelled',
+    transfer: any,
+    user: TransferActor,
+    actorBranchId: string,
+  ) {
+    try {
+      const eventData = this.realtimeEventService.createEventData(
+        action,
+        'stock_transfer',
+        transfer.id,
+        transfer,
+        {
+          id: user.userId,
+          email: user.email || '',
+          role: user.role as UserRole,
+          branchId: actorBranchId,
+          branch: user.branch || '',
+        },
+      );
+      const branchIds = [transfer.sourceBranchId, transfer.destinationBranchId];
+      if (action === 'dispatched') {
+        this.realtimeEventService.emitStockTransferDispatched(
+          eventData,
+          branchIds,
+        );
+      } else if (action === 'received') {
+        this.realtimeEventService.emitStockTransferReceived(
+          eventData,
+          branchIds,
+        );
+      } else {
+        this.realtimeEventService.emitStockTransferCancelled(
+          eventData,
+          branchIds,
+        );
+      }
+    } catch {}
+  }
+}
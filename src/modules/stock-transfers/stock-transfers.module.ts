@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { StockTransfersService } from './services/stock-transfers.service';
+import { StockTransfersController } from './controllers/stock-transfers.controller';
+import { ProductsModule } from '../products/products.module';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+
+@Module({
+  imports: [ProductsModule, SystemActivityLogModule, WebSocketModule],
+  providers: [StockTransfersService],
+  controllers: [StockTransfersController],
+  exports: [StockTransfersService],
+})
+export class StockTransfersModule {}
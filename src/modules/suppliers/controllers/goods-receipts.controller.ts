@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { GoodsReceiptsService } from '../services/goods-receipts.service';
+import {
+  CreateGoodsReceiptDto,
+  QueryGoodsReceiptsDto,
+} from '../dto/goods-receipt.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('goods-receipts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class GoodsReceiptsController {
+  constructor(private readonly goodsReceiptsService: GoodsReceiptsService) {}
+
+  /**
+   * Receive goods from a supplier, optionally against a purchase order.
+   */
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async create(
+    @Body() createGoodsReceiptDto: CreateGoodsReceiptDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.goodsReceiptsService.create(
+      createGoodsReceiptDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findAll(
+    @Query() query: QueryGoodsReceiptsDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.goodsReceiptsService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.goodsReceiptsService.findById(id, req.user);
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { PurchaseOrdersService } from '../services/purchase-orders.service';
+import {
+  CancelPurchaseOrderDto,
+  CreatePurchaseOrderDto,
+  CreateReorderPurchaseOrdersDto,
+  QueryPurchaseOrdersDto,
+} from '../dto/purchase-order.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('purchase-orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PurchaseOrdersController {
+  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async create(
+    @Body() createPurchaseOrderDto: CreatePurchaseOrderDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.purchaseOrdersService.create(
+      createPurchaseOrderDto,
+      req.user,
+      device,
+    );
+  }
+
+  /**
+   * Raise DRAFT purchase orders, one per supplier, for every product due for reorder.
+   */
+  @Post('from-reorder-suggestions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async createFromReorderSuggestions(
+    @Body() createReorderPurchaseOrdersDto: CreateReorderPurchaseOrdersDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.purchaseOrdersService.createFromReorderSuggestions(
+      createReorderPurchaseOrdersDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findAll(
+    @Query() query: QueryPurchaseOrdersDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.purchaseOrdersService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.purchaseOrdersService.findById(id, req.user);
+  }
+
+  @Post(':id/submit')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async submit(@Param('id') id: string, @Request() req): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.purchaseOrdersService.submit(id, req.user, device);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelPurchaseOrderDto: CancelPurchaseOrderDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.purchaseOrdersService.cancel(
+      id,
+      cancelPurchaseOrderDto,
+      req.user,
+      device,
+    );
+  }
+}
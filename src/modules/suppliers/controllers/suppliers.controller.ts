@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { SuppliersService } from '../services/suppliers.service';
+import {
+  CreateSupplierDto,
+  CreateSupplierPaymentDto,
+  UpdateSupplierDto,
+} from '../dto/supplier.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+@Controller('suppliers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class SuppliersController {
+  constructor(private readonly suppliersService: SuppliersService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async create(
+    @Body() createSupplierDto: CreateSupplierDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.suppliersService.create(createSupplierDto, req.user, device);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findAll(
+    @Query('search') search?: string,
+    @Query('includeInactive') includeInactive?: string,
+  ): Promise<any[]> {
+    return this.suppliersService.findAll(search, includeInactive === 'true');
+  }
+
+  /**
+   * Outstanding payables: every supplier we owe money to, largest first.
+   */
+  @Get('payables')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async getPayables(): Promise<any> {
+    return this.suppliersService.getPayables();
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findOne(@Param('id') id: string): Promise<any> {
+    return this.suppliersService.findById(id);
+  }
+
+  @Get(':id/ledger')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async getLedger(
+    @Param('id') id: string,
+    @Query('startDate') startDate?: Date,
+    @Query('endDate') endDate?: Date,
+  ) {
+    return this.suppliersService.getLedger(id, startDate, endDate);
+  }
+
+  @Get(':id/payments')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
+  async findPayments(@Param('id') id: string): Promise<any[]> {
+    return this.suppliersService.findPayments(id);
+  }
+
+  @Post(':id/payments')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async recordPayment(
+    @Param('id') id: string,
+    @Body() createSupplierPaymentDto: CreateSupplierPaymentDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.suppliersService.recordPayment(
+      id,
+      createSupplierPaymentDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async update(
+    @Param('id') id: string,
+    @Body() updateSupplierDto: UpdateSupplierDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.suppliersService.update(
+      id,
+      updateSupplierDto,
+      req.user,
+      device,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN)
+  async remove(@Param('id') id: string, @Request() req): Promise<void> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.suppliersService.remove(id, req.user, device);
+  }
+}
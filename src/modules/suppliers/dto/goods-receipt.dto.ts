@@ -0,0 +1,84 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class GoodsReceiptItemDto {
+  @IsNotEmpty()
+  @IsString()
+  productId: string;
+
+  @IsNumber()
+  @IsPositive()
+  quantity: number;
+
+  /** Cost paid per unit in naira; defaults to the purchase order line cost. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  unitCost?: number;
+}
+
+export class CreateGoodsReceiptDto {
+  @IsNotEmpty()
+  @IsString()
+  supplierId: string;
+
+  @IsOptional()
+  @IsString()
+  purchaseOrderId?: string;
+
+  /** Defaults to the receiver's branch; only SUPER_ADMIN may receive into another branch. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @IsOptional()
+  @IsString()
+  supplierInvoiceNumber?: string;
+
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => GoodsReceiptItemDto)
+  items: GoodsReceiptItemDto[];
+}
+
+export class QueryGoodsReceiptsDto {
+  @IsOptional()
+  @IsString()
+  supplierId?: string;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @IsOptional()
+  @IsString()
+  purchaseOrderId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
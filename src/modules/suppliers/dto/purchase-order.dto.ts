@@ -0,0 +1,116 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PurchaseOrderStatus } from '@prisma/client';
+
+export class PurchaseOrderItemDto {
+  @IsNotEmpty()
+  @IsString()
+  productId: string;
+
+  @IsNumber()
+  @IsPositive()
+  quantity: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  unitCost: number;
+}
+
+export class CreatePurchaseOrderDto {
+  @IsNotEmpty()
+  @IsString()
+  supplierId: string;
+
+  /** Defaults to the creator's branch; only SUPER_ADMIN may order for another branch. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expectedDate?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemDto)
+  items: PurchaseOrderItemDto[];
+}
+
+/**
+ * Raises DRAFT purchase orders for the products due for reorder, one per
+ * supplier. Each product goes to the supplier it was last bought from.
+ */
+export class CreateReorderPurchaseOrdersDto {
+  /** Defaults to the creator's branch; only SUPER_ADMIN may order for another branch. */
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  /** Supplier for products that have never been received from one. */
+  @IsOptional()
+  @IsString()
+  supplierId?: string;
+
+  /** Restrict the drafts to these products. */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  productIds?: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  leadTimeDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  coverDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  lookbackDays?: number;
+}
+
+export class CancelPurchaseOrderDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class QueryPurchaseOrdersDto {
+  @IsOptional()
+  @IsEnum(PurchaseOrderStatus)
+  status?: PurchaseOrderStatus;
+
+  @IsOptional()
+  @IsString()
+  supplierId?: string;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  CreateGoodsReceiptDto,
+  QueryGoodsReceiptsDto,
+} from '../dto/goods-receipt.dto';
+import { StockMovementService } from '../../products/services/stock-movement.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { SupplierLedgerService } from './supplier-ledger.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+@Injectable()
+export class GoodsReceiptsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockMovementService: StockMovementService,
+    private readonly supplierLedgerService: SupplierLedgerService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly receiptInclude = {
+    supplierRef: { select: { id: true, name: true } },
+    purchaseOrderRef: { select: { id: true, orderNumber: true, status: true } },
+    branchRef: { select: { id: true, name: true } },
+    receivedBy: { select: { id: true, name: true } },
+    items: true,
+  };
+
+  private toDoc(receipt: any) {
+    if (!receipt) return receipt;
+    return {
+      ...MoneyUtils.fieldsToNaira(receipt, ['total']),
+      _id: receipt.id,
+      items: (receipt.items || []).map((item: any) => ({
+        ...MoneyUtils.fieldsToNaira(item, ['unitCost', 'subtotal']),
+        _id: item.id,
+      })),
+    };
+  }
+
+  async generateReceiptNumber(): Promise<string> {
+    const date = new Date();
+    const prefix = `GRN${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+
+    const result = await this.prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "Counter" (name, value) VALUES (${prefix}, 1)
+      ON CONFLICT (name) DO UPDATE SET value = "Counter".value + 1
+      RETURNING value
+    `;
+
+    const seq = Number(result[0].value);
+    return `${prefix}-${seq.toString().padStart(4, '0')}`;
+  }
+
+  /**
+   * Books goods into stock at the cost paid. Stock goes up through the
+   * movement journal, any purchase order lines are marked received, and the
+   * receipt total is added to what we owe the supplier.
+   */
+  async create(
+    dto: CreateGoodsReceiptDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    const branchId =
+      currentUser.role === UserRole.SUPER_ADMIN && dto.branchId
+        ? dto.branchId
+        : currentUser.branchId?.toString();
+    if (!branchId) throw new BadRequestException('Branch is required');
+
+    const supplier = await this.prisma.supplier.findUnique({
+      where: { id: dto.supplierId },
+    });
+    if (!supplier || !supplier.isActive) {
+      throw new BadRequestException('Supplier does not exist or is inactive');
+    }
+
+    const productIds = dto.items.map((i) => i.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'Each product can only appear once on a goods receipt',
+      );
+    }
+
+    const order = dto.purchaseOrderId
+      ? await this.prisma.purchaseOrder.findUnique({
+          where: { id: dto.purchaseOrderId },
+          include: { items: true },
+        })
+      : null;
+    if (dto.purchaseOrderId) {
+      if (!order) throw new NotFoundException('Purchase order not found');
+      if (order.supplierId !== supplier.id || order.branchId !== branchId) {
+        throw new BadRequestException(
+          `Purchase order ${order.orderNumber} belongs to a different supplier or branch`,
+        );
+      }
+      if (['DRAFT', 'RECEIVED', 'CANCELLED'].includes(order.status)) {
+        throw new BadRequestException(
+          `Purchase order ${order.orderNumber} is ${order.status} and cannot receive goods`,
+        );
+      }
+    }
+
+    const lines = await Promise.all(
+      dto.items.map(async (item) => {
+        const product = await this.prisma.product.findFirst({
+          where: { id: item.productId, branchId },
+        });
+        if (!product) {
+          throw new BadRequestException(
+            `Product ${item.productId} not found in this branch`,
+          );
+        }
+
+        const orderLine = order?.items.find(
+          (l) => l.productId === item.productId,
+        );
+        if (order && !orderLine) {
+          throw new BadRequestException(
+            `${product.name} is not on purchase order ${order.orderNumber}`,
+          );
+        }
+        if (item.unitCost === undefined && !orderLine) {
+          throw new BadRequestException(
+            `Unit cost is required for ${product.name}`,
+          );
+        }
+
+        const unitCost =
+          item.unitCost !== undefined
+            ? MoneyUtils.toKobo(item.unitCost)
+            : MoneyUtils.kobo(orderLine.unitCost);
+        return {
+          productId: product.id,
+          purchaseOrderItemId: orderLine?.id,
+          productName: product.name,
+          unit: product.unit,
+          quantity: item.quantity,
+          unitCost,
+          subtotal: MoneyUtils.multiply(unitCost, item.quantity),
+        };
+      }),
+    );
+    const total = MoneyUtils.sum(lines.map((l) => l.subtotal));
+    const date = dto.date ? new Date(dto.date) : new Date();
+    const receiptNumber = await this.generateReceiptNumber();
+
+    const receipt = await this.prisma.$transaction(async (tx) => {
+      if (order) {
+        await this.applyToPurchaseOrder(tx, order.id, lines);
+      }
+
+      const created = await tx.goodsReceipt.create({
+        data: {
+          receiptNumber,
+          supplierId: supplier.id,
+          purchaseOrderId: order?.id,
+          branchId,
+          supplierInvoiceNumber: dto.supplierInvoiceNumber,
+          total,
+          date,
+          notes: dto.notes,
+          receivedById: currentUser.userId,
+          items: { create: lines },
+        },
+      });
+
+      for (const line of lines) {
+        await this.stockMovementService.recordReceipt(tx, {
+          productId: line.productId,
+          delta: line.quantity,
+          unitCost: line.unitCost,
+          reason: 'PURCHASE',
+          goodsReceiptId: created.id,
+          actorId: currentUser.userId,
+          note: `Goods receipt ${receiptNumber} from ${supplier.name}`,
+        });
+      }
+
+      await this.supplierLedgerService.post(tx, {
+        supplierId: supplier.id,
+        entryType: 'CREDIT',
+        amount: total,
+        description: `Goods receipt ${receiptNumber}${dto.supplierInvoiceNumber ? ` (supplier invoice ${dto.supplierInvoiceNumber})` : ''}`,
+        goodsReceiptId: created.id,
+        date,
+        createdById: currentUser.userId,
+      });
+
+      return tx.goodsReceipt.findUnique({
+        where: { id: created.id },
+        include: this.receiptInclude,
+      });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'GOODS_RECEIVED',
+        details: `Goods receipt ${receiptNumber} from ${supplier.name}${order ? ` against ${order.orderNumber}` : ''} - Total: ${MoneyUtils.fromKobo(total)}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(receipt);
+  }
+
+  async findAll(
+    query: QueryGoodsReceiptsDto,
+    currentUser: any,
+  ): Promise<any[]> {
+    const where: Prisma.GoodsReceiptWhereInput = {};
+    if (query.supplierId) where.supplierId = query.supplierId;
+    if (query.purchaseOrderId) where.purchaseOrderId = query.purchaseOrderId;
+    if (GLOBAL_ROLES.includes(currentUser.role)) {
+      if (query.branchId) where.branchId = query.branchId;
+    } else {
+      where.branchId = currentUser.branchId?.toString();
+    }
+    if (query.startDate || query.endDate) {
+      where.date = {};
+      if (query.startDate) where.date.gte = new Date(query.startDate);
+      if (query.endDate) where.date.lte = new Date(query.endDate);
+    }
+
+    const receipts = await this.prisma.goodsReceipt.findMany({
+      where,
+      include: this.receiptInclude,
+      orderBy: { date: 'desc' },
+    });
+    return receipts.map((r) => this.toDoc(r));
+  }
+
+  async findById(id: string, currentUser?: any): Promise<any> {
+    const where: Prisma.GoodsReceiptWhereInput = { id };
+    if (currentUser && !GLOBAL_ROLES.includes(currentUser.role)) {
+      where.branchId = currentUser.branchId?.toString();
+    }
+
+    const receipt = await this.prisma.goodsReceipt.findFirst({
+      where,
+      include: this.receiptInclude,
+    });
+    if (!receipt) throw new NotFoundException('Goods receipt not found');
+    return this.toDoc(receipt);
+  }
+
+  /**
+   * Marks order lines as received under a lock on the order, so two receipts
+   * against the same order cannot together exceed the quantity ordered.
+   */
+  private async applyToPurchaseOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    lines: Array<{
+      purchaseOrderItemId?: string;
+      productName: string;
+      unit: string;
+      quantity: number;
+    }>,
+  ) {
+    const [locked] = await tx.$queryRaw<Array<{ status: string }>>`
+      SELECT status FROM "PurchaseOrder" WHERE id = ${orderId} FOR UPDATE
+    `;
+    if (['DRAFT', 'RECEIVED', 'CANCELLED'].includes(locked?.status)) {
+      throw new BadRequestException(
+        `Purchase order is ${locked.status} and cannot receive goods`,
+      );
+    }
+    const orderLines = await tx.purchaseOrderItem.findMany({
+      where: { purchaseOrderId: orderId },
+    });
+
+    for (const line of lines) {
+      const orderLine = orderLines.find(
+        (l) => l.id === line.purchaseOrderItemId,
+      );
+      const outstanding =
+        orderLine.quantityOrdered - orderLine.quantityReceived;
+      if (line.quantity > outstanding) {
+        throw new BadRequestException(
+          `Only ${outstanding} ${line.unit} of ${line.productName} is still outstanding on this order`,
+        );
+      }
+      orderLine.quantityReceived += line.quantity;
+      await tx.purchaseOrderItem.update({
+        where: { id: orderLine.id },
+        data: { quantityReceived: orderLine.quantityReceived },
+      });
+    }
+
+    const fullyReceived = orderLines.every(
+      (l) => l.quantityReceived >= l.quantityOrdered,
+    );
+    await tx.purchaseOrder.update({
+      where: { id: orderId },
+      data: { status: fullyReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED' },
+    });
+  }
+}
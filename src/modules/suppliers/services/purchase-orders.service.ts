@@ -0,0 +1,363 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  CancelPurchaseOrderDto,
+  CreatePurchaseOrderDto,
+  CreateReorderPurchaseOrdersDto,
+  QueryPurchaseOrdersDto,
+} from '../dto/purchase-order.dto';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  ReorderService,
+  ReorderSuggestion,
+} from '../../products/services/reorder.service';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+@Injectable()
+export class PurchaseOrdersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+    private readonly reorderService: ReorderService,
+  ) {}
+
+  private readonly orderInclude = {
+    supplierRef: { select: { id: true, name: true } },
+    branchRef: { select: { id: true, name: true } },
+    createdBy: { select: { id: true, name: true } },
+    items: true,
+    goodsReceipts: {
+      select: { id: true, receiptNumber: true, date: true, total: true },
+    },
+  };
+
+  private toDoc(order: any) {
+    if (!order) return order;
+    return {
+      ...MoneyUtils.fieldsToNaira(order, ['total']),
+      _id: order.id,
+      items: (order.items || []).map((item: any) => ({
+        ...MoneyUtils.fieldsToNaira(item, ['unitCost']),
+        _id: item.id,
+        quantityOutstanding: Math.max(
+          item.quantityOrdered - item.quantityReceived,
+          0,
+        ),
+      })),
+      goodsReceipts: (order.goodsReceipts || []).map((r: any) =>
+        MoneyUtils.fieldsToNaira(r, ['total']),
+      ),
+    };
+  }
+
+  async generateOrderNumber(): Promise<string> {
+    const date = new Date();
+    const prefix = `PO${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+
+    const result = await this.prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "Counter" (name, value) VALUES (${prefix}, 1)
+      ON CONFLICT (name) DO UPDATE SET value = "Counter".value + 1
+      RETURNING value
+    `;
+
+    const seq = Number(result[0].value);
+    return `${prefix}-${seq.toString().padStart(4, '0')}`;
+  }
+
+  async create(
+    dto: CreatePurchaseOrderDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    const branchId =
+      currentUser.role === UserRole.SUPER_ADMIN && dto.branchId
+        ? dto.branchId
+        : currentUser.branchId?.toString();
+    if (!branchId) throw new BadRequestException('Branch is required');
+
+    const supplier = await this.prisma.supplier.findUnique({
+      where: { id: dto.supplierId },
+    });
+    if (!supplier || !supplier.isActive) {
+      throw new BadRequestException('Supplier does not exist or is inactive');
+    }
+
+    const productIds = dto.items.map((i) => i.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'Each product can only appear once on a purchase order',
+      );
+    }
+
+    const items = await Promise.all(
+      dto.items.map(async (item) => {
+        const product = await this.prisma.product.findFirst({
+          where: { id: item.productId, branchId },
+        });
+        if (!product) {
+          throw new BadRequestException(
+            `Product ${item.productId} not found in this branch`,
+          );
+        }
+        return {
+          productId: product.id,
+          productName: product.name,
+          unit: product.unit,
+          quantityOrdered: item.quantity,
+          unitCost: MoneyUtils.toKobo(item.unitCost),
+        };
+      }),
+    );
+    const total = MoneyUtils.sum(
+      items.map((i) => MoneyUtils.multiply(i.unitCost, i.quantityOrdered)),
+    );
+
+    const order = await this.prisma.purchaseOrder.create({
+      data: {
+        orderNumber: await this.generateOrderNumber(),
+        supplierId: supplier.id,
+        branchId,
+        total,
+        expectedDate: dto.expectedDate ? new Date(dto.expectedDate) : null,
+        notes: dto.notes,
+        createdById: currentUser.userId,
+        items: { create: items },
+      },
+      include: this.orderInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PURCHASE_ORDER_CREATED',
+        details: `Purchase order ${order.orderNumber} raised with ${supplier.name} - Total: ${MoneyUtils.fromKobo(total)}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(order);
+  }
+
+  /**
+   * Turns the branch's current reorder suggestions into DRAFT purchase orders
+   * grouped by supplier, priced at the last unit cost paid. Products with no
+   * supplier history and no fallback `supplierId` are returned as unassigned.
+   */
+  async createFromReorderSuggestions(
+    dto: CreateReorderPurchaseOrdersDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<{ orders: any[]; unassigned: any[] }> {
+    const branchId =
+      currentUser.role === UserRole.SUPER_ADMIN && dto.branchId
+        ? dto.branchId
+        : currentUser.branchId?.toString();
+    if (!branchId) throw new BadRequestException('Branch is required');
+
+    if (dto.supplierId) {
+      const fallback = await this.prisma.supplier.findUnique({
+        where: { id: dto.supplierId },
+      });
+      if (!fallback || !fallback.isActive) {
+        throw new BadRequestException('Supplier does not exist or is inactive');
+      }
+    }
+
+    const suggestions = await this.reorderService.buildSuggestions({
+      branchId,
+      productIds: dto.productIds,
+      leadTimeDays: dto.leadTimeDays,
+      coverDays: dto.coverDays,
+      lookbackDays: dto.lookbackDays,
+    });
+
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    const unassigned: ReorderSuggestion[] = [];
+    for (const suggestion of suggestions) {
+      const supplierId = suggestion.supplier?.id || dto.supplierId;
+      if (!supplierId) {
+        unassigned.push(suggestion);
+        continue;
+      }
+      bySupplier.set(supplierId, [
+        ...(bySupplier.get(supplierId) || []),
+        suggestion,
+      ]);
+    }
+
+    const leadTimeDays = dto.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+    const expectedDate = new Date(Date.now() + leadTimeDays * 86400000);
+    const orders = [];
+    for (const [supplierId, lines] of bySupplier) {
+      const order = await this.prisma.purchaseOrder.create({
+        data: {
+          orderNumber: await this.generateOrderNumber(),
+          supplierId,
+          branchId,
+          status: 'DRAFT',
+          total: MoneyUtils.sum(lines.map((l) => l.estimatedCost)),
+          expectedDate,
+          notes: 'Raised from reorder suggestions',
+          createdById: currentUser.userId,
+          items: {
+            create: lines.map((l) => ({
+              productId: l.productId,
+              productName: l.productName,
+              unit: l.unit,
+              quantityOrdered: l.suggestedQuantity,
+              unitCost: l.unitCost,
+            })),
+          },
+        },
+        include: this.orderInclude,
+      });
+      orders.push(this.toDoc(order));
+
+      this.systemActivityLogService
+        .createLog({
+          action: 'PURCHASE_ORDER_DRAFTED',
+          details: `Draft purchase order ${order.orderNumber} raised with ${order.supplierRef.name} from reorder suggestions - ${lines.length} product(s), Total: ${MoneyUtils.fromKobo(order.total)}`,
+          performedBy: currentUser?.email || currentUser?.name || 'System',
+          role: currentUser?.role || 'SYSTEM',
+          device: device || 'System',
+          branchId,
+        })
+        .catch(() => {});
+    }
+
+    return {
+      orders,
+      unassigned: unassigned.map((s) =>
+        MoneyUtils.fieldsToNaira(s, ['unitCost', 'estimatedCost']),
+      ),
+    };
+  }
+
+  /** Confirms a DRAFT order so goods can be received against it. */
+  async submit(id: string, currentUser: any, device?: string): Promise<any> {
+    const order = await this.prisma.purchaseOrder.findUnique({ where: { id } });
+    if (!order) throw new NotFoundException('Purchase order not found');
+    if (
+      currentUser.role !== UserRole.SUPER_ADMIN &&
+      currentUser.branchId?.toString() !== order.branchId
+    ) {
+      throw new ForbiddenException(
+        'ADMIN can only submit purchase orders for their own branch',
+      );
+    }
+    if (order.status !== 'DRAFT') {
+      throw new BadRequestException(
+        `Purchase order ${order.orderNumber} is ${order.status}, not DRAFT`,
+      );
+    }
+
+    const updated = await this.prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: 'OPEN' },
+      include: this.orderInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PURCHASE_ORDER_SUBMITTED',
+        details: `Draft purchase order ${order.orderNumber} submitted to ${updated.supplierRef.name}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: order.branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(updated);
+  }
+
+  async findAll(
+    query: QueryPurchaseOrdersDto,
+    currentUser: any,
+  ): Promise<any[]> {
+    const where: Prisma.PurchaseOrderWhereInput = {};
+    if (query.status) where.status = query.status;
+    if (query.supplierId) where.supplierId = query.supplierId;
+    if (GLOBAL_ROLES.includes(currentUser.role)) {
+      if (query.branchId) where.branchId = query.branchId;
+    } else {
+      where.branchId = currentUser.branchId?.toString();
+    }
+
+    const orders = await this.prisma.purchaseOrder.findMany({
+      where,
+      include: this.orderInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return orders.map((o) => this.toDoc(o));
+  }
+
+  async findById(id: string, currentUser?: any): Promise<any> {
+    const where: Prisma.PurchaseOrderWhereInput = { id };
+    if (currentUser && !GLOBAL_ROLES.includes(currentUser.role)) {
+      where.branchId = currentUser.branchId?.toString();
+    }
+
+    const order = await this.prisma.purchaseOrder.findFirst({
+      where,
+      include: this.orderInclude,
+    });
+    if (!order) throw new NotFoundException('Purchase order not found');
+    return this.toDoc(order);
+  }
+
+  /** Closes an order that will not be (fully) delivered. Goods already received are unaffected. */
+  async cancel(
+    id: string,
+    dto: CancelPurchaseOrderDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    const order = await this.prisma.purchaseOrder.findUnique({ where: { id } });
+    if (!order) throw new NotFoundException('Purchase order not found');
+    if (
+      currentUser.role !== UserRole.SUPER_ADMIN &&
+      currentUser.branchId?.toString() !== order.branchId
+    ) {
+      throw new ForbiddenException(
+        'ADMIN can only cancel purchase orders for their own branch',
+      );
+    }
+    if (order.status === 'RECEIVED' || order.status === 'CANCELLED') {
+      throw new BadRequestException(
+        `Purchase order ${order.orderNumber} is already ${order.status}`,
+      );
+    }
+
+    const updated = await this.prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: 'CANCELLED', cancelReason: dto.reason },
+      include: this.orderInclude,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PURCHASE_ORDER_CANCELLED',
+        details: `Purchase order ${order.orderNumber} cancelled - Reason: ${dto.reason}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: order.branchId,
+      })
+      .catch(() => {});
+
+    return this.toDoc(updated);
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { LedgerEntryType } from '../../clients/services/client-ledger.service';
+
+export interface PostSupplierLedgerEntryInput {
+  supplierId: string;
+  entryType: LedgerEntryType;
+  /** Amount in kobo. */
+  amount: number;
+  description: string;
+  goodsReceiptId?: string;
+  paymentId?: string;
+  date?: Date;
+  createdById?: string;
+}
+
+/**
+ * Payables ledger. Supplier.balance is what we owe the supplier: goods
+ * received post a CREDIT (owed more), payments post a DEBIT (owed less).
+ */
+@Injectable()
+export class SupplierLedgerService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private toDoc(entry: any) {
+    if (!entry) return entry;
+    return {
+      ...MoneyUtils.fieldsToNaira(entry, ['amount', 'runningBalance']),
+      _id: entry.id,
+    };
+  }
+
+  /**
+   * Appends an entry inside the caller's transaction, serialised per supplier
+   * by locking the supplier row, and refreshes Supplier.balance.
+   */
+  async post(
+    tx: Prisma.TransactionClient,
+    input: PostSupplierLedgerEntryInput,
+  ): Promise<any> {
+    await tx.$queryRaw`SELECT id FROM "Supplier" WHERE id = ${input.supplierId} FOR UPDATE`;
+
+    const last = await tx.supplierLedgerEntry.findFirst({
+      where: { supplierId: input.supplierId },
+      orderBy: { sequence: 'desc' },
+    });
+    const previousBalance = MoneyUtils.kobo(last?.runningBalance);
+    const runningBalance =
+      input.entryType === 'CREDIT'
+        ? previousBalance + input.amount
+        : previousBalance - input.amount;
+
+    const entry = await tx.supplierLedgerEntry.create({
+      data: {
+        supplierId: input.supplierId,
+        goodsReceiptId: input.goodsReceiptId,
+        paymentId: input.paymentId,
+        entryType: input.entryType,
+        amount: input.amount,
+        runningBalance,
+        description: input.description,
+        date: input.date || new Date(),
+        createdById: input.createdById,
+      },
+    });
+
+    await tx.supplier.update({
+      where: { id: input.supplierId },
+      data: { balance: runningBalance },
+    });
+
+    return entry;
+  }
+
+  async getLedger(
+    supplierId: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<any> {
+    const supplier = await this.prisma.supplier.findUnique({
+      where: { id: supplierId },
+    });
+    if (!supplier) throw new NotFoundException('Supplier not found');
+
+    const where: any = { supplierId };
+    if (startDate || endDate) {
+      where.date = {};
+      if (startDate) where.date.gte = startDate;
+      if (endDate) where.date.lte = endDate;
+    }
+
+    const entries = await this.prisma.supplierLedgerEntry.findMany({
+      where,
+      include: {
+        goodsReceiptRef: { select: { id: true, receiptNumber: true } },
+        paymentRef: {
+          select: { id: true, paymentMethod: true, reference: true },
+        },
+        createdBy: { select: { id: true, name: true } },
+      },
+      orderBy: { sequence: 'asc' },
+    });
+
+    const first = entries[0];
+    const openingBalance = first
+      ? first.entryType === 'CREDIT'
+        ? MoneyUtils.kobo(first.runningBalance) - MoneyUtils.kobo(first.amount)
+        : MoneyUtils.kobo(first.runningBalance) + MoneyUtils.kobo(first.amount)
+      : MoneyUtils.kobo(supplier.balance);
+    const closingBalance = entries.length
+      ? MoneyUtils.kobo(entries[entries.length - 1].runningBalance)
+      : openingBalance;
+
+    return {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      openingBalance: MoneyUtils.fromKobo(openingBalance),
+      closingBalance: MoneyUtils.fromKobo(closingBalance),
+      currentBalance: MoneyUtils.fromKobo(supplier.balance),
+      entries: entries.map((e) => this.toDoc(e)),
+    };
+  }
+}
@@ -0,0 +1,244 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  CreateSupplierDto,
+  CreateSupplierPaymentDto,
+  UpdateSupplierDto,
+} from '../dto/supplier.dto';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { SupplierLedgerService } from './supplier-ledger.service';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+
+@Injectable()
+export class SuppliersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+    private readonly supplierLedgerService: SupplierLedgerService,
+  ) {}
+
+  private toDoc(supplier: any) {
+    if (!supplier) return supplier;
+    return {
+      ...MoneyUtils.fieldsToNaira(supplier, ['balance']),
+      _id: supplier.id,
+    };
+  }
+
+  async create(
+    createSupplierDto: CreateSupplierDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    const existing = await this.prisma.supplier.findUnique({
+      where: { name: createSupplierDto.name },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `A supplier named "${createSupplierDto.name}" already exists`,
+      );
+    }
+
+    const { openingBalance, ...details } = createSupplierDto;
+    const opening = MoneyUtils.toKobo(openingBalance);
+
+    const supplier = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.supplier.create({ data: details });
+      if (opening === 0) return created;
+
+      await this.supplierLedgerService.post(tx, {
+        supplierId: created.id,
+        entryType: opening > 0 ? 'CREDIT' : 'DEBIT',
+        amount: Math.abs(opening),
+        description: 'Opening balance',
+        createdById: currentUser?.userId,
+      });
+      return tx.supplier.findUniqueOrThrow({ where: { id: created.id } });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'SUPPLIER_CREATED',
+        details: `Supplier created: ${supplier.name}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(supplier);
+  }
+
+  async findAll(search?: string, includeInactive = false): Promise<any[]> {
+    const where: any = includeInactive ? {} : { isActive: true };
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search, mode: 'insensitive' } },
+        { contactPerson: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const suppliers = await this.prisma.supplier.findMany({
+      where,
+      orderBy: { name: 'asc' },
+    });
+    return suppliers.map((s) => this.toDoc(s));
+  }
+
+  async findById(id: string): Promise<any> {
+    const supplier = await this.prisma.supplier.findUnique({ where: { id } });
+    if (!supplier) throw new NotFoundException('Supplier not found');
+    return this.toDoc(supplier);
+  }
+
+  async update(
+    id: string,
+    updateSupplierDto: UpdateSupplierDto,
+    currentUser?: any,
+    device?: string,
+  ): Promise<any> {
+    await this.findById(id);
+
+    if (updateSupplierDto.name) {
+      const existing = await this.prisma.supplier.findFirst({
+        where: { name: updateSupplierDto.name, NOT: { id } },
+      });
+      if (existing) {
+        throw new ConflictException(
+          `A supplier named "${updateSupplierDto.name}" already exists`,
+        );
+      }
+    }
+
+    const supplier = await this.prisma.supplier.update({
+      where: { id },
+      data: updateSupplierDto,
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'SUPPLIER_UPDATED',
+        details: `Supplier updated: ${supplier.name} - Changes: ${Object.keys(updateSupplierDto).join(', ')}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.toDoc(supplier);
+  }
+
+  async remove(id: string, currentUser?: any, device?: string): Promise<void> {
+    const supplier = await this.findById(id);
+
+    await this.prisma.supplier.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'SUPPLIER_DEACTIVATED',
+        details: `Supplier deactivated: ${supplier.name}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+  }
+
+  /** Records money paid to a supplier and reduces what we owe them. */
+  async recordPayment(
+    id: string,
+    dto: CreateSupplierPaymentDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    const supplier = await this.findById(id);
+    const amount = MoneyUtils.toKobo(dto.amount);
+    const date = dto.date ? new Date(dto.date) : new Date();
+
+    const payment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.supplierPayment.create({
+        data: {
+          supplierId: id,
+          amount,
+          paymentMethod: dto.paymentMethod,
+          reference: dto.reference,
+          notes: dto.notes,
+          date,
+          createdById: currentUser.userId,
+        },
+      });
+
+      await this.supplierLedgerService.post(tx, {
+        supplierId: id,
+        entryType: 'DEBIT',
+        amount,
+        description: `Payment${dto.reference ? ` ${dto.reference}` : ''}${dto.paymentMethod ? ` by ${dto.paymentMethod}` : ''}`,
+        paymentId: created.id,
+        date,
+        createdById: currentUser.userId,
+      });
+
+      return created;
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'SUPPLIER_PAYMENT_RECORDED',
+        details: `Payment of ${dto.amount} recorded for supplier ${supplier.name}`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: currentUser?.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return {
+      ...MoneyUtils.fieldsToNaira(payment, ['amount']),
+      _id: payment.id,
+      supplier: await this.findById(id),
+    };
+  }
+
+  async findPayments(id: string): Promise<any[]> {
+    await this.findById(id);
+    const payments = await this.prisma.supplierPayment.findMany({
+      where: { supplierId: id },
+      include: { createdBy: { select: { id: true, name: true } } },
+      orderBy: { date: 'desc' },
+    });
+    return payments.map((p) => ({
+      ...MoneyUtils.fieldsToNaira(p, ['amount']),
+      _id: p.id,
+    }));
+  }
+
+  async getLedger(id: string, startDate?: Date, endDate?: Date): Promise<any> {
+    return this.supplierLedgerService.getLedger(id, startDate, endDate);
+  }
+
+  /** Suppliers we currently owe, largest balance first, with the total payable. */
+  async getPayables(): Promise<any> {
+    const suppliers = await this.prisma.supplier.findMany({
+      where: { balance: { gt: 0 } },
+      orderBy: { balance: 'desc' },
+    });
+
+    return {
+      totalPayable: MoneyUtils.fromKobo(
+        MoneyUtils.sum(suppliers.map((s) => s.balance)),
+      ),
+      suppliers: suppliers.map((s) => this.toDoc(s)),
+    };
+  }
+}
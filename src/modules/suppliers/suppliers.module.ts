@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { SuppliersService } from './services/suppliers.service';
+import { SupplierLedgerService } from './services/supplier-ledger.service';
+import { PurchaseOrdersService } from './services/purchase-orders.service';
+import { GoodsReceiptsService } from './services/goods-receipts.service';
+import { SuppliersController } from './controllers/suppliers.controller';
+import { PurchaseOrdersController } from './controllers/purchase-orders.controller';
+import { GoodsReceiptsController } from './controllers/goods-receipts.controller';
+import { ProductsModule } from '../products/products.module';
+import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
+
+@Module({
+  imports: [ProductsModule, SystemActivityLogModule],
+  providers: [
+    SuppliersService,
+    SupplierLedgerService,
+    PurchaseOrdersService,
+    GoodsReceiptsService,
+  ],
+  controllers: [
+    SuppliersController,
+    PurchaseOrdersController,
+    GoodsReceiptsController,
+  ],
+  exports: [SuppliersService, SupplierLedgerService, GoodsReceiptsService],
+})
+export class SuppliersModule {}
@@ -5,6 +5,7 @@ import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { Roles } from '../../../decorators/roles.decorators';
 import { UserRole } from '../../../common/enums';
+import { Exportable } from '../../../decorators/exportable.decorator';
 
 @Controller('system-activity-logs')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -21,9 +22,10 @@ export class SystemActivityLogController {
     return this.systemActivityLogService.createLog(createSystemActivityLogDto);
   }
 
- @Get()
-@Roles(UserRole.MAINTAINER, UserRole.SUPER_ADMIN, UserRole.ADMIN)
-async getAllLogs(): Promise<any[]> {
-  return this.systemActivityLogService.getLogs();
-}
+  @Get()
+  @Roles(UserRole.MAINTAINER, UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @Exportable('system-activity-logs')
+  async getAllLogs(): Promise<any[]> {
+    return this.systemActivityLogService.getLogs();
+  }
 }
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { SystemActivityLogService } from './services/system-activity-log.service';
 import { SystemActivityLogController } from './controllers/system-activity-log.controller';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
 
 @Module({
+  imports: [ColumnSettingsModule],
   controllers: [SystemActivityLogController],
   providers: [SystemActivityLogService],
   exports: [SystemActivityLogService],
@@ -0,0 +1,24 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { PaymentsService } from '../services/payments.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+/** Serves GET /clients/:id/outstanding-invoices alongside the clients routes. */
+@Controller('clients')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ClientInvoicesController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Get(':id/outstanding-invoices')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getOutstandingInvoices(@Param('id') id: string): Promise<any> {
+    return this.paymentsService.getOutstandingInvoices(id);
+  }
+}
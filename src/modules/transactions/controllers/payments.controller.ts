@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { PaymentsService } from '../services/payments.service';
+import { AllocatePaymentDto, QueryPaymentsDto } from '../dto/payment.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { UserRole } from '../../../common/enums';
+import { Roles } from 'src/decorators/roles.decorators';
+
+/**
+ * Payments are created by DEPOSIT transactions (POST /transactions); these
+ * routes list them and allocate whatever is still on account.
+ */
+@Controller('payments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Get()
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findAll(
+    @Query() query: QueryPaymentsDto,
+    @Request() req,
+  ): Promise<any[]> {
+    return this.paymentsService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async findOne(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.paymentsService.findById(id, req.user);
+  }
+
+  @Post(':id/allocations')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async allocate(
+    @Param('id') id: string,
+    @Body() allocatePaymentDto: AllocatePaymentDto,
+    @Request() req,
+  ): Promise<any> {
+    const device = extractDeviceInfo(req.get('user-agent'));
+    return this.paymentsService.allocateRemaining(
+      id,
+      allocatePaymentDto,
+      req.user,
+      device,
+    );
+  }
+}
@@ -8,25 +8,39 @@ import {
   Query,
   UseGuards,
   Request,
+  Response,
   BadRequestException,
+  StreamableFile,
 } from '@nestjs/common';
 import { Type } from 'class-transformer';
 import { TransactionsService } from '../services/transactions.service';
+import { TransactionVoidService } from '../services/transaction-void.service';
+import { TransactionDocumentsService } from '../services/transaction-documents.service';
 import {
   CreateTransactionDto,
   UpdateTransactionDto,
   QueryTransactionsDto,
   CalculateTransactionDto,
 } from '../dto/transaction.dto';
+import {
+  VoidTransactionDto,
+  ReviewVoidRequestDto,
+  QueryVoidRequestsDto,
+} from '../dto/void-transaction.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { UserRole } from '../../../common/enums';
 import { Roles } from 'src/decorators/roles.decorators';
+import { Exportable } from 'src/decorators/exportable.decorator';
 
 @Controller('transactions')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class TransactionsController {
-  constructor(private readonly transactionsService: TransactionsService) {}
+  constructor(
+    private readonly transactionsService: TransactionsService,
+    private readonly transactionVoidService: TransactionVoidService,
+    private readonly transactionDocumentsService: TransactionDocumentsService,
+  ) {}
 
 
   /**
@@ -100,6 +114,7 @@ export class TransactionsController {
     UserRole.MAINTAINER,
     UserRole.STAFF,
   )
+  @Exportable('transactions')
   async findAll(@Query() query: QueryTransactionsDto): Promise<any[]> {
     return this.transactionsService.findAll(query);
   }
@@ -167,6 +182,123 @@ async findByBranch(
 
 
 
+  @Get('void-requests')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async findVoidRequests(
+    @Query() query: QueryVoidRequestsDto,
+    @Request() req,
+  ): Promise<any[]> {
+    // ADMIN only sees requests raised in their own branch
+    if (req.user.role === UserRole.ADMIN) {
+      query.branchId = req.user.branchId?.toString();
+    }
+    return this.transactionVoidService.findRequests(query);
+  }
+
+  /**
+   * Printable invoice (PDF) on the branch letterhead
+   */
+  @Get(':id/invoice.pdf')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getInvoicePdf(
+    @Param('id') id: string,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } =
+      await this.transactionDocumentsService.renderInvoice(id, req.user);
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
+  /**
+   * Printable waybill (PDF): goods and quantities only, no prices
+   */
+  @Get(':id/waybill.pdf')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getWaybillPdf(
+    @Param('id') id: string,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } =
+      await this.transactionDocumentsService.renderWaybill(id, req.user);
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
+  /**
+   * Thermal receipt as plain text, at the branch's receipt width
+   */
+  @Get(':id/receipt.txt')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getReceiptText(
+    @Param('id') id: string,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } =
+      await this.transactionDocumentsService.renderReceipt(
+        id,
+        'text',
+        req.user,
+      );
+    res.set({
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Disposition': `inline; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
+  /**
+   * Thermal receipt as raw ESC/POS bytes, ready to send to the printer
+   */
+  @Get(':id/receipt.escpos')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getReceiptEscPos(
+    @Param('id') id: string,
+    @Request() req,
+    @Response({ passthrough: true }) res,
+  ): Promise<StreamableFile> {
+    const { filename, buffer } =
+      await this.transactionDocumentsService.renderReceipt(
+        id,
+        'escpos',
+        req.user,
+      );
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    return new StreamableFile(buffer);
+  }
+
   @Get(':id')
   @Roles(
     UserRole.SUPER_ADMIN,
@@ -195,6 +327,70 @@ async findByBranch(
     return this.transactionsService.update(id, updateTransactionDto, currentUser, userAgent);
   }
 
+  /**
+   * Request a void. Admin requests are applied immediately; others await approval.
+   */
+  @Post(':id/void')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async voidTransaction(
+    @Param('id') id: string,
+    @Body() voidTransactionDto: VoidTransactionDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.transactionVoidService.requestVoid(
+      id,
+      voidTransactionDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Get(':id/void')
+  @Roles(
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.MAINTAINER,
+    UserRole.STAFF,
+  )
+  async getVoidRequest(@Param('id') id: string, @Request() req): Promise<any> {
+    return this.transactionVoidService.findRequest(id, req.user);
+  }
+
+  @Post(':id/void/approve')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async approveVoid(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewVoidRequestDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.transactionVoidService.approve(
+      id,
+      reviewDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Post(':id/void/reject')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async rejectVoid(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewVoidRequestDto,
+    @Request() req,
+  ): Promise<any> {
+    return this.transactionVoidService.reject(
+      id,
+      reviewDto,
+      req.user,
+      req.headers['user-agent'],
+    );
+  }
+
   @Get('reports/sales')
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MAINTAINER)
   async getSalesReport(
@@ -224,6 +420,7 @@ async findByBranch(
   // Revenue Analytics Endpoints
   @Get('revenue/total')
   @Roles(UserRole.SUPER_ADMIN, UserRole.MAINTAINER, UserRole.ADMIN)
+  @Exportable('revenue-total')
   async getTotalRevenue(
     @Request() req,
     @Query('branchId') branchId?: string,
@@ -245,6 +442,7 @@ async findByBranch(
 
   @Get('revenue/daily')
   @Roles(UserRole.SUPER_ADMIN, UserRole.MAINTAINER, UserRole.ADMIN)
+  @Exportable('revenue-daily', 'breakdown')
   async getDailyRevenue(
     @Request() req,
     @Query('branchId') branchId?: string,
@@ -269,6 +467,7 @@ async findByBranch(
 
   @Get('revenue/monthly')
   @Roles(UserRole.SUPER_ADMIN, UserRole.MAINTAINER, UserRole.ADMIN)
+  @Exportable('revenue-monthly', 'breakdown')
   async getMonthlyRevenue(
     @Request() req,
     @Query('branchId') branchId?: string,
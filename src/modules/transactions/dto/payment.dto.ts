@@ -0,0 +1,40 @@
+import {
+  IsArray,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PaymentAllocationDto {
+  /** The PURCHASE or WHOLESALE invoice being paid. */
+  @IsNotEmpty()
+  @IsString()
+  transactionId: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+}
+
+export class AllocatePaymentDto {
+  /** Omit to settle the client's oldest outstanding invoices first. */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PaymentAllocationDto)
+  allocations?: PaymentAllocationDto[];
+}
+
+export class QueryPaymentsDto {
+  @IsOptional()
+  @IsString()
+  clientId?: string;
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
@@ -12,17 +12,35 @@ import {
   IsInt,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { PaymentMethod } from '@prisma/client';
+import { PriceOverrideDto } from '../../price-lists/dto/price-list.dto';
+import { CreditOverrideDto } from '../../clients/dto/client.dto';
+import { PaymentAllocationDto } from './payment.dto';
 
 export class ExtraChargeDto {
   @IsString()
   @IsNotEmpty()
   name: string;
 
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   amount: number;
 }
 
+export class TenderDto {
+  @IsEnum(PaymentMethod)
+  method: PaymentMethod;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  /** Transfer reference or POS slip number. */
+  @IsOptional()
+  @IsString()
+  reference?: string;
+}
+
 export class WalkInClientDto {
   @IsString()
   name: string;
@@ -48,17 +66,17 @@ export class TransactionItemDto {
   unit: string;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   discount?: number;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   unitPrice?: number;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   wholesalePrice?: number;
 }
@@ -93,7 +111,7 @@ export class CreateTransactionDto {
   type: TransactionType;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   discount?: number;
 
@@ -113,7 +131,7 @@ export class CreateTransactionDto {
   loading?: number;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   amountPaid?: number;
 
@@ -121,6 +139,13 @@ export class CreateTransactionDto {
   @IsString()
   paymentMethod?: string;
 
+  // How amountPaid was tendered, e.g. part cash, part POS. Must add up to amountPaid.
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TenderDto)
+  tenders?: TenderDto[];
+
   @IsString()
   branchId: string;
 
@@ -144,7 +169,7 @@ export class CreateTransactionDto {
   reason?: string;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   actualAmountReturned?: number;
 
@@ -161,6 +186,25 @@ export class CreateTransactionDto {
   @IsOptional()
   @IsString()
   waybillNumber?: string;
+
+  // Approver credentials, required when a STAFF/MAINTAINER sells below the client's list price
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PriceOverrideDto)
+  priceOverride?: PriceOverrideDto;
+
+  // Required when a sale on credit exceeds the client's limit or the client is on credit hold
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CreditOverrideDto)
+  creditOverride?: CreditOverrideDto;
+
+  // DEPOSIT only: invoices to settle with this payment. Omit to settle the oldest first.
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PaymentAllocationDto)
+  allocations?: PaymentAllocationDto[];
 }
 
 export class UpdateTransactionDto {
@@ -180,7 +224,7 @@ export class UpdateTransactionDto {
   loading?: number;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   amountPaid?: number;
 
@@ -188,6 +232,13 @@ export class UpdateTransactionDto {
   @IsString()
   paymentMethod?: string;
 
+  // How amountPaid was tendered, e.g. part cash, part POS. Must add up to amountPaid.
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TenderDto)
+  tenders?: TenderDto[];
+
   @IsOptional()
   @IsBoolean()
   isPickedUp?: boolean;
@@ -231,7 +282,7 @@ export class CalculateTransactionDto {
   type: TransactionType;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   discount?: number;
 
@@ -251,7 +302,7 @@ export class CalculateTransactionDto {
   loading?: number;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   amountPaid?: number;
 
@@ -0,0 +1,23 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class VoidTransactionDto {
+  @IsNotEmpty()
+  @IsString()
+  reason: string;
+}
+
+export class ReviewVoidRequestDto {
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class QueryVoidRequestsDto {
+  @IsOptional()
+  @IsEnum(['PENDING', 'APPROVED', 'REJECTED'])
+  status?: 'PENDING' | 'APPROVED' | 'REJECTED';
+
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
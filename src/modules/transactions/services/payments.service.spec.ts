@@ -0,0 +1,195 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { PaymentsService } from './payments.service';
+
+const invoice = (id: string, total: number, amountPaid = 0) => ({
+  id,
+  invoiceNumber: `INV-${id}`,
+  total: BigInt(total),
+  amountPaid: BigInt(amountPaid),
+  status: 'PENDING',
+});
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let tx: any;
+
+  const record = (amount: number, allocations?: any[]) =>
+    service.record(tx, {
+      clientId: 'c1',
+      transactionId: 'dep1',
+      amount,
+      allocations,
+      createdById: 'u1',
+    });
+
+  beforeEach(async () => {
+    tx = {
+      payment: {
+        create: jest.fn(({ data }) =>
+          Promise.resolve({ id: 'pay1', allocatedAmount: BigInt(0), ...data }),
+        ),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      paymentAllocation: { create: jest.fn().mockResolvedValue({}) },
+      transaction: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PrismaService, useValue: {} },
+        {
+          provide: SystemActivityLogService,
+          useValue: { createLog: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PaymentsService);
+  });
+
+  describe('invoiceStatus', () => {
+    it('is COMPLETED only once the total is paid', () => {
+      expect(PaymentsService.invoiceStatus(BigInt(1000), BigInt(999))).toBe(
+        'PENDING',
+      );
+      expect(PaymentsService.invoiceStatus(BigInt(1000), BigInt(1000))).toBe(
+        'COMPLETED',
+      );
+    });
+  });
+
+  describe('record', () => {
+    it('pays the oldest outstanding invoices first', async () => {
+      tx.transaction.findMany.mockResolvedValue([
+        invoice('a', 10000, 4000),
+        invoice('b', 8000),
+        invoice('c', 5000),
+      ]);
+
+      await record(10000);
+
+      expect(tx.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            clientId: 'c1',
+            type: { in: ['PURCHASE', 'WHOLESALE'] },
+            status: { not: 'CANCELLED' },
+          },
+          orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+        }),
+      );
+      expect(
+        tx.paymentAllocation.create.mock.calls.map(([a]) => [
+          a.data.transactionId,
+          a.data.amount,
+        ]),
+      ).toEqual([
+        ['a', 6000],
+        ['b', 4000],
+      ]);
+      expect(tx.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'a' },
+        data: { amountPaid: 10000, status: 'COMPLETED' },
+      });
+      expect(tx.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'b' },
+        data: { amountPaid: 4000, status: 'PENDING' },
+      });
+      expect(tx.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay1' },
+        data: { allocatedAmount: { increment: 10000 } },
+      });
+    });
+
+    it('leaves whatever exceeds the outstanding invoices on account', async () => {
+      tx.transaction.findMany.mockResolvedValue([
+        invoice('a', 3000),
+        invoice('paid', 2000, 2000),
+      ]);
+
+      await record(5000);
+
+      expect(tx.paymentAllocation.create).toHaveBeenCalledTimes(1);
+      expect(tx.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay1' },
+        data: { allocatedAmount: { increment: 3000 } },
+      });
+    });
+
+    it('does not touch the payment when nothing is outstanding', async () => {
+      await record(5000);
+
+      expect(tx.paymentAllocation.create).not.toHaveBeenCalled();
+      expect(tx.payment.update).not.toHaveBeenCalled();
+    });
+
+    it('applies requested allocations in naira to the named invoices', async () => {
+      tx.transaction.findMany.mockResolvedValue([
+        invoice('a', 10000),
+        invoice('b', 8000),
+      ]);
+
+      await record(10000, [{ transactionId: 'b', amount: 80 }]);
+
+      expect(tx.paymentAllocation.create).toHaveBeenCalledTimes(1);
+      expect(tx.paymentAllocation.create).toHaveBeenCalledWith({
+        data: {
+          paymentId: 'pay1',
+          transactionId: 'b',
+          amount: 8000,
+          createdById: 'u1',
+        },
+      });
+      expect(tx.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'b' },
+        data: { amountPaid: 8000, status: 'COMPLETED' },
+      });
+    });
+
+    it('accumulates repeated allocations to the same invoice', async () => {
+      tx.transaction.findMany.mockResolvedValue([invoice('a', 10000, 1000)]);
+
+      await record(5000, [
+        { transactionId: 'a', amount: 20 },
+        { transactionId: 'a', amount: 30 },
+      ]);
+
+      expect(tx.transaction.update).toHaveBeenLastCalledWith({
+        where: { id: 'a' },
+        data: { amountPaid: 6000, status: 'PENDING' },
+      });
+    });
+
+    it('rejects allocations larger than the payment', async () => {
+      tx.transaction.findMany.mockResolvedValue([invoice('a', 10000)]);
+
+      await expect(
+        record(5000, [{ transactionId: 'a', amount: 60 }]),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(tx.paymentAllocation.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects allocating more than an invoice has outstanding', async () => {
+      tx.transaction.findMany.mockResolvedValue([invoice('a', 10000, 8000)]);
+
+      await expect(
+        record(5000, [{ transactionId: 'a', amount: 30 }]),
+      ).rejects.toThrow('only 20 is outstanding');
+    });
+
+    it('rejects an invoice that is not outstanding for the client', async () => {
+      tx.transaction.findMany.mockResolvedValue([invoice('a', 10000)]);
+
+      await expect(
+        record(5000, [{ transactionId: 'other', amount: 10 }]),
+      ).rejects.toThrow('is not an outstanding invoice of this client');
+    });
+  });
+});
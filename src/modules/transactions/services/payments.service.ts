@@ -0,0 +1,417 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma, TransactionStatus, TransactionType } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { UserRole } from '../../../common/enums';
+import { KoboValue, MoneyUtils } from '../../../common/utils/money.utils';
+import {
+  AllocatePaymentDto,
+  PaymentAllocationDto,
+  QueryPaymentsDto,
+} from '../dto/payment.dto';
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+const INVOICE_TYPES: TransactionType[] = ['PURCHASE', 'WHOLESALE'];
+
+export interface RecordPaymentInput {
+  clientId: string;
+  /** The DEPOSIT transaction the money came in on. */
+  transactionId: string;
+  /** Amount in kobo. */
+  amount: number;
+  allocations?: PaymentAllocationDto[];
+  createdById?: string;
+}
+
+/**
+ * Payments are the money a client hands over on a DEPOSIT, split across
+ * their outstanding PURCHASE/WHOLESALE invoices. Each allocation raises the
+ * invoice's amountPaid; an invoice is PENDING while anything is owed on it
+ * and COMPLETED once settled. Whatever is not allocated stays on account.
+ */
+@Injectable()
+export class PaymentsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+  ) {}
+
+  private readonly paymentInclude = {
+    transactionRef: {
+      select: {
+        id: true,
+        invoiceNumber: true,
+        date: true,
+        paymentMethod: true,
+        notes: true,
+        status: true,
+        branchId: true,
+      },
+    },
+    clientRef: { select: { id: true, name: true, phone: true } },
+    allocations: {
+      include: {
+        transactionRef: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            date: true,
+            total: true,
+            amountPaid: true,
+            status: true,
+          },
+        },
+        createdBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' as const },
+    },
+  };
+
+  static invoiceStatus(
+    total: KoboValue,
+    amountPaid: KoboValue,
+  ): TransactionStatus {
+    return MoneyUtils.kobo(amountPaid) >= MoneyUtils.kobo(total)
+      ? 'COMPLETED'
+      : 'PENDING';
+  }
+
+  private toDoc(payment: any) {
+    if (!payment) return payment;
+    return {
+      ...MoneyUtils.fieldsToNaira(payment, ['amount', 'allocatedAmount']),
+      _id: payment.id,
+      unallocatedAmount: MoneyUtils.fromKobo(
+        MoneyUtils.kobo(payment.amount) -
+          MoneyUtils.kobo(payment.allocatedAmount),
+      ),
+      allocations: (payment.allocations || []).map((a: any) => ({
+        ...MoneyUtils.fieldsToNaira(a, ['amount']),
+        _id: a.id,
+        transactionRef: a.transactionRef
+          ? MoneyUtils.fieldsToNaira(a.transactionRef, ['total', 'amountPaid'])
+          : a.transactionRef,
+      })),
+    };
+  }
+
+  /**
+   * Records the payment behind a DEPOSIT and allocates it, inside the
+   * caller's transaction. Call after the deposit has been posted to the
+   * ledger, which holds the lock on the client row.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    input: RecordPaymentInput,
+  ): Promise<void> {
+    const payment = await tx.payment.create({
+      data: {
+        transactionId: input.transactionId,
+        clientId: input.clientId,
+        amount: input.amount,
+      },
+    });
+    await this.allocate(tx, payment, input.allocations, input.createdById);
+  }
+
+  /** Allocates whatever of a payment is still on account. */
+  async allocateRemaining(
+    id: string,
+    dto: AllocatePaymentDto,
+    currentUser: any,
+    device?: string,
+  ): Promise<any> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id },
+      include: { transactionRef: true },
+    });
+    if (!payment) throw new NotFoundException('Payment not found');
+    this.assertBranchAccess(payment.transactionRef.branchId, currentUser);
+    if (payment.transactionRef.status === 'CANCELLED') {
+      throw new BadRequestException(
+        `Deposit ${payment.transactionRef.invoiceNumber} has been voided`,
+      );
+    }
+
+    const allocated = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "Client" WHERE id = ${payment.clientId} FOR UPDATE`;
+      const current = await tx.payment.findUnique({ where: { id } });
+      return this.allocate(tx, current, dto.allocations, currentUser.userId);
+    });
+    if (allocated === 0) {
+      throw new BadRequestException(
+        'Nothing was allocated: the payment is fully allocated or the client has no outstanding invoices',
+      );
+    }
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'PAYMENT_ALLOCATED',
+        details: `${MoneyUtils.fromKobo(allocated)} of deposit ${payment.transactionRef.invoiceNumber} allocated to outstanding invoices`,
+        performedBy: currentUser?.email || currentUser?.name || 'System',
+        role: currentUser?.role || 'SYSTEM',
+        device: device || 'System',
+        branchId: payment.transactionRef.branchId,
+      })
+      .catch(() => {});
+
+    return this.findById(id);
+  }
+
+  async findAll(query: QueryPaymentsDto, currentUser: any): Promise<any[]> {
+    const where: Prisma.PaymentWhereInput = {};
+    if (query.clientId) where.clientId = query.clientId;
+    if (GLOBAL_ROLES.includes(currentUser.role)) {
+      if (query.branchId) where.transactionRef = { branchId: query.branchId };
+    } else {
+      where.transactionRef = { branchId: currentUser.branchId?.toString() };
+    }
+
+    const payments = await this.prisma.payment.findMany({
+      where,
+      include: this.paymentInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return payments.map((p) => this.toDoc(p));
+  }
+
+  async findById(id: string, currentUser?: any): Promise<any> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id },
+      include: this.paymentInclude,
+    });
+    if (!payment) throw new NotFoundException('Payment not found');
+    if (currentUser) {
+      this.assertBranchAccess(payment.transactionRef.branchId, currentUser);
+    }
+    return this.toDoc(payment);
+  }
+
+  /** What the client still owes on each invoice, oldest first. */
+  async getOutstandingInvoices(clientId: string): Promise<any> {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+
+    const invoices = await this.outstandingInvoices(this.prisma, clientId);
+    const payments = await this.prisma.payment.findMany({
+      where: { clientId, transactionRef: { status: { not: 'CANCELLED' } } },
+    });
+    const unallocated = MoneyUtils.sum(
+      payments.map(
+        (p) => MoneyUtils.kobo(p.amount) - MoneyUtils.kobo(p.allocatedAmount),
+      ),
+    );
+    const now = Date.now();
+
+    return {
+      clientId: client.id,
+      clientName: client.name,
+      balance: MoneyUtils.fromKobo(client.balance),
+      totalOutstanding: MoneyUtils.fromKobo(
+        MoneyUtils.sum(invoices.map((i) => i.outstanding)),
+      ),
+      unallocatedCredit: MoneyUtils.fromKobo(unallocated),
+      invoices: invoices.map(({ invoice, outstanding }) => {
+        const date = invoice.date || invoice.createdAt;
+        return {
+          id: invoice.id,
+          _id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          waybillNumber: invoice.waybillNumber,
+          type: invoice.type,
+          status: invoice.status,
+          date,
+          daysOutstanding: Math.floor(
+            (now - new Date(date).getTime()) / 86400000,
+          ),
+          total: MoneyUtils.fromKobo(invoice.total),
+          amountPaid: MoneyUtils.fromKobo(invoice.amountPaid),
+          outstanding: MoneyUtils.fromKobo(outstanding),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Undoes a voided transaction's allocations inside the caller's
+   * transaction. A voided invoice hands its allocations back to the payments
+   * that made them; a voided deposit takes its allocations back off the
+   * invoices it paid.
+   */
+  async releaseVoidedTransaction(
+    tx: Prisma.TransactionClient,
+    transactionId: string,
+  ): Promise<void> {
+    const onInvoice = await tx.paymentAllocation.findMany({
+      where: { transactionId },
+    });
+    for (const allocation of onInvoice) {
+      await tx.payment.update({
+        where: { id: allocation.paymentId },
+        data: {
+          allocatedAmount: { decrement: MoneyUtils.kobo(allocation.amount) },
+        },
+      });
+    }
+    await tx.paymentAllocation.deleteMany({ where: { transactionId } });
+
+    const payment = await tx.payment.findUnique({
+      where: { transactionId },
+      include: { allocations: { include: { transactionRef: true } } },
+    });
+    if (!payment || payment.allocations.length === 0) return;
+
+    for (const allocation of payment.allocations) {
+      const invoice = allocation.transactionRef;
+      const amountPaid =
+        MoneyUtils.kobo(invoice.amountPaid) -
+        MoneyUtils.kobo(allocation.amount);
+      await tx.transaction.update({
+        where: { id: invoice.id },
+        data: {
+          amountPaid,
+          status:
+            invoice.status === 'CANCELLED'
+              ? invoice.status
+              : PaymentsService.invoiceStatus(invoice.total, amountPaid),
+        },
+      });
+    }
+    await tx.paymentAllocation.deleteMany({ where: { paymentId: payment.id } });
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: { allocatedAmount: 0 },
+    });
+  }
+
+  /**
+   * Applies the unallocated part of a payment to the requested invoices, or
+   * to the oldest outstanding invoices when none are given. Returns the
+   * amount allocated, in kobo.
+   */
+  private async allocate(
+    tx: Prisma.TransactionClient,
+    payment: {
+      id: string;
+      clientId: string;
+      amount: any;
+      allocatedAmount: any;
+    },
+    requested: PaymentAllocationDto[] | undefined,
+    createdById?: string,
+  ): Promise<number> {
+    const unallocated =
+      MoneyUtils.kobo(payment.amount) -
+      MoneyUtils.kobo(payment.allocatedAmount);
+    const outstanding = await this.outstandingInvoices(tx, payment.clientId);
+
+    const plan: Array<{ invoice: any; amount: number }> = [];
+    if (requested?.length) {
+      const requestedTotal = MoneyUtils.sum(
+        requested.map((r) => MoneyUtils.toKobo(r.amount)),
+      );
+      if (requestedTotal > unallocated) {
+        throw new BadRequestException(
+          `Allocations total ${MoneyUtils.fromKobo(requestedTotal)} but only ${MoneyUtils.fromKobo(unallocated)} of the payment is unallocated`,
+        );
+      }
+      for (const request of requested) {
+        const entry = outstanding.find(
+          (o) => o.invoice.id === request.transactionId,
+        );
+        if (!entry) {
+          throw new BadRequestException(
+            `Transaction ${request.transactionId} is not an outstanding invoice of this client`,
+          );
+        }
+        const amount = MoneyUtils.toKobo(request.amount);
+        if (amount > entry.outstanding) {
+          throw new BadRequestException(
+            `Cannot allocate ${request.amount} to invoice ${entry.invoice.invoiceNumber}: only ${MoneyUtils.fromKobo(entry.outstanding)} is outstanding`,
+          );
+        }
+        entry.outstanding -= amount;
+        plan.push({ invoice: entry.invoice, amount });
+      }
+    } else {
+      let remaining = unallocated;
+      for (const entry of outstanding) {
+        if (remaining <= 0) break;
+        const amount = Math.min(entry.outstanding, remaining);
+        remaining -= amount;
+        plan.push({ invoice: entry.invoice, amount });
+      }
+    }
+
+    let allocated = 0;
+    const paid = new Map<string, number>();
+    for (const { invoice, amount } of plan) {
+      const amountPaid =
+        (paid.get(invoice.id) ?? MoneyUtils.kobo(invoice.amountPaid)) + amount;
+      paid.set(invoice.id, amountPaid);
+      await tx.paymentAllocation.create({
+        data: {
+          paymentId: payment.id,
+          transactionId: invoice.id,
+          amount,
+          createdById,
+        },
+      });
+      await tx.transaction.update({
+        where: { id: invoice.id },
+        data: {
+          amountPaid,
+          status: PaymentsService.invoiceStatus(invoice.total, amountPaid),
+        },
+      });
+      allocated += amount;
+    }
+
+    if (allocated > 0) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { allocatedAmount: { increment: allocated } },
+      });
+    }
+    return allocated;
+  }
+
+  private async outstandingInvoices(
+    client: Prisma.TransactionClient,
+    clientId: string,
+  ): Promise<Array<{ invoice: any; outstanding: number }>> {
+    const invoices = await client.transaction.findMany({
+      where: {
+        clientId,
+        type: { in: INVOICE_TYPES },
+        status: { not: 'CANCELLED' },
+      },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+    return invoices
+      .map((invoice) => ({
+        invoice,
+        outstanding:
+          MoneyUtils.kobo(invoice.total) - MoneyUtils.kobo(invoice.amountPaid),
+      }))
+      .filter((i) => i.outstanding > 0);
+  }
+
+  private assertBranchAccess(branchId: string, currentUser: any) {
+    if (
+      !GLOBAL_ROLES.includes(currentUser.role) &&
+      currentUser.branchId?.toString() !== branchId
+    ) {
+      throw new ForbiddenException(
+        'You can only manage payments for your own branch',
+      );
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { PdfUtils, RenderedDocument } from '../../../common/utils/pdf.utils';
+import { EscPosUtils } from '../../../common/utils/escpos.utils';
+import { renderInvoice } from '../templates/invoice.template';
+import { renderWaybill } from '../templates/waybill.template';
+import { buildReceipt } from '../templates/receipt.template';
+import { UserRole } from '../../../common/enums';
+
+export type ReceiptFormat = 'text' | 'escpos';
+
+type DocumentReader = { role: string; branchId?: any };
+
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+/**
+ * Printable documents for a transaction: PDFs on the letterhead of its
+ * branch, and thermal receipts at the branch's paper width. Outside the
+ * global roles, users can only print their own branch's transactions.
+ */
+@Injectable()
+export class TransactionDocumentsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private async loadTransaction(id: string, user: DocumentReader) {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id },
+      include: {
+        items: true,
+        extraCharges: true,
+        tenders: true,
+        clientRef: true,
+        userRef: { select: { id: true, name: true } },
+        branchRef: true,
+        referenceTransaction: { select: { id: true, invoiceNumber: true } },
+      },
+    });
+    if (!transaction) throw new NotFoundException('Transaction not found');
+    if (
+      !GLOBAL_ROLES.includes(user.role) &&
+      user.branchId?.toString() !== transaction.branchId
+    ) {
+      throw new ForbiddenException(
+        'You can only print transactions from your own branch',
+      );
+    }
+    return transaction;
+  }
+
+  async renderInvoice(
+    id: string,
+    user: DocumentReader,
+  ): Promise<RenderedDocument> {
+    const transaction = await this.loadTransaction(id, user);
+
+    const doc = PdfUtils.createDocument();
+    renderInvoice(doc, transaction, transaction.branchRef);
+    return {
+      filename: `${transaction.invoiceNumber}.pdf`,
+      buffer: await PdfUtils.toBuffer(doc),
+    };
+  }
+
+  async renderWaybill(
+    id: string,
+    user: DocumentReader,
+  ): Promise<RenderedDocument> {
+    const transaction = await this.loadTransaction(id, user);
+    if (transaction.items.length === 0) {
+      throw new BadRequestException(
+        `${transaction.type} transactions have no goods to put on a waybill`,
+      );
+    }
+    if (!transaction.waybillNumber) {
+      throw new BadRequestException(
+        `Transaction ${transaction.invoiceNumber} has no waybill number. Assign one first.`,
+      );
+    }
+
+    const doc = PdfUtils.createDocument();
+    renderWaybill(doc, transaction, transaction.branchRef);
+    return {
+      filename: `${transaction.waybillNumber}.pdf`,
+      buffer: await PdfUtils.toBuffer(doc),
+    };
+  }
+
+  async renderReceipt(
+    id: string,
+    format: ReceiptFormat,
+    user: DocumentReader,
+  ): Promise<RenderedDocument> {
+    const transaction = await this.loadTransaction(id, user);
+    if (transaction.status === 'CANCELLED') {
+      throw new BadRequestException(
+        `Transaction ${transaction.invoiceNumber} has been voided and cannot be printed as a receipt`,
+      );
+    }
+
+    const branch = transaction.branchRef;
+    const width = EscPosUtils.columnsFor(branch.receiptWidth);
+    const lines = buildReceipt(transaction, branch, width);
+    if (format === 'escpos') {
+      return {
+        filename: `${transaction.invoiceNumber}.bin`,
+        buffer: EscPosUtils.toEscPos(lines),
+      };
+    }
+    return {
+      filename: `${transaction.invoiceNumber}.txt`,
+      buffer: Buffer.from(EscPosUtils.toText(lines, width), 'utf8'),
+    };
+  }
+}
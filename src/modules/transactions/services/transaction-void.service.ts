@@ -0,0 +1,378 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ClientLedgerService } from '../../clients/services/client-ledger.service';
+import { StockMovementService } from '../../products/services/stock-movement.service';
+import { PaymentPlansService } from '../../payment-plans/services/payment-plans.service';
+import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
+import { RealtimeEventService } from '../../websocket/realtime-event.service';
+import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import { UserRole } from '../../../common/enums';
+import { MoneyUtils } from '../../../common/utils/money.utils';
+import { TransactionsService } from './transactions.service';
+import { PaymentsService } from './payments.service';
+import {
+  QueryVoidRequestsDto,
+  ReviewVoidRequestDto,
+  VoidTransactionDto,
+} from '../dto/void-transaction.dto';
+
+type VoidActor = {
+  userId: string;
+  role: string;
+  email?: string;
+  name?: string;
+  branch?: string;
+  branchId?: string;
+};
+
+const VOID_APPROVER_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.ADMIN];
+const GLOBAL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MAINTAINER];
+
+@Injectable()
+export class TransactionVoidService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly transactionsService: TransactionsService,
+    private readonly clientLedgerService: ClientLedgerService,
+    private readonly stockMovementService: StockMovementService,
+    private readonly paymentPlansService: PaymentPlansService,
+    private readonly paymentsService: PaymentsService,
+    private readonly systemActivityLogService: SystemActivityLogService,
+    private readonly realtimeEventService: RealtimeEventService,
+  ) {}
+
+  private readonly voidRequestInclude = {
+    transactionRef: {
+      select: {
+        id: true,
+        invoiceNumber: true,
+        type: true,
+        total: true,
+        branchId: true,
+      },
+    },
+    requestedBy: { select: { id: true, name: true, role: true } },
+    reviewedBy: { select: { id: true, name: true, role: true } },
+  };
+
+  private toDoc(request: any) {
+    if (!request) return request;
+    return {
+      ...request,
+      _id: request.id,
+      transactionRef: request.transactionRef
+        ? MoneyUtils.fieldsToNaira(request.transactionRef, ['total'])
+        : request.transactionRef,
+    };
+  }
+
+  /**
+   * Requests a void. ADMIN and SUPER_ADMIN requests are approved and applied
+   * immediately; anyone else leaves a PENDING request for an admin to review.
+   */
+  async requestVoid(
+    id: string,
+    dto: VoidTransactionDto,
+    user: VoidActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const transaction = await this.assertVoidable(id);
+    this.assertBranchAccess(transaction.branchId, user);
+
+    const existing = await this.prisma.transactionVoidRequest.findUnique({
+      where: { transactionId: id },
+    });
+    if (existing?.status === 'PENDING') {
+      throw new BadRequestException(
+        'A void request for this transaction is already awaiting approval.',
+      );
+    }
+
+    const request = await this.prisma.transactionVoidRequest.upsert({
+      where: { transactionId: id },
+      create: {
+        transactionId: id,
+        reason: dto.reason,
+        requestedById: user.userId,
+      },
+      update: {
+        reason: dto.reason,
+        status: 'PENDING',
+        requestedById: user.userId,
+        reviewedById: null,
+        reviewedAt: null,
+        reviewNote: null,
+      },
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'TRANSACTION_VOID_REQUESTED',
+        details: `Void requested for transaction ${transaction.invoiceNumber} - Reason: ${dto.reason}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    if (VOID_APPROVER_ROLES.includes(user.role)) {
+      return this.approve(id, { note: 'Self-approved' }, user, userAgent);
+    }
+
+    try {
+      const eventData = this.realtimeEventService.createEventData(
+        'void_requested',
+        'transaction',
+        id,
+        this.toDoc({ ...request, transactionRef: transaction }),
+        {
+          id: user.userId,
+          email: user.email || '',
+          role: user.role as UserRole,
+          branchId: transaction.branchId,
+          branch: user.branch || '',
+        },
+      );
+      this.realtimeEventService.emitTransactionVoidRequested(eventData);
+    } catch {}
+
+    return this.findRequest(id);
+  }
+
+  /**
+   * Applies a pending void: restores stock taken by the sale, posts reversing
+   * entries for every ledger line the transaction produced and marks it CANCELLED,
+   * all in one database transaction.
+   */
+  async approve(
+    id: string,
+    dto: ReviewVoidRequestDto,
+    user: VoidActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const request = await this.getPendingRequest(id);
+    const transaction = await this.assertVoidable(id);
+    this.assertCanReview(transaction, user);
+
+    await this.prisma.$transaction(async (tx) => {
+      const current = await tx.transaction.findUnique({ where: { id } });
+      if (!current || current.status === 'CANCELLED') {
+        throw new BadRequestException('Transaction has already been voided.');
+      }
+
+      if (transaction.type === 'PURCHASE') {
+        for (const item of transaction.items) {
+          await this.stockMovementService.record(tx, {
+            productId: item.productId,
+            delta: item.quantity * item.conversionFactor,
+            reason: 'VOID',
+            transactionId: id,
+            actorId: user.userId,
+            note: `Void of ${transaction.invoiceNumber}`,
+          });
+        }
+      }
+
+      await this.paymentPlansService.releaseVoidedTransaction(tx, id);
+      await this.paymentsService.releaseVoidedTransaction(tx, id);
+
+      const ledgerEntries = await tx.clientLedgerEntry.findMany({
+        where: { transactionId: id },
+        orderBy: { sequence: 'asc' },
+      });
+      for (const entry of ledgerEntries) {
+        await this.clientLedgerService.post(tx, {
+          clientId: entry.clientId,
+          entryType: entry.entryType === 'DEBIT' ? 'CREDIT' : 'DEBIT',
+          amount: MoneyUtils.kobo(entry.amount),
+          description: `Void of ${transaction.invoiceNumber}: ${entry.description}`,
+          transactionId: id,
+          createdById: user.userId,
+        });
+      }
+
+      await tx.transaction.update({
+        where: { id },
+        data: { status: 'CANCELLED' },
+      });
+      await tx.transactionVoidRequest.update({
+        where: { id: request.id },
+        data: {
+          status: 'APPROVED',
+          reviewedById: user.userId,
+          reviewedAt: new Date(),
+          reviewNote: dto.note,
+        },
+      });
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'TRANSACTION_VOIDED',
+        details: `Transaction ${transaction.invoiceNumber} voided - Reason: ${request.reason}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    const voided = await this.transactionsService.findById(id);
+
+    try {
+      const eventData = this.realtimeEventService.createEventData(
+        'voided',
+        'transaction',
+        id,
+        { ...voided, voidReason: request.reason },
+        {
+          id: user.userId,
+          email: user.email || '',
+          role: user.role as UserRole,
+          branchId: transaction.branchId,
+          branch: user.branch || '',
+        },
+      );
+      this.realtimeEventService.emitTransactionVoided(eventData);
+    } catch {}
+
+    return { ...voided, voidRequest: await this.findRequest(id) };
+  }
+
+  async reject(
+    id: string,
+    dto: ReviewVoidRequestDto,
+    user: VoidActor,
+    userAgent?: string,
+  ): Promise<any> {
+    const request = await this.getPendingRequest(id);
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id },
+    });
+    if (!transaction) throw new NotFoundException('Transaction not found');
+    this.assertCanReview(transaction, user);
+
+    await this.prisma.transactionVoidRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'REJECTED',
+        reviewedById: user.userId,
+        reviewedAt: new Date(),
+        reviewNote: dto.note,
+      },
+    });
+
+    this.systemActivityLogService
+      .createLog({
+        action: 'TRANSACTION_VOID_REJECTED',
+        details: `Void request for transaction ${transaction.invoiceNumber} rejected${dto.note ? ` - ${dto.note}` : ''}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent || '') || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+
+    return this.findRequest(id);
+  }
+
+  async findRequests(query: QueryVoidRequestsDto): Promise<any[]> {
+    const where: any = {};
+    if (query.status) where.status = query.status;
+    if (query.branchId) where.transactionRef = { branchId: query.branchId };
+
+    const requests = await this.prisma.transactionVoidRequest.findMany({
+      where,
+      include: this.voidRequestInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return requests.map((r) => this.toDoc(r));
+  }
+
+  async findRequest(transactionId: string, user?: VoidActor): Promise<any> {
+    const request = await this.prisma.transactionVoidRequest.findUnique({
+      where: { transactionId },
+      include: this.voidRequestInclude,
+    });
+    if (!request) throw new NotFoundException('Void request not found');
+    if (user) this.assertBranchAccess(request.transactionRef.branchId, user);
+    return this.toDoc(request);
+  }
+
+  private async getPendingRequest(transactionId: string) {
+    const request = await this.prisma.transactionVoidRequest.findUnique({
+      where: { transactionId },
+    });
+    if (!request || request.status !== 'PENDING') {
+      throw new BadRequestException(
+        'There is no pending void request for this transaction.',
+      );
+    }
+    return request;
+  }
+
+  private async assertVoidable(id: string) {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id },
+      include: { items: true },
+    });
+    if (!transaction) throw new NotFoundException('Transaction not found');
+
+    if (transaction.status === 'CANCELLED') {
+      throw new BadRequestException('Transaction has already been voided.');
+    }
+    if (transaction.type === 'RETURN' || transaction.type === 'PICKUP') {
+      throw new BadRequestException(
+        `${transaction.type} transactions cannot be voided.`,
+      );
+    }
+
+    const returns = await this.prisma.transaction.count({
+      where: {
+        referenceTransactionId: id,
+        type: 'RETURN',
+        status: { not: 'CANCELLED' },
+      },
+    });
+    if (returns > 0) {
+      throw new BadRequestException(
+        `Transaction ${transaction.invoiceNumber} cannot be voided because ${returns} return(s) reference it.`,
+      );
+    }
+
+    return transaction;
+  }
+
+  private assertBranchAccess(branchId: string, user: VoidActor) {
+    if (
+      !GLOBAL_ROLES.includes(user.role) &&
+      user.branchId?.toString() !== branchId
+    ) {
+      throw new ForbiddenException(
+        'You can only request or view voids for your own branch',
+      );
+    }
+  }
+
+  private assertCanReview(transaction: { branchId: string }, user: VoidActor) {
+    if (!VOID_APPROVER_ROLES.includes(user.role)) {
+      throw new ForbiddenException(
+        'Only ADMIN or SUPER_ADMIN can approve void requests',
+      );
+    }
+    if (
+      user.role === UserRole.ADMIN &&
+      user.branchId?.toString() !== transaction.branchId
+    ) {
+      throw new ForbiddenException(
+        'ADMIN can only review void requests for their own branch',
+      );
+    }
+  }
+}
@@ -4,11 +4,21 @@ import {
   BadRequestException,
   ConflictException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { ClientsService } from '../../clients/services/clients.service';
+import { ClientLedgerService } from '../../clients/services/client-ledger.service';
+import {
+  ClientCreditService,
+  CreditOverrideApproval,
+} from '../../clients/services/client-credit.service';
 import { ProductsService } from '../../products/services/products.service';
+import { StockMovementService } from '../../products/services/stock-movement.service';
+import { UnitConversionService } from '../../products/services/unit-conversion.service';
 import { CategoriesService } from '../../categories/services/categories.service';
-import { StockOperation } from '../../products/dto/product.dto';
+import { PriceListsService } from '../../price-lists/services/price-lists.service';
+import { PaymentPlansService } from '../../payment-plans/services/payment-plans.service';
+import { PaymentsService } from './payments.service';
 import { SystemActivityLogService } from '../../system-activity-logs/services/system-activity-log.service';
 import { RealtimeEventService } from '../../websocket/realtime-event.service';
 import { UserRole } from '../../../common/enums';
@@ -20,21 +30,36 @@ import {
   TransactionType,
 } from '../dto/transaction.dto';
 import { extractDeviceInfo } from '../../system-activity-logs/utils/device-extractor.util';
+import {
+  MoneyUtils,
+  TRANSACTION_ITEM_MONEY_FIELDS,
+} from '../../../common/utils/money.utils';
+import { Tender, TenderUtils } from '../../../common/utils/tender.utils';
+import { RegisterSessionsService } from '../../register-sessions/services/register-sessions.service';
 
 @Injectable()
 export class TransactionsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly clientsService: ClientsService,
+    private readonly clientLedgerService: ClientLedgerService,
+    private readonly clientCreditService: ClientCreditService,
     private readonly productsService: ProductsService,
+    private readonly stockMovementService: StockMovementService,
+    private readonly unitConversionService: UnitConversionService,
     private readonly categoriesService: CategoriesService,
+    private readonly priceListsService: PriceListsService,
+    private readonly paymentPlansService: PaymentPlansService,
+    private readonly paymentsService: PaymentsService,
     private readonly systemActivityLogService: SystemActivityLogService,
     private readonly realtimeEventService: RealtimeEventService,
+    private readonly registerSessionsService: RegisterSessionsService,
   ) {}
 
   private readonly transactionInclude = {
     items: true,
     extraCharges: true,
+    tenders: true,
     clientRef: { select: { id: true, name: true, phone: true, balance: true } },
     userRef: { select: { id: true, name: true, role: true } },
     branchRef: { select: { id: true, name: true } },
@@ -42,7 +67,15 @@ export class TransactionsService {
 
   private transformTransaction(t: any) {
     if (!t) return t;
-    const { clientRef, userRef, branchRef, walkInClientName, walkInClientPhone, walkInClientAddress, ...rest } = t;
+    const {
+      clientRef,
+      userRef,
+      branchRef,
+      walkInClientName,
+      walkInClientPhone,
+      walkInClientAddress,
+      ...rest
+    } = MoneyUtils.transactionToNaira(t);
     return {
       ...rest,
       _id: t.id,
@@ -85,18 +118,32 @@ export class TransactionsService {
     return `${prefix}-${seq.toString().padStart(4, '0')}`;
   }
 
+  /**
+   * beforeCreate, when given, runs first inside the database transaction that
+   * creates a PURCHASE or DEPOSIT, so the caller's own writes commit or roll
+   * back together with it.
+   */
   async create(
     createTransactionDto: CreateTransactionDto,
     user: { userId: string; role: string; email?: string; name?: string; branch?: string; branchId?: string },
     userAgent: string,
+    beforeCreate?: (tx: Prisma.TransactionClient) => Promise<unknown>,
   ): Promise<any> {
+    if (
+      createTransactionDto.allocations?.length &&
+      createTransactionDto.type !== 'DEPOSIT'
+    ) {
+      throw new BadRequestException(
+        'Payment allocations can only be given on DEPOSIT transactions.',
+      );
+    }
     if (createTransactionDto.type === 'RETURN') {
       return this.createReturnTransaction(createTransactionDto, user, userAgent);
     }
     if (createTransactionDto.type === 'WHOLESALE') {
       return this.createWholesaleTransaction(createTransactionDto, user, userAgent);
     }
-    if ((createTransactionDto.type as any) === 'PICKUP') {
+    if ((createTransactionDto.type as string) === 'PICKUP') {
       throw new BadRequestException(
         'PICKUP transaction type is deprecated and can no longer be created. Please use PURCHASE instead.',
       );
@@ -141,6 +188,23 @@ export class TransactionsService {
       }
     }
 
+    if (createTransactionDto.allocations?.length) {
+      const allocated = MoneyUtils.sum(
+        createTransactionDto.allocations.map((a) =>
+          MoneyUtils.toKobo(a.amount),
+        ),
+      );
+      if (allocated > MoneyUtils.toKobo(createTransactionDto.amountPaid)) {
+        throw new BadRequestException(
+          'Payment allocations cannot exceed the deposit amount.',
+        );
+      }
+    }
+
+    const accountingDate = createTransactionDto.date
+      ? new Date(createTransactionDto.date)
+      : new Date();
+
     let subtotal = 0;
     let processedItems: any[] = [];
 
@@ -148,7 +212,7 @@ export class TransactionsService {
       if (!createTransactionDto.amountPaid || createTransactionDto.amountPaid <= 0) {
         throw new BadRequestException('Deposit amount must be greater than 0');
       }
-      subtotal = createTransactionDto.amountPaid;
+      subtotal = MoneyUtils.toKobo(createTransactionDto.amountPaid);
       processedItems = [];
     } else {
       if (!createTransactionDto.items || createTransactionDto.items.length === 0) {
@@ -157,41 +221,68 @@ export class TransactionsService {
       processedItems = await Promise.all(
         createTransactionDto.items.map(async (item) => {
           const product = await this.productsService.findById(item.productId);
-          if (item.unit !== product.unit) {
-            throw new BadRequestException(
-              `Invalid unit ${item.unit} for product ${product.name}. This product only accepts ${product.unit}`,
-            );
-          }
-          if (product.stock < item.quantity) {
+          const conversionFactor =
+            await this.unitConversionService.resolveFactor(product, item.unit);
+          if (product.stock < item.quantity * conversionFactor) {
             throw new BadRequestException(
               `Insufficient stock for ${product.name}. Available: ${product.stock} ${product.unit}`,
             );
           }
-          const effectiveUnitPrice = item.unitPrice && item.unitPrice > 0 ? item.unitPrice : product.unitPrice;
-          const price = effectiveUnitPrice * item.quantity;
-          const itemSubtotal = price - (item.discount || 0);
+          const { unitPrice: effectiveUnitPrice, listUnitPrice } =
+            await this.resolveLinePrice(
+              product,
+              item.quantity,
+              conversionFactor,
+              MoneyUtils.toKobo(item.unitPrice),
+              clientId,
+              accountingDate,
+              true,
+            );
+          const price = MoneyUtils.multiply(effectiveUnitPrice, item.quantity);
+          const itemDiscount = MoneyUtils.toKobo(item.discount);
+          const itemSubtotal = price - itemDiscount;
           subtotal += itemSubtotal;
           return {
             productId: product.id || product._id,
             productName: product.name,
             quantity: item.quantity,
             unit: item.unit,
+            conversionFactor,
             unitPrice: effectiveUnitPrice,
-            discount: item.discount || 0,
+            // Unknown cost stays unknown so margins flag it rather than count it as free
+            unitCost:
+              product.costPrice === null
+                ? null
+                : MoneyUtils.multiply(
+                    MoneyUtils.toKobo(product.costPrice),
+                    conversionFactor,
+                  ),
+            listUnitPrice,
+            discount: itemDiscount,
             subtotal: itemSubtotal,
           };
         }),
       );
     }
 
-    const discount = createTransactionDto.discount || 0;
-    const transportFare = createTransactionDto.transportFare || 0;
-    const loadingAndOffloading = createTransactionDto.loadingAndOffloading || 0;
-    const loading = createTransactionDto.loading || 0;
-    const extraCharges = createTransactionDto.extraCharges || [];
-    const extraChargesTotal = extraCharges.reduce((sum, c) => sum + (c.amount || 0), 0);
+    const discount = MoneyUtils.toKobo(createTransactionDto.discount);
+    const transportFare = MoneyUtils.toKobo(createTransactionDto.transportFare);
+    const loadingAndOffloading = MoneyUtils.toKobo(
+      createTransactionDto.loadingAndOffloading,
+    );
+    const loading = MoneyUtils.toKobo(createTransactionDto.loading);
+    const extraCharges = (createTransactionDto.extraCharges || []).map((c) => ({
+      name: c.name,
+      amount: MoneyUtils.toKobo(c.amount),
+    }));
+    const extraChargesTotal = MoneyUtils.sum(extraCharges.map((c) => c.amount));
     const total = subtotal - discount + transportFare + loadingAndOffloading + loading + extraChargesTotal;
-    const amountPaid = createTransactionDto.amountPaid || 0;
+    const amountPaid = MoneyUtils.toKobo(createTransactionDto.amountPaid);
+    const payment = TenderUtils.resolve(
+      createTransactionDto.tenders,
+      createTransactionDto.paymentMethod,
+      amountPaid,
+    );
 
     if (!clientId) {
       if (createTransactionDto.type === 'DEPOSIT') {
@@ -199,17 +290,34 @@ export class TransactionsService {
       }
       if (amountPaid < total) {
         throw new BadRequestException(
-          `Insufficient payment for walk-in client. Required: ${total}, Provided: ${amountPaid}. Walk-in clients must pay the full amount upfront.`,
+          `Insufficient payment for walk-in client. Required: ${MoneyUtils.fromKobo(total)}, Provided: ${MoneyUtils.fromKobo(amountPaid)}. Walk-in clients must pay the full amount upfront.`,
         );
       }
       if (amountPaid > total) {
         throw new BadRequestException(
-          `Amount provided is more than the required payment for this transaction. Required: ${total}, Provided: ${amountPaid}.`,
+          `Amount provided is more than the required payment for this transaction. Required: ${MoneyUtils.fromKobo(total)}, Provided: ${MoneyUtils.fromKobo(amountPaid)}.`,
         );
       }
     }
 
-    const accountingDate = createTransactionDto.date ? new Date(createTransactionDto.date) : new Date();
+    const priceOverrideApprover = await this.approvePriceOverrides(
+      processedItems,
+      createTransactionDto,
+      user,
+    );
+    const creditOverrideApprover =
+      clientId && createTransactionDto.type !== 'DEPOSIT'
+        ? await this.clientCreditService.authoriseSale(
+            {
+              clientId,
+              branchId: createTransactionDto.branchId,
+              total,
+              amountPaid,
+            },
+            createTransactionDto.creditOverride,
+            user,
+          )
+        : undefined;
 
     let waybillNumber: string | undefined;
     if (createTransactionDto.type === 'PURCHASE') {
@@ -227,29 +335,39 @@ export class TransactionsService {
     }
 
     const invoiceNumber = await this.generateInvoiceNumber(accountingDate);
+    const registerSessionId =
+      await this.registerSessionsService.findOpenSessionId(
+        user.userId,
+        createTransactionDto.branchId,
+      );
 
     let newBalance = 0;
     let savedTransaction: any;
 
     try {
       savedTransaction = await this.prisma.$transaction(async (tx) => {
+        if (beforeCreate) await beforeCreate(tx);
         const txn = await tx.transaction.create({
           data: {
             invoiceNumber,
-            type: createTransactionDto.type as any,
+            type: createTransactionDto.type,
             clientId,
             walkInClientName,
             walkInClientPhone,
             walkInClientAddress,
             userId: user.userId,
             branchId: createTransactionDto.branchId,
+            registerSessionId,
             items: {
               create: processedItems.map((item) => ({
                 productId: item.productId,
                 productName: item.productName,
                 quantity: item.quantity,
                 unit: item.unit,
+                conversionFactor: item.conversionFactor,
                 unitPrice: item.unitPrice,
+                unitCost: item.unitCost,
+                listUnitPrice: item.listUnitPrice,
                 discount: item.discount,
                 subtotal: item.subtotal,
               })),
@@ -264,13 +382,20 @@ export class TransactionsService {
             loading,
             total,
             amountPaid,
-            paymentMethod: createTransactionDto.paymentMethod,
+            paymentMethod: payment.paymentMethod,
+            tenders: this.tendersCreate(payment.tenders, registerSessionId),
             notes: createTransactionDto.notes,
-            status: 'COMPLETED',
+            status:
+              createTransactionDto.type === 'DEPOSIT'
+                ? 'COMPLETED'
+                : PaymentsService.invoiceStatus(total, amountPaid),
             isPickedUp: false,
             date: accountingDate,
             waybillNumber,
             clientBalanceAfterTransaction: null,
+            priceOverrideById: priceOverrideApprover?.id,
+            creditOverrideById: creditOverrideApprover?.id,
+            creditOverrideReason: creditOverrideApprover?.reason,
           },
           include: this.transactionInclude,
         });
@@ -278,41 +403,68 @@ export class TransactionsService {
         // Stock updates within the transaction
         if (createTransactionDto.type !== TransactionType.DEPOSIT) {
           for (const item of processedItems) {
-            const product = await tx.product.findUnique({ where: { id: item.productId } });
-            if (!product) throw new BadRequestException(`Product ${item.productId} not found`);
-            if (product.stock < item.quantity) {
-              throw new BadRequestException(
-                `Insufficient stock for ${item.productName}. Available: ${product.stock}`,
-              );
-            }
-            await tx.product.update({
-              where: { id: item.productId },
-              data: { stock: product.stock - item.quantity },
+            await this.stockMovementService.record(tx, {
+              productId: item.productId,
+              delta: -item.quantity * item.conversionFactor,
+              reason: 'SALE',
+              transactionId: txn.id,
+              actorId: user.userId,
             });
           }
         }
 
-        // Client balance update
+        // Client ledger postings
         if (clientId) {
-          const client = await tx.client.findUnique({ where: { id: clientId } });
-          if (!client) throw new BadRequestException('Client not found');
-          const currentBalance = client.balance || 0;
-
-          if (createTransactionDto.type === 'DEPOSIT') {
-            newBalance = currentBalance + amountPaid;
-          } else {
-            const outstanding = total - amountPaid;
-            newBalance = currentBalance - outstanding;
-          }
-
-          await tx.client.update({
-            where: { id: clientId },
-            data: { balance: newBalance, lastTransactionDate: accountingDate },
-          });
+          const ledgerEntries =
+            createTransactionDto.type === 'DEPOSIT'
+              ? [
+                  {
+                    entryType: 'CREDIT' as const,
+                    amount: amountPaid,
+                    description: `Deposit ${invoiceNumber}`,
+                  },
+                ]
+              : [
+                  {
+                    entryType: 'DEBIT' as const,
+                    amount: total,
+                    description: `Invoice ${invoiceNumber}`,
+                  },
+                  {
+                    entryType: 'CREDIT' as const,
+                    amount: amountPaid,
+                    description: `Payment on invoice ${invoiceNumber}`,
+                  },
+                ];
+          newBalance = await this.clientLedgerService.postMany(
+            tx,
+            ledgerEntries.map((e) => ({
+              ...e,
+              clientId,
+              transactionId: txn.id,
+              date: accountingDate,
+              createdById: user.userId,
+            })),
+          );
           await tx.transaction.update({
             where: { id: txn.id },
             data: { clientBalanceAfterTransaction: newBalance },
           });
+          if (createTransactionDto.type === 'DEPOSIT') {
+            await this.paymentPlansService.allocateDeposit(tx, {
+              clientId,
+              transactionId: txn.id,
+              amount: amountPaid,
+              date: accountingDate,
+            });
+            await this.paymentsService.record(tx, {
+              clientId,
+              transactionId: txn.id,
+              amount: amountPaid,
+              allocations: createTransactionDto.allocations,
+              createdById: user.userId,
+            });
+          }
         }
 
         return txn;
@@ -324,27 +476,57 @@ export class TransactionsService {
       throw error;
     }
 
-    this.systemActivityLogService.createLog({
-      action: 'TRANSACTION_CREATED',
-      details: `Transaction ${savedTransaction.invoiceNumber} created (${createTransactionDto.type}) - Total: ${total}`,
-      performedBy: user.email || user.name || user.userId,
-      role: user.role,
-      device: extractDeviceInfo(userAgent) || '',
-      branchId: user.branchId?.toString(),
-    }).catch(() => {});
+    this.systemActivityLogService
+      .createLog({
+        action: 'TRANSACTION_CREATED',
+        details: `Transaction ${savedTransaction.invoiceNumber} created (${createTransactionDto.type}) - Total: ${MoneyUtils.fromKobo(total)}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent) || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+    this.logPriceOverride(
+      savedTransaction.invoiceNumber,
+      processedItems,
+      priceOverrideApprover,
+      user,
+      userAgent,
+    );
+    this.logCreditOverride(
+      savedTransaction.invoiceNumber,
+      creditOverrideApprover,
+      user,
+      userAgent,
+    );
+    if (clientId && createTransactionDto.type === 'DEPOSIT') {
+      // A deposit may settle the invoices that put the client on hold
+      this.clientCreditService.refreshHold(clientId).catch(() => {});
+    }
 
     try {
       const eventData = this.realtimeEventService.createEventData(
-        'created', 'transaction', savedTransaction.id, savedTransaction,
-        { id: user.userId, email: user.email || '', role: user.role as UserRole, branchId: createTransactionDto.branchId, branch: user.branch || '' },
+        'created',
+        'transaction',
+        savedTransaction.id,
+        this.transformTransaction(savedTransaction),
+        {
+          id: user.userId,
+          email: user.email || '',
+          role: user.role as UserRole,
+          branchId: createTransactionDto.branchId,
+          branch: user.branch || '',
+        },
       );
       this.realtimeEventService.emitTransactionCreated(eventData);
     } catch {}
 
     return {
       ...this.transformTransaction(savedTransaction),
-      clientBalance: clientId ? newBalance : null,
-      clientBalanceAfterTransaction: clientId ? newBalance : null,
+      clientBalance: clientId ? MoneyUtils.fromKobo(newBalance) : null,
+      clientBalanceAfterTransaction: clientId
+        ? MoneyUtils.fromKobo(newBalance)
+        : null,
     };
   }
 
@@ -386,11 +568,15 @@ export class TransactionsService {
       include: { items: true },
     });
 
+    // Quantities are compared in the product's stock unit so returns may use a different unit from the sale
     const returnedQuantitiesMap = new Map<string, number>();
     for (const prevReturn of previousReturns) {
       for (const item of prevReturn.items) {
         const current = returnedQuantitiesMap.get(item.productId) || 0;
-        returnedQuantitiesMap.set(item.productId, current + item.quantity);
+        returnedQuantitiesMap.set(
+          item.productId,
+          current + item.quantity * item.conversionFactor,
+        );
       }
     }
 
@@ -402,26 +588,50 @@ export class TransactionsService {
       if (!originalItem) {
         throw new BadRequestException('This product was not included in the original purchase.');
       }
-      if (returnItem.unit !== originalItem.unit) {
-        throw new BadRequestException(
-          `Unit mismatch for ${originalItem.productName}. Originally sold in ${originalItem.unit}, but you're trying to return in ${returnItem.unit}.`,
-        );
-      }
+      const currentProduct = await this.productsService.findById(
+        returnItem.productId,
+      );
+      const conversionFactor =
+        returnItem.unit === originalItem.unit
+          ? originalItem.conversionFactor
+          : await this.unitConversionService.resolveFactor(
+              currentProduct,
+              returnItem.unit,
+            );
+      // Scales a per-unit value from the unit originally sold to the unit being returned
+      const toReturnUnit = (value: number) =>
+        Math.round((value * conversionFactor) / originalItem.conversionFactor);
 
       const alreadyReturnedQty = returnedQuantitiesMap.get(returnItem.productId) || 0;
-      const remainingReturnableQty = originalItem.quantity - alreadyReturnedQty;
+      const remainingReturnableQty =
+        (originalItem.quantity * originalItem.conversionFactor -
+          alreadyReturnedQty) /
+        conversionFactor;
       if (returnItem.quantity > remainingReturnableQty) {
-        const alreadyReturnedText = alreadyReturnedQty > 0 ? ` (${alreadyReturnedQty} already returned)` : '';
+        const alreadyReturnedText =
+          alreadyReturnedQty > 0
+            ? ` (${alreadyReturnedQty / conversionFactor} ${returnItem.unit} already returned)`
+            : '';
         throw new BadRequestException(
-          `You can only return ${remainingReturnableQty} more ${originalItem.unit} of ${originalItem.productName} from this purchase.${alreadyReturnedText}`,
+          `You can only return ${remainingReturnableQty} more ${returnItem.unit} of ${originalItem.productName} from this purchase.${alreadyReturnedText}`,
         );
       }
 
-      const currentProduct = await this.productsService.findById(returnItem.productId);
-      const originalPricePerUnit = originalItem.unitPrice;
-      const currentPricePerUnit = currentProduct.unitPrice;
-      const refundPricePerUnit = currentPricePerUnit < originalPricePerUnit ? currentPricePerUnit : originalPricePerUnit;
-      const itemRefundAmount = refundPricePerUnit * returnItem.quantity;
+      const originalPricePerUnit = toReturnUnit(
+        MoneyUtils.kobo(originalItem.unitPrice),
+      );
+      const currentPricePerUnit = MoneyUtils.multiply(
+        MoneyUtils.toKobo(currentProduct.unitPrice),
+        conversionFactor,
+      );
+      const refundPricePerUnit =
+        currentPricePerUnit < originalPricePerUnit
+          ? currentPricePerUnit
+          : originalPricePerUnit;
+      const itemRefundAmount = MoneyUtils.multiply(
+        refundPricePerUnit,
+        returnItem.quantity,
+      );
       totalRefundedAmount += itemRefundAmount;
 
       processedReturnedItems.push({
@@ -429,25 +639,35 @@ export class TransactionsService {
         productName: originalItem.productName,
         quantity: returnItem.quantity,
         unit: returnItem.unit,
+        conversionFactor,
         unitPrice: refundPricePerUnit,
+        unitCost:
+          originalItem.unitCost === null
+            ? null
+            : toReturnUnit(MoneyUtils.kobo(originalItem.unitCost)),
         originalUnitPrice: originalPricePerUnit,
         currentUnitPrice: currentPricePerUnit,
         refundUnitPrice: refundPricePerUnit,
         subtotal: itemRefundAmount,
         discount: 0,
       });
-
-      if (!createTransactionDto.skipStockRestore) {
-        await this.productsService.updateStock(returnItem.productId, {
-          quantity: returnItem.quantity,
-          unit: returnItem.unit,
-          operation: StockOperation.ADD,
-        });
-      }
     }
 
-    const accountingDate = createTransactionDto.date ? new Date(createTransactionDto.date) : new Date();
+    const actualAmountReturned = MoneyUtils.toKobo(
+      createTransactionDto.actualAmountReturned,
+    );
+    const accountingDate = createTransactionDto.date
+      ? new Date(createTransactionDto.date)
+      : new Date();
     const invoiceNumber = await this.generateInvoiceNumber(accountingDate);
+    const branchId =
+      createTransactionDto.branchId || originalTransaction.branchId;
+    // Cash handed back comes out of the cashier's drawer
+    const registerSessionId =
+      await this.registerSessionsService.findOpenSessionId(
+        user.userId,
+        branchId,
+      );
     let newBalance = 0;
 
     const savedTransaction = await this.prisma.$transaction(async (tx) => {
@@ -469,11 +689,12 @@ export class TransactionsService {
           total: totalRefundedAmount,
           amountPaid: 0,
           status: 'COMPLETED',
-          branchId: createTransactionDto.branchId || originalTransaction.branchId,
+          branchId,
+          registerSessionId,
           referenceTransactionId: originalTransaction.id,
           reason: createTransactionDto.reason,
           totalRefundedAmount,
-          actualAmountReturned: createTransactionDto.actualAmountReturned,
+          actualAmountReturned,
           date: accountingDate,
           notes: createTransactionDto.notes,
           clientBalanceAfterTransaction: null,
@@ -481,14 +702,30 @@ export class TransactionsService {
         include: this.transactionInclude,
       });
 
+      if (!createTransactionDto.skipStockRestore) {
+        for (const item of processedReturnedItems) {
+          await this.stockMovementService.record(tx, {
+            productId: item.productId,
+            delta: item.quantity * item.conversionFactor,
+            reason: 'RETURN',
+            transactionId: txn.id,
+            actorId: user.userId,
+          });
+        }
+      }
+
       if (originalTransaction.clientId) {
-        const client = await tx.client.findUnique({ where: { id: originalTransaction.clientId } });
-        const currentBalance = client?.balance || 0;
-        newBalance = currentBalance + createTransactionDto.actualAmountReturned;
-        await tx.client.update({
-          where: { id: originalTransaction.clientId },
-          data: { balance: newBalance, lastTransactionDate: accountingDate },
-        });
+        newBalance = await this.clientLedgerService.postMany(tx, [
+          {
+            clientId: originalTransaction.clientId,
+            entryType: 'CREDIT',
+            amount: actualAmountReturned,
+            description: `Return ${invoiceNumber} against invoice ${originalTransaction.invoiceNumber}`,
+            transactionId: txn.id,
+            date: accountingDate,
+            createdById: user.userId,
+          },
+        ]);
         await tx.transaction.update({
           where: { id: txn.id },
           data: { clientBalanceAfterTransaction: newBalance },
@@ -498,27 +735,38 @@ export class TransactionsService {
       return txn;
     });
 
-    this.systemActivityLogService.createLog({
-      action: 'RETURN_TRANSACTION_CREATED',
-      details: `Return transaction ${savedTransaction.invoiceNumber} created for original ${originalTransaction.invoiceNumber}. Total Refunded: ${totalRefundedAmount}, Actual Returned: ${createTransactionDto.actualAmountReturned}`,
-      performedBy: user.email || user.name || user.userId,
-      role: user.role,
-      device: extractDeviceInfo(userAgent) || '',
-      branchId: user.branchId?.toString(),
-    }).catch(() => {});
+    this.systemActivityLogService
+      .createLog({
+        action: 'RETURN_TRANSACTION_CREATED',
+        details: `Return transaction ${savedTransaction.invoiceNumber} created for original ${originalTransaction.invoiceNumber}. Total Refunded: ${MoneyUtils.fromKobo(totalRefundedAmount)}, Actual Returned: ${createTransactionDto.actualAmountReturned}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent) || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
 
     try {
       const eventData = this.realtimeEventService.createEventData(
-        'created', 'transaction', savedTransaction.id, savedTransaction,
-        { id: user.userId, email: user.email || '', role: user.role as UserRole, branchId: savedTransaction.branchId, branch: user.branch || '' },
+        'created',
+        'transaction',
+        savedTransaction.id,
+        this.transformTransaction(savedTransaction),
+        {
+          id: user.userId,
+          email: user.email || '',
+          role: user.role as UserRole,
+          branchId: savedTransaction.branchId,
+          branch: user.branch || '',
+        },
       );
       this.realtimeEventService.emitTransactionCreated(eventData);
     } catch {}
 
     return {
       ...this.transformTransaction(savedTransaction),
-      clientBalance: newBalance,
-      clientBalanceAfterTransaction: newBalance,
+      clientBalance: MoneyUtils.fromKobo(newBalance),
+      clientBalanceAfterTransaction: MoneyUtils.fromKobo(newBalance),
     };
   }
 
@@ -549,6 +797,10 @@ export class TransactionsService {
       );
     }
 
+    const accountingDate = createTransactionDto.date
+      ? new Date(createTransactionDto.date)
+      : new Date();
+
     let subtotal = 0;
     const processedItems = await Promise.all(
       createTransactionDto.items.map(async (item) => {
@@ -562,41 +814,80 @@ export class TransactionsService {
             `WHOLESALE transactions are only allowed for cement products. "${product.name}" is not a cement product.`,
           );
         }
-        if (item.unit !== product.unit) {
-          throw new BadRequestException(
-            `Invalid unit ${item.unit} for product ${product.name}. This product only accepts ${product.unit}`,
+        const conversionFactor = await this.unitConversionService.resolveFactor(
+          product,
+          item.unit,
+        );
+        const { unitPrice: wholesaleUnitPrice, listUnitPrice } =
+          await this.resolveLinePrice(
+            product,
+            item.quantity,
+            conversionFactor,
+            MoneyUtils.toKobo(item.unitPrice ?? item.wholesalePrice),
+            client.id,
+            accountingDate,
+            false,
           );
-        }
-        const wholesaleUnitPrice = item.unitPrice ?? item.wholesalePrice;
         if (!wholesaleUnitPrice || wholesaleUnitPrice <= 0) {
           throw new BadRequestException(
             `Wholesale unit price is required and must be greater than 0 for product ${product.name}`,
           );
         }
-        const price = wholesaleUnitPrice * item.quantity;
-        const itemSubtotal = price - (item.discount || 0);
+        const price = MoneyUtils.multiply(wholesaleUnitPrice, item.quantity);
+        const itemDiscount = MoneyUtils.toKobo(item.discount);
+        const itemSubtotal = price - itemDiscount;
         subtotal += itemSubtotal;
         return {
           productId: product.id || product._id,
           productName: product.name,
           quantity: item.quantity,
           unit: item.unit,
+          conversionFactor,
           unitPrice: wholesaleUnitPrice,
-          discount: item.discount || 0,
+          unitCost:
+            product.costPrice === null
+              ? null
+              : MoneyUtils.multiply(
+                  MoneyUtils.toKobo(product.costPrice),
+                  conversionFactor,
+                ),
+          listUnitPrice,
+          discount: itemDiscount,
           subtotal: itemSubtotal,
           wholesalePrice: wholesaleUnitPrice,
         };
       }),
     );
 
-    const discount = createTransactionDto.discount || 0;
-    const transportFare = createTransactionDto.transportFare || 0;
-    const loadingAndOffloading = createTransactionDto.loadingAndOffloading || 0;
-    const loading = createTransactionDto.loading || 0;
+    const discount = MoneyUtils.toKobo(createTransactionDto.discount);
+    const transportFare = MoneyUtils.toKobo(createTransactionDto.transportFare);
+    const loadingAndOffloading = MoneyUtils.toKobo(
+      createTransactionDto.loadingAndOffloading,
+    );
+    const loading = MoneyUtils.toKobo(createTransactionDto.loading);
     const total = subtotal - discount + transportFare + loadingAndOffloading + loading;
-    const amountPaid = createTransactionDto.amountPaid || 0;
+    const amountPaid = MoneyUtils.toKobo(createTransactionDto.amountPaid);
+    const payment = TenderUtils.resolve(
+      createTransactionDto.tenders,
+      createTransactionDto.paymentMethod,
+      amountPaid,
+    );
 
-    const accountingDate = createTransactionDto.date ? new Date(createTransactionDto.date) : new Date();
+    const priceOverrideApprover = await this.approvePriceOverrides(
+      processedItems,
+      createTransactionDto,
+      user,
+    );
+    const creditOverrideApprover = await this.clientCreditService.authoriseSale(
+      {
+        clientId: client.id,
+        branchId: createTransactionDto.branchId,
+        total,
+        amountPaid,
+      },
+      createTransactionDto.creditOverride,
+      user,
+    );
 
     let waybillNumber: string;
     if (createTransactionDto.waybillNumber) {
@@ -612,6 +903,11 @@ export class TransactionsService {
     }
 
     const invoiceNumber = await this.generateInvoiceNumber(accountingDate);
+    const registerSessionId =
+      await this.registerSessionsService.findOpenSessionId(
+        user.userId,
+        createTransactionDto.branchId,
+      );
     let newBalance = 0;
 
     const savedTransaction = await this.prisma.$transaction(async (tx) => {
@@ -629,27 +925,44 @@ export class TransactionsService {
           loading,
           total,
           amountPaid,
-          paymentMethod: createTransactionDto.paymentMethod,
+          paymentMethod: payment.paymentMethod,
+          tenders: this.tendersCreate(payment.tenders, registerSessionId),
           notes: createTransactionDto.notes,
-          status: 'COMPLETED',
+          status: PaymentsService.invoiceStatus(total, amountPaid),
           branchId: createTransactionDto.branchId,
+          registerSessionId,
           isPickedUp: false,
           date: accountingDate,
           waybillNumber,
           clientBalanceAfterTransaction: null,
+          priceOverrideById: priceOverrideApprover?.id,
+          creditOverrideById: creditOverrideApprover?.id,
+          creditOverrideReason: creditOverrideApprover?.reason,
         },
         include: this.transactionInclude,
       });
 
-      const freshClient = await tx.client.findUnique({ where: { id: client.id } });
-      const currentBalance = freshClient?.balance || 0;
-      const outstanding = total - amountPaid;
-      newBalance = currentBalance - outstanding;
-
-      await tx.client.update({
-        where: { id: client.id },
-        data: { balance: newBalance, lastTransactionDate: accountingDate },
-      });
+      newBalance = await this.clientLedgerService.postMany(
+        tx,
+        [
+          {
+            entryType: 'DEBIT' as const,
+            amount: total,
+            description: `Wholesale invoice ${invoiceNumber}`,
+          },
+          {
+            entryType: 'CREDIT' as const,
+            amount: amountPaid,
+            description: `Payment on invoice ${invoiceNumber}`,
+          },
+        ].map((e) => ({
+          ...e,
+          clientId: client.id,
+          transactionId: txn.id,
+          date: accountingDate,
+          createdById: user.userId,
+        })),
+      );
       await tx.transaction.update({
         where: { id: txn.id },
         data: { clientBalanceAfterTransaction: newBalance },
@@ -658,30 +971,184 @@ export class TransactionsService {
       return txn;
     });
 
-    this.systemActivityLogService.createLog({
-      action: 'WHOLESALE_TRANSACTION_CREATED',
-      details: `Wholesale transaction ${savedTransaction.invoiceNumber} created for ${client.name} - Total: ${total}`,
-      performedBy: user.email || user.name || user.userId,
-      role: user.role,
-      device: extractDeviceInfo(userAgent) || '',
-      branchId: user.branchId?.toString(),
-    }).catch(() => {});
+    this.systemActivityLogService
+      .createLog({
+        action: 'WHOLESALE_TRANSACTION_CREATED',
+        details: `Wholesale transaction ${savedTransaction.invoiceNumber} created for ${client.name} - Total: ${MoneyUtils.fromKobo(total)}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent) || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+    this.logPriceOverride(
+      savedTransaction.invoiceNumber,
+      processedItems,
+      priceOverrideApprover,
+      user,
+      userAgent,
+    );
+    this.logCreditOverride(
+      savedTransaction.invoiceNumber,
+      creditOverrideApprover,
+      user,
+      userAgent,
+    );
 
     try {
       const eventData = this.realtimeEventService.createEventData(
-        'created', 'transaction', savedTransaction.id, savedTransaction,
-        { id: user.userId, email: user.email || '', role: user.role as UserRole, branchId: createTransactionDto.branchId, branch: user.branch || '' },
+        'created',
+        'transaction',
+        savedTransaction.id,
+        this.transformTransaction(savedTransaction),
+        {
+          id: user.userId,
+          email: user.email || '',
+          role: user.role as UserRole,
+          branchId: createTransactionDto.branchId,
+          branch: user.branch || '',
+        },
       );
       this.realtimeEventService.emitTransactionCreated(eventData);
     } catch {}
 
     return {
       ...this.transformTransaction(savedTransaction),
-      clientBalance: newBalance,
-      clientBalanceAfterTransaction: newBalance,
+      clientBalance: MoneyUtils.fromKobo(newBalance),
+      clientBalanceAfterTransaction: MoneyUtils.fromKobo(newBalance),
     };
   }
 
+  /** Nested create for tenders, stamped with the register session they were taken in. */
+  private tendersCreate(tenders: Tender[], registerSessionId: string | null) {
+    return tenders.length > 0
+      ? { create: tenders.map((t) => ({ ...t, registerSessionId })) }
+      : undefined;
+  }
+
+  /**
+   * Prices a line from the client's price list, falling back to the product's own price
+   * when useProductPrice is set. A typed price (kobo, 0 = none) takes precedence; the list
+   * price is returned alongside so undercutting it can be caught. List and product prices
+   * are per stock unit, so they are scaled to the unit sold by conversionFactor.
+   */
+  private async resolveLinePrice(
+    product: any,
+    quantity: number,
+    conversionFactor: number,
+    manualUnitPrice: number,
+    clientId: string | undefined,
+    date: Date,
+    useProductPrice: boolean,
+  ): Promise<{ unitPrice: number | null; listUnitPrice: number | null }> {
+    const listPrice = await this.priceListsService.resolvePrice(
+      product.id || product._id,
+      quantity * conversionFactor,
+      clientId,
+      date,
+    );
+    const stockUnitPrice = listPrice
+      ? listPrice.unitPrice
+      : useProductPrice
+        ? MoneyUtils.toKobo(product.unitPrice)
+        : null;
+    const listUnitPrice =
+      stockUnitPrice === null
+        ? null
+        : MoneyUtils.multiply(stockUnitPrice, conversionFactor);
+    return {
+      unitPrice: manualUnitPrice > 0 ? manualUnitPrice : listUnitPrice,
+      listUnitPrice,
+    };
+  }
+
+  /** Requires an authorised approver when any line is priced below its list price. */
+  private async approvePriceOverrides(
+    processedItems: any[],
+    createTransactionDto: CreateTransactionDto,
+    user: { userId: string; role: string; email?: string },
+  ): Promise<{ id: string; email: string } | undefined> {
+    const undercut = processedItems.filter(
+      (item) =>
+        item.listUnitPrice !== null && item.unitPrice < item.listUnitPrice,
+    );
+    if (undercut.length === 0) return undefined;
+
+    const lines = undercut
+      .map(
+        (item) =>
+          `${item.productName} at ${MoneyUtils.fromKobo(item.unitPrice)} (list ${MoneyUtils.fromKobo(item.listUnitPrice)})`,
+      )
+      .join(', ');
+    return this.priceListsService.approvePriceOverride(
+      user,
+      createTransactionDto.priceOverride,
+      createTransactionDto.branchId,
+      `Price below list for ${lines}`,
+    );
+  }
+
+  private logPriceOverride(
+    invoiceNumber: string,
+    processedItems: any[],
+    approver: { id: string; email: string } | undefined,
+    user: {
+      userId: string;
+      role: string;
+      email?: string;
+      name?: string;
+      branchId?: string;
+    },
+    userAgent: string,
+  ) {
+    if (!approver) return;
+    const lines = processedItems
+      .filter(
+        (item) =>
+          item.listUnitPrice !== null && item.unitPrice < item.listUnitPrice,
+      )
+      .map(
+        (item) =>
+          `${item.productName} ${MoneyUtils.fromKobo(item.unitPrice)} vs list ${MoneyUtils.fromKobo(item.listUnitPrice)}`,
+      )
+      .join(', ');
+    this.systemActivityLogService
+      .createLog({
+        action: 'PRICE_OVERRIDE_APPROVED',
+        details: `Below-list prices on ${invoiceNumber} approved by ${approver.email}: ${lines}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent) || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+  }
+
+  private logCreditOverride(
+    invoiceNumber: string,
+    approver: CreditOverrideApproval | undefined,
+    user: {
+      userId: string;
+      role: string;
+      email?: string;
+      name?: string;
+      branchId?: string;
+    },
+    userAgent: string,
+  ) {
+    if (!approver) return;
+    this.systemActivityLogService
+      .createLog({
+        action: 'CREDIT_OVERRIDE_APPROVED',
+        details: `Credit override on ${invoiceNumber} approved by ${approver.email}: ${approver.reason}`,
+        performedBy: user.email || user.name || user.userId,
+        role: user.role,
+        device: extractDeviceInfo(userAgent) || '',
+        branchId: user.branchId?.toString(),
+      })
+      .catch(() => {});
+  }
+
   async findAll(query: QueryTransactionsDto): Promise<any[]> {
     const where: any = {};
     if (query.clientId) where.clientId = query.clientId;
@@ -752,6 +1219,18 @@ export class TransactionsService {
     });
     if (!transaction) throw new NotFoundException('Transaction not found');
 
+    if (
+      updateTransactionDto.status === 'CANCELLED' &&
+      transaction.status !== 'CANCELLED'
+    ) {
+      throw new BadRequestException(
+        'Transactions cannot be cancelled by editing their status. Use POST /transactions/:id/void with a reason instead.',
+      );
+    }
+    if (transaction.status === 'CANCELLED') {
+      throw new BadRequestException('Voided transactions cannot be edited.');
+    }
+
     if (
       updateTransactionDto.loading !== undefined ||
       updateTransactionDto.loadingAndOffloading !== undefined
@@ -784,55 +1263,155 @@ export class TransactionsService {
       updateTransactionDto.loadingAndOffloading !== undefined ||
       updateTransactionDto.loading !== undefined
     ) {
-      const newTransportFare = updateTransactionDto.transportFare !== undefined ? updateTransactionDto.transportFare : transaction.transportFare;
-      const newLoadingAndOffloading = updateTransactionDto.loadingAndOffloading !== undefined ? updateTransactionDto.loadingAndOffloading : transaction.loadingAndOffloading;
-      const newLoading = updateTransactionDto.loading !== undefined ? updateTransactionDto.loading : transaction.loading;
-      updateData.total = transaction.subtotal - transaction.discount + newTransportFare + newLoadingAndOffloading + newLoading;
+      const newTransportFare =
+        updateTransactionDto.transportFare !== undefined
+          ? MoneyUtils.toKobo(updateTransactionDto.transportFare)
+          : MoneyUtils.kobo(transaction.transportFare);
+      const newLoadingAndOffloading =
+        updateTransactionDto.loadingAndOffloading !== undefined
+          ? MoneyUtils.toKobo(updateTransactionDto.loadingAndOffloading)
+          : MoneyUtils.kobo(transaction.loadingAndOffloading);
+      const newLoading =
+        updateTransactionDto.loading !== undefined
+          ? MoneyUtils.toKobo(updateTransactionDto.loading)
+          : MoneyUtils.kobo(transaction.loading);
+      updateData.total =
+        MoneyUtils.kobo(transaction.subtotal) -
+        MoneyUtils.kobo(transaction.discount) +
+        newTransportFare +
+        newLoadingAndOffloading +
+        newLoading;
+      if (transaction.type !== 'DEPOSIT') {
+        updateData.status = PaymentsService.invoiceStatus(
+          updateData.total,
+          transaction.amountPaid,
+        );
+      }
       updateData.transportFare = newTransportFare;
       updateData.loadingAndOffloading = newLoadingAndOffloading;
       updateData.loading = newLoading;
     }
 
-    // Handle amountPaid (additive delta)
+    // Handle amountPaid (additive delta). A registered client's payment is recorded
+    // as a DEPOSIT allocated to this invoice, in the same transaction as the other changes.
+    let recordPayment = false;
     if (updateTransactionDto.amountPaid !== undefined) {
-      const newAmountPaid = transaction.amountPaid + updateTransactionDto.amountPaid;
-      const effectiveTotal = updateData.total ?? transaction.total;
+      const newAmountPaid =
+        MoneyUtils.kobo(transaction.amountPaid) +
+        MoneyUtils.toKobo(updateTransactionDto.amountPaid);
+      const effectiveTotal =
+        updateData.total ?? MoneyUtils.kobo(transaction.total);
       if (newAmountPaid > effectiveTotal) {
         throw new BadRequestException('Payment amount exceeds total');
       }
-      updateData.status = newAmountPaid >= effectiveTotal ? 'COMPLETED' : 'PENDING';
+      const payment = TenderUtils.resolve(
+        updateTransactionDto.tenders,
+        updateTransactionDto.paymentMethod ?? transaction.paymentMethod,
+        MoneyUtils.toKobo(updateTransactionDto.amountPaid),
+      );
+      if (transaction.clientId && updateTransactionDto.amountPaid > 0) {
+        if (
+          transaction.type !== 'PURCHASE' &&
+          transaction.type !== 'WHOLESALE'
+        ) {
+          throw new BadRequestException(
+            'Payments can only be recorded against PURCHASE or WHOLESALE invoices.',
+          );
+        }
+        recordPayment = true;
+      } else {
+        updateData.amountPaid = newAmountPaid;
+        updateData.status = PaymentsService.invoiceStatus(
+          effectiveTotal,
+          newAmountPaid,
+        );
+        // The payment is taken now, so it counts towards the cashier's current session
+        const registerSessionId =
+          await this.registerSessionsService.findOpenSessionId(
+            user.userId,
+            transaction.branchId,
+          );
+        updateData.tenders = this.tendersCreate(
+          payment.tenders,
+          registerSessionId,
+        );
+      }
     }
 
     // Handle pickup
     if (updateTransactionDto.isPickedUp && !transaction.isPickedUp) {
       updateData.isPickedUp = true;
       updateData.pickupDate = updateTransactionDto.pickupDate || new Date();
-      if (transaction.clientId) {
-        await this.clientsService.addTransaction(
-          transaction.clientId,
-          {
-            type: 'PURCHASE',
-            amount: transaction.total,
-            description: `Pickup for Invoice #${transaction.invoiceNumber}`,
-            reference: transaction.id,
-          },
-        );
-      }
+      // No ledger posting: the invoice was debited to the client when it was created
     }
 
     // Apply remaining DTO fields (Object.assign equivalent - preserves original behavior)
-    const directFields = ['amountPaid', 'paymentMethod', 'status', 'notes', 'branchId', 'isPickedUp', 'pickupDate'];
+    const directFields: (keyof UpdateTransactionDto)[] = [
+      'paymentMethod',
+      'status',
+      'notes',
+      'branchId',
+      'isPickedUp',
+      'pickupDate',
+    ];
     for (const field of directFields) {
-      if ((updateTransactionDto as any)[field] !== undefined) {
-        updateData[field] = (updateTransactionDto as any)[field];
+      if (updateTransactionDto[field] !== undefined) {
+        updateData[field] = updateTransactionDto[field];
       }
     }
 
-    const saved = await this.prisma.transaction.update({
-      where: { id },
-      data: updateData,
-      include: this.transactionInclude,
-    });
+    // Charge edits change what a registered client owes on the invoice
+    const totalDelta =
+      updateData.total !== undefined
+        ? updateData.total - MoneyUtils.kobo(transaction.total)
+        : 0;
+    const saveEdit = async (tx: Prisma.TransactionClient) => {
+      const txn = await tx.transaction.update({
+        where: { id },
+        data: updateData,
+        include: this.transactionInclude,
+      });
+      if (transaction.clientId && totalDelta !== 0) {
+        await this.clientLedgerService.post(tx, {
+          clientId: transaction.clientId,
+          entryType: totalDelta > 0 ? 'DEBIT' : 'CREDIT',
+          amount: Math.abs(totalDelta),
+          description: `Charges adjusted on invoice ${transaction.invoiceNumber}`,
+          transactionId: id,
+          createdById: user.userId,
+        });
+      }
+      return txn;
+    };
+
+    let saved: Awaited<ReturnType<typeof saveEdit>>;
+    if (recordPayment) {
+      // The edit, the deposit and its allocation to this invoice commit together
+      await this.create(
+        {
+          type: TransactionType.DEPOSIT,
+          clientId: transaction.clientId,
+          amountPaid: updateTransactionDto.amountPaid,
+          paymentMethod:
+            updateTransactionDto.paymentMethod ?? transaction.paymentMethod,
+          tenders: updateTransactionDto.tenders,
+          branchId: transaction.branchId,
+          notes: `Payment on invoice ${transaction.invoiceNumber}`,
+          allocations: [
+            { transactionId: id, amount: updateTransactionDto.amountPaid },
+          ],
+        } as CreateTransactionDto,
+        user,
+        userAgent || '',
+        saveEdit,
+      );
+      saved = await this.prisma.transaction.findUnique({
+        where: { id },
+        include: this.transactionInclude,
+      });
+    } else {
+      saved = await this.prisma.$transaction(saveEdit);
+    }
 
     const changes = Object.keys(updateTransactionDto).join(', ');
     this.systemActivityLogService.createLog({
@@ -872,8 +1451,17 @@ export class TransactionsService {
 
     try {
       const eventData = this.realtimeEventService.createEventData(
-        'updated', 'transaction', saved.id, saved,
-        { id: user.userId, email: user.email || '', role: user.role as UserRole, branchId: saved.branchId, branch: '' },
+        'updated',
+        'transaction',
+        saved.id,
+        this.transformTransaction(saved),
+        {
+          id: user.userId,
+          email: user.email || '',
+          role: user.role as UserRole,
+          branchId: saved.branchId,
+          branch: '',
+        },
       );
       this.realtimeEventService.emitTransactionUpdated(eventData);
     } catch {}
@@ -895,9 +1483,9 @@ export class TransactionsService {
     };
 
     transactions.forEach((transaction) => {
-      report.totalSales += transaction.total;
-      report.totalDiscount += transaction.discount;
-      report.totalReceived += transaction.amountPaid;
+      report.totalSales += MoneyUtils.kobo(transaction.total);
+      report.totalDiscount += MoneyUtils.kobo(transaction.discount);
+      report.totalReceived += MoneyUtils.kobo(transaction.amountPaid);
 
       transaction.items.forEach((item) => {
         const productStats = report.productsReport.get(item.productId) || {
@@ -905,14 +1493,21 @@ export class TransactionsService {
           revenue: 0,
           units: new Map<string, number>(),
         };
-        productStats.quantity += item.quantity;
-        productStats.revenue += item.subtotal;
+        productStats.quantity += item.quantity * item.conversionFactor;
+        productStats.revenue += MoneyUtils.kobo(item.subtotal);
         const unitCount = productStats.units.get(item.unit) || 0;
         productStats.units.set(item.unit, unitCount + item.quantity);
         report.productsReport.set(item.productId, productStats);
       });
     });
 
+    report.totalSales = MoneyUtils.fromKobo(report.totalSales);
+    report.totalDiscount = MoneyUtils.fromKobo(report.totalDiscount);
+    report.totalReceived = MoneyUtils.fromKobo(report.totalReceived);
+    report.productsReport.forEach((stats) => {
+      stats.revenue = MoneyUtils.fromKobo(stats.revenue);
+    });
+
     return report;
   }
 
@@ -938,7 +1533,7 @@ export class TransactionsService {
 
     if (calculateTransactionDto.clientId) {
       const client = await this.clientsService.findById(calculateTransactionDto.clientId);
-      clientBalance = client.balance || 0;
+      clientBalance = MoneyUtils.toKobo(client.balance);
     } else if (!calculateTransactionDto.walkInClient?.name) {
       throw new BadRequestException('Either clientId or walkInClient details (name) must be provided');
     }
@@ -950,7 +1545,7 @@ export class TransactionsService {
       if (!calculateTransactionDto.amountPaid || calculateTransactionDto.amountPaid <= 0) {
         throw new BadRequestException('Deposit amount must be greater than 0');
       }
-      subtotal = calculateTransactionDto.amountPaid;
+      subtotal = MoneyUtils.toKobo(calculateTransactionDto.amountPaid);
     } else if (calculateTransactionDto.type === 'WHOLESALE') {
       if (!calculateTransactionDto.clientId) {
         throw new BadRequestException('WHOLESALE transactions are only allowed for registered clients');
@@ -970,27 +1565,38 @@ export class TransactionsService {
               `WHOLESALE transactions are only allowed for cement products. "${product.name}" is not a cement product.`,
             );
           }
-          if (item.unit !== product.unit) {
-            throw new BadRequestException(
-              `Invalid unit ${item.unit} for product ${product.name}. This product only accepts ${product.unit}`,
+          const conversionFactor =
+            await this.unitConversionService.resolveFactor(product, item.unit);
+          const { unitPrice: wholesaleUnitPrice, listUnitPrice } =
+            await this.resolveLinePrice(
+              product,
+              item.quantity,
+              conversionFactor,
+              MoneyUtils.toKobo(item.unitPrice ?? item.wholesalePrice),
+              calculateTransactionDto.clientId,
+              new Date(),
+              false,
             );
-          }
-          const wholesaleUnitPrice = item.unitPrice ?? item.wholesalePrice;
           if (!wholesaleUnitPrice || wholesaleUnitPrice <= 0) {
             throw new BadRequestException(
               `Wholesale unit price is required and must be greater than 0 for product ${product.name}`,
             );
           }
-          const price = wholesaleUnitPrice * item.quantity;
-          const itemSubtotal = price - (item.discount || 0);
+          const price = MoneyUtils.multiply(wholesaleUnitPrice, item.quantity);
+          const itemDiscount = MoneyUtils.toKobo(item.discount);
+          const itemSubtotal = price - itemDiscount;
           subtotal += itemSubtotal;
           return {
             productId: product.id || product._id,
             productName: product.name,
             quantity: item.quantity,
             unit: item.unit,
+            conversionFactor,
             unitPrice: wholesaleUnitPrice,
-            discount: item.discount || 0,
+            listUnitPrice,
+            belowListPrice:
+              listUnitPrice !== null && wholesaleUnitPrice < listUnitPrice,
+            discount: itemDiscount,
             subtotal: itemSubtotal,
             wholesalePrice: wholesaleUnitPrice,
           };
@@ -1003,36 +1609,50 @@ export class TransactionsService {
       processedItems = await Promise.all(
         calculateTransactionDto.items.map(async (item) => {
           const product = await this.productsService.findById(item.productId);
-          if (item.unit !== product.unit) {
-            throw new BadRequestException(
-              `Invalid unit ${item.unit} for product ${product.name}. This product only accepts ${product.unit}`,
-            );
-          }
-          if (product.stock < item.quantity) {
+          const conversionFactor =
+            await this.unitConversionService.resolveFactor(product, item.unit);
+          if (product.stock < item.quantity * conversionFactor) {
             throw new BadRequestException(
               `Insufficient stock for ${product.name}. Available: ${product.stock} ${product.unit}`,
             );
           }
-          const price = product.unitPrice * item.quantity;
-          const itemSubtotal = price - (item.discount || 0);
+          const { unitPrice, listUnitPrice } = await this.resolveLinePrice(
+            product,
+            item.quantity,
+            conversionFactor,
+            MoneyUtils.toKobo(item.unitPrice),
+            calculateTransactionDto.clientId,
+            new Date(),
+            true,
+          );
+          const price = MoneyUtils.multiply(unitPrice, item.quantity);
+          const itemDiscount = MoneyUtils.toKobo(item.discount);
+          const itemSubtotal = price - itemDiscount;
           subtotal += itemSubtotal;
           return {
             productId: product.id || product._id,
             productName: product.name,
             quantity: item.quantity,
             unit: item.unit,
-            unitPrice: product.unitPrice,
-            discount: item.discount || 0,
+            conversionFactor,
+            unitPrice,
+            listUnitPrice,
+            belowListPrice: unitPrice < listUnitPrice,
+            discount: itemDiscount,
             subtotal: itemSubtotal,
           };
         }),
       );
     }
 
-    const discount = calculateTransactionDto.discount || 0;
-    const transportFare = calculateTransactionDto.transportFare || 0;
-    const loadingAndOffloading = calculateTransactionDto.loadingAndOffloading || 0;
-    const loading = calculateTransactionDto.loading || 0;
+    const discount = MoneyUtils.toKobo(calculateTransactionDto.discount);
+    const transportFare = MoneyUtils.toKobo(
+      calculateTransactionDto.transportFare,
+    );
+    const loadingAndOffloading = MoneyUtils.toKobo(
+      calculateTransactionDto.loadingAndOffloading,
+    );
+    const loading = MoneyUtils.toKobo(calculateTransactionDto.loading);
     const total = subtotal - discount + transportFare + loadingAndOffloading + loading;
 
     let requiredPayment = total;
@@ -1051,16 +1671,16 @@ export class TransactionsService {
 
     if (calculateTransactionDto.clientId) {
       if (calculateTransactionDto.type === 'DEPOSIT') {
-        paymentDetails.message = `Deposit amount: ${total}`;
+        paymentDetails.message = `Deposit amount: ${MoneyUtils.fromKobo(total)}`;
       } else if (calculateTransactionDto.type === 'PURCHASE' || calculateTransactionDto.type === 'WHOLESALE') {
         const minimumPayment = Math.max(0, total - clientBalance);
         requiredPayment = minimumPayment;
         const label = calculateTransactionDto.type === 'WHOLESALE' ? 'WHOLESALE' : 'PURCHASE';
         if (clientBalance >= total) {
-          paymentDetails.message = `${label}: You can pay 0 (balance ${clientBalance} covers all) up to any amount. Excess becomes credit.`;
+          paymentDetails.message = `${label}: You can pay 0 (balance ${MoneyUtils.fromKobo(clientBalance)} covers all) up to any amount. Excess becomes credit.`;
         } else {
           const shortfall = total - clientBalance;
-          paymentDetails.message = `${label}: You can pay any amount from 0 to ${total}. Paying less than ${shortfall} will create debt. Current balance: ${clientBalance}`;
+          paymentDetails.message = `${label}: You can pay any amount from 0 to ${MoneyUtils.fromKobo(total)}. Paying less than ${MoneyUtils.fromKobo(shortfall)} will create debt. Current balance: ${MoneyUtils.fromKobo(clientBalance)}`;
         }
         paymentDetails.canUseCreditBalance = true;
       }
@@ -1071,30 +1691,67 @@ export class TransactionsService {
       if (calculateTransactionDto.type === 'WHOLESALE') {
         throw new BadRequestException('WHOLESALE transactions are only allowed for registered clients.');
       }
-      paymentDetails.message = `Walk-in client must pay full amount: ${total}`;
+      paymentDetails.message = `Walk-in client must pay full amount: ${MoneyUtils.fromKobo(total)}`;
     }
 
     paymentDetails.requiredPayment = requiredPayment;
-    return { ...paymentDetails, items: processedItems };
+    paymentDetails.priceOverrideRequired = processedItems.some(
+      (item) => item.belowListPrice,
+    );
+    return {
+      ...MoneyUtils.fieldsToNaira(paymentDetails, [
+        'subtotal',
+        'discount',
+        'transportFare',
+        'loadingAndOffloading',
+        'loading',
+        'total',
+        'clientBalance',
+        'requiredPayment',
+      ]),
+      items: processedItems.map((item) =>
+        MoneyUtils.fieldsToNaira(item, TRANSACTION_ITEM_MONEY_FIELDS),
+      ),
+    };
+  }
+
+  /**
+   * Revenue figures for a transaction. The part of a deposit allocated to an
+   * invoice is already in that invoice's amountPaid, so only the unallocated
+   * rest of the deposit is counted.
+   */
+  private revenueAmounts(t: {
+    total: bigint;
+    amountPaid: bigint;
+    payment: { allocatedAmount: bigint } | null;
+  }) {
+    const allocated = MoneyUtils.kobo(t.payment?.allocatedAmount);
+    return {
+      total: MoneyUtils.kobo(t.total) - allocated,
+      amountPaid: MoneyUtils.kobo(t.amountPaid) - allocated,
+    };
   }
 
   async getTotalRevenue(branchId?: string, startDate?: Date, endDate?: Date) {
-    const where: any = {
+    const where: Prisma.TransactionWhereInput = {
       type: { in: ['PURCHASE', 'DEPOSIT', 'WHOLESALE'] },
       status: { not: 'CANCELLED' },
+      ...(branchId ? { branchId } : {}),
+      ...(startDate || endDate
+        ? { date: { gte: startDate, lte: endDate } }
+        : {}),
     };
-    if (branchId) where.branchId = branchId;
-    if (startDate || endDate) {
-      where.date = {};
-      if (startDate) where.date.gte = startDate;
-      if (endDate) where.date.lte = endDate;
-    }
 
     const agg = await this.prisma.transaction.aggregate({
       _sum: { total: true, amountPaid: true, discount: true },
       _count: { id: true },
       where,
     });
+    const allocated = await this.prisma.payment.aggregate({
+      _sum: { allocatedAmount: true },
+      where: { transactionRef: where },
+    });
+    const allocatedKobo = MoneyUtils.kobo(allocated._sum.allocatedAmount);
 
     const recentTransactions = await this.prisma.transaction.findMany({
       where,
@@ -1104,10 +1761,14 @@ export class TransactionsService {
     });
 
     return {
-      totalRevenue: agg._sum.total || 0,
+      totalRevenue: MoneyUtils.fromKobo(
+        MoneyUtils.kobo(agg._sum.total) - allocatedKobo,
+      ),
       transactionCount: agg._count.id || 0,
-      totalAmountPaid: agg._sum.amountPaid || 0,
-      totalDiscount: agg._sum.discount || 0,
+      totalAmountPaid: MoneyUtils.fromKobo(
+        MoneyUtils.kobo(agg._sum.amountPaid) - allocatedKobo,
+      ),
+      totalDiscount: MoneyUtils.fromKobo(agg._sum.discount),
       period: this.formatPeriod(startDate, endDate),
       recentTransactions: recentTransactions.map((t) => this.transformTransaction(t)),
     };
@@ -1128,35 +1789,46 @@ export class TransactionsService {
 
     const transactions = await this.prisma.transaction.findMany({
       where: {
-        type: { in: ['PURCHASE', 'DEPOSIT'] as any },
-        status: { not: 'CANCELLED' as any },
+        type: { in: ['PURCHASE', 'DEPOSIT'] },
+        status: { not: 'CANCELLED' },
         date: { gte: dateRange.start, lt: dateRange.end },
         ...(branchId ? { branchId } : {}),
       },
+      include: { payment: { select: { allocatedAmount: true } } },
     });
 
     const dayMap = new Map<string, { revenue: number; count: number; amountPaid: number }>();
     transactions.forEach((t) => {
       const day = t.date ? new Date(t.date).toISOString().split('T')[0] : 'unknown';
       const existing = dayMap.get(day) || { revenue: 0, count: 0, amountPaid: 0 };
-      existing.revenue += t.total;
+      const { total, amountPaid } = this.revenueAmounts(t);
+      existing.revenue += total;
       existing.count += 1;
-      existing.amountPaid += t.amountPaid;
+      existing.amountPaid += amountPaid;
       dayMap.set(day, existing);
     });
 
     const breakdown = Array.from(dayMap.entries()).map(([d, v]) => ({
       date: d,
-      revenue: v.revenue,
+      revenue: MoneyUtils.fromKobo(v.revenue),
       transactions: v.count,
-      amountPaid: v.amountPaid,
+      amountPaid: MoneyUtils.fromKobo(v.amountPaid),
     }));
 
     return {
-      totalRevenue: transactions.reduce((s, t) => s + t.total, 0),
+      totalRevenue: MoneyUtils.fromKobo(
+        MoneyUtils.sum(transactions.map((t) => this.revenueAmounts(t).total)),
+      ),
       transactionCount: transactions.length,
-      totalAmountPaid: transactions.reduce((s, t) => s + t.amountPaid, 0),
-      period: startDate && endDate ? this.formatPeriod(startDate, endDate) : targetDate.toISOString().split('T')[0],
+      totalAmountPaid: MoneyUtils.fromKobo(
+        MoneyUtils.sum(
+          transactions.map((t) => this.revenueAmounts(t).amountPaid),
+        ),
+      ),
+      period:
+        startDate && endDate
+          ? this.formatPeriod(startDate, endDate)
+          : targetDate.toISOString().split('T')[0],
       breakdown,
     };
   }
@@ -1178,11 +1850,12 @@ export class TransactionsService {
 
     const transactions = await this.prisma.transaction.findMany({
       where: {
-        type: { in: ['PURCHASE', 'DEPOSIT', 'WHOLESALE'] as any },
-        status: { not: 'CANCELLED' as any },
+        type: { in: ['PURCHASE', 'DEPOSIT', 'WHOLESALE'] },
+        status: { not: 'CANCELLED' },
         date: { gte: dateRange.start, lt: dateRange.end },
         ...(branchId ? { branchId } : {}),
       },
+      include: { payment: { select: { allocatedAmount: true } } },
     });
 
     const monthMap = new Map<string, { revenue: number; count: number; amountPaid: number }>();
@@ -1190,24 +1863,34 @@ export class TransactionsService {
       const d = t.date ? new Date(t.date) : new Date();
       const key = `${d.getFullYear()}-${(d.getMonth() + 1).toString().padStart(2, '0')}`;
       const existing = monthMap.get(key) || { revenue: 0, count: 0, amountPaid: 0 };
-      existing.revenue += t.total;
+      const { total, amountPaid } = this.revenueAmounts(t);
+      existing.revenue += total;
       existing.count += 1;
-      existing.amountPaid += t.amountPaid;
+      existing.amountPaid += amountPaid;
       monthMap.set(key, existing);
     });
 
     const breakdown = Array.from(monthMap.entries()).map(([m, v]) => ({
       month: m,
-      revenue: v.revenue,
+      revenue: MoneyUtils.fromKobo(v.revenue),
       transactions: v.count,
-      amountPaid: v.amountPaid,
+      amountPaid: MoneyUtils.fromKobo(v.amountPaid),
     }));
 
     return {
-      totalRevenue: transactions.reduce((s, t) => s + t.total, 0),
+      totalRevenue: MoneyUtils.fromKobo(
+        MoneyUtils.sum(transactions.map((t) => this.revenueAmounts(t).total)),
+      ),
       transactionCount: transactions.length,
-      totalAmountPaid: transactions.reduce((s, t) => s + t.amountPaid, 0),
-      period: startDate && endDate ? this.formatPeriod(startDate, endDate) : `${targetYear}-${targetMonth.toString().padStart(2, '0')}`,
+      totalAmountPaid: MoneyUtils.fromKobo(
+        MoneyUtils.sum(
+          transactions.map((t) => this.revenueAmounts(t).amountPaid),
+        ),
+      ),
+      period:
+        startDate && endDate
+          ? this.formatPeriod(startDate, endDate)
+          : `${targetYear}-${targetMonth.toString().padStart(2, '0')}`,
       breakdown,
     };
   }
@@ -1227,11 +1910,12 @@ export class TransactionsService {
 
     const transactions = await this.prisma.transaction.findMany({
       where: {
-        type: { in: ['PURCHASE', 'DEPOSIT'] as any },
-        status: { not: 'CANCELLED' as any },
+        type: { in: ['PURCHASE', 'DEPOSIT'] },
+        status: { not: 'CANCELLED' },
         date: { gte: dateRange.start, lt: dateRange.end },
         ...(branchId ? { branchId } : {}),
       },
+      include: { payment: { select: { allocatedAmount: true } } },
     });
 
     const yearMap = new Map<string, { revenue: number; count: number; amountPaid: number }>();
@@ -1239,24 +1923,34 @@ export class TransactionsService {
       const d = t.date ? new Date(t.date) : new Date();
       const key = d.getFullYear().toString();
       const existing = yearMap.get(key) || { revenue: 0, count: 0, amountPaid: 0 };
-      existing.revenue += t.total;
+      const { total, amountPaid } = this.revenueAmounts(t);
+      existing.revenue += total;
       existing.count += 1;
-      existing.amountPaid += t.amountPaid;
+      existing.amountPaid += amountPaid;
       yearMap.set(key, existing);
     });
 
     const breakdown = Array.from(yearMap.entries()).map(([y, v]) => ({
       year: y,
-      revenue: v.revenue,
+      revenue: MoneyUtils.fromKobo(v.revenue),
       transactions: v.count,
-      amountPaid: v.amountPaid,
+      amountPaid: MoneyUtils.fromKobo(v.amountPaid),
     }));
 
     return {
-      totalRevenue: transactions.reduce((s, t) => s + t.total, 0),
+      totalRevenue: MoneyUtils.fromKobo(
+        MoneyUtils.sum(transactions.map((t) => this.revenueAmounts(t).total)),
+      ),
       transactionCount: transactions.length,
-      totalAmountPaid: transactions.reduce((s, t) => s + t.amountPaid, 0),
-      period: startDate && endDate ? this.formatPeriod(startDate, endDate) : targetYear.toString(),
+      totalAmountPaid: MoneyUtils.fromKobo(
+        MoneyUtils.sum(
+          transactions.map((t) => this.revenueAmounts(t).amountPaid),
+        ),
+      ),
+      period:
+        startDate && endDate
+          ? this.formatPeriod(startDate, endDate)
+          : targetYear.toString(),
       breakdown,
     };
   }
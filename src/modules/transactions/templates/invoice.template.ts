@@ -0,0 +1,146 @@
+import { PdfLetterhead, PdfUtils } from '../../../common/utils/pdf.utils';
+import { KoboValue, MoneyUtils } from '../../../common/utils/money.utils';
+import { TenderUtils } from '../../../common/utils/tender.utils';
+
+const TITLES: Record<string, string> = {
+  PURCHASE: 'INVOICE',
+  WHOLESALE: 'WHOLESALE INVOICE',
+  DEPOSIT: 'DEPOSIT RECEIPT',
+  RETURN: 'CREDIT NOTE',
+};
+
+export function customerLines(transaction: any): string {
+  const client = transaction.clientRef;
+  const parts = client
+    ? [client.name, client.phone, client.address]
+    : [
+        transaction.walkInClientName,
+        transaction.walkInClientPhone,
+        transaction.walkInClientAddress,
+      ];
+  return parts.filter(Boolean).join('\n') || 'Walk-in customer';
+}
+
+/**
+ * Invoice layout. Expects the raw transaction row (amounts in kobo) with
+ * items, extraCharges, clientRef and userRef loaded.
+ */
+export function renderInvoice(
+  doc: PDFKit.PDFDocument,
+  transaction: any,
+  branch: PdfLetterhead,
+) {
+  PdfUtils.letterhead(doc, branch, TITLES[transaction.type] || 'INVOICE');
+
+  const details: Array<[string, string]> = [
+    ['Invoice No.', transaction.invoiceNumber],
+    ['Date', PdfUtils.date(transaction.date || transaction.createdAt)],
+    ['Customer', customerLines(transaction)],
+  ];
+  if (transaction.waybillNumber) {
+    details.push(['Waybill No.', transaction.waybillNumber]);
+  }
+  if (transaction.referenceTransaction) {
+    details.push([
+      'Original Invoice',
+      transaction.referenceTransaction.invoiceNumber,
+    ]);
+  }
+  if (transaction.paymentMethod) {
+    details.push(['Payment Method', transaction.paymentMethod]);
+  }
+  details.push(['Served By', transaction.userRef?.name || '-']);
+  if (transaction.status === 'CANCELLED') {
+    details.push(['Status', 'VOIDED']);
+  }
+  PdfUtils.details(doc, details);
+
+  if (transaction.items.length > 0) {
+    PdfUtils.table(
+      doc,
+      [
+        { header: '#', width: 25 },
+        { header: 'Description', width: 170 },
+        { header: 'Qty', width: 45, align: 'right' },
+        { header: 'Unit', width: 70 },
+        { header: 'Unit Price', width: 70, align: 'right' },
+        { header: 'Discount', width: 55, align: 'right' },
+        { header: 'Amount', width: 80, align: 'right' },
+      ],
+      transaction.items.map((item: any, i: number) => [
+        String(i + 1),
+        item.productName,
+        String(item.quantity),
+        item.unit,
+        PdfUtils.money(item.unitPrice),
+        MoneyUtils.kobo(item.discount) > 0
+          ? PdfUtils.money(item.discount)
+          : '-',
+        PdfUtils.money(item.subtotal),
+      ]),
+    );
+  }
+
+  const totals: Array<[string, string, boolean?]> = [
+    ['Subtotal', PdfUtils.money(transaction.subtotal)],
+  ];
+  if (MoneyUtils.kobo(transaction.discount) > 0) {
+    totals.push(['Discount', `-${PdfUtils.money(transaction.discount)}`]);
+  }
+  const charges: Array<[string, KoboValue]> = [
+    ['Transport Fare', transaction.transportFare],
+    ['Loading & Offloading', transaction.loadingAndOffloading],
+    ['Loading', transaction.loading],
+    ...(transaction.extraCharges || []).map(
+      (c: any) => [c.name, c.amount] as [string, KoboValue],
+    ),
+  ];
+  for (const [label, amount] of charges) {
+    if (MoneyUtils.kobo(amount) > 0) {
+      totals.push([label, PdfUtils.money(amount)]);
+    }
+  }
+  totals.push(['Total', PdfUtils.money(transaction.total), true]);
+
+  if (transaction.type === 'RETURN') {
+    totals.push([
+      'Cash Refunded',
+      PdfUtils.money(transaction.actualAmountReturned),
+    ]);
+  } else {
+    totals.push(['Amount Paid', PdfUtils.money(transaction.amountPaid)]);
+    const tenders = transaction.tenders || [];
+    if (tenders.length > 1) {
+      for (const tender of tenders) {
+        totals.push([
+          `  ${TenderUtils.describe(tender)}`,
+          PdfUtils.money(tender.amount),
+        ]);
+      }
+    }
+  }
+
+  if (
+    transaction.clientId &&
+    transaction.clientBalanceAfterTransaction !== null
+  ) {
+    const balance = MoneyUtils.kobo(transaction.clientBalanceAfterTransaction);
+    totals.push([
+      'Account Balance',
+      `${PdfUtils.money(Math.abs(balance))} ${balance < 0 ? 'DR' : 'CR'}`,
+      true,
+    ]);
+  }
+  PdfUtils.totals(doc, totals);
+
+  if (transaction.notes) {
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(9).text('Notes');
+    doc.font('Helvetica').text(transaction.notes);
+  }
+
+  PdfUtils.footer(
+    doc,
+    `${branch.name} - ${transaction.invoiceNumber} - Account balance: CR = in credit, DR = owing`,
+  );
+}
@@ -0,0 +1,112 @@
+import { EscPosUtils, ReceiptLine } from '../../../common/utils/escpos.utils';
+import { KoboValue, MoneyUtils } from '../../../common/utils/money.utils';
+import { PdfLetterhead, PdfUtils } from '../../../common/utils/pdf.utils';
+import { TenderUtils } from '../../../common/utils/tender.utils';
+
+const TITLES: Record<string, string> = {
+  PURCHASE: 'SALES RECEIPT',
+  WHOLESALE: 'WHOLESALE RECEIPT',
+  DEPOSIT: 'DEPOSIT RECEIPT',
+  RETURN: 'RETURN RECEIPT',
+};
+
+const money = (kobo: KoboValue) =>
+  EscPosUtils.amount(MoneyUtils.fromKobo(kobo));
+
+/**
+ * Counter receipt for a thermal printer, `width` characters wide. Expects
+ * the raw transaction row (amounts in kobo) with items, extraCharges,
+ * tenders, clientRef and userRef loaded.
+ */
+export function buildReceipt(
+  transaction: any,
+  branch: PdfLetterhead,
+  width: number,
+): ReceiptLine[] {
+  const lines: ReceiptLine[] = [];
+  const add = (texts: string[], options: Omit<ReceiptLine, 'text'> = {}) =>
+    texts.forEach((text) => lines.push({ text, ...options }));
+  const pair = (left: string, right: string, bold = false) =>
+    add(EscPosUtils.pair(left, right, width), { bold });
+
+  add(EscPosUtils.wrap(branch.name.toUpperCase(), width), {
+    align: 'center',
+    bold: true,
+  });
+  add(EscPosUtils.wrap(branch.address, width), { align: 'center' });
+  add([`Tel: ${branch.phone}`], { align: 'center' });
+  lines.push(EscPosUtils.rule(width));
+  add([TITLES[transaction.type] || 'RECEIPT'], {
+    align: 'center',
+    bold: true,
+  });
+  pair('Invoice', transaction.invoiceNumber);
+  pair('Date', PdfUtils.date(transaction.date || transaction.createdAt));
+  const customer = transaction.clientRef?.name || transaction.walkInClientName;
+  if (customer) pair('Customer', customer);
+  if (transaction.referenceTransaction) {
+    pair('Original', transaction.referenceTransaction.invoiceNumber);
+  }
+  lines.push(EscPosUtils.rule(width));
+
+  for (const item of transaction.items) {
+    add(EscPosUtils.wrap(item.productName, width));
+    pair(
+      `${item.quantity} ${item.unit} x ${money(item.unitPrice)}`,
+      money(item.subtotal),
+    );
+    if (MoneyUtils.kobo(item.discount) > 0) {
+      pair('Discount', `-${money(item.discount)}`);
+    }
+  }
+  if (transaction.items.length > 0) lines.push(EscPosUtils.rule(width));
+
+  pair('Subtotal', money(transaction.subtotal));
+  if (MoneyUtils.kobo(transaction.discount) > 0) {
+    pair('Discount', `-${money(transaction.discount)}`);
+  }
+  const charges: Array<[string, KoboValue]> = [
+    ['Transport Fare', transaction.transportFare],
+    ['Loading & Offloading', transaction.loadingAndOffloading],
+    ['Loading', transaction.loading],
+    ...(transaction.extraCharges || []).map(
+      (c: any) => [c.name, c.amount] as [string, KoboValue],
+    ),
+  ];
+  for (const [label, amount] of charges) {
+    if (MoneyUtils.kobo(amount) > 0) pair(label, money(amount));
+  }
+  pair('TOTAL (NGN)', money(transaction.total), true);
+
+  if (transaction.type === 'RETURN') {
+    pair('Cash Refunded', money(transaction.actualAmountReturned));
+  } else {
+    pair('Amount Paid', money(transaction.amountPaid));
+  }
+  const tenders = transaction.tenders || [];
+  if (tenders.length > 1) {
+    for (const tender of tenders) {
+      pair(TenderUtils.describe(tender), money(tender.amount));
+    }
+  } else if (transaction.paymentMethod) {
+    pair('Paid By', transaction.paymentMethod);
+  }
+  if (
+    transaction.clientId &&
+    transaction.clientBalanceAfterTransaction !== null
+  ) {
+    const balance = MoneyUtils.kobo(transaction.clientBalanceAfterTransaction);
+    pair(
+      'Account Balance',
+      `${money(Math.abs(balance))} ${balance < 0 ? 'DR' : 'CR'}`,
+    );
+  }
+  lines.push(EscPosUtils.rule(width));
+
+  pair('Cashier', transaction.userRef?.name || '-');
+  if (transaction.waybillNumber) pair('Waybill', transaction.waybillNumber);
+  lines.push({ text: '' });
+  add(['Thank you for your patronage'], { align: 'center' });
+
+  return lines;
+}
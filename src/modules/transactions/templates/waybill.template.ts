@@ -0,0 +1,49 @@
+import { PdfLetterhead, PdfUtils } from '../../../common/utils/pdf.utils';
+import { customerLines } from './invoice.template';
+
+/**
+ * Waybill layout for the goods on a sale. Quantities only: prices are left
+ * off because the waybill travels with the driver.
+ */
+export function renderWaybill(
+  doc: PDFKit.PDFDocument,
+  transaction: any,
+  branch: PdfLetterhead,
+) {
+  PdfUtils.letterhead(doc, branch, 'WAYBILL');
+
+  PdfUtils.details(doc, [
+    ['Waybill No.', transaction.waybillNumber],
+    ['Invoice No.', transaction.invoiceNumber],
+    ['Date', PdfUtils.date(transaction.date || transaction.createdAt)],
+    ['Deliver To', customerLines(transaction)],
+    ['Dispatched From', `${branch.name}\n${branch.address}`],
+  ]);
+
+  PdfUtils.table(
+    doc,
+    [
+      { header: '#', width: 30 },
+      { header: 'Description', width: 275 },
+      { header: 'Quantity', width: 90, align: 'right' },
+      { header: 'Unit', width: 120 },
+    ],
+    transaction.items.map((item: any, i: number) => [
+      String(i + 1),
+      item.productName,
+      String(item.quantity),
+      item.unit,
+    ]),
+  );
+
+  if (transaction.notes) {
+    doc.font('Helvetica-Bold').fontSize(9).text('Notes');
+    doc.font('Helvetica').text(transaction.notes);
+  }
+
+  PdfUtils.signatures(doc, ['Dispatched By', 'Driver', 'Received By']);
+  PdfUtils.footer(
+    doc,
+    `${branch.name} - Waybill ${transaction.waybillNumber} - Goods received in good condition`,
+  );
+}
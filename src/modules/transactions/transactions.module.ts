@@ -1,22 +1,44 @@
 import { Module } from '@nestjs/common';
 import { TransactionsService } from './services/transactions.service';
+import { TransactionVoidService } from './services/transaction-void.service';
+import { TransactionDocumentsService } from './services/transaction-documents.service';
+import { PaymentsService } from './services/payments.service';
 import { TransactionsController } from './controllers/transactions.controller';
+import { PaymentsController } from './controllers/payments.controller';
+import { ClientInvoicesController } from './controllers/client-invoices.controller';
 import { ProductsModule } from '../products/products.module';
 import { ClientsModule } from '../clients/clients.module';
 import { CategoriesModule } from '../categories/categories.module';
+import { PriceListsModule } from '../price-lists/price-lists.module';
+import { PaymentPlansModule } from '../payment-plans/payment-plans.module';
 import { SystemActivityLogModule } from '../system-activity-logs/system-activity-log.module';
 import { WebSocketModule } from '../websocket/websocket.module';
+import { ColumnSettingsModule } from '../column-settings/column-settings.module';
+import { RegisterSessionsModule } from '../register-sessions/register-sessions.module';
 
 @Module({
   imports: [
     ProductsModule,
     ClientsModule,
     CategoriesModule,
+    PriceListsModule,
+    PaymentPlansModule,
     SystemActivityLogModule,
     WebSocketModule,
+    ColumnSettingsModule,
+    RegisterSessionsModule,
   ],
-  providers: [TransactionsService],
-  controllers: [TransactionsController],
-  exports: [TransactionsService],
+  providers: [
+    TransactionsService,
+    TransactionVoidService,
+    TransactionDocumentsService,
+    PaymentsService,
+  ],
+  controllers: [
+    TransactionsController,
+    PaymentsController,
+    ClientInvoicesController,
+  ],
+  exports: [TransactionsService, PaymentsService],
 })
 export class TransactionsModule {}
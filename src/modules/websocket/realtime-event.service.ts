@@ -4,7 +4,14 @@ import { UserRole } from '../../common/enums';
 
 export interface RealtimeEventData {
   action: string;
-  resourceType: 'product' | 'client' | 'user' | 'transaction' | 'category' | 'branch';
+  resourceType:
+    | 'product'
+    | 'client'
+    | 'user'
+    | 'transaction'
+    | 'category'
+    | 'branch'
+    | 'stock_transfer';
   resourceId: string;
   data: any;
   actorId: string;
@@ -50,6 +57,23 @@ export class RealtimeEventService {
     this.websocketGateway.emitUpdate('client_balance_updated', data, data.actorRole, data.branchId);
   }
 
+  // Credit hold alerts (sent to the admin room of each affected branch)
+  emitClientCreditHoldPlaced(data: RealtimeEventData, branchIds: string[]) {
+    this.websocketGateway.emitToBranchAdmins(
+      'client_credit_hold_placed',
+      data,
+      branchIds,
+    );
+  }
+
+  emitClientCreditHoldReleased(data: RealtimeEventData, branchIds: string[]) {
+    this.websocketGateway.emitToBranchAdmins(
+      'client_credit_hold_released',
+      data,
+      branchIds,
+    );
+  }
+
   // User events
   emitUserCreated(data: RealtimeEventData) {
     this.websocketGateway.emitUpdate('user_created', data, data.actorRole, data.branchId);
@@ -88,6 +112,52 @@ export class RealtimeEventService {
     this.websocketGateway.emitUpdate('sale_completed', data, data.actorRole, data.branchId);
   }
 
+  emitTransactionVoidRequested(data: RealtimeEventData) {
+    this.websocketGateway.emitUpdate(
+      'transaction_void_requested',
+      data,
+      data.actorRole,
+      data.branchId,
+    );
+  }
+
+  emitTransactionVoided(data: RealtimeEventData) {
+    this.websocketGateway.emitUpdate(
+      'transaction_voided',
+      data,
+      data.actorRole,
+      data.branchId,
+    );
+  }
+
+  // Stock transfer events (sent to both the source and destination branch)
+  emitStockTransferDispatched(data: RealtimeEventData, branchIds: string[]) {
+    this.websocketGateway.emitToBranches(
+      'stock_transfer_dispatched',
+      data,
+      data.actorRole,
+      branchIds,
+    );
+  }
+
+  emitStockTransferReceived(data: RealtimeEventData, branchIds: string[]) {
+    this.websocketGateway.emitToBranches(
+      'stock_transfer_received',
+      data,
+      data.actorRole,
+      branchIds,
+    );
+  }
+
+  emitStockTransferCancelled(data: RealtimeEventData, branchIds: string[]) {
+    this.websocketGateway.emitToBranches(
+      'stock_transfer_cancelled',
+      data,
+      data.actorRole,
+      branchIds,
+    );
+  }
+
   // Category events
   emitCategoryCreated(data: RealtimeEventData) {
     this.websocketGateway.emitUpdate('category_created', data, data.actorRole, data.branchId);
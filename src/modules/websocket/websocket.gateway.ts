@@ -267,6 +267,53 @@ export class AppWebSocketGateway
     this.emitToHierarchy(event, data, actorRole, branchId);
   }
 
+  // Emit an event that concerns more than one branch (e.g. stock transfers).
+  // The actor's hierarchy is notified as usual and every other branch room gets the event too.
+  emitToBranches(
+    event: string,
+    data: any,
+    actorRole: UserRole,
+    branchIds: string[],
+  ) {
+    this.emitToHierarchy(event, data, actorRole, data.branchId);
+
+    const otherBranches = [...new Set(branchIds)].filter(
+      (id) => id && id !== data.branchId,
+    );
+    otherBranches.forEach((branchId) => {
+      this.server.to(`branch_${branchId}`).emit(event, {
+        ...data,
+        timestamp: new Date(),
+        actorRole,
+        branchId,
+      });
+    });
+
+    if (otherBranches.length) {
+      this.logger.log(
+        `Emitted ${event} to branch rooms: ${otherBranches.map((id) => `branch_${id}`).join(', ')}`,
+      );
+    }
+  }
+
+  // Alert the ADMIN room of each given branch, plus SUPER_ADMINs, regardless of who the actor was
+  // (e.g. credit holds placed by the scheduled sweep).
+  emitToBranchAdmins(event: string, data: any, branchIds: string[]) {
+    const rooms = [...new Set(branchIds)]
+      .filter(Boolean)
+      .map((id) => `admin_${id}`);
+    rooms.push('super_admin');
+
+    rooms.forEach((room) => {
+      this.server.to(room).emit(event, {
+        ...data,
+        timestamp: new Date(),
+      });
+    });
+
+    this.logger.log(`Emitted ${event} to rooms: ${rooms.join(', ')}`);
+  }
+
   @SubscribeMessage('ping')
   handlePing(@MessageBody() data: any, @ConnectedSocket() client: AuthenticatedSocket) {
     return { event: 'pong', data: 'Connection is alive' };